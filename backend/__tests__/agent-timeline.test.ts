@@ -0,0 +1,55 @@
+import type { AgentTimelineEntry } from '../agent-timeline.js';
+import { isTestCommand, summarizeTimeline } from '../agent-timeline.js';
+
+const toolUse = (tool: string, content: string, toolUseId: string | null = null): AgentTimelineEntry =>
+  ({ kind: 'tool_use', tool, toolUseId, content, isError: false });
+
+const toolResult = (tool: string, toolUseId: string, isError: boolean): AgentTimelineEntry =>
+  ({ kind: 'tool_result', tool, toolUseId, content: isError ? 'failed' : 'ok', isError });
+
+describe('summarizeTimeline', () => {
+  it('should list edited files once, in the order they were first touched', () => {
+    const summary = summarizeTimeline([
+      toolUse('Read', 'src/config.ts'),
+      toolUse('Edit', 'src/app.ts'),
+      toolUse('Write', 'src/new.ts'),
+      toolUse('MultiEdit', 'src/app.ts'),
+    ]);
+
+    expect(summary.filesTouched).toEqual(['src/app.ts', 'src/new.ts']);
+  });
+
+  it('should list commands and the outcome of test commands', () => {
+    const summary = summarizeTimeline([
+      toolUse('Bash', 'npm install', 'tool-1'),
+      toolUse('Bash', 'npm test', 'tool-2'),
+      toolResult('Bash', 'tool-2', true),
+      toolUse('Bash', 'npx vitest run', 'tool-3'),
+      toolResult('Bash', 'tool-3', false),
+      toolUse('Bash', 'pytest -k slow', 'tool-4'),
+    ]);
+
+    expect(summary.commandsRun).toEqual(['npm install', 'npm test', 'npx vitest run', 'pytest -k slow']);
+    expect(summary.testsExecuted).toEqual([
+      { command: 'npm test', passed: false },
+      { command: 'npx vitest run', passed: true },
+      { command: 'pytest -k slow', passed: null },
+    ]);
+  });
+
+  it('should ignore messages and tool results', () => {
+    expect(summarizeTimeline([
+      { kind: 'text', tool: null, toolUseId: null, content: 'Editing src/app.ts', isError: false },
+      toolResult('Bash', 'tool-1', false),
+    ])).toEqual({ filesTouched: [], commandsRun: [], testsExecuted: [] });
+  });
+});
+
+describe('isTestCommand', () => {
+  it('should recognize common test runners', () => {
+    expect(isTestCommand('npm test')).toBe(true);
+    expect(isTestCommand('go test ./...')).toBe(true);
+    expect(isTestCommand('cargo build')).toBe(false);
+    expect(isTestCommand('git commit -m "Add tests"')).toBe(false);
+  });
+});
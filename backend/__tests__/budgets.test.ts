@@ -0,0 +1,75 @@
+import { BudgetExceededError, findExhaustedBudget, measureSpend } from '../budgets.js';
+import type { Iteration } from '../models.js';
+
+const createIteration = (overrides: Partial<Iteration>): Iteration => ({
+  id: 1,
+  stepId: 1,
+  iterationNumber: 1,
+  type: 'implementation',
+  commitSha: null,
+  claudeLog: null,
+  codexLog: null,
+  implementationAgent: 'claude',
+  reviewAgent: 'codex',
+  agentSessionId: null,
+  buildStatus: null,
+  reviewStatus: null,
+  status: 'completed',
+  phase: 'done',
+  interruptionReason: null,
+  inputTokens: 0,
+  outputTokens: 0,
+  costUsd: 0,
+  agentDurationMs: 0,
+  ciDurationMs: 0,
+  createdAt: '2025-01-01T10:00:00.000Z',
+  updatedAt: '2025-01-01T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('budgets', () => {
+  describe('measureSpend', () => {
+    it('should sum agent time, CI time and tokens across iterations', () => {
+      const spend = measureSpend([
+        createIteration({ agentDurationMs: 60_000, ciDurationMs: 120_000, inputTokens: 1000, outputTokens: 200 }),
+        createIteration({ agentDurationMs: 30_000, inputTokens: 500, outputTokens: 100 }),
+      ], 300_000);
+
+      expect(spend).toEqual({
+        wallClockMinutes: 5,
+        agentMinutes: 1.5,
+        ciMinutes: 2,
+        tokens: 1800,
+      });
+    });
+  });
+
+  describe('findExhaustedBudget', () => {
+    const spend = { wallClockMinutes: 10, agentMinutes: 5, ciMinutes: 0, tokens: 1000 };
+
+    it('should return null when no limit is reached', () => {
+      expect(findExhaustedBudget(undefined, spend)).toBeNull();
+      expect(findExhaustedBudget({ agentMinutes: 6, tokens: 2000 }, spend)).toBeNull();
+    });
+
+    it('should report a limit once it is reached', () => {
+      expect(findExhaustedBudget({ ciMinutes: 10, tokens: 1000 }, spend)).toEqual({
+        metric: 'tokens',
+        limit: 1000,
+        spent: 1000,
+      });
+    });
+  });
+
+  describe('BudgetExceededError', () => {
+    it('should explain which limit to raise', () => {
+      const error = new BudgetExceededError('step', 'agentMinutes', 30, 31.25, 2);
+
+      expect(error.message).toBe(
+        'Budget exceeded: step 2 used 31.3 of 30 agent minutes. Raise budgets.step.agentMinutes and resume to continue.'
+      );
+      expect(new BudgetExceededError('execution', 'tokens', 1000, 1200).message)
+        .toContain('execution used 1200 of 1000 tokens');
+    });
+  });
+});
@@ -1,4 +1,7 @@
-import { ClaudeRunner } from '../claude-runner.js';
+import { EventEmitter } from 'events';
+
+import { ClaudeRunner, describeToolInput } from '../claude-runner.js';
+import type { OrchestratorEvent } from '../events.js';
 import { PROMPTS } from '../prompts.js';
 
 describe('ClaudeRunner', () => {
@@ -133,4 +136,185 @@ describe('ClaudeRunner', () => {
       expect(result).toBeNull();
     });
   });
+
+  describe('parseJsonOutput', () => {
+    it('should read the result text, token usage and cost', () => {
+      const stdout = JSON.stringify({
+        type: 'result',
+        subtype: 'success',
+        result: 'Done.\nCreated commit.',
+        total_cost_usd: 0.1234,
+        usage: {
+          input_tokens: 10,
+          cache_creation_input_tokens: 2000,
+          cache_read_input_tokens: 3000,
+          output_tokens: 450,
+        },
+      });
+
+      expect(runner.parseJsonOutput(stdout)).toEqual({
+        text: 'Done.\nCreated commit.',
+        usage: { inputTokens: 5010, outputTokens: 450, costUsd: 0.1234 },
+      });
+    });
+
+    it('should pick the result message from verbose message arrays', () => {
+      const stdout = JSON.stringify([
+        { type: 'system', subtype: 'init' },
+        { type: 'assistant', message: { content: [] } },
+        { type: 'result', result: 'Review done', total_cost_usd: 0.5, usage: { input_tokens: 100, output_tokens: 20 } },
+      ]);
+
+      expect(runner.parseJsonOutput(stdout)).toEqual({
+        text: 'Review done',
+        usage: { inputTokens: 100, outputTokens: 20, costUsd: 0.5 },
+      });
+    });
+
+    it('should read the session id of the result message', () => {
+      const stdout = JSON.stringify([
+        { type: 'system', subtype: 'init', session_id: 'session-1' },
+        { type: 'result', result: 'Fixed', session_id: 'session-1', usage: { input_tokens: 1, output_tokens: 1 } },
+      ]);
+
+      expect(runner.parseJsonOutput(stdout).sessionId).toBe('session-1');
+    });
+
+    it('should return non-JSON output unchanged without usage', () => {
+      expect(runner.parseJsonOutput('plain text')).toEqual({ text: 'plain text' });
+    });
+
+    it('should pick the result message from stream-json lines', () => {
+      const stdout = [
+        JSON.stringify({ type: 'system', subtype: 'init', session_id: 'session-2' }),
+        JSON.stringify({ type: 'assistant', message: { content: [{ type: 'text', text: 'Working' }] } }),
+        JSON.stringify({ type: 'result', result: 'Implemented', session_id: 'session-2', usage: { input_tokens: 7, output_tokens: 3 } }),
+        '',
+      ].join('\n');
+
+      expect(runner.parseJsonOutput(stdout)).toEqual({
+        text: 'Implemented',
+        usage: { inputTokens: 7, outputTokens: 3, costUsd: 0 },
+        sessionId: 'session-2',
+      });
+    });
+
+    it('should skip stream-json lines that are not JSON', () => {
+      const stdout = [
+        'Warning: could not read settings',
+        JSON.stringify({ type: 'assistant', message: { content: [{ type: 'text', text: 'Working' }] } }),
+        JSON.stringify({ type: 'result', result: 'Implemented', usage: { input_tokens: 7, output_tokens: 3 } }),
+      ].join('\n');
+
+      expect(runner.parseJsonOutput(stdout).text).toBe('Implemented');
+    });
+
+    it('should use the assistant text when the stream was cut off before the result', () => {
+      const stdout = [
+        JSON.stringify({ type: 'system', subtype: 'init' }),
+        JSON.stringify({ type: 'assistant', message: { content: [{ type: 'text', text: '{"result":"FAIL"' }] } }),
+        JSON.stringify({ type: 'assistant', message: { content: [{ type: 'text', text: 'Still checking' }] } }),
+        '{"type":"result","res',
+      ].join('\n');
+
+      expect(runner.parseJsonOutput(stdout)).toEqual({ text: '{"result":"FAIL"\n\nStill checking' });
+    });
+  });
+
+  describe('parseTimeline', () => {
+    it('should turn messages, tool calls and tool results into a timeline', () => {
+      const stdout = [
+        { type: 'system', subtype: 'init' },
+        {
+          type: 'assistant',
+          message: {
+            content: [
+              { type: 'text', text: 'Updating the handler' },
+              { type: 'tool_use', id: 'tool-1', name: 'Edit', input: { file_path: 'src/app.ts', old_string: 'a', new_string: 'b' } },
+              { type: 'tool_use', id: 'tool-2', name: 'Bash', input: { command: 'npm test' } },
+            ],
+          },
+        },
+        {
+          type: 'user',
+          message: {
+            content: [
+              { type: 'tool_result', tool_use_id: 'tool-1', content: 'File updated' },
+              { type: 'tool_result', tool_use_id: 'tool-2', content: [{ type: 'text', text: '1 test failed' }], is_error: true },
+            ],
+          },
+        },
+        { type: 'result', result: 'Done' },
+      ].map((message) => JSON.stringify(message)).join('\n');
+
+      expect(runner.parseTimeline(stdout)).toEqual([
+        { kind: 'text', tool: null, toolUseId: null, content: 'Updating the handler', isError: false },
+        { kind: 'tool_use', tool: 'Edit', toolUseId: 'tool-1', content: 'src/app.ts', isError: false },
+        { kind: 'tool_use', tool: 'Bash', toolUseId: 'tool-2', content: 'npm test', isError: false },
+        { kind: 'tool_result', tool: 'Edit', toolUseId: 'tool-1', content: 'File updated', isError: false },
+        { kind: 'tool_result', tool: 'Bash', toolUseId: 'tool-2', content: '1 test failed', isError: true },
+      ]);
+    });
+
+    it('should truncate long tool results', () => {
+      const stdout = JSON.stringify({
+        type: 'user',
+        message: { content: [{ type: 'tool_result', tool_use_id: 'tool-1', content: 'x'.repeat(5000) }] },
+      });
+
+      const [entry] = runner.parseTimeline(stdout);
+      expect(entry.content).toHaveLength(2001);
+      expect(entry.tool).toBeNull();
+    });
+
+    it('should return an empty timeline for output that is not JSON', () => {
+      expect(runner.parseTimeline('plain text')).toEqual([]);
+    });
+
+    it('should keep the entries of the lines before a cut-off line', () => {
+      const stdout = [
+        JSON.stringify({ type: 'assistant', message: { content: [{ type: 'text', text: 'Updating the handler' }] } }),
+        '{"type":"assistant","mess',
+      ].join('\n');
+
+      expect(runner.parseTimeline(stdout)).toEqual([
+        { kind: 'text', tool: null, toolUseId: null, content: 'Updating the handler', isError: false },
+      ]);
+    });
+  });
+
+  describe('output streaming', () => {
+    it('should emit assistant text and tool calls as they arrive', () => {
+      const emitter = new EventEmitter();
+      const events: OrchestratorEvent[] = [];
+      emitter.on('event', (event: OrchestratorEvent) => events.push(event));
+      const stream = (runner as any).createOutputStream({ eventEmitter: emitter, iterationId: 7 });
+
+      const line = JSON.stringify({
+        type: 'assistant',
+        message: {
+          content: [
+            { type: 'text', text: 'Running the tests' },
+            { type: 'tool_use', name: 'Bash', input: { command: 'npm   test' } },
+          ],
+        },
+      });
+      stream.write(line.slice(0, 20));
+      expect(events).toHaveLength(0);
+      stream.write(`${line.slice(20)}\n`);
+      stream.write(JSON.stringify({ type: 'result', result: 'Done' }));
+      stream.end();
+
+      expect(events).toEqual([
+        expect.objectContaining({ type: 'agent_output', agent: 'claude', iterationId: 7, text: 'Running the tests' }),
+        expect.objectContaining({ type: 'agent_tool_call', agent: 'claude', iterationId: 7, tool: 'Bash', summary: 'npm test' }),
+      ]);
+    });
+
+    it('should summarize tool input by its most descriptive field', () => {
+      expect(describeToolInput({ file_path: 'src/app.ts', old_string: 'a' })).toBe('src/app.ts');
+      expect(describeToolInput({ todos: [] })).toBe('');
+      expect(describeToolInput(undefined)).toBe('');
+    });
+  });
 });
@@ -1,4 +1,7 @@
+import { EventEmitter } from 'events';
+
 import { CodexRunner } from '../codex-runner.js';
+import type { OrchestratorEvent } from '../events.js';
 
 describe('CodexRunner', () => {
   let runner: CodexRunner;
@@ -63,6 +66,53 @@ describe('CodexRunner', () => {
         expect(result.issues[0].line).toBeUndefined();
         expect(result.issues[0].severity).toBe('error');
       });
+
+      it('should parse the optional category, end line, confidence and patch', () => {
+        const patch = '--- a/src/app.ts\n+++ b/src/app.ts\n@@ -3 +3 @@\n-const a = 1\n+const a = 2\n';
+        const output = JSON.stringify({
+          result: 'FAIL',
+          issues: [
+            {
+              file: 'src/app.ts',
+              line: 3,
+              endLine: 5,
+              severity: 'error',
+              category: 'correctness',
+              confidence: 0.8,
+              description: 'Off by one',
+              patch,
+            },
+            {
+              file: 'src/app.ts',
+              line: 9,
+              endLine: 2,
+              description: 'An end line before the start line is dropped',
+              patch: '  ',
+            },
+          ],
+        });
+
+        const result = runner.parseCodexOutput(output);
+
+        expect(result.issues).toEqual([
+          {
+            file: 'src/app.ts',
+            line: 3,
+            endLine: 5,
+            severity: 'error',
+            category: 'correctness',
+            confidence: 0.8,
+            description: 'Off by one',
+            patch,
+          },
+          {
+            file: 'src/app.ts',
+            line: 9,
+            severity: 'error',
+            description: 'An end line before the start line is dropped',
+          },
+        ]);
+      });
     });
 
     describe('fenced code blocks', () => {
@@ -332,6 +382,84 @@ Some text here.
         expect(result.result).toBe('FAIL');
         expect(result.issues[0].description).toContain('invalid "severity"');
       });
+
+      it('should reject issue with invalid category or confidence', () => {
+        const withIssue = (issue: Record<string, unknown>) => JSON.stringify({
+          result: 'FAIL',
+          issues: [{ file: 'test.ts', description: 'Error', ...issue }],
+        });
+
+        expect(runner.parseCodexOutput(withIssue({ category: 'performance' })).issues[0].description)
+          .toContain('invalid "category"');
+        expect(runner.parseCodexOutput(withIssue({ confidence: 80 })).issues[0].description)
+          .toContain('invalid "confidence"');
+      });
+    });
+  });
+
+  describe('parseJsonOutput', () => {
+    it('should extract agent messages and estimate cost from turn usage', () => {
+      const stdout = [
+        JSON.stringify({ type: 'thread.started', thread_id: 't1' }),
+        JSON.stringify({ type: 'item.completed', item: { type: 'reasoning', text: 'Thinking' } }),
+        JSON.stringify({ type: 'item.completed', item: { type: 'command_execution', command: 'git diff' } }),
+        JSON.stringify({ type: 'item.completed', item: { type: 'agent_message', text: '{"result":"PASS","issues":[]}' } }),
+        JSON.stringify({
+          type: 'turn.completed',
+          usage: { input_tokens: 1_000_000, cached_input_tokens: 400_000, output_tokens: 10_000 },
+        }),
+      ].join('\n');
+
+      const result = runner.parseJsonOutput(stdout);
+
+      expect(result.text).toBe('{"result":"PASS","issues":[]}');
+      expect(result.usage).toEqual({
+        inputTokens: 1_000_000,
+        outputTokens: 10_000,
+        costUsd: expect.closeTo(0.6 * 1.25 + 0.4 * 0.125 + 0.01 * 10, 10) as number,
+      });
+      expect(result.sessionId).toBe('t1');
+      expect(runner.parseCodexOutput(result.text).result).toBe('PASS');
+    });
+
+    it('should return non-JSON output unchanged without usage', () => {
+      const result = runner.parseJsonOutput('plain text output');
+
+      expect(result).toEqual({ text: 'plain text output' });
+    });
+
+    it('should skip lines that are not JSON', () => {
+      const stdout = [
+        'Reading prompt from stdin...',
+        JSON.stringify({ type: 'thread.started', thread_id: 't2' }),
+        JSON.stringify({ type: 'item.completed', item: { type: 'agent_message', text: '{"result":"PASS","issues":[]}' } }),
+        '{"type":"turn.comp',
+      ].join('\n');
+
+      expect(runner.parseJsonOutput(stdout)).toEqual({
+        text: '{"result":"PASS","issues":[]}',
+        usage: undefined,
+        sessionId: 't2',
+      });
+    });
+  });
+
+  describe('emitAgentEvent', () => {
+    it('should emit agent messages and commands from completed items', () => {
+      const emitter = new EventEmitter();
+      const events: OrchestratorEvent[] = [];
+      emitter.on('event', (event: OrchestratorEvent) => events.push(event));
+      const options = { workDir: '/tmp', prompt: 'Fix it', eventEmitter: emitter, iterationId: 3 };
+
+      (runner as any).emitAgentEvent(JSON.stringify({ type: 'item.started', item: { type: 'command_execution', command: 'ls' } }), options);
+      (runner as any).emitAgentEvent(JSON.stringify({ type: 'item.completed', item: { type: 'command_execution', command: 'npm test' } }), options);
+      (runner as any).emitAgentEvent(JSON.stringify({ type: 'item.completed', item: { type: 'agent_message', text: 'Tests pass' } }), options);
+      (runner as any).emitAgentEvent('not json', options);
+
+      expect(events).toEqual([
+        expect.objectContaining({ type: 'agent_tool_call', agent: 'codex', iterationId: 3, tool: 'shell', summary: 'npm test' }),
+        expect.objectContaining({ type: 'agent_output', agent: 'codex', iterationId: 3, text: 'Tests pass' }),
+      ]);
     });
   });
 });
@@ -0,0 +1,109 @@
+import { execSync } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { CommandAgentRunner } from '../command-agent-runner.js';
+import type { OrchestratorEvent } from '../events.js';
+import { OrchestratorEventEmitter } from '../events.js';
+import { AgentStalledError } from '../stall-watchdog.js';
+
+describe('CommandAgentRunner', () => {
+  let tempDir: string;
+  const eventEmitter = new OrchestratorEventEmitter();
+
+  const git = (command: string): string =>
+    execSync(`git ${command}`, { cwd: tempDir, encoding: 'utf-8' }).trim();
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'stepcat-command-agent-'));
+    git('init -q');
+    git('config user.email test@example.com');
+    git('config user.name Test');
+    git('commit -q --allow-empty -m initial');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should pass the prompt on stdin and report the new commit', async () => {
+    const runner = new CommandAgentRunner({
+      name: 'scripted',
+      command: 'cat > prompt.txt && git add prompt.txt && git commit -q -m "agent commit"',
+    });
+
+    const result = await runner.implement({
+      workDir: tempDir,
+      prompt: 'Implement step 1',
+      timeoutMinutes: 1,
+      eventEmitter,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.commitSha).toBe(git('rev-parse HEAD'));
+    expect(git('show HEAD:prompt.txt')).toBe('Implement step 1');
+  });
+
+  it('should report uncommitted changes when no commit is created', async () => {
+    const runner = new CommandAgentRunner({ name: 'lazy', command: 'touch leftover.txt' });
+
+    const result = await runner.implement({
+      workDir: tempDir,
+      prompt: 'Implement step 1',
+      timeoutMinutes: 1,
+      eventEmitter,
+    });
+
+    expect(result.commitSha).toBeNull();
+    expect(result.workingTreeStatus).toContain('leftover.txt');
+  });
+
+  it('should expose the agent mode and return review output', async () => {
+    const runner = new CommandAgentRunner({
+      name: 'reviewer',
+      displayName: 'Reviewer',
+      command: 'echo "{\\"result\\": \\"PASS\\", \\"mode\\": \\"$STEPCAT_AGENT_MODE\\"}"',
+    });
+
+    const result = await runner.review({
+      workDir: tempDir,
+      prompt: 'Review',
+      timeoutMinutes: 1,
+      eventEmitter,
+    });
+
+    expect(runner.getDisplayName()).toBe('Reviewer');
+    expect(result.output).toContain('"mode": "review"');
+  });
+
+  it('should reject when the command fails', async () => {
+    const runner = new CommandAgentRunner({ name: 'broken', command: 'echo oops >&2; exit 3' });
+
+    await expect(
+      runner.implement({ workDir: tempDir, prompt: 'x', timeoutMinutes: 1, eventEmitter }),
+    ).rejects.toThrow('broken failed with exit code 3');
+  });
+
+  it('should stop a command that stalls and emit a warning event', async () => {
+    const events: OrchestratorEvent[] = [];
+    const stallEmitter = new OrchestratorEventEmitter();
+    stallEmitter.on('event', (event: OrchestratorEvent) => events.push(event));
+    const runner = new CommandAgentRunner({ name: 'stuck', command: 'echo starting; sleep 30' });
+
+    const startedAt = Date.now();
+    await expect(
+      runner.implement({
+        workDir: tempDir,
+        prompt: 'x',
+        timeoutMinutes: 1,
+        // About 100ms without output or file changes
+        stallTimeoutMinutes: 0.002,
+        eventEmitter: stallEmitter,
+      }),
+    ).rejects.toThrow(AgentStalledError);
+
+    expect(Date.now() - startedAt).toBeLessThan(10000);
+    expect(events).toContainEqual(expect.objectContaining({ type: 'agent_stalled', agent: 'stuck', idleMinutes: 0.002 }));
+  });
+});
@@ -0,0 +1,275 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+  ConfigError,
+  getCommandAgents,
+  loadConfigFile,
+  loadEnvConfig,
+  mergeConfigs,
+  parseBudgetOption,
+  parseConfig,
+  parseConsensusReviewOption,
+} from '../config.js';
+
+describe('config', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'stepcat-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeConfig = (content: string): void => {
+    mkdirSync(join(tempDir, '.stepcat'), { recursive: true });
+    writeFileSync(join(tempDir, '.stepcat', 'config.json'), content, 'utf-8');
+  };
+
+  describe('loadConfigFile', () => {
+    it('should return an empty config when the file does not exist', () => {
+      expect(loadConfigFile(tempDir)).toEqual({});
+    });
+
+    it('should load and normalize a valid config file', () => {
+      writeConfig(JSON.stringify({
+        buildTimeoutMinutes: 45,
+        maxIterations: 5,
+        implementationAgent: 'MyCLI',
+        agents: {
+          mycli: 'mycli run --stdin',
+          other: { command: 'other --review', displayName: 'Other CLI' },
+        },
+        buildChecker: 'local',
+        buildCommands: ['npm test'],
+        allowedTools: ['Bash(npm test:*)'],
+        prompts: { implementation: 'Use conventional commit messages.' },
+        ui: 'json',
+        permissionAllowlist: ['Bash(npm *)'],
+      }));
+
+      const config = loadConfigFile(tempDir);
+
+      expect(config.buildTimeoutMinutes).toBe(45);
+      expect(config.maxIterations).toBe(5);
+      expect(config.implementationAgent).toBe('mycli');
+      expect(getCommandAgents(config)).toEqual([
+        { name: 'mycli', command: 'mycli run --stdin' },
+        { name: 'other', command: 'other --review', displayName: 'Other CLI' },
+      ]);
+      expect(config.buildChecker).toBe('local');
+      expect(config.buildCommands).toEqual(['npm test']);
+      expect(config.allowedTools).toEqual(['Bash(npm test:*)']);
+      expect(config.prompts).toEqual({ implementation: 'Use conventional commit messages.' });
+      expect(config.ui).toBe('json');
+      expect(config.permissionAllowlist).toEqual(['Bash(npm *)']);
+    });
+
+    it('should report invalid JSON with the file path', () => {
+      writeConfig('{ "maxIterations": ');
+
+      expect(() => loadConfigFile(tempDir)).toThrow(ConfigError);
+      expect(() => loadConfigFile(tempDir)).toThrow(join(tempDir, '.stepcat', 'config.json'));
+    });
+  });
+
+  describe('parseConfig', () => {
+    it('should report every offending key', () => {
+      let error: unknown;
+      try {
+        parseConfig({
+          maxIterations: 0,
+          buildChecker: 'jenkins',
+          agents: { mycli: { command: '' } },
+          prompts: { unknownPrompt: 'text' },
+          ui: 'fancy',
+          requireApproval: 'yes',
+          quickFixes: 1,
+          resumeSessions: 'always',
+          stallNudge: 'sometimes',
+          resolveConflicts: 'yes',
+          syncWithBase: 'daily',
+          stackedPrs: 'on',
+          postReviewComments: 'always',
+          reviewWarnings: 'ignore',
+          typo: true,
+        }, 'config.json');
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(error).toBeInstanceOf(ConfigError);
+      expect((error as ConfigError).errors).toEqual([
+        '"maxIterations" must be a positive integer',
+        '"buildChecker" must be "github" or "local"',
+        '"agents.mycli.command" must be a non-empty string',
+        expect.stringContaining('"prompts.unknownPrompt" is not a known prompt'),
+        '"ui" must be one of: tui, plain, json, none',
+        '"requireApproval" must be true or false',
+        '"quickFixes" must be true or false',
+        '"resumeSessions" must be true or false',
+        '"stallNudge" must be true or false',
+        '"resolveConflicts" must be true or false',
+        '"syncWithBase" must be true or false',
+        '"stackedPrs" must be true or false',
+        '"postReviewComments" must be true or false',
+        '"reviewWarnings" must be one of: block, pass, defer',
+        '"typo" is not a known setting',
+      ]);
+    });
+
+    it('should validate budgets', () => {
+      expect(parseConfig({ budgets: { step: { agentMinutes: 30 }, execution: { tokens: 500000 } } }, 'config.json'))
+        .toEqual({ budgets: { step: { agentMinutes: 30 }, execution: { tokens: 500000 } } });
+
+      let error: unknown;
+      try {
+        parseConfig({ budgets: { step: { agentMinutes: -1, dollars: 5 }, project: {} } }, 'config.json');
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect((error as ConfigError).errors).toEqual([
+        '"budgets.step.agentMinutes" must be a positive number',
+        expect.stringContaining('"budgets.step.dollars" is not a known budget'),
+        '"budgets.project" is not a known budget scope. Expected one of: step, execution',
+      ]);
+    });
+
+    it('should validate the consensus review', () => {
+      expect(parseConfig({
+        consensusReview: { agents: ['Codex', 'claude'], policy: 'severity', severityThreshold: 'warning', steps: [2, 3] },
+      }, 'config.json')).toEqual({
+        consensusReview: { agents: ['codex', 'claude'], policy: 'severity', severityThreshold: 'warning', steps: [2, 3] },
+      });
+
+      let error: unknown;
+      try {
+        parseConfig({ consensusReview: { agents: ['codex'], policy: 'unanimous', steps: [] } }, 'config.json');
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect((error as ConfigError).errors).toEqual([
+        '"consensusReview.agents" must list at least two agents',
+        '"consensusReview.policy" must be one of: any-fail, majority, severity',
+        '"consensusReview.steps" must be a non-empty array of step numbers',
+      ]);
+    });
+
+    it('should reject a non-object config', () => {
+      expect(() => parseConfig([], 'config.json')).toThrow('configuration must be a JSON object');
+    });
+  });
+
+  describe('loadEnvConfig', () => {
+    it('should read STEPCAT_* environment variables', () => {
+      const config = loadEnvConfig({
+        STEPCAT_AGENT_TIMEOUT: '60',
+        STEPCAT_REVIEW_AGENT: 'claude',
+        STEPCAT_BUILD_CHECKER: 'local',
+        STEPCAT_REQUIRE_APPROVAL: 'true',
+        STEPCAT_REVIEW_WARNINGS: 'defer',
+        STEPCAT_QUICK_FIXES: '1',
+        STEPCAT_RESUME_SESSIONS: 'false',
+        STEPCAT_STALL_TIMEOUT: '10',
+        STEPCAT_STALL_NUDGE: 'true',
+        STEPCAT_RESOLVE_CONFLICTS: '1',
+        STEPCAT_SYNC_WITH_BASE: 'true',
+        STEPCAT_STACKED_PRS: 'true',
+        STEPCAT_POST_REVIEW_COMMENTS: 'false',
+      });
+
+      expect(config).toEqual({
+        agentTimeoutMinutes: 60,
+        reviewAgent: 'claude',
+        buildChecker: 'local',
+        requireApproval: true,
+        reviewWarnings: 'defer',
+        quickFixes: true,
+        resumeSessions: false,
+        stallTimeoutMinutes: 10,
+        stallNudge: true,
+        resolveConflicts: true,
+        syncWithBase: true,
+        stackedPrs: true,
+        postReviewComments: false,
+      });
+    });
+
+    it('should name the offending environment variable', () => {
+      expect(() => loadEnvConfig({ STEPCAT_MAX_ITERATIONS: 'many' }))
+        .toThrow('STEPCAT_MAX_ITERATIONS must be a positive integer, got: many');
+    });
+  });
+
+  describe('parseBudgetOption', () => {
+    it('should parse a scope, metric and limit', () => {
+      expect(parseBudgetOption('step.agentMinutes=30')).toEqual({ step: { agentMinutes: 30 } });
+      expect(parseBudgetOption('execution.tokens=2000000')).toEqual({ execution: { tokens: 2000000 } });
+    });
+
+    it('should reject malformed values', () => {
+      expect(() => parseBudgetOption('step.agentMinutes')).toThrow(ConfigError);
+      expect(() => parseBudgetOption('step.agentMinutes')).toThrow('expected <scope>.<metric>=<limit>');
+      expect(() => parseBudgetOption('run.tokens=10')).toThrow('is not a known budget scope');
+    });
+  });
+
+  describe('parseConsensusReviewOption', () => {
+    it('should parse a comma-separated list of review agents', () => {
+      expect(parseConsensusReviewOption('codex, claude')).toEqual({ agents: ['codex', 'claude'] });
+      expect(parseConsensusReviewOption('codex,claude', 'Majority')).toEqual({
+        agents: ['codex', 'claude'],
+        policy: 'majority',
+      });
+    });
+
+    it('should reject a single agent or an unknown policy', () => {
+      expect(() => parseConsensusReviewOption('codex')).toThrow('must list at least two agents');
+      expect(() => parseConsensusReviewOption('codex,claude', 'all')).toThrow('"consensusReview.policy" must be one of');
+    });
+  });
+
+  describe('mergeConfigs', () => {
+    it('should let later layers override earlier ones', () => {
+      const merged = mergeConfigs(
+        {
+          maxIterations: 5,
+          buildChecker: 'local',
+          agents: { one: { command: 'one' }, two: { command: 'two' } },
+          prompts: { implementation: 'file', reviewFix: 'file' },
+        },
+        { maxIterations: 7 },
+        {
+          maxIterations: undefined,
+          buildChecker: 'github',
+          agents: { two: { command: 'two --cli' } },
+          prompts: { reviewFix: 'cli' },
+        },
+      );
+
+      expect(merged).toEqual({
+        maxIterations: 7,
+        buildChecker: 'github',
+        agents: { one: { command: 'one' }, two: { command: 'two --cli' } },
+        prompts: { implementation: 'file', reviewFix: 'cli' },
+      });
+    });
+
+    it('should merge budgets by scope and metric', () => {
+      const merged = mergeConfigs(
+        { budgets: { step: { agentMinutes: 30, tokens: 1000 } } },
+        { budgets: { step: { tokens: 2000 }, execution: { ciMinutes: 60 } } },
+      );
+
+      expect(merged.budgets).toEqual({
+        step: { agentMinutes: 30, tokens: 2000 },
+        execution: { ciMinutes: 60 },
+      });
+    });
+  });
+});
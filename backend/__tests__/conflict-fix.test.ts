@@ -0,0 +1,111 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+  ConflictFixError,
+  abortBaseMerge,
+  concludeBaseMerge,
+  findConflictMarkers,
+  startBaseMerge,
+} from '../conflict-fix.js';
+
+describe('base branch merges', () => {
+  let tempDir: string;
+  let workDir: string;
+
+  const git = (cwd: string, ...args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+
+  const commitFile = (cwd: string, content: string, message: string) => {
+    writeFileSync(join(cwd, 'config.ts'), content);
+    git(cwd, 'add', 'config.ts');
+    git(cwd, 'commit', '-q', '-m', message);
+  };
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'stepcat-conflict-fix-'));
+    const originDir = join(tempDir, 'origin.git');
+    const baseDir = join(tempDir, 'base');
+    workDir = join(tempDir, 'work');
+
+    execFileSync('git', ['init', '-q', '--bare', '-b', 'main', originDir]);
+    execFileSync('git', ['clone', '-q', originDir, baseDir], { stdio: 'ignore' });
+    git(baseDir, 'config', 'user.name', 'Test');
+    git(baseDir, 'config', 'user.email', 'test@example.com');
+    git(baseDir, 'checkout', '-q', '-b', 'main');
+    commitFile(baseDir, 'export const retries = 1;\n', 'Initial commit');
+    git(baseDir, 'push', '-q', 'origin', 'main');
+
+    execFileSync('git', ['clone', '-q', originDir, workDir], { stdio: 'ignore' });
+    git(workDir, 'config', 'user.name', 'Test');
+    git(workDir, 'config', 'user.email', 'test@example.com');
+    git(workDir, 'checkout', '-q', '-b', 'feature');
+    commitFile(workDir, 'export const retries = 2;\n', 'Retry twice');
+
+    commitFile(baseDir, 'export const retries = 3;\n', 'Retry three times');
+    git(baseDir, 'push', '-q', 'origin', 'main');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report the conflicting files and commit the merge once they are resolved', () => {
+    const conflictedFiles = startBaseMerge(workDir, 'main');
+
+    expect(conflictedFiles).toEqual(['config.ts']);
+    expect(findConflictMarkers(workDir, conflictedFiles)).toEqual(['config.ts']);
+
+    writeFileSync(join(workDir, 'config.ts'), 'export const retries = 3;\n');
+    const sha = concludeBaseMerge(workDir, 'main', conflictedFiles);
+
+    expect(sha).toBe(git(workDir, 'rev-parse', 'HEAD'));
+    expect(git(workDir, 'rev-list', '--parents', '-n', '1', 'HEAD').split(' ')).toHaveLength(3);
+    expect(git(workDir, 'status', '--porcelain')).toBe('');
+  });
+
+  it('should refuse to conclude the merge while conflict markers remain', () => {
+    const conflictedFiles = startBaseMerge(workDir, 'main');
+
+    expect(() => concludeBaseMerge(workDir, 'main', conflictedFiles)).toThrow('Conflict markers remain in config.ts');
+
+    abortBaseMerge(workDir);
+    expect(readFileSync(join(workDir, 'config.ts'), 'utf-8')).toBe('export const retries = 2;\n');
+    expect(git(workDir, 'status', '--porcelain')).toBe('');
+  });
+
+  it('should refuse a branch that does not contain the base branch', () => {
+    const conflictedFiles = startBaseMerge(workDir, 'main');
+    abortBaseMerge(workDir);
+
+    expect(() => concludeBaseMerge(workDir, 'main', conflictedFiles)).toThrow(ConflictFixError);
+  });
+
+  it('should merge without conflicts when the branches touch different lines', () => {
+    git(workDir, 'reset', '-q', '--hard', 'HEAD~1');
+    writeFileSync(join(workDir, 'notes.md'), 'Notes\n');
+    git(workDir, 'add', 'notes.md');
+    git(workDir, 'commit', '-q', '-m', 'Add notes');
+
+    expect(startBaseMerge(workDir, 'main')).toEqual([]);
+    expect(readFileSync(join(workDir, 'config.ts'), 'utf-8')).toBe('export const retries = 3;\n');
+  });
+
+  it('should merge the local base branch without fetching it', () => {
+    git(workDir, 'fetch', '-q', 'origin', 'main:main');
+    git(workDir, 'update-ref', '-d', 'refs/remotes/origin/main');
+
+    const conflictedFiles = startBaseMerge(workDir, 'main', { local: true });
+    writeFileSync(join(workDir, 'config.ts'), 'export const retries = 3;\n');
+    const sha = concludeBaseMerge(workDir, 'main', conflictedFiles, { local: true });
+
+    expect(conflictedFiles).toEqual(['config.ts']);
+    expect(git(workDir, 'merge-base', '--is-ancestor', 'main', sha)).toBe('');
+    expect(() => git(workDir, 'rev-parse', '--verify', '--quiet', 'refs/remotes/origin/main')).toThrow();
+  });
+
+  it('should fail when the base branch does not exist', () => {
+    expect(() => startBaseMerge(workDir, 'missing')).toThrow('Could not fetch "missing" from origin');
+  });
+});
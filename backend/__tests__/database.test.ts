@@ -5,6 +5,7 @@ import { join } from 'path';
 import BetterSqlite3 from 'better-sqlite3';
 
 import { Database } from '../database.js';
+import type { Iteration } from '../models.js';
 
 
 describe('Database', () => {
@@ -160,6 +161,13 @@ describe('Database', () => {
       const updatedIteration = db.getIterations(1)[0];
       expect(updatedIteration.status).toBe('aborted');
       expect(updatedIteration.buildStatus).toBe('merge_conflict');
+
+      const conflictFix = db.createIteration(1, 2, 'conflict_fix', 'claude', null);
+      expect(db.getIterations(1).map((iteration) => [iteration.id, iteration.type])).toEqual([
+        [1, 'implementation'],
+        [conflictFix.id, 'conflict_fix'],
+      ]);
+      expect(() => db.createIteration(1, 3, 'unknown' as Iteration['type'], 'claude', null)).toThrow(/CHECK constraint/);
     });
   });
 
@@ -193,6 +201,18 @@ describe('Database', () => {
       expect(db.getPlan(plan1.id)).toEqual(plan1);
       expect(db.getPlan(plan2.id)).toEqual(plan2);
     });
+
+    it('should accumulate elapsed time on a plan and its steps', () => {
+      const plan = db.createPlan('/path/to/plan.md', '/path/to/workdir', 'test-owner', 'test-repo');
+      const step = db.createStep(plan.id, 1, 'Setup');
+
+      db.addPlanElapsedTime(plan.id, 1000);
+      db.addPlanElapsedTime(plan.id, 2000);
+      db.addStepElapsedTime(step.id, 1500);
+
+      expect(db.getPlan(plan.id)?.elapsedMs).toBe(3000);
+      expect(db.getSteps(plan.id)[0].elapsedMs).toBe(1500);
+    });
   });
 
   describe('step operations', () => {
@@ -249,6 +269,46 @@ describe('Database', () => {
       expect(steps[0].status).toBe('failed');
     });
 
+    it('should store step dependencies', () => {
+      const step = db.createStep(planId, 3, 'UI', [1, 2]);
+
+      expect(step.dependsOn).toEqual([1, 2]);
+      expect(db.getSteps(planId)[0].dependsOn).toEqual([1, 2]);
+
+      db.updateStepDependencies(step.id, [2]);
+      expect(db.getSteps(planId)[0].dependsOn).toEqual([2]);
+    });
+
+    it('should update step workspace', () => {
+      const step = db.createStep(planId, 1, 'Setup');
+      expect(step.worktreePath).toBeNull();
+      expect(step.branch).toBeNull();
+
+      db.updateStepWorkspace(step.id, '/tmp/worktree', 'stepcat/1/step-1');
+      const steps = db.getSteps(planId);
+
+      expect(steps[0].worktreePath).toBe('/tmp/worktree');
+      expect(steps[0].branch).toBe('stepcat/1/step-1');
+    });
+
+    it('should store the SHA a step was synced with its base branch at', () => {
+      const step = db.createStep(planId, 1, 'Setup');
+      expect(step.syncedSha).toBeNull();
+
+      db.updateStepSyncedSha(step.id, 'sync123');
+
+      expect(db.getSteps(planId)[0].syncedSha).toBe('sync123');
+    });
+
+    it('should store the pull request of a stacked step', () => {
+      const step = db.createStep(planId, 1, 'Setup');
+      expect(step.prNumber).toBeNull();
+
+      db.updateStepPullRequest(step.id, 42);
+
+      expect(db.getSteps(planId)[0].prNumber).toBe(42);
+    });
+
     it('should update updatedAt when changing status', (done) => {
       const step = db.createStep(planId, 1, 'Setup');
       const originalUpdatedAt = step.updatedAt;
@@ -332,6 +392,15 @@ describe('Database', () => {
       expect(iterations[0].buildStatus).toBe('merge_conflict');
     });
 
+    it('should allow custom agent names', () => {
+      const iteration = db.createIteration(stepId, 1, 'implementation', 'my-agent', null);
+      db.updateIteration(iteration.id, { reviewAgent: 'other-agent' });
+
+      const iterations = db.getIterations(stepId);
+      expect(iterations[0].implementationAgent).toBe('my-agent');
+      expect(iterations[0].reviewAgent).toBe('other-agent');
+    });
+
     it('should update iteration status', () => {
       const iteration = db.createIteration(stepId, 1, 'implementation', 'claude', 'codex');
 
@@ -356,6 +425,41 @@ describe('Database', () => {
       expect(iterations[0].status).toBe('completed');
     });
 
+    it('should accumulate token usage on an iteration', () => {
+      const iteration = db.createIteration(stepId, 1, 'implementation', 'claude', 'codex');
+      expect(iteration.inputTokens).toBe(0);
+
+      db.addIterationUsage(iteration.id, { inputTokens: 1000, outputTokens: 200, costUsd: 0.05 });
+      db.addIterationUsage(iteration.id, { inputTokens: 500, outputTokens: 100, costUsd: 0.02 });
+
+      const [stored] = db.getIterations(stepId);
+      expect(stored.inputTokens).toBe(1500);
+      expect(stored.outputTokens).toBe(300);
+      expect(stored.costUsd).toBeCloseTo(0.07);
+    });
+
+    it('should accumulate agent and CI time on an iteration', () => {
+      const iteration = db.createIteration(stepId, 1, 'implementation', 'claude', 'codex');
+
+      db.addIterationTime(iteration.id, 'agent', 1500);
+      db.addIterationTime(iteration.id, 'agent', 500.4);
+      db.addIterationTime(iteration.id, 'ci', 3000);
+
+      const [stored] = db.getIterations(stepId);
+      expect(stored.agentDurationMs).toBe(2000);
+      expect(stored.ciDurationMs).toBe(3000);
+    });
+
+    it('should store the agent session of an iteration', () => {
+      const iteration = db.createIteration(stepId, 1, 'implementation', 'claude', 'codex');
+      expect(iteration.agentSessionId).toBeNull();
+
+      db.updateIteration(iteration.id, { agentSessionId: 'session-1' });
+
+      const [stored] = db.getIterations(stepId);
+      expect(stored.agentSessionId).toBe('session-1');
+    });
+
     it('should return empty array for step with no iterations', () => {
       const iterations = db.getIterations(stepId);
       expect(iterations).toEqual([]);
@@ -441,6 +545,15 @@ describe('Database', () => {
       expect(issues[0].resolvedAt).toBe(resolvedAt);
     });
 
+    it('should record the review comment of an issue', () => {
+      const issue = db.createIssue(iterationId, 'codex_review', 'Test issue', 'src/app.ts', 12);
+      expect(issue.reviewCommentId).toBeNull();
+
+      db.updateIssueReviewComment(issue.id, 987);
+
+      expect(db.getIssues(iterationId)[0].reviewCommentId).toBe(987);
+    });
+
     it('should get open issues for a step', () => {
       const iteration1 = db.createIteration(stepId, 1, 'implementation', 'claude', 'codex');
       const iteration2 = db.createIteration(stepId, 2, 'build_fix', 'claude', 'codex');
@@ -502,6 +615,83 @@ describe('Database', () => {
         issueStepSecond.id,
       ]);
     });
+
+    it('should record audit entries per plan and include them in the execution state', () => {
+      const plan = db.createPlan('/path/to/plan.md', '/path/to/workdir', 'test-owner', 'test-repo');
+      const otherPlan = db.createPlan('/path/to/other.md', '/path/to/workdir', 'other-owner', 'other-repo');
+      const step = db.createStep(plan.id, 1, 'Setup');
+
+      db.updateStepStatus(step.id, 'skipped');
+      const entry = db.addAuditEntry({
+        planId: plan.id,
+        stepNumber: 1,
+        action: 'skip_step',
+        details: 'Skipped while pending',
+        source: 'cli',
+      });
+      db.addAuditEntry({ planId: otherPlan.id, stepNumber: null, action: 'retry_step', details: null, source: 'tui' });
+
+      expect(entry.id).toBeGreaterThan(0);
+      expect(entry.createdAt).toBeTruthy();
+      expect(db.getSteps(plan.id)[0].status).toBe('skipped');
+      expect(db.getAuditLog(plan.id)).toEqual([entry]);
+      expect(db.getExecutionState(plan.id).auditLog).toEqual([entry]);
+    });
+
+    it('should store the review details of an issue', () => {
+      const plan = db.createPlan('/path/to/plan.md', '/path/to/workdir', 'test-owner', 'test-repo');
+      const step = db.createStep(plan.id, 1, 'Setup');
+      const iteration = db.createIteration(step.id, 1, 'implementation', 'claude', 'codex');
+
+      const issue = db.createIssue(iteration.id, 'codex_review', 'Off by one', 'src/app.ts', 3, 'error', 'open', {
+        category: 'correctness',
+        endLineNumber: 5,
+        confidence: 0.75,
+        suggestedPatch: '--- a/src/app.ts\n+++ b/src/app.ts\n',
+      });
+      const plain = db.createIssue(iteration.id, 'ci_failure', 'Build failed');
+
+      expect(db.getIssues(iteration.id)).toEqual([issue, plain]);
+      expect(plain).toMatchObject({ category: null, endLineNumber: null, confidence: null, suggestedPatch: null });
+    });
+
+    it('should keep each reviewer log of an iteration separately', () => {
+      const plan = db.createPlan('/path/to/plan.md', '/path/to/workdir', 'test-owner', 'test-repo');
+      const step = db.createStep(plan.id, 1, 'Setup');
+      const iteration = db.createIteration(step.id, 1, 'implementation', 'claude', 'codex');
+      const otherIteration = db.createIteration(step.id, 2, 'review_fix', 'claude', 'codex');
+
+      const codexLog = db.addReviewLog(iteration.id, 'codex', 'FAIL', '{"result":"FAIL","issues":[]}');
+      const claudeLog = db.addReviewLog(iteration.id, 'claude', 'PASS', '{"result":"PASS","issues":[]}');
+      db.addReviewLog(otherIteration.id, 'codex', 'PASS', 'other');
+
+      expect(codexLog).toMatchObject({ iterationId: iteration.id, agent: 'codex', result: 'FAIL' });
+      expect(claudeLog.createdAt).toBeTruthy();
+      expect(db.getReviewLogs(iteration.id)).toEqual([codexLog, claudeLog]);
+    });
+
+    it('should append agent timelines to an iteration in order', () => {
+      const plan = db.createPlan('/path/to/plan.md', '/path/to/workdir', 'test-owner', 'test-repo');
+      const step = db.createStep(plan.id, 1, 'Setup');
+      const iteration = db.createIteration(step.id, 1, 'implementation', 'claude', 'codex');
+
+      db.addTimelineEntries(iteration.id, [
+        { kind: 'tool_use', tool: 'Bash', toolUseId: 'tool-1', content: 'npm test', isError: false },
+        { kind: 'tool_result', tool: 'Bash', toolUseId: 'tool-1', content: '1 failed', isError: true },
+      ]);
+      db.addTimelineEntries(iteration.id, [
+        { kind: 'text', tool: null, toolUseId: null, content: 'Fixed the test', isError: false },
+      ]);
+
+      const timeline = db.getTimeline(iteration.id);
+      expect(timeline.map(({ kind, tool, content, isError }) => ({ kind, tool, content, isError }))).toEqual([
+        { kind: 'tool_use', tool: 'Bash', content: 'npm test', isError: false },
+        { kind: 'tool_result', tool: 'Bash', content: '1 failed', isError: true },
+        { kind: 'text', tool: null, content: 'Fixed the test', isError: false },
+      ]);
+      expect(timeline[0]).toMatchObject({ iterationId: iteration.id, toolUseId: 'tool-1' });
+      expect(db.getTimeline(iteration.id + 1)).toEqual([]);
+    });
   });
 
   describe('plan-scoped queries', () => {
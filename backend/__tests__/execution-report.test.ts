@@ -0,0 +1,261 @@
+import {
+  buildExecutionReport,
+  formatDuration,
+  formatExecutionReport,
+} from '../execution-report.js';
+import type { DbStep, Issue, Iteration, Plan } from '../models.js';
+import type { ExecutionState } from '../storage.js';
+
+describe('execution report', () => {
+  const plan: Plan = {
+    id: 7,
+    planFilePath: '/project/plan.md',
+    workDir: '/project',
+    owner: 'test-owner',
+    repo: 'test-repo',
+    elapsedMs: 0,
+    createdAt: '2025-01-01T10:00:00.000Z',
+  };
+
+  const createStep = (overrides: Partial<DbStep>): DbStep => ({
+    id: 1,
+    planId: plan.id,
+    stepNumber: 1,
+    title: 'Setup',
+    status: 'pending',
+    dependsOn: [],
+    worktreePath: null,
+    branch: null,
+    syncedSha: null,
+    prNumber: null,
+    elapsedMs: 0,
+    createdAt: plan.createdAt,
+    updatedAt: plan.createdAt,
+    ...overrides,
+  });
+
+  const createIteration = (overrides: Partial<Iteration>): Iteration => ({
+    id: 1,
+    stepId: 1,
+    iterationNumber: 1,
+    type: 'implementation',
+    commitSha: null,
+    claudeLog: 'very long log',
+    codexLog: null,
+    buildStatus: null,
+    reviewStatus: null,
+    status: 'completed',
+    phase: 'done',
+    interruptionReason: null,
+    implementationAgent: 'claude',
+    reviewAgent: 'codex',
+    agentSessionId: null,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    agentDurationMs: 0,
+    ciDurationMs: 0,
+    createdAt: '2025-01-01T10:00:00.000Z',
+    updatedAt: '2025-01-01T10:05:00.000Z',
+    ...overrides,
+  });
+
+  const issue: Issue = {
+    id: 1,
+    iterationId: 1,
+    type: 'codex_review',
+    description: 'Missing | test',
+    filePath: 'src/app.ts',
+    lineNumber: 12,
+    endLineNumber: null,
+    severity: 'error',
+    category: null,
+    confidence: null,
+    suggestedPatch: null,
+    reviewCommentId: null,
+    status: 'fixed',
+    createdAt: '2025-01-01T10:05:00.000Z',
+    resolvedAt: '2025-01-01T10:12:00.000Z',
+  };
+
+  const state: ExecutionState = {
+    steps: [
+      createStep({ id: 1, status: 'completed', updatedAt: '2025-01-01T10:12:00.000Z' }),
+      createStep({ id: 2, stepNumber: 2, title: 'API', status: 'in_progress', dependsOn: [1] }),
+    ],
+    iterations: [
+      createIteration({
+        id: 1,
+        commitSha: 'abcdef1234567',
+        buildStatus: 'passed',
+        reviewStatus: 'failed',
+        inputTokens: 12_000,
+        outputTokens: 800,
+        costUsd: 0.25,
+      }),
+      createIteration({
+        id: 2,
+        iterationNumber: 2,
+        type: 'review_fix',
+        commitSha: '1234567abcdef',
+        buildStatus: 'passed',
+        reviewStatus: 'passed',
+        inputTokens: 3_000,
+        outputTokens: 200,
+        costUsd: 0.05,
+        createdAt: '2025-01-01T10:06:00.000Z',
+        updatedAt: '2025-01-01T10:12:00.000Z',
+      }),
+      createIteration({
+        id: 3,
+        stepId: 2,
+        status: 'in_progress',
+        phase: 'build_check',
+        createdAt: '2025-01-01T10:13:00.000Z',
+        updatedAt: '2025-01-01T10:20:00.000Z',
+      }),
+    ],
+    issues: [issue],
+    auditLog: [],
+  };
+
+  it('should summarize steps, iterations, issues and durations', () => {
+    const report = buildExecutionReport(plan, state);
+
+    expect(report.executionId).toBe(7);
+    expect(report.status).toBe('in_progress');
+    expect(report.durationMs).toBe(20 * 60 * 1000);
+    expect(report.summary).toEqual({
+      totalSteps: 2,
+      completedSteps: 1,
+      inProgressSteps: 1,
+      pendingSteps: 0,
+      failedSteps: 0,
+      skippedSteps: 0,
+      iterations: 3,
+      openIssues: 0,
+      fixedIssues: 1,
+      deferredIssues: 0,
+      usage: { inputTokens: 15_000, outputTokens: 1_000, costUsd: expect.closeTo(0.3, 10) as number },
+    });
+
+    const [setup, api] = report.steps;
+    expect(setup.durationMs).toBe(12 * 60 * 1000);
+    expect(setup.finishedAt).toBe('2025-01-01T10:12:00.000Z');
+    expect(setup.iterations.map((iteration) => iteration.commitSha)).toEqual(['abcdef1234567', '1234567abcdef']);
+    expect(setup.iterations[0].issues).toEqual([
+      expect.objectContaining({ file: 'src/app.ts', line: 12, status: 'fixed' }),
+    ]);
+    expect(setup.iterations[0]).not.toHaveProperty('claudeLog');
+    expect(api.dependsOn).toEqual([1]);
+    expect(api.finishedAt).toBeNull();
+    expect(api.durationMs).toBe(7 * 60 * 1000);
+    expect(setup.iterations[1].usage).toEqual({ inputTokens: 3_000, outputTokens: 200, costUsd: 0.05 });
+    expect(api.usage).toEqual({ inputTokens: 0, outputTokens: 0, costUsd: 0 });
+  });
+
+  it('should report failed executions', () => {
+    const report = buildExecutionReport(plan, {
+      ...state,
+      steps: [createStep({ status: 'failed' })],
+    });
+
+    expect(report.status).toBe('failed');
+  });
+
+  it('should treat skipped steps as done and include the audit trail', () => {
+    const report = buildExecutionReport(plan, {
+      ...state,
+      steps: [
+        createStep({ id: 1, status: 'completed', updatedAt: '2025-01-01T10:12:00.000Z' }),
+        createStep({ id: 2, stepNumber: 2, title: 'API', status: 'skipped', updatedAt: '2025-01-01T10:30:00.000Z' }),
+      ],
+      auditLog: [{
+        id: 1,
+        planId: plan.id,
+        stepNumber: 2,
+        action: 'skip_step',
+        details: 'Skipped while failed',
+        source: 'cli',
+        createdAt: '2025-01-01T10:30:00.000Z',
+      }],
+    });
+
+    expect(report.status).toBe('completed');
+    expect(report.summary.skippedSteps).toBe(1);
+    expect(report.steps[1].finishedAt).toBe('2025-01-01T10:30:00.000Z');
+    expect(report.auditTrail).toEqual([{
+      step: 2,
+      action: 'skip_step',
+      details: 'Skipped while failed',
+      source: 'cli',
+      createdAt: '2025-01-01T10:30:00.000Z',
+    }]);
+
+    const markdown = formatExecutionReport(report, 'markdown');
+    expect(markdown).toContain('## ↷ Step 2: API');
+    expect(markdown).toContain('## Audit trail');
+    expect(markdown).toContain('- 2025-01-01T10:30:00.000Z skip_step step 2 (cli): Skipped while failed');
+    expect(formatExecutionReport(report, 'html')).toContain('<h2>Audit trail</h2>');
+  });
+
+  it('should list deferred review warnings as tech debt', () => {
+    const report = buildExecutionReport(plan, {
+      ...state,
+      issues: [
+        issue,
+        {
+          ...issue,
+          id: 2,
+          iterationId: 2,
+          description: 'Extract the retry loop',
+          lineNumber: null,
+          severity: 'warning',
+          status: 'deferred',
+          resolvedAt: null,
+        },
+      ],
+    });
+
+    expect(report.summary.deferredIssues).toBe(1);
+    expect(report.techDebt).toEqual([
+      expect.objectContaining({ step: 1, file: 'src/app.ts', line: null, description: 'Extract the retry loop' }),
+    ]);
+
+    const markdown = formatExecutionReport(report, 'markdown');
+    expect(markdown).toContain('- **Issues:** 0 open, 1 fixed, 1 deferred');
+    expect(markdown).toContain('## Tech debt\n\n- Step 1: `src/app.ts` Extract the retry loop');
+    expect(formatExecutionReport(report, 'html')).toContain('<h2>Tech debt</h2>');
+  });
+
+  it('should format JSON, Markdown and HTML', () => {
+    const report = buildExecutionReport(plan, state);
+
+    expect(JSON.parse(formatExecutionReport(report, 'json'))).toEqual(report);
+
+    const markdown = formatExecutionReport(report, 'markdown');
+    expect(markdown).toContain('# Stepcat execution #7');
+    expect(markdown).toContain('0 failed, 0 skipped');
+    expect(markdown).not.toContain('## Audit trail');
+    expect(markdown).not.toContain('## Tech debt');
+    expect(markdown).toContain('## ✓ Step 1: Setup');
+    expect(markdown).toContain('- **Usage:** 15.0k in / 1.0k out, $0.30');
+    expect(markdown).toContain('Status: completed, duration: 12m 0s, usage: 15.0k in / 1.0k out, $0.30');
+    expect(markdown).toContain('| 2 | review_fix | completed | 1234567 | passed | passed | 6m 0s |');
+    expect(markdown).toContain('| codex_review (error) | fixed | src/app.ts:12 | Missing \\| test |');
+    expect(formatExecutionReport(buildExecutionReport(plan, {
+      ...state,
+      issues: [{ ...issue, endLineNumber: 14, category: 'tests', confidence: 0.5, suggestedPatch: 'diff' }],
+    }), 'markdown')).toContain('| codex_review (error, tests) | fixed | src/app.ts:12-14 | Missing \\| test |');
+
+    const html = formatExecutionReport(report, 'html');
+    expect(html).toContain('<title>Stepcat execution #7</title>');
+    expect(html).toContain('<code>abcdef1</code>');
+  });
+
+  it('should format durations', () => {
+    expect(formatDuration(4_000)).toBe('4s');
+    expect(formatDuration(125_000)).toBe('2m 5s');
+    expect(formatDuration(3_780_000)).toBe('1h 3m');
+  });
+});
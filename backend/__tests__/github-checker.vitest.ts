@@ -374,6 +374,18 @@ describe('GitHubChecker getDefaultBranch', () => {
 
     expect(result).toBe('main');
   });
+
+  it('does not fall back when fetching the default branch strictly', async () => {
+    const checker = new GitHubChecker({ owner, repo, workDir });
+    (checker as any).octokit = {
+      repos: {
+        get: vi.fn().mockRejectedValue(new Error('Not found')),
+      },
+    };
+    (checker as any).log = noopLog;
+
+    await expect(checker.fetchDefaultBranch()).rejects.toThrow('Not found');
+  });
 });
 
 describe('GitHubChecker createPullRequest', () => {
@@ -450,3 +462,100 @@ describe('GitHubChecker createPullRequest', () => {
     });
   });
 });
+
+describe('GitHubChecker reviews', () => {
+  const owner = 'forketyfork';
+  const repo = 'stepcat';
+  const workDir = process.cwd();
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('posts a review and returns the ID of each inline comment', async () => {
+    const checker = new GitHubChecker({ owner, repo, workDir });
+    const createReview = vi.fn().mockResolvedValue({ data: { id: 5 } });
+    const listCommentsForReview = vi.fn();
+    const paginate = vi.fn().mockResolvedValue([
+      { id: 102, path: 'src/b.ts', body: 'Second' },
+      { id: 101, path: 'src/a.ts', body: 'First' },
+    ]);
+    (checker as any).octokit = {
+      paginate,
+      pulls: { createReview, listCommentsForReview },
+    };
+
+    const ids = await checker.createReview(7, 'abc123', 'Summary', [
+      { path: 'src/a.ts', line: 3, body: 'First' },
+      { path: 'src/b.ts', line: 9, startLine: 4, body: 'Second' },
+      { path: 'src/c.ts', line: 1, body: 'Missing' },
+    ]);
+
+    expect(ids).toEqual([101, 102, null]);
+    expect(createReview).toHaveBeenCalledWith({
+      owner,
+      repo,
+      pull_number: 7,
+      commit_id: 'abc123',
+      event: 'COMMENT',
+      body: 'Summary',
+      comments: [
+        { path: 'src/a.ts', line: 3, side: 'RIGHT', body: 'First' },
+        { path: 'src/b.ts', line: 9, side: 'RIGHT', start_line: 4, start_side: 'RIGHT', body: 'Second' },
+        { path: 'src/c.ts', line: 1, side: 'RIGHT', body: 'Missing' },
+      ],
+    });
+    expect(paginate).toHaveBeenCalledWith(listCommentsForReview, {
+      owner,
+      repo,
+      pull_number: 7,
+      review_id: 5,
+      per_page: 100,
+    });
+  });
+
+  it('resolves only the open threads started by the given comments', async () => {
+    const checker = new GitHubChecker({ owner, repo, workDir });
+    const graphql = vi.fn()
+      .mockResolvedValueOnce({
+        repository: {
+          pullRequest: {
+            reviewThreads: {
+              pageInfo: { hasNextPage: true, endCursor: 'page-2' },
+              nodes: [
+                { id: 'T1', isResolved: false, comments: { nodes: [{ databaseId: 101 }] } },
+                { id: 'T2', isResolved: true, comments: { nodes: [{ databaseId: 102 }] } },
+              ],
+            },
+          },
+        },
+      })
+      .mockResolvedValueOnce({
+        repository: {
+          pullRequest: {
+            reviewThreads: {
+              pageInfo: { hasNextPage: false, endCursor: null },
+              nodes: [
+                { id: 'T3', isResolved: false, comments: { nodes: [{ databaseId: 103 }] } },
+                { id: 'T4', isResolved: false, comments: { nodes: [{ databaseId: 104 }] } },
+              ],
+            },
+          },
+        },
+      })
+      .mockResolvedValue({});
+    (checker as any).octokit = { graphql };
+
+    const resolved = await checker.resolveReviewThreads(7, [101, 102, 104]);
+
+    expect(resolved).toBe(2);
+    expect(graphql).toHaveBeenNthCalledWith(1, expect.stringContaining('reviewThreads'), {
+      owner, repo, number: 7, cursor: null,
+    });
+    expect(graphql).toHaveBeenNthCalledWith(2, expect.stringContaining('reviewThreads'), {
+      owner, repo, number: 7, cursor: 'page-2',
+    });
+    expect(graphql).toHaveBeenNthCalledWith(3, expect.stringContaining('resolveReviewThread'), { threadId: 'T1' });
+    expect(graphql).toHaveBeenNthCalledWith(4, expect.stringContaining('resolveReviewThread'), { threadId: 'T4' });
+  });
+});
@@ -0,0 +1,115 @@
+import { PassThrough } from 'stream';
+
+import type { OrchestratorEvent } from '../events.js';
+import { HeadlessUIAdapter } from '../ui/headless-adapter.js';
+import { JsonUIAdapter } from '../ui/json-adapter.js';
+import { PermissionPolicy } from '../ui/permission-policy.js';
+import { PlainUIAdapter } from '../ui/plain-adapter.js';
+
+describe('headless UI adapters', () => {
+  let output: PassThrough;
+  let written: string;
+
+  beforeEach(() => {
+    output = new PassThrough();
+    written = '';
+    output.on('data', (chunk: Buffer) => {
+      written += chunk.toString();
+    });
+  });
+
+  const timestamp = Date.UTC(2025, 0, 1, 9, 30, 15);
+
+  describe('PermissionPolicy', () => {
+    it('should deny everything with an empty allowlist', () => {
+      const policy = new PermissionPolicy();
+
+      expect(policy.approves({ permissions: ['Bash(npm test:*)'] })).toBe(false);
+      expect(policy.describe()).toBe('auto-deny');
+    });
+
+    it('should approve only requests fully covered by the allowlist', () => {
+      const policy = new PermissionPolicy(['Bash(npm *)', 'Read(/tmp/*)']);
+
+      expect(policy.approves({ permissions: ['Bash(npm test:*)', 'Read(/tmp/cache/a.txt)'] })).toBe(true);
+      expect(policy.approves({ permissions: ['Bash(npm test:*)', 'Bash(rm -rf:*)'] })).toBe(false);
+      expect(policy.approves({ permissions: [] })).toBe(false);
+    });
+
+    it('should match entries without wildcards exactly', () => {
+      const policy = new PermissionPolicy(['Bash(zig build:*)']);
+
+      expect(policy.isAllowed('Bash(zig build:*)')).toBe(true);
+      expect(policy.isAllowed('Bash(zig build test:*)')).toBe(false);
+    });
+
+    it('should match wildcards in the middle of an entry', () => {
+      const policy = new PermissionPolicy(['Bash(*:*)']);
+
+      expect(policy.isAllowed('Bash(just lint:*)')).toBe(true);
+      expect(policy.isAllowed('Read(/etc/hosts)')).toBe(false);
+    });
+  });
+
+  describe('PlainUIAdapter', () => {
+    it('should print log and error events as timestamped lines', () => {
+      const adapter = new PlainUIAdapter({ output });
+
+      adapter.onEvent({ type: 'log', timestamp, level: 'info', message: 'STEP 1: Setup' });
+      adapter.onEvent({ type: 'log', timestamp, level: 'warn', message: 'Retrying', stepNumber: 2 });
+      adapter.onEvent({ type: 'log', timestamp, level: 'info', message: '   ' });
+      adapter.onEvent({ type: 'step_complete', timestamp, stepNumber: 1, stepTitle: 'Setup' });
+      adapter.onEvent({ type: 'error', timestamp, error: 'Build failed' });
+
+      expect(written).toBe(
+        '[09:30:15] STEP 1: Setup\n' +
+        '[09:30:15] WARN [step 2] Retrying\n' +
+        '[09:30:15] ERROR Build failed\n'
+      );
+    });
+
+    it('should answer permission requests with the policy and report the decision', async () => {
+      const adapter = new PlainUIAdapter({
+        output,
+        permissionPolicy: new PermissionPolicy(['Bash(npm *)']),
+      });
+
+      await expect(adapter.requestPermissionApproval({ permissions: ['Bash(npm test:*)'] }, 1)).resolves.toBe(true);
+      await expect(adapter.requestPermissionApproval({ permissions: ['Bash(curl:*)'] }, 1)).resolves.toBe(false);
+
+      expect(written).toContain('Permission request approved (auto-approve from allowlist (Bash(npm *))): Bash(npm test:*)');
+      expect(written).toContain('Permission request denied');
+      expect(adapter.isInteractive()).toBe(false);
+    });
+  });
+
+  describe('JsonUIAdapter', () => {
+    it('should write every event as a JSON line', () => {
+      const adapter = new JsonUIAdapter({ output });
+      const events: OrchestratorEvent[] = [
+        { type: 'execution_started', timestamp, executionId: 3, isResume: false },
+        { type: 'step_start', timestamp, stepNumber: 1, stepTitle: 'Setup', phase: 'pending', progress: { current: 1, total: 2 } },
+        { type: 'log', timestamp, level: 'info', message: 'line with "quotes"\tand tab' },
+      ];
+
+      for (const event of events) {
+        adapter.onEvent(event);
+      }
+
+      const lines = written.trimEnd().split('\n');
+      expect(lines).toHaveLength(3);
+      expect(lines.map((line) => JSON.parse(line) as OrchestratorEvent)).toEqual(events);
+    });
+  });
+
+  describe('HeadlessUIAdapter', () => {
+    it('should print nothing and deny permissions by default', async () => {
+      const adapter = new HeadlessUIAdapter({ output });
+
+      adapter.onEvent({ type: 'log', timestamp, level: 'info', message: 'hidden' });
+
+      await expect(adapter.requestPermissionApproval({ permissions: ['Bash(ls:*)'] }, 1)).resolves.toBe(false);
+      expect(written).toBe('');
+    });
+  });
+});
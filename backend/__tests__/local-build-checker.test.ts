@@ -0,0 +1,82 @@
+import { existsSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { GENERIC_BUILD_FAILURE_MESSAGE } from '../build-checker.js';
+import { DEFAULT_LOCAL_BUILD_COMMANDS, LocalBuildChecker } from '../local-build-checker.js';
+
+describe('LocalBuildChecker', () => {
+  let tempDir: string;
+  const log = jest.fn();
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'stepcat-local-build-'));
+    log.mockClear();
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should default to the just build, lint and test recipes', () => {
+    const checker = new LocalBuildChecker({ workDir: tempDir, log });
+
+    expect(checker.getCommands()).toEqual(DEFAULT_LOCAL_BUILD_COMMANDS);
+    expect(checker.getName()).toBe('local build');
+  });
+
+  it('should pass when all commands succeed', async () => {
+    const checker = new LocalBuildChecker({
+      workDir: tempDir,
+      commands: ['touch built', 'true'],
+      log,
+    });
+
+    const passed = await checker.waitForBuild('abc123', 1, 1, 3);
+
+    expect(passed).toBe(true);
+    expect(existsSync(join(tempDir, 'built'))).toBe(true);
+    expect(checker.getLastTrackedSha()).toBe('abc123');
+  });
+
+  it('should stop at the first failing command and report its output', async () => {
+    const checker = new LocalBuildChecker({
+      workDir: tempDir,
+      commands: ['echo "lint error in main.ts" && exit 2', 'touch should-not-run'],
+      log,
+    });
+
+    const passed = await checker.waitForBuild('abc123', 1, 1, 3);
+    const errors = await checker.extractBuildErrors('abc123');
+
+    expect(passed).toBe(false);
+    expect(existsSync(join(tempDir, 'should-not-run'))).toBe(false);
+    expect(errors).toContain('Command: echo "lint error in main.ts" && exit 2');
+    expect(errors).toContain('Exit code: 2');
+    expect(errors).toContain('lint error in main.ts');
+  });
+
+  it('should stop the processes a command started when it times out', async () => {
+    const checker = new LocalBuildChecker({
+      workDir: tempDir,
+      commands: ['(sleep 0.3 && touch leaked) & wait'],
+      log,
+    });
+
+    const passed = await checker.waitForBuild('abc123', 0.001, 1, 3);
+    const errors = await checker.extractBuildErrors('abc123');
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    expect(passed).toBe(false);
+    expect(errors).toContain('Command timed out');
+    expect(existsSync(join(tempDir, 'leaked'))).toBe(false);
+  });
+
+  it('should fall back to a generic message when no failure is recorded', async () => {
+    const checker = new LocalBuildChecker({ workDir: tempDir, commands: ['true'], log });
+
+    const errors = await checker.extractBuildErrors('unknown');
+
+    expect(errors).toBe(GENERIC_BUILD_FAILURE_MESSAGE);
+  });
+});
@@ -1,16 +1,20 @@
-import { execSync } from 'child_process';
-import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync, rmSync } from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
 
 import { vi } from 'vitest';
 
+import { createAgentRegistry } from '../agent-registry.js';
 import { ClaudeRunner as _ClaudeRunner } from '../claude-runner.js';
 import { CodexRunner as _CodexRunner } from '../codex-runner.js';
 import { Database } from '../database.js';
+import type { OrchestratorEvent } from '../events.js';
 import { OrchestratorEventEmitter } from '../events.js';
 import { GitHubChecker } from '../github-checker.js';
 import { Orchestrator } from '../orchestrator.js';
+import { AgentStalledError } from '../stall-watchdog.js';
+import { StopController } from '../stop-controller.js';
 
 
 const { mockClaudeRunnerInstance, mockCodexRunnerInstance, mockGitHubCheckerInstance } = vi.hoisted(() => {
@@ -37,7 +41,16 @@ const { mockClaudeRunnerInstance, mockCodexRunnerInstance, mockGitHubCheckerInst
     getCurrentBranch: vi.fn().mockReturnValue('feature-branch'),
     hasUpstreamTracking: vi.fn().mockReturnValue(true),
     getDefaultBranch: vi.fn().mockResolvedValue('main'),
+    fetchDefaultBranch: vi.fn().mockResolvedValue('main'),
+    findOpenPullRequest: vi.fn().mockResolvedValue(null),
+    getPullRequestState: vi.fn(),
+    retargetPullRequest: vi.fn().mockResolvedValue(undefined),
+    updatePullRequestDescription: vi.fn().mockResolvedValue(undefined),
+    createReview: vi.fn().mockResolvedValue([]),
+    resolveReviewThreads: vi.fn().mockResolvedValue(0),
     remoteBranchExists: vi.fn().mockReturnValue(true),
+    closePullRequest: vi.fn().mockResolvedValue(undefined),
+    deleteRemoteBranch: vi.fn(),
     createPullRequest: vi.fn().mockResolvedValue({ number: 1, url: 'https://github.com/test-owner/test-repo/pull/1', headSha: 'abc123' }),
     getOctokit: vi.fn().mockReturnValue({
       checks: {
@@ -152,6 +165,55 @@ Implement the feature
 
       db.close();
     });
+
+    it('should run steps after the steps they depend on', async () => {
+      writeFileSync(planFile, `# Test Plan
+
+## Step 1: UI
+
+Depends on: 2
+
+Build the UI
+
+## Step 2: API
+
+Build the API
+`, 'utf-8');
+
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'abc123' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockGitHubCheckerInstance.getLastTrackedSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] })
+      });
+
+      const eventEmitter = new OrchestratorEventEmitter();
+      const events: any[] = [];
+      eventEmitter.on('event', (event) => events.push(event));
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        eventEmitter,
+        maxIterationsPerStep: 3,
+      });
+
+      const executionId = await orchestrator.run();
+
+      const startedSteps = events
+        .filter((e) => e.type === 'step_start')
+        .map((e) => e.stepNumber as number);
+      expect(startedSteps).toEqual([2, 1]);
+
+      const db = new Database(tempDir);
+      const steps = db.getSteps(executionId);
+      expect(steps[0].dependsOn).toEqual([2]);
+      expect(steps.every((step) => step.status === 'completed')).toBe(true);
+      db.close();
+    });
   });
 
   describe('resume execution', () => {
@@ -189,6 +251,52 @@ Implement the feature
       db2.close();
     });
 
+    it('should run steps that depend on a skipped step', async () => {
+      writeFileSync(planFile, `# Test Plan
+
+## Step 1: Setup
+
+Setup the project
+
+## Step 2: Implementation
+
+Depends on: 1
+
+Implement the feature
+`, 'utf-8');
+
+      const db = new Database(tempDir);
+      const plan = db.createPlan(planFile, tempDir, 'test-owner', 'test-repo');
+      const step1 = db.createStep(plan.id, 1, 'Setup');
+      db.createStep(plan.id, 2, 'Implementation', [1]);
+      db.updateStepStatus(step1.id, 'skipped');
+      db.close();
+
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'def456' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('def456');
+      mockGitHubCheckerInstance.getLastTrackedSha = vi.fn().mockReturnValue('def456');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] })
+      });
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        executionId: plan.id,
+        maxIterationsPerStep: 3,
+      });
+
+      await orchestrator.run();
+
+      const db2 = new Database(tempDir);
+      expect(db2.getSteps(plan.id).map((step) => step.status)).toEqual(['skipped', 'completed']);
+      expect(db2.getIterations(step1.id)).toHaveLength(0);
+      db2.close();
+    });
+
     it('should refresh pending steps from updated plan on resume', async () => {
       const db = new Database(tempDir);
       const plan = db.createPlan(planFile, tempDir, 'test-owner', 'test-repo');
@@ -391,17 +499,9 @@ More changes
       db.updateIteration(iteration1.id, { status: 'failed', commitSha: null });
       db.close();
 
-      // Mock execSync to return the manual commit SHA for git rev-parse HEAD
-      const mockedExecSync = vi.mocked(execSync);
-      mockedExecSync.mockImplementation((cmd: string) => {
-        if (typeof cmd === 'string' && cmd.includes('git rev-parse HEAD')) {
-          return manualCommitSha;
-        }
-        if (typeof cmd === 'string' && cmd.includes('git push')) {
-          return '';
-        }
-        return '';
-      });
+      // Mock git to return the manual commit SHA for git rev-parse HEAD
+      vi.mocked(execFileSync).mockImplementation(((_file: string, args: readonly string[]) =>
+        args[0] === 'rev-parse' && args[1] === 'HEAD' ? manualCommitSha : '') as unknown as typeof execFileSync);
 
       mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
       mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue(manualCommitSha);
@@ -470,17 +570,9 @@ More changes
       db.updateIteration(iteration2.id, { status: 'failed', commitSha: null });
       db.close();
 
-      // Mock execSync to return the known commit SHA (HEAD hasn't changed)
-      const mockedExecSync = vi.mocked(execSync);
-      mockedExecSync.mockImplementation((cmd: string) => {
-        if (typeof cmd === 'string' && cmd.includes('git rev-parse HEAD')) {
-          return knownCommitSha;
-        }
-        if (typeof cmd === 'string' && cmd.includes('git push')) {
-          return '';
-        }
-        return '';
-      });
+      // Mock git to return the known commit SHA (HEAD hasn't changed)
+      vi.mocked(execFileSync).mockImplementation(((_file: string, args: readonly string[]) =>
+        args[0] === 'rev-parse' && args[1] === 'HEAD' ? knownCommitSha : '') as unknown as typeof execFileSync);
 
       mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'newcommit456' });
       mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
@@ -684,127 +776,1354 @@ More changes
     });
   });
 
-  describe('code review handling', () => {
-    it('should create review_fix iteration when Codex finds issues', async () => {
-      mockClaudeRunnerInstance.run = jest
-        .fn()
-        .mockResolvedValueOnce({ success: true, commitSha: 'abc123' })
-        .mockResolvedValueOnce({ success: true, commitSha: 'fix789' })
-        .mockResolvedValue({ success: true, commitSha: 'step2' });
+  describe('parallel steps', () => {
+    const gitCalls = () => vi.mocked(execFileSync).mock.calls.map(([, args]) => (args as string[]).join(' '));
 
-      mockGitHubCheckerInstance.getLatestCommitSha = jest
-        .fn()
-        .mockReturnValueOnce('abc123')
-        .mockReturnValueOnce('fix789')
-        .mockReturnValue('step2');
-      mockGitHubCheckerInstance.getLastTrackedSha = jest
-        .fn()
-        .mockReturnValueOnce('abc123')
-        .mockReturnValueOnce('fix789')
-        .mockReturnValue('step2');
+    const mockGit = (options: { dirty?: boolean; conflicts?: number } = {}) => {
+      let conflicts = options.conflicts ?? 0;
+      vi.mocked(execFileSync).mockImplementation(((_file: string, args: readonly string[]) => {
+        // No step branch exists before the step creates it
+        if (args[0] === 'rev-parse' && args[1] === '--verify') {
+          throw new Error('fatal: Needed a single revision');
+        }
+        if (args[0] === 'rev-parse' && args[1] === '--git-common-dir') {
+          return '.git';
+        }
+        if (args[0] === 'merge' && args[1] === '--no-ff' && conflicts > 0) {
+          conflicts -= 1;
+          throw new Error('CONFLICT (content): Merge conflict in src/app.ts');
+        }
+        if (args[0] === 'rev-parse' && args[1] === 'HEAD') {
+          return 'merge1';
+        }
+        return args[0] === 'status' && options.dirty ? ' M src/app.ts' : '';
+      }) as unknown as typeof execFileSync);
+    };
 
+    const runParallel = (executionId?: number, config: { resolveConflicts?: boolean } = {}) => {
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'def456' });
       mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
-
-      mockCodexRunnerInstance.run = jest
-        .fn()
-        .mockResolvedValueOnce({
-          success: true,
-          output: JSON.stringify({
-            result: 'FAIL',
-            issues: [{ file: 'src/app.ts', line: 42, severity: 'error', description: 'Missing error handling' }]
-          })
-        })
-        .mockResolvedValueOnce({
-          success: true,
-          output: JSON.stringify({ result: 'PASS', issues: [] })
-        })
-        .mockResolvedValue({
-          success: true,
-          output: JSON.stringify({ result: 'PASS', issues: [] })
-        });
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('def456');
+      mockGitHubCheckerInstance.getLastTrackedSha = vi.fn().mockReturnValue('def456');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] }),
+      });
 
       const orchestrator = new Orchestrator({
         planFile,
         workDir: tempDir,
         githubToken: 'test-token',
-        maxIterationsPerStep: 5,
+        executionId,
+        parallelSteps: 2,
+        maxIterationsPerStep: 3,
+        ...config,
       });
+      return orchestrator.run();
+    };
 
-      const executionId = await orchestrator.run();
+    const createPlanWithMergePending = () => {
+      writeFileSync(planFile, `# Test Plan
+
+## Step 1: Setup
+
+Setup the project
+
+## Step 2: Implementation
+
+Depends on: 1
+
+Implement the feature
+`, 'utf-8');
 
+      const worktreePath = join(tempDir, '.stepcat', 'worktrees', 'plan-1-step-1');
+      mkdirSync(worktreePath, { recursive: true });
       const db = new Database(tempDir);
-      const steps = db.getSteps(executionId);
-      const step = steps[0];
-      const iterations = db.getIterations(step.id);
+      const plan = db.createPlan(planFile, tempDir, 'test-owner', 'test-repo');
+      const step1 = db.createStep(plan.id, 1, 'Setup');
+      db.createStep(plan.id, 2, 'Implementation', [1]);
+      db.updateStepStatus(step1.id, 'completed');
+      db.updateStepWorkspace(step1.id, worktreePath, `stepcat/${plan.id}/step-1`);
+      const iteration = db.createIteration(step1.id, 1, 'implementation', 'claude', 'codex');
+      db.updateIteration(iteration.id, { status: 'completed', commitSha: 'abc123' });
+      db.close();
+      return { executionId: plan.id, stepId: step1.id };
+    };
 
-      expect(iterations.length).toBeGreaterThanOrEqual(2);
-      expect(iterations[0].type).toBe('implementation');
-      expect(iterations[1].type).toBe('review_fix');
+    it('should merge a step completed by an earlier run before starting the steps that depend on it', async () => {
+      const { executionId } = createPlanWithMergePending();
+      mockGit();
 
-      const issues = db.getIssues(iterations[0].id);
-      expect(issues.length).toBeGreaterThan(0);
-      expect(issues[0].type).toBe('codex_review');
-      expect(issues[0].description).toBe('Missing error handling');
+      await runParallel(executionId);
+
+      const calls = gitCalls();
+      const mergeIndex = calls.indexOf(`merge --no-ff stepcat/${executionId}/step-1 -m Merge step 1: Setup`);
+      const worktreeIndex = calls.findIndex((call) => call.startsWith(`worktree add -b stepcat/${executionId}/step-2`));
+      expect(mergeIndex).toBeGreaterThanOrEqual(0);
+      expect(worktreeIndex).toBeGreaterThan(mergeIndex);
+
+      const db = new Database(tempDir);
+      expect(db.getSteps(executionId).map((step) => [step.status, step.worktreePath])).toEqual([
+        ['completed', null],
+        ['completed', null],
+      ]);
+      db.close();
+    });
 
+    it('should close the pull request and delete the remote branch of each merged step', async () => {
+      const { executionId } = createPlanWithMergePending();
+      mockGit();
+      mockGitHubCheckerInstance.findOpenPullRequest = vi.fn((branch: string) =>
+        Promise.resolve(branch.startsWith('stepcat/') ? 20 + Number(branch.split('-').pop()) : null));
+      mockGitHubCheckerInstance.closePullRequest = vi.fn().mockResolvedValue(undefined);
+      mockGitHubCheckerInstance.deleteRemoteBranch = vi.fn();
+
+      try {
+        await runParallel(executionId);
+      } finally {
+        mockGitHubCheckerInstance.findOpenPullRequest = vi.fn().mockResolvedValue(null);
+      }
+
+      expect(mockGitHubCheckerInstance.closePullRequest.mock.calls).toEqual([
+        [21, 'Step 1 was merged into `feature-branch` by Stepcat, so this pull request is no longer needed.'],
+        [22, 'Step 2 was merged into `feature-branch` by Stepcat, so this pull request is no longer needed.'],
+      ]);
+      expect(mockGitHubCheckerInstance.deleteRemoteBranch.mock.calls).toEqual([
+        [`stepcat/${executionId}/step-1`],
+        [`stepcat/${executionId}/step-2`],
+      ]);
+    });
+
+    it('should not merge a step into a main checkout with uncommitted changes', async () => {
+      const { executionId } = createPlanWithMergePending();
+      mockGit({ dirty: true });
+
+      await expect(runParallel(executionId)).rejects.toThrow(
+        `Cannot merge step 1: the working tree in ${tempDir} has uncommitted changes.`,
+      );
+
+      expect(gitCalls().some((call) => call.startsWith('merge'))).toBe(false);
+      const db = new Database(tempDir);
+      expect(db.getSteps(executionId)[0].worktreePath).not.toBeNull();
+      db.close();
+    });
+
+    it('should resolve a conflicting merge in the worktree and merge the step once it passes again', async () => {
+      const { executionId, stepId } = createPlanWithMergePending();
+      mockGit({ conflicts: 1 });
+
+      await runParallel(executionId, { resolveConflicts: true });
+
+      const calls = gitCalls();
+      expect(calls).toContain('merge --no-edit feature-branch');
+      expect(calls.some((call) => call.startsWith('fetch'))).toBe(false);
+      expect(calls.filter((call) => call.startsWith(`merge --no-ff stepcat/${executionId}/step-1`))).toHaveLength(2);
+
+      const db = new Database(tempDir);
+      expect(db.getIterations(stepId).map((iteration) => iteration.type)).toEqual(['implementation', 'conflict_fix']);
+      expect(db.getOpenIssues(stepId)).toEqual([]);
+      expect(db.getSteps(executionId).map((step) => [step.status, step.worktreePath])).toEqual([
+        ['completed', null],
+        ['completed', null],
+      ]);
+      db.close();
+    });
+
+    it('should abort a conflicting merge and fail the step without conflict resolution', async () => {
+      const { executionId, stepId } = createPlanWithMergePending();
+      mockGit({ conflicts: 1 });
+
+      await expect(runParallel(executionId)).rejects.toThrow(
+        `Step 1 branch "stepcat/${executionId}/step-1" could not be merged into "feature-branch"`,
+      );
+
+      expect(gitCalls()).toContain('merge --abort');
+      const db = new Database(tempDir);
+      expect(db.getSteps(executionId)[0].status).toBe('failed');
+      expect(db.getOpenIssues(stepId).map((issue) => issue.type)).toEqual(['merge_conflict']);
       db.close();
     });
+
+    it('should point the agents in a worktree at the plan in the worktree', async () => {
+      const worktreePath = join(tempDir, '.stepcat', 'worktrees', 'plan-1-step-1');
+      mkdirSync(worktreePath, { recursive: true });
+      writeFileSync(join(worktreePath, 'plan.md'), readFileSync(planFile, 'utf-8'));
+      mockGit();
+
+      await runParallel();
+
+      const prompts = mockClaudeRunnerInstance.run.mock.calls.map(([options]) => options.prompt as string);
+      expect(prompts[0]).toContain(`plan located at ${join(worktreePath, 'plan.md')}`);
+      // Git is mocked, so the worktree of step 2 holds no copy of the plan
+      expect(prompts[1]).toContain(`plan located at ${planFile}`);
+    });
+
+    it('should keep the worktrees out of the status of the main checkout', async () => {
+      mockGit();
+
+      await runParallel();
+
+      const exclude = readFileSync(join(tempDir, '.git', 'info', 'exclude'), 'utf-8');
+      expect(exclude.split('\n').filter((line) => line === '/.stepcat/worktrees/')).toHaveLength(1);
+    });
   });
 
-  describe('max iterations enforcement', () => {
-    it('should fail step when max iterations exceeded', async () => {
-      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'abc123' });
-      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
-      mockGitHubCheckerInstance.getLastTrackedSha = vi.fn().mockReturnValue('abc123');
-      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+  describe('conflict fixes', () => {
+    const conflict = new MergeConflictError('PR #7 has merge conflicts with main', {
+      prNumber: 7,
+      branch: 'feature/test',
+      base: 'main',
+    });
+
+    const mockGit = () => {
+      let unmergedCalls = 0;
+      vi.mocked(execFileSync).mockImplementation(((_file: string, args: readonly string[]) => {
+        if (args[0] === 'merge' && args[1] === '--no-edit') {
+          throw new Error('CONFLICT (content): Merge conflict in src/app.ts');
+        }
+        if (args[0] === 'diff') {
+          unmergedCalls += 1;
+          return unmergedCalls === 1 ? 'src/app.ts' : '';
+        }
+        return args[0] === 'rev-parse' && args.includes('HEAD') ? 'merge1' : '';
+      }) as unknown as typeof execFileSync);
+    };
 
+    const runWithConflict = async (resolution: string) => {
+      mockGit();
+      mkdirSync(join(tempDir, 'src'));
+      mockClaudeRunnerInstance.run = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123' })
+        .mockImplementationOnce(() => {
+          writeFileSync(join(tempDir, 'src', 'app.ts'), resolution);
+          return Promise.resolve({ success: true });
+        })
+        .mockResolvedValue({ success: true, commitSha: 'step2' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi
+        .fn()
+        .mockRejectedValueOnce(conflict)
+        .mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
       mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
         success: true,
-        output: JSON.stringify({
-          result: 'FAIL',
-          issues: [{ file: 'test.ts', severity: 'error', description: 'Always fails' }]
-        })
+        output: JSON.stringify({ result: 'PASS', issues: [] }),
       });
 
       const orchestrator = new Orchestrator({
         planFile,
         workDir: tempDir,
         githubToken: 'test-token',
-        maxIterationsPerStep: 3,
+        resolveConflicts: true,
+        maxIterationsPerStep: 5,
       });
+      return orchestrator.run();
+    };
 
-      await expect(orchestrator.run()).rejects.toThrow(/exceeded maximum iterations/);
+    it('should let the implementation agent resolve the conflicts and continue with the build check', async () => {
+      const executionId = await runWithConflict('export const retries = 3;\n');
+
+      const conflictPrompt = mockClaudeRunnerInstance.run.mock.calls[1][0].prompt as string;
+      expect(conflictPrompt).toContain('merge conflicts with "main"');
+      expect(conflictPrompt).toContain('src/app.ts');
+      expect(vi.mocked(execFileSync)).toHaveBeenCalledWith(
+        'git',
+        ['commit', '--no-edit'],
+        expect.objectContaining({ cwd: tempDir }),
+      );
+      // The review looks at the implementation, not at the merge
+      expect(JSON.stringify(mockCodexRunnerInstance.run.mock.calls[0])).toContain('Review commit abc123');
 
       const db = new Database(tempDir);
-      const steps = db.getSteps(1);
-      expect(steps[0].status).toBe('failed');
+      const [step1, step2] = db.getSteps(executionId);
+      const iterations = db.getIterations(step1.id);
+      expect(iterations.map((iteration) => [iteration.type, iteration.status, iteration.commitSha, iteration.buildStatus])).toEqual([
+        ['implementation', 'completed', 'abc123', 'merge_conflict'],
+        ['conflict_fix', 'completed', 'merge1', 'passed'],
+      ]);
+      expect(db.getIssues(iterations[0].id)).toEqual([
+        expect.objectContaining({ type: 'merge_conflict', status: 'fixed' }),
+      ]);
+      expect(step1.status).toBe('completed');
+      expect(step2.status).toBe('completed');
       db.close();
     });
 
-    it('should perform review on final allowed iteration before failing', async () => {
-      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'abc123' });
-      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
-      mockGitHubCheckerInstance.getLastTrackedSha = vi.fn().mockReturnValue('abc123');
-      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+    it('should stop and abort the merge when conflict markers remain', async () => {
+      await expect(runWithConflict('<<<<<<< HEAD\nexport const retries = 2;\n=======\nexport const retries = 3;\n>>>>>>> origin/main\n'))
+        .rejects.toThrow('PR #7 has merge conflicts with main');
+
+      expect(vi.mocked(execFileSync)).toHaveBeenCalledWith(
+        'git',
+        ['merge', '--abort'],
+        expect.objectContaining({ cwd: tempDir }),
+      );
+
+      const db = new Database(tempDir);
+      const [execution] = db.getAllPlans();
+      const [step1] = db.getSteps(execution.id);
+      expect(db.getIterations(step1.id)[1]).toMatchObject({
+        type: 'conflict_fix',
+        status: 'failed',
+        commitSha: null,
+        interruptionReason: 'Conflict markers remain in src/app.ts',
+      });
+      expect(step1.status).toBe('failed');
+      db.close();
+    });
+  });
+
+  describe('base sync', () => {
+    const mockGit = (options: { conflicts: boolean }) => {
+      let merged = false;
+      let unmergedCalls = 0;
+      vi.mocked(execFileSync).mockImplementation(((_file: string, args: readonly string[]) => {
+        if (args[0] === 'merge' && args[1] === '--no-edit') {
+          if (options.conflicts) {
+            throw new Error('CONFLICT (content): Merge conflict in src/app.ts');
+          }
+          merged = true;
+        }
+        if (args[0] === 'commit') {
+          merged = true;
+        }
+        if (args[0] === 'rev-parse' && args[1] === 'HEAD') {
+          return merged ? 'sync1' : 'abc123';
+        }
+        if (args[0] === 'diff') {
+          // Both the sync and the conflict fix see the conflict; the agent resolves it
+          unmergedCalls += 1;
+          return unmergedCalls <= 2 ? 'src/app.ts' : '';
+        }
+        return '';
+      }) as unknown as typeof execFileSync);
+    };
 
+    const runWithSync = async (checks: boolean[], config: { resolveConflicts?: boolean } = {}) => {
+      mockClaudeRunnerInstance.run = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123' })
+        .mockResolvedValue({ success: true, commitSha: 'fix1' });
+      const waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      for (const passed of checks) {
+        waitForChecksToPass.mockResolvedValueOnce(passed);
+      }
+      mockGitHubCheckerInstance.waitForChecksToPass = waitForChecksToPass;
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
       mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
         success: true,
-        output: JSON.stringify({
-          result: 'FAIL',
-          issues: [{ file: 'test.ts', severity: 'error', description: 'Always fails' }]
-        })
+        output: JSON.stringify({ result: 'PASS', issues: [] }),
       });
 
       const orchestrator = new Orchestrator({
         planFile,
         workDir: tempDir,
         githubToken: 'test-token',
+        syncWithBase: true,
         maxIterationsPerStep: 3,
+        ...config,
       });
+      return orchestrator.run();
+    };
 
-      await expect(orchestrator.run()).rejects.toThrow(/exceeded maximum iterations/);
-      expect(mockCodexRunnerInstance.run).toHaveBeenCalledTimes(3);
-    });
-  });
+    const iterationTypes = (executionId: number, stepIndex: number) => {
+      const db = new Database(tempDir);
+      const types = db.getIterations(db.getSteps(executionId)[stepIndex].id).map((iteration) => iteration.type);
+      db.close();
+      return types;
+    };
+
+    it('should merge the default branch between steps once and verify the build without another review', async () => {
+      mockGit({ conflicts: false });
+
+      const executionId = await runWithSync([]);
+
+      const merges = vi.mocked(execFileSync).mock.calls.filter(([, args]) => (args as string[])[0] === 'merge');
+      expect(merges).toEqual([['git', ['merge', '--no-edit', 'origin/main'], expect.objectContaining({ cwd: tempDir })]]);
+      expect(mockGitHubCheckerInstance.waitForChecksToPass.mock.calls.map(([sha]) => sha as string)).toContain('sync1');
+      expect(mockCodexRunnerInstance.run).toHaveBeenCalledTimes(2);
+      expect(iterationTypes(executionId, 0)).toEqual(['implementation']);
+
+      const db = new Database(tempDir);
+      const [step1, step2] = db.getSteps(executionId);
+      expect(step1).toMatchObject({ status: 'completed', syncedSha: 'sync1' });
+      // Nothing follows the last step, so it is not synced
+      expect(step2).toMatchObject({ status: 'completed', syncedSha: null });
+      db.close();
+    });
+
+    it('should record conflicts as an issue and continue without syncing', async () => {
+      mockGit({ conflicts: true });
+
+      const executionId = await runWithSync([]);
+
+      expect(vi.mocked(execFileSync)).toHaveBeenCalledWith(
+        'git',
+        ['merge', '--abort'],
+        expect.objectContaining({ cwd: tempDir }),
+      );
+      expect(iterationTypes(executionId, 0)).toEqual(['implementation']);
+
+      const db = new Database(tempDir);
+      const [step1, step2] = db.getSteps(executionId);
+      const [iteration] = db.getIterations(step1.id);
+      expect(db.getIssues(iteration.id)).toEqual([
+        expect.objectContaining({
+          type: 'merge_conflict',
+          status: 'open',
+          description: expect.stringContaining('Merging "main" after step 1 conflicts in: src/app.ts'),
+        }),
+      ]);
+      expect(step1.syncedSha).toBeNull();
+      expect(step2.status).toBe('completed');
+      db.close();
+    });
+
+    it('should let the implementation agent resolve conflicts with conflict resolution enabled', async () => {
+      mockGit({ conflicts: true });
+
+      const executionId = await runWithSync([], { resolveConflicts: true });
+
+      expect(mockClaudeRunnerInstance.run.mock.calls[1][0].prompt as string)
+        .toContain('The branch of Step 1 has merge conflicts with "main"');
+      expect(iterationTypes(executionId, 0)).toEqual(['implementation', 'conflict_fix']);
+      expect(mockCodexRunnerInstance.run).toHaveBeenCalledTimes(2);
+
+      const db = new Database(tempDir);
+      const [step1] = db.getSteps(executionId);
+      expect(db.getOpenIssues(step1.id)).toEqual([]);
+      expect(step1.syncedSha).toBe('sync1');
+      db.close();
+    });
+
+    it('should record a build that fails after syncing and leave it to the next step', async () => {
+      mockGit({ conflicts: false });
+
+      const executionId = await runWithSync([true, false]);
+
+      expect(iterationTypes(executionId, 0)).toEqual(['implementation']);
+
+      const db = new Database(tempDir);
+      const [step1, step2] = db.getSteps(executionId);
+      const [implementation] = db.getIterations(step1.id);
+      expect(db.getIssues(implementation.id).map((issue) => issue.type)).toEqual(['ci_failure']);
+      expect(step1).toMatchObject({ status: 'completed', syncedSha: null });
+      expect(step2.status).toBe('completed');
+      db.close();
+    });
+
+    it('should fail when the default branch to sync with is unknown', async () => {
+      mockGit({ conflicts: false });
+      mockGitHubCheckerInstance.fetchDefaultBranch = vi.fn().mockRejectedValue(new Error('Bad credentials'));
+
+      try {
+        await expect(runWithSync([])).rejects.toThrow(
+          'Could not determine the default branch to sync with after step 1: Bad credentials',
+        );
+      } finally {
+        mockGitHubCheckerInstance.fetchDefaultBranch = vi.fn().mockResolvedValue('main');
+      }
+    });
+
+    it('should refuse to sync with local build checks or parallel steps', () => {
+      const message = "Base sync merges the default branch from GitHub and can't be combined with local build checks or parallel steps.";
+      expect(() => new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        buildChecker: 'local',
+        buildCommands: ['npm test'],
+        syncWithBase: true,
+      })).toThrow(message);
+      expect(() => new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        parallelSteps: 2,
+        syncWithBase: true,
+      })).toThrow(message);
+    });
+  });
+
+  describe('stacked pull requests', () => {
+    const runStacked = async (
+      getPullRequestState: (prNumber: number) => { merged: boolean; baseRef: string },
+      findOpenPullRequest = (branch: string): Promise<number | null> => Promise.resolve(10 + Number(branch.split('-').pop())),
+    ) => {
+      writeFileSync(planFile, `# Test Plan
+
+## Step 1: Setup
+
+Setup the project
+
+## Step 2: Implementation
+
+Implement the feature
+
+## Step 3: Documentation
+
+Document the feature
+`, 'utf-8');
+      vi.mocked(execFileSync).mockImplementation(((_file: string, args: readonly string[]) => {
+        // No step branch exists before the step creates it
+        if (args[0] === 'rev-parse' && args[1] === '--verify') {
+          throw new Error('fatal: Needed a single revision');
+        }
+        return '';
+      }) as unknown as typeof execFileSync);
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'abc123' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockGitHubCheckerInstance.findOpenPullRequest = vi.fn(findOpenPullRequest);
+      mockGitHubCheckerInstance.getPullRequestState = vi.fn((prNumber: number) =>
+        Promise.resolve({ number: prNumber, title: '', body: '', ...getPullRequestState(prNumber) }));
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] }),
+      });
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        stackedPrs: true,
+        maxIterationsPerStep: 3,
+      });
+      return orchestrator.run();
+    };
+
+    const gitCalls = () => vi.mocked(execFileSync).mock.calls.map(([, args]) => (args as string[]).join(' '));
+
+    it('should create each step branch on top of the previous one and record its pull request', async () => {
+      const executionId = await runStacked((prNumber) =>
+        ({ merged: false, baseRef: prNumber === 11 ? 'main' : `stepcat/1/step-${prNumber - 11}` }));
+
+      expect(gitCalls()).toEqual(expect.arrayContaining([
+        `checkout -b stepcat/${executionId}/step-1 HEAD`,
+        `checkout -b stepcat/${executionId}/step-2 stepcat/${executionId}/step-1`,
+        `checkout -b stepcat/${executionId}/step-3 stepcat/${executionId}/step-2`,
+      ]));
+      expect(gitCalls().some((call) => call.startsWith('rebase'))).toBe(false);
+      expect(mockGitHubCheckerInstance.retargetPullRequest).not.toHaveBeenCalled();
+
+      const db = new Database(tempDir);
+      expect(db.getSteps(executionId).map((step) => [step.branch, step.prNumber])).toEqual([
+        [`stepcat/${executionId}/step-1`, 11],
+        [`stepcat/${executionId}/step-2`, 12],
+        [`stepcat/${executionId}/step-3`, 13],
+      ]);
+      db.close();
+    });
+
+    it('should rebase and retarget the rest of the stack once a pull request below it is merged', async () => {
+      const executionId = await runStacked((prNumber) => {
+        if (prNumber === 11) {
+          // Merged once step 2 has been implemented
+          return { merged: mockClaudeRunnerInstance.run.mock.calls.length > 1, baseRef: 'main' };
+        }
+        return { merged: false, baseRef: 'stepcat/1/step-1' };
+      });
+
+      expect(gitCalls()).toEqual(expect.arrayContaining([
+        'fetch origin main',
+        `rebase --onto origin/main stepcat/${executionId}/step-1 stepcat/${executionId}/step-2`,
+        `push --force-with-lease origin stepcat/${executionId}/step-2`,
+        `checkout -b stepcat/${executionId}/step-3 stepcat/${executionId}/step-2`,
+      ]));
+      expect(mockGitHubCheckerInstance.retargetPullRequest).toHaveBeenCalledWith(12, 'main');
+      expect(mockGitHubCheckerInstance.retargetPullRequest).toHaveBeenCalledTimes(1);
+    });
+
+    it('should start the next step from the base branch when every pull request below it is merged', async () => {
+      const executionId = await runStacked((prNumber) => ({ merged: prNumber === 11, baseRef: 'main' }));
+
+      expect(gitCalls()).toEqual(expect.arrayContaining([
+        'fetch origin main',
+        `checkout -b stepcat/${executionId}/step-2 origin/main`,
+      ]));
+      expect(mockGitHubCheckerInstance.retargetPullRequest).not.toHaveBeenCalled();
+    });
+
+    it('should carry on without a pull request number when the lookup fails', async () => {
+      const executionId = await runStacked(
+        () => ({ merged: false, baseRef: 'main' }),
+        () => Promise.reject(new Error('Bad credentials')),
+      );
+
+      const db = new Database(tempDir);
+      expect(db.getSteps(executionId).map((step) => [step.status, step.prNumber])).toEqual([
+        ['completed', null],
+        ['completed', null],
+        ['completed', null],
+      ]);
+      db.close();
+    });
+
+    it('should keep the progress checklist of every open stacked pull request up to date', async () => {
+      await runStacked((prNumber) =>
+        ({ merged: false, baseRef: prNumber === 11 ? 'main' : `stepcat/1/step-${prNumber - 11}` }));
+
+      const updates = new Map(mockGitHubCheckerInstance.updatePullRequestDescription.mock.calls
+        .map(([prNumber, title, body]) => [prNumber as number, { title: title as string, body: body as string }]));
+      expect(updates.get(12)?.title).toBe('[Stepcat] Step 2/3: Implementation');
+      expect(updates.get(12)?.body).toContain('**Step 2: Implementation** (completed, 1 iteration, this pull request)');
+      expect(updates.get(13)?.body).toContain('### Progress: 3 of 3 steps done');
+    });
+
+    it('should refuse to stack pull requests without GitHub build checks', () => {
+      expect(() => new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        buildChecker: 'local',
+        buildCommands: ['npm test'],
+        stackedPrs: true,
+      })).toThrow("Stacked pull requests need GitHub build checks and can't be combined with parallel steps.");
+    });
+  });
+
+  describe('pull request progress', () => {
+    it('should keep the title and progress checklist of the pull request up to date', async () => {
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'abc1234567' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc1234567');
+      mockGitHubCheckerInstance.findOpenPullRequest = vi.fn().mockResolvedValue(7);
+      let description = { title: '[Stepcat] Setup', body: 'Notes\n\n<!-- stepcat:progress -->\nCurrent step\n<!-- /stepcat:progress -->' };
+      mockGitHubCheckerInstance.getPullRequestState = vi.fn(() =>
+        Promise.resolve({ number: 7, merged: false, baseRef: 'main', ...description }));
+      mockGitHubCheckerInstance.updatePullRequestDescription = vi.fn((_prNumber: number, title: string, body: string) => {
+        description = { title, body };
+        return Promise.resolve();
+      });
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] }),
+      });
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        maxIterationsPerStep: 3,
+      });
+      await orchestrator.run();
+
+      expect(mockGitHubCheckerInstance.findOpenPullRequest).toHaveBeenCalledTimes(1);
+      // The events of the whole run arrive within the debounce time and are written at once
+      expect(mockGitHubCheckerInstance.getPullRequestState).toHaveBeenCalledTimes(1);
+      expect(mockGitHubCheckerInstance.updatePullRequestDescription).toHaveBeenCalledTimes(1);
+      expect(description.title).toBe('[Stepcat] plan.md: all 2 steps done');
+      expect(description.body).toBe([
+        'Notes',
+        '',
+        '<!-- stepcat:progress -->',
+        '### Progress: 2 of 2 steps done',
+        '',
+        '- [x] **Step 1: Setup** (completed, 1 iteration)',
+        '  - Commits: abc1234',
+        '- [x] **Step 2: Implementation** (completed, 1 iteration)',
+        '  - Commits: abc1234',
+        '<!-- /stepcat:progress -->',
+      ].join('\n'));
+    });
+
+    it('should carry on when the pull request description cannot be updated', async () => {
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'abc123' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockGitHubCheckerInstance.findOpenPullRequest = vi.fn().mockResolvedValue(7);
+      mockGitHubCheckerInstance.getPullRequestState = vi.fn().mockRejectedValue(new Error('Resource not accessible by integration'));
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] }),
+      });
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        maxIterationsPerStep: 3,
+      });
+      const executionId = await orchestrator.run();
+
+      const db = new Database(tempDir);
+      expect(db.getSteps(executionId).map((step) => step.status)).toEqual(['completed', 'completed']);
+      db.close();
+    });
+  });
+
+  describe('code review handling', () => {
+    it('should create review_fix iteration when Codex finds issues', async () => {
+      mockClaudeRunnerInstance.run = jest
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123' })
+        .mockResolvedValueOnce({ success: true, commitSha: 'fix789' })
+        .mockResolvedValue({ success: true, commitSha: 'step2' });
+
+      mockGitHubCheckerInstance.getLatestCommitSha = jest
+        .fn()
+        .mockReturnValueOnce('abc123')
+        .mockReturnValueOnce('fix789')
+        .mockReturnValue('step2');
+      mockGitHubCheckerInstance.getLastTrackedSha = jest
+        .fn()
+        .mockReturnValueOnce('abc123')
+        .mockReturnValueOnce('fix789')
+        .mockReturnValue('step2');
+
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+
+      mockCodexRunnerInstance.run = jest
+        .fn()
+        .mockResolvedValueOnce({
+          success: true,
+          output: JSON.stringify({
+            result: 'FAIL',
+            issues: [{ file: 'src/app.ts', line: 42, severity: 'error', description: 'Missing error handling' }]
+          })
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          output: JSON.stringify({ result: 'PASS', issues: [] })
+        })
+        .mockResolvedValue({
+          success: true,
+          output: JSON.stringify({ result: 'PASS', issues: [] })
+        });
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        maxIterationsPerStep: 5,
+      });
+
+      const executionId = await orchestrator.run();
+
+      const db = new Database(tempDir);
+      const steps = db.getSteps(executionId);
+      const step = steps[0];
+      const iterations = db.getIterations(step.id);
+
+      expect(iterations.length).toBeGreaterThanOrEqual(2);
+      expect(iterations[0].type).toBe('implementation');
+      expect(iterations[1].type).toBe('review_fix');
+
+      const issues = db.getIssues(iterations[0].id);
+      expect(issues.length).toBeGreaterThan(0);
+      expect(issues[0].type).toBe('codex_review');
+      expect(issues[0].description).toBe('Missing error handling');
+
+      db.close();
+    });
+  });
+
+  describe('review comments', () => {
+    const runWithReviewComments = async () => {
+      mockClaudeRunnerInstance.run = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123' })
+        .mockResolvedValueOnce({ success: true, commitSha: 'fix789' })
+        .mockResolvedValue({ success: true, commitSha: 'step2' });
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.findOpenPullRequest = vi.fn().mockResolvedValue(7);
+      mockGitHubCheckerInstance.getPullRequestState = vi.fn().mockResolvedValue({
+        number: 7, merged: false, baseRef: 'main', title: '', body: '',
+      });
+      mockCodexRunnerInstance.run = vi
+        .fn()
+        .mockResolvedValueOnce({
+          success: true,
+          output: JSON.stringify({
+            result: 'FAIL',
+            issues: [
+              { file: 'src/app.ts', line: 42, severity: 'error', description: 'Missing error handling' },
+              { file: 'README.md', severity: 'error', description: 'Usage is outdated' },
+            ],
+          }),
+        })
+        .mockResolvedValue({ success: true, output: JSON.stringify({ result: 'PASS', issues: [] }) });
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        postReviewComments: true,
+        maxIterationsPerStep: 5,
+      });
+      return orchestrator.run();
+    };
+
+    it('should post each review with inline comments and resolve their threads once fixed', async () => {
+      mockGitHubCheckerInstance.createReview = vi.fn().mockResolvedValueOnce([501]).mockResolvedValue([]);
+      mockGitHubCheckerInstance.resolveReviewThreads = vi.fn().mockResolvedValue(1);
+
+      const executionId = await runWithReviewComments();
+
+      expect(mockGitHubCheckerInstance.createReview).toHaveBeenCalledWith(
+        7,
+        'abc123',
+        expect.stringContaining('- **error**: `README.md` Usage is outdated'),
+        [{ path: 'src/app.ts', line: 42, body: '**error**: Missing error handling' }],
+      );
+      // The passing reviews of the fix and of step 2 are posted too
+      expect(mockGitHubCheckerInstance.createReview).toHaveBeenCalledTimes(3);
+      expect(mockGitHubCheckerInstance.resolveReviewThreads).toHaveBeenCalledWith(7, [501]);
+
+      const db = new Database(tempDir);
+      const [iteration] = db.getIterations(db.getSteps(executionId)[0].id);
+      expect(db.getIssues(iteration.id).map((issue) => [issue.reviewCommentId, issue.status])).toEqual([
+        [501, 'fixed'],
+        [null, 'fixed'],
+      ]);
+      db.close();
+    });
+
+    it('should post the review as a summary when GitHub rejects the inline comments', async () => {
+      mockGitHubCheckerInstance.createReview = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Unprocessable Entity: Line could not be resolved'))
+        .mockResolvedValue([]);
+      mockGitHubCheckerInstance.resolveReviewThreads = vi.fn().mockResolvedValue(0);
+
+      await runWithReviewComments();
+
+      expect(mockGitHubCheckerInstance.createReview).toHaveBeenNthCalledWith(
+        2,
+        7,
+        'abc123',
+        expect.stringContaining('- **error**: `src/app.ts:42` Missing error handling'),
+        [],
+      );
+      expect(mockGitHubCheckerInstance.resolveReviewThreads).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('review warnings', () => {
+    it('should defer warnings as tech debt without a review fix', async () => {
+      mockClaudeRunnerInstance.run = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123' })
+        .mockResolvedValue({ success: true, commitSha: 'step2' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi
+        .fn()
+        .mockResolvedValueOnce({
+          success: true,
+          output: JSON.stringify({
+            result: 'FAIL',
+            issues: [{ file: 'src/app.ts', line: 7, severity: 'warning', description: 'Extract the retry loop' }],
+          }),
+        })
+        .mockResolvedValue({ success: true, output: JSON.stringify({ result: 'PASS', issues: [] }) });
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        reviewWarnings: 'defer',
+        maxIterationsPerStep: 1,
+      });
+
+      const executionId = await orchestrator.run();
+
+      const db = new Database(tempDir);
+      const [step1, step2] = db.getSteps(executionId);
+      const iterations = db.getIterations(step1.id);
+      expect(iterations.map((iteration) => [iteration.type, iteration.reviewStatus])).toEqual([
+        ['implementation', 'passed'],
+      ]);
+      expect(db.getIssues(iterations[0].id)).toEqual([
+        expect.objectContaining({ severity: 'warning', description: 'Extract the retry loop', status: 'deferred' }),
+      ]);
+      expect(step1.status).toBe('completed');
+      expect(step2.status).toBe('completed');
+      db.close();
+    });
+  });
+
+  describe('quick fixes', () => {
+    const patch = '--- a/src/app.ts\n+++ b/src/app.ts\n@@ -7 +7 @@\n-const retries = 3\n+const retries = 3;\n';
+    const failingReview = {
+      success: true,
+      output: JSON.stringify({
+        result: 'FAIL',
+        issues: [{ file: 'src/app.ts', line: 7, severity: 'error', description: 'Missing semicolon', patch }],
+      }),
+    };
+    const passingReview = { success: true, output: JSON.stringify({ result: 'PASS', issues: [] }) };
+
+    const mockGit = (options: { applies: boolean }) => {
+      let statusCalls = 0;
+      vi.mocked(execFileSync).mockImplementation(((_file: string, args: readonly string[]) => {
+        if (args[0] === 'status') {
+          statusCalls += 1;
+          return statusCalls % 2 === 0 ? ' M src/app.ts' : '';
+        }
+        if (args[0] === 'apply' && !options.applies) {
+          throw new Error('patch does not apply');
+        }
+        return args[0] === 'rev-parse' ? 'quick1' : '';
+      }) as unknown as typeof execFileSync);
+    };
+
+    const createOrchestrator = () => new Orchestrator({
+      planFile,
+      workDir: tempDir,
+      githubToken: 'test-token',
+      quickFixes: true,
+      maxIterationsPerStep: 5,
+    });
+
+    it('should apply suggested patches without running the implementation agent', async () => {
+      mockGit({ applies: true });
+      mockClaudeRunnerInstance.run = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123' })
+        .mockResolvedValue({ success: true, commitSha: 'step2' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValueOnce(failingReview).mockResolvedValue(passingReview);
+
+      const executionId = await createOrchestrator().run();
+
+      const db = new Database(tempDir);
+      const [step1] = db.getSteps(executionId);
+      const iterations = db.getIterations(step1.id);
+      expect(iterations.map((iteration) => [iteration.type, iteration.implementationAgent, iteration.commitSha])).toEqual([
+        ['implementation', 'claude', 'abc123'],
+        ['quick_fix', 'quick-fix', 'quick1'],
+      ]);
+      expect(db.getIssues(iterations[0].id)).toEqual([
+        expect.objectContaining({ description: 'Missing semicolon', status: 'fixed', suggestedPatch: patch }),
+      ]);
+      expect(step1.status).toBe('completed');
+      expect(vi.mocked(execFileSync)).toHaveBeenCalledWith(
+        'git',
+        ['apply', '--3way', '--whitespace=nowarn', '-'],
+        expect.objectContaining({ input: patch }),
+      );
+      expect(mockClaudeRunnerInstance.run).toHaveBeenCalledTimes(2);
+      db.close();
+    });
+
+    it('should fall back to a review fix when the patches do not apply', async () => {
+      mockGit({ applies: false });
+      mockClaudeRunnerInstance.run = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123' })
+        .mockResolvedValueOnce({ success: true, commitSha: 'fix789' })
+        .mockResolvedValue({ success: true, commitSha: 'step2' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValueOnce(failingReview).mockResolvedValue(passingReview);
+
+      const executionId = await createOrchestrator().run();
+
+      const db = new Database(tempDir);
+      const [step1] = db.getSteps(executionId);
+      const iterations = db.getIterations(step1.id);
+      expect(iterations.map((iteration) => [iteration.type, iteration.status, iteration.commitSha])).toEqual([
+        ['implementation', 'completed', 'abc123'],
+        ['quick_fix', 'failed', null],
+        ['review_fix', 'completed', 'fix789'],
+      ]);
+      expect(iterations[1].interruptionReason).toContain('patch does not apply');
+      expect(step1.status).toBe('completed');
+      db.close();
+    });
+
+    it('should fall back to a review fix when the build fails after the patches', async () => {
+      mockGit({ applies: true });
+      mockClaudeRunnerInstance.run = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123' })
+        .mockResolvedValueOnce({ success: true, commitSha: 'fix789' })
+        .mockResolvedValue({ success: true, commitSha: 'step2' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi
+        .fn()
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false)
+        .mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValueOnce(failingReview).mockResolvedValue(passingReview);
+
+      const executionId = await createOrchestrator().run();
+
+      const db = new Database(tempDir);
+      const [step1] = db.getSteps(executionId);
+      const iterations = db.getIterations(step1.id);
+      expect(iterations.map((iteration) => [iteration.type, iteration.buildStatus])).toEqual([
+        ['implementation', 'passed'],
+        ['quick_fix', 'failed'],
+        ['review_fix', 'passed'],
+      ]);
+      const reviewFixPrompt = mockClaudeRunnerInstance.run.mock.calls[1][0].prompt as string;
+      expect(reviewFixPrompt).toContain('Missing semicolon');
+      expect(reviewFixPrompt).toContain('+const retries = 3;');
+      expect(reviewFixPrompt).toContain('the build then failed');
+      expect(step1.status).toBe('completed');
+      db.close();
+    });
+
+    it('should keep the issues open while the build of the patches has not passed', async () => {
+      mockGit({ applies: true });
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'abc123' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi
+        .fn()
+        .mockResolvedValueOnce(true)
+        .mockResolvedValue(false);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue(failingReview);
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        quickFixes: true,
+        maxIterationsPerStep: 2,
+      });
+
+      await expect(orchestrator.run()).rejects.toThrow(/exceeded maximum iterations \(2\)/);
+
+      const db = new Database(tempDir);
+      const [step1] = db.getSteps(db.getAllPlans()[0].id);
+      const [implementation] = db.getIterations(step1.id);
+      expect(db.getIssues(implementation.id)).toEqual([
+        expect.objectContaining({ description: 'Missing semicolon', status: 'open' }),
+      ]);
+      db.close();
+    });
+
+    it('should count quick fixes toward the maximum iterations', async () => {
+      mockGit({ applies: true });
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'abc123' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue(failingReview);
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        quickFixes: true,
+        maxIterationsPerStep: 2,
+      });
+
+      await expect(orchestrator.run()).rejects.toThrow(/exceeded maximum iterations \(2\)/);
+
+      const db = new Database(tempDir);
+      const [step1] = db.getSteps(db.getAllPlans()[0].id);
+      expect(db.getIterations(step1.id).map((iteration) => iteration.type)).toEqual(['implementation', 'quick_fix']);
+      expect(mockClaudeRunnerInstance.run).toHaveBeenCalledTimes(1);
+      db.close();
+    });
+  });
+
+  describe('session resume', () => {
+    const runWithBuildFailure = async (claudeRun: ReturnType<typeof vi.fn>, resumeSessions: boolean) => {
+      mockClaudeRunnerInstance.run = claudeRun;
+      mockGitHubCheckerInstance.waitForChecksToPass = vi
+        .fn()
+        .mockResolvedValueOnce(false)
+        .mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] }),
+      });
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        resumeSessions,
+        maxIterationsPerStep: 5,
+      });
+      return orchestrator.run();
+    };
+
+    it('should resume the implementation session in a build fix', async () => {
+      const claudeRun = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123', sessionId: 'session-1' })
+        .mockResolvedValueOnce({ success: true, commitSha: 'def456', sessionId: 'session-1' })
+        .mockResolvedValue({ success: true, commitSha: 'step2', sessionId: 'session-2' });
+
+      const executionId = await runWithBuildFailure(claudeRun, true);
+
+      expect(claudeRun.mock.calls[0][0].resumeSessionId).toBeUndefined();
+      expect(claudeRun.mock.calls[1][0].resumeSessionId).toBe('session-1');
+      // Step 2 starts its own session
+      expect(claudeRun.mock.calls[2][0].resumeSessionId).toBeUndefined();
+
+      const db = new Database(tempDir);
+      const [step1] = db.getSteps(executionId);
+      expect(db.getIterations(step1.id).map((iteration) => [iteration.type, iteration.agentSessionId])).toEqual([
+        ['implementation', 'session-1'],
+        ['build_fix', 'session-1'],
+      ]);
+      db.close();
+    });
+
+    it('should start a fresh session when the previous one cannot be resumed', async () => {
+      const claudeRun = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123', sessionId: 'session-1' })
+        .mockRejectedValueOnce(new Error('No conversation found with session ID: session-1'))
+        .mockResolvedValueOnce({ success: true, commitSha: 'def456', sessionId: 'session-3' })
+        .mockResolvedValue({ success: true, commitSha: 'step2' });
+
+      const executionId = await runWithBuildFailure(claudeRun, true);
+
+      expect(claudeRun.mock.calls[1][0].resumeSessionId).toBe('session-1');
+      expect(claudeRun.mock.calls[2][0].resumeSessionId).toBeUndefined();
+
+      const db = new Database(tempDir);
+      const [step1] = db.getSteps(executionId);
+      const iterations = db.getIterations(step1.id);
+      expect(iterations[1]).toMatchObject({ type: 'build_fix', commitSha: 'def456', agentSessionId: 'session-3' });
+      db.close();
+    });
+
+    it('should start fresh sessions unless session resume is enabled', async () => {
+      const claudeRun = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123', sessionId: 'session-1' })
+        .mockResolvedValueOnce({ success: true, commitSha: 'def456', sessionId: 'session-2' })
+        .mockResolvedValue({ success: true, commitSha: 'step2' });
+
+      await runWithBuildFailure(claudeRun, false);
+
+      for (const [options] of claudeRun.mock.calls) {
+        expect(options.resumeSessionId).toBeUndefined();
+      }
+    });
+  });
+
+  describe('agent timeline', () => {
+    it('should store the timeline of the implementation agent with its iteration', async () => {
+      const timeline = [
+        { kind: 'tool_use', tool: 'Edit', toolUseId: 'tool-1', content: 'src/app.ts', isError: false },
+        { kind: 'tool_result', tool: 'Edit', toolUseId: 'tool-1', content: 'File updated', isError: false },
+      ];
+      mockClaudeRunnerInstance.run = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123', timeline })
+        .mockResolvedValue({ success: true, commitSha: 'step2', timeline: [] });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] }),
+      });
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+      });
+      const executionId = await orchestrator.run();
+
+      const db = new Database(tempDir);
+      const [step1, step2] = db.getSteps(executionId);
+      const [iteration] = db.getIterations(step1.id);
+      expect(db.getTimeline(iteration.id).map(({ kind, tool, content }) => [kind, tool, content])).toEqual([
+        ['tool_use', 'Edit', 'src/app.ts'],
+        ['tool_result', 'Edit', 'File updated'],
+      ]);
+      expect(db.getTimeline(db.getIterations(step2.id)[0].id)).toEqual([]);
+      db.close();
+    });
+  });
+
+  describe('stall detection', () => {
+    const claudeRunner = mockClaudeRunnerInstance as unknown as { runContinue: ReturnType<typeof vi.fn> };
+
+    const runWithStalledAgent = async (stallNudge: boolean) => {
+      mockClaudeRunnerInstance.run = vi
+        .fn()
+        .mockRejectedValueOnce(new AgentStalledError('Claude Code', 5))
+        .mockResolvedValue({ success: true, commitSha: 'step2' });
+      claudeRunner.runContinue = vi.fn().mockResolvedValue({ success: true, commitSha: 'abc123' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] }),
+      });
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        stallTimeoutMinutes: 5,
+        stallNudge,
+      });
+      return orchestrator.run();
+    };
+
+    it('should pass the stall timeout to the agent and nudge it once it stalls', async () => {
+      const executionId = await runWithStalledAgent(true);
+
+      expect(mockClaudeRunnerInstance.run.mock.calls[0][0].stallTimeoutMinutes).toBe(5);
+      expect(claudeRunner.runContinue).toHaveBeenCalledTimes(1);
+      expect(claudeRunner.runContinue.mock.calls[0][0].prompt).toContain('You stopped making progress on Step 1');
+
+      const db = new Database(tempDir);
+      const [step1] = db.getSteps(executionId);
+      expect(db.getIterations(step1.id)[0]).toMatchObject({ status: 'completed', commitSha: 'abc123' });
+      db.close();
+    });
+
+    it('should fail the iteration with the stall as its interruption reason without nudges', async () => {
+      await expect(runWithStalledAgent(false)).rejects.toThrow(AgentStalledError);
+
+      expect(claudeRunner.runContinue).not.toHaveBeenCalled();
+      const db = new Database(tempDir);
+      const [execution] = db.getAllPlans();
+      const [step1] = db.getSteps(execution.id);
+      expect(db.getIterations(step1.id)[0]).toMatchObject({
+        status: 'failed',
+        interruptionReason: 'Claude Code stalled: no output and no file changes for 5 minutes',
+      });
+      db.close();
+    });
+  });
+
+  describe('approval gate', () => {
+    it('should turn a rejection into review issues and a review fix', async () => {
+      mockClaudeRunnerInstance.run = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123' })
+        .mockResolvedValueOnce({ success: true, commitSha: 'fix789' })
+        .mockResolvedValue({ success: true, commitSha: 'step2' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] })
+      });
+
+      const requestStepApproval = vi
+        .fn()
+        .mockResolvedValueOnce({ approved: false, feedback: 'src/app.ts:3: Handle the empty case' })
+        .mockResolvedValue({ approved: true });
+      const uiAdapter = {
+        initialize: vi.fn(),
+        onEvent: vi.fn(),
+        shutdown: vi.fn(),
+        getName: () => 'test-ui',
+        requestStepApproval,
+      };
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        uiAdapters: [uiAdapter],
+        requireApproval: true,
+        maxIterationsPerStep: 3,
+      });
+
+      const executionId = await orchestrator.run();
+
+      expect(requestStepApproval).toHaveBeenCalledTimes(3);
+      expect(requestStepApproval.mock.calls[0][0]).toMatchObject({ stepNumber: 1, stepTitle: 'Setup', commits: ['abc123'] });
+      expect(requestStepApproval.mock.calls[1][0]).toMatchObject({ stepNumber: 1, commits: ['abc123', 'fix789'] });
+      expect(JSON.stringify(mockClaudeRunnerInstance.run.mock.calls[1])).toContain('Handle the empty case');
+
+      const db = new Database(tempDir);
+      const [step1, step2] = db.getSteps(executionId);
+      const iterations = db.getIterations(step1.id);
+      expect(iterations.map((iteration) => [iteration.type, iteration.reviewStatus])).toEqual([
+        ['implementation', 'failed'],
+        ['review_fix', 'passed'],
+      ]);
+      expect(db.getIssues(iterations[0].id)).toEqual([
+        expect.objectContaining({
+          type: 'codex_review',
+          filePath: 'src/app.ts',
+          lineNumber: 3,
+          description: 'Handle the empty case',
+          status: 'fixed',
+        }),
+      ]);
+      expect(step1.status).toBe('completed');
+      expect(step2.status).toBe('completed');
+      db.close();
+
+      expect(uiAdapter.onEvent).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'step_approval',
+        stepNumber: 1,
+        status: 'rejected',
+        feedback: 'src/app.ts:3: Handle the empty case',
+      }));
+    });
+
+    it('should require a UI adapter that can ask for approval', () => {
+      expect(() => new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        requireApproval: true,
+      })).toThrow('Step approval requires a UI that can ask for it');
+    });
+  });
+
+  describe('max iterations enforcement', () => {
+    it('should fail step when max iterations exceeded', async () => {
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'abc123' });
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockGitHubCheckerInstance.getLastTrackedSha = vi.fn().mockReturnValue('abc123');
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({
+          result: 'FAIL',
+          issues: [{ file: 'test.ts', severity: 'error', description: 'Always fails' }]
+        })
+      });
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        maxIterationsPerStep: 3,
+      });
+
+      await expect(orchestrator.run()).rejects.toThrow(/exceeded maximum iterations/);
+
+      const db = new Database(tempDir);
+      const steps = db.getSteps(1);
+      expect(steps[0].status).toBe('failed');
+      db.close();
+    });
+
+    it('should perform review on final allowed iteration before failing', async () => {
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'abc123' });
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockGitHubCheckerInstance.getLastTrackedSha = vi.fn().mockReturnValue('abc123');
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({
+          result: 'FAIL',
+          issues: [{ file: 'test.ts', severity: 'error', description: 'Always fails' }]
+        })
+      });
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        maxIterationsPerStep: 3,
+      });
+
+      await expect(orchestrator.run()).rejects.toThrow(/exceeded maximum iterations/);
+      expect(mockCodexRunnerInstance.run).toHaveBeenCalledTimes(3);
+    });
+  });
 
   describe('event emission', () => {
     it('should emit step_start and step_complete events', async () => {
@@ -868,6 +2187,104 @@ More changes
       expect(iterationStartEvents.length).toBeGreaterThan(0);
       expect(iterationCompleteEvents.length).toBeGreaterThan(0);
     });
+
+    it('should record agent usage on iterations and in iteration_complete events', async () => {
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        commitSha: 'abc123',
+        usage: { inputTokens: 1000, outputTokens: 100, costUsd: 0.1 },
+      });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockGitHubCheckerInstance.getLastTrackedSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] }),
+        usage: { inputTokens: 500, outputTokens: 50, costUsd: 0.02 },
+      });
+
+      const eventEmitter = new OrchestratorEventEmitter();
+      const events: any[] = [];
+      eventEmitter.on('event', (event) => events.push(event));
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        eventEmitter,
+        maxIterationsPerStep: 3,
+      });
+
+      const executionId = await orchestrator.run();
+
+      const iterationCompleteEvents = events.filter((e) => e.type === 'iteration_complete');
+      expect(iterationCompleteEvents[0].usage).toEqual({ inputTokens: 1000, outputTokens: 100, costUsd: 0.1 });
+
+      const db = new Database(tempDir);
+      const iterations = db.getIterationsForPlan(executionId);
+      db.close();
+
+      expect(iterations).toHaveLength(2);
+      for (const iteration of iterations) {
+        expect(iteration.inputTokens).toBe(1500);
+        expect(iteration.outputTokens).toBe(150);
+        expect(iteration.costUsd).toBeCloseTo(0.12);
+      }
+    });
+  });
+
+  describe('budgets', () => {
+    it('should stop cleanly when a step budget is used up and resume with a raised limit', async () => {
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        commitSha: 'abc123',
+        usage: { inputTokens: 1000, outputTokens: 100, costUsd: 0.1 },
+      });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockGitHubCheckerInstance.getLastTrackedSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] }),
+      });
+
+      const eventEmitter = new OrchestratorEventEmitter();
+      const events: any[] = [];
+      eventEmitter.on('event', (event) => events.push(event));
+      const stopController = new StopController();
+
+      const executionId = await new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        eventEmitter,
+        stopController,
+        budgets: { step: { tokens: 1000 } },
+      }).run();
+
+      expect(stopController.getStopReason()).toContain('Budget exceeded: step 1 used 1100 of 1000 tokens');
+      expect(mockCodexRunnerInstance.run).not.toHaveBeenCalled();
+      expect(events.some((e) => e.type === 'all_complete')).toBe(false);
+
+      let db = new Database(tempDir);
+      expect(db.getSteps(executionId)[0].status).toBe('in_progress');
+      const [interrupted] = db.getIterationsForPlan(executionId);
+      expect(interrupted.interruptionReason).toContain('Budget exceeded');
+      db.close();
+
+      await new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        executionId,
+        budgets: { step: { tokens: 10000 } },
+      }).run();
+
+      db = new Database(tempDir);
+      const steps = db.getSteps(executionId);
+      db.close();
+      expect(steps.every((step) => step.status === 'completed')).toBe(true);
+    });
   });
 
   describe('configuration', () => {
@@ -915,6 +2332,35 @@ More changes
 
       await expect(orchestrator.run()).rejects.toThrow(/exceeded maximum iterations \(5\)/);
     });
+
+    it('should append configured prompt instructions', async () => {
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'abc123' });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockGitHubCheckerInstance.getLastTrackedSha = vi.fn().mockReturnValue('abc123');
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] })
+      });
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        promptInstructions: {
+          implementation: 'Use conventional commit messages.',
+          codexReviewImplementation: 'Reject any use of lodash.',
+        },
+      });
+
+      await orchestrator.run();
+
+      const implementationPrompt = mockClaudeRunnerInstance.run.mock.calls[0][0].prompt as string;
+      const reviewPrompt = mockCodexRunnerInstance.run.mock.calls[0][0].prompt as string;
+      expect(implementationPrompt).toContain('Additional project instructions:\nUse conventional commit messages.');
+      expect(reviewPrompt).toContain('Additional project instructions:\nReject any use of lodash.');
+      expect(implementationPrompt).not.toContain('lodash');
+    });
   });
 
   describe('agent configuration', () => {
@@ -978,6 +2424,168 @@ More changes
       expect(mockClaudeRunnerInstance.run).toHaveBeenCalled();
       expect(mockCodexRunnerInstance.run).not.toHaveBeenCalled();
     });
+
+    it('resolves custom agents from the registry', async () => {
+      const customAgent = {
+        getName: () => 'my-agent',
+        getDisplayName: () => 'My Agent',
+        implement: vi.fn().mockResolvedValue({ success: true, commitSha: 'abc123', output: 'done' }),
+        review: vi.fn(),
+      };
+      const agentRegistry = createAgentRegistry();
+      agentRegistry.register(customAgent);
+
+      mockClaudeRunnerInstance.run = vi.fn();
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({
+        success: true,
+        output: JSON.stringify({ result: 'PASS', issues: [] }),
+      });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      mockGitHubCheckerInstance.getLastTrackedSha = vi.fn().mockReturnValue('abc123');
+
+      const storage = new Database(tempDir);
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        storage,
+        implementationAgent: 'my-agent',
+        agentRegistry,
+      });
+
+      const executionId = await orchestrator.run();
+
+      expect(customAgent.implement).toHaveBeenCalled();
+      expect(mockClaudeRunnerInstance.run).not.toHaveBeenCalled();
+      const iterations = storage.getIterationsForPlan(executionId);
+      expect(iterations[0].implementationAgent).toBe('my-agent');
+      storage.close();
+    });
+
+    it('merges the verdicts of several reviewers and keeps their logs apart', async () => {
+      const failOutput = JSON.stringify({
+        result: 'FAIL',
+        issues: [{ file: 'src/app.ts', line: 3, severity: 'error', description: 'Handle the empty case' }],
+      });
+      const passOutput = JSON.stringify({ result: 'PASS', issues: [] });
+      const secondReviewer = {
+        getName: () => 'second-reviewer',
+        getDisplayName: () => 'Second Reviewer',
+        implement: vi.fn(),
+        review: vi.fn()
+          .mockResolvedValueOnce({ success: true, output: failOutput })
+          .mockResolvedValue({ success: true, output: passOutput }),
+      };
+      const agentRegistry = createAgentRegistry();
+      agentRegistry.register(secondReviewer);
+
+      mockClaudeRunnerInstance.run = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true, commitSha: 'abc123' })
+        .mockResolvedValueOnce({ success: true, commitSha: 'fix789' })
+        .mockResolvedValue({ success: true, commitSha: 'step2' });
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, output: passOutput });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+
+      const storage = new Database(tempDir);
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        storage,
+        agentRegistry,
+        consensusReview: { agents: ['codex', 'second-reviewer'], steps: [1] },
+      });
+
+      const executionId = await orchestrator.run();
+
+      const [step1, step2] = storage.getSteps(executionId);
+      const iterations = storage.getIterations(step1.id);
+      expect(iterations.map((iteration) => [iteration.type, iteration.reviewStatus])).toEqual([
+        ['implementation', 'failed'],
+        ['review_fix', 'passed'],
+      ]);
+      expect(storage.getReviewLogs(iterations[0].id).map((log) => [log.agent, log.result, log.log])).toEqual([
+        ['codex', 'PASS', passOutput],
+        ['second-reviewer', 'FAIL', failOutput],
+      ]);
+      expect(iterations[0].codexLog).toContain('=== Reviewer: second-reviewer (FAIL) ===');
+      expect(storage.getIssues(iterations[0].id)).toEqual([
+        expect.objectContaining({ filePath: 'src/app.ts', lineNumber: 3, description: 'Handle the empty case' }),
+      ]);
+
+      // Steps outside the consensus list are reviewed by the review agent alone
+      expect(secondReviewer.review).toHaveBeenCalledTimes(2);
+      const step2Iterations = storage.getIterations(step2.id);
+      expect(storage.getReviewLogs(step2Iterations[0].id).map((log) => log.agent)).toEqual(['codex']);
+      storage.close();
+    });
+
+    it('applies the review policy to the reviewers that finished when one of them fails', async () => {
+      const passOutput = JSON.stringify({ result: 'PASS', issues: [] });
+      const secondReviewer = {
+        getName: () => 'second-reviewer',
+        getDisplayName: () => 'Second Reviewer',
+        implement: vi.fn(),
+        review: vi.fn().mockRejectedValue(new Error('Reviewer timed out')),
+      };
+      const agentRegistry = createAgentRegistry();
+      agentRegistry.register(secondReviewer);
+
+      mockClaudeRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, commitSha: 'abc123' });
+      mockCodexRunnerInstance.run = vi.fn().mockResolvedValue({ success: true, output: passOutput });
+      mockGitHubCheckerInstance.waitForChecksToPass = vi.fn().mockResolvedValue(true);
+      mockGitHubCheckerInstance.getLatestCommitSha = vi.fn().mockReturnValue('abc123');
+      const eventEmitter = new OrchestratorEventEmitter();
+      const events: OrchestratorEvent[] = [];
+      eventEmitter.on('event', (event) => events.push(event));
+
+      const storage = new Database(tempDir);
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        storage,
+        agentRegistry,
+        eventEmitter,
+        consensusReview: { agents: ['second-reviewer', 'codex'], steps: [1] },
+      });
+
+      const executionId = await orchestrator.run();
+
+      const [step1] = storage.getSteps(executionId);
+      const [iteration] = storage.getIterations(step1.id);
+      expect(step1.status).toBe('completed');
+      expect(iteration.reviewStatus).toBe('passed');
+      expect(iteration.codexLog).toContain('=== Reviewer: second-reviewer (ERROR) ===\nReviewer timed out');
+      const reviewEvents = events.filter((event) =>
+        (event.type === 'codex_review_start' || event.type === 'codex_review_complete') && event.iterationId === iteration.id);
+      expect(reviewEvents).toEqual([
+        expect.objectContaining({ type: 'codex_review_start', agent: 'second-reviewer', reviewers: ['second-reviewer', 'codex'] }),
+        expect.objectContaining({ type: 'codex_review_complete', agent: 'codex', reviewers: ['codex'] }),
+      ]);
+      storage.close();
+    });
+
+    it('rejects unknown consensus reviewers', () => {
+      expect(() => new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        consensusReview: { agents: ['codex', 'missing-reviewer'] },
+      })).toThrow('Unknown agent: missing-reviewer');
+    });
+
+    it('rejects unknown agents', () => {
+      expect(() => new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        reviewAgent: 'missing-agent',
+      })).toThrow('Unknown agent: missing-agent');
+    });
   });
 
   describe('extractBuildErrors', () => {
@@ -1025,10 +2633,10 @@ More changes
         githubToken: 'test-token',
       });
 
-      const extractBuildErrors = (orchestrator as unknown as {
-        extractBuildErrors: (sha: string) => Promise<string>;
-      }).extractBuildErrors;
-      const errors = await extractBuildErrors.call(orchestrator, 'abc123');
+      const buildChecker = (orchestrator as unknown as {
+        buildChecker: { extractBuildErrors: (sha: string) => Promise<string> };
+      }).buildChecker;
+      const errors = await buildChecker.extractBuildErrors('abc123');
 
       expect(errors).toContain('Check: build');
       expect(errors).toContain('Output:');
@@ -1113,5 +2721,43 @@ More changes
       // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- isTTY can be undefined at runtime despite types
       setTty(originalIsTty ?? false);
     });
+
+    it('lets non-interactive UI adapters decide without a TTY', async () => {
+      const originalIsTty = process.stdin.isTTY;
+      setTty(false);
+
+      const requestPermissionApproval = vi.fn().mockResolvedValue(false);
+      const uiAdapter = {
+        initialize: vi.fn(),
+        onEvent: vi.fn(),
+        shutdown: vi.fn(),
+        getName: () => 'headless-ui',
+        isInteractive: () => false,
+        requestPermissionApproval,
+      };
+
+      const orchestrator = new Orchestrator({
+        planFile,
+        workDir: tempDir,
+        githubToken: 'test-token',
+        uiAdapters: [uiAdapter],
+      });
+
+      const confirmPermissionUpdate = (orchestrator as unknown as {
+        confirmPermissionUpdate: (
+          permissions: string[],
+          reason: string | undefined,
+          stepNumber: number,
+        ) => Promise<boolean>;
+      }).confirmPermissionUpdate;
+
+      await expect(
+        confirmPermissionUpdate.call(orchestrator, ['Bash(curl:*)'], 'needed', 1),
+      ).resolves.toBe(false);
+      expect(requestPermissionApproval).toHaveBeenCalledTimes(1);
+
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- isTTY can be undefined at runtime despite types
+      setTty(originalIsTty ?? false);
+    });
   });
 });
@@ -0,0 +1,133 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { Database } from '../database.js';
+import type { Plan } from '../models.js';
+import { PlanEditError, PlanEditor } from '../plan-editor.js';
+import { StepParser } from '../step-parser.js';
+
+const PLAN = `# Plan
+
+## Step 1: Setup
+
+Create the project.
+
+## Step 2: API
+
+Depends on: 1
+
+Build the API.
+
+## Step 3: UI
+
+Depends on: 1, 2
+
+Build the UI.
+
+## Step 4: Docs
+
+Depends on: 3
+
+## Notes
+
+Keep it small.
+`;
+
+describe('PlanEditor', () => {
+  let tempDir: string;
+  let planFile: string;
+  let db: Database;
+  let plan: Plan;
+  let editor: PlanEditor;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'stepcat-plan-editor-'));
+    planFile = join(tempDir, 'plan.md');
+    writeFileSync(planFile, PLAN, 'utf-8');
+    db = new Database(tempDir);
+    plan = db.createPlan(planFile, tempDir, 'owner', 'repo');
+    for (const step of new StepParser(planFile).parseSteps()) {
+      db.createStep(plan.id, step.number, step.title, step.dependsOn);
+    }
+    editor = new PlanEditor(db);
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const readPlan = (): string => readFileSync(planFile, 'utf-8');
+  const summarize = (): string[] =>
+    db.getSteps(plan.id).map((step) => `${step.stepNumber}:${step.title}:${step.dependsOn.join(',')}`);
+
+  it('should retitle a pending step in the plan and in storage', () => {
+    editor.apply(plan.id, { type: 'retitle', stepNumber: 2, title: 'REST API' });
+
+    expect(readPlan()).toContain('## Step 2: REST API\n');
+    expect(summarize()[1]).toBe('2:REST API:1');
+  });
+
+  it('should insert a step and renumber the steps after it', () => {
+    const steps = editor.apply(plan.id, { type: 'add', afterStepNumber: 1, title: 'Database' });
+
+    expect(steps.map((step) => step.title)).toEqual(['Setup', 'Database', 'API', 'UI', 'Docs']);
+    expect(summarize()).toEqual(['1:Setup:', '2:Database:', '3:API:1', '4:UI:1,3', '5:Docs:4']);
+    expect(readPlan()).toContain('Create the project.\n\n## Step 2: Database\n\n## Step 3: API\n');
+    expect(readPlan()).toContain('## Notes\n\nKeep it small.\n');
+  });
+
+  it('should move a step and keep dependencies pointing at the same steps', () => {
+    editor.apply(plan.id, { type: 'move', stepNumber: 4, direction: 'up' });
+
+    expect(summarize()).toEqual(['1:Setup:', '2:API:1', '3:Docs:4', '4:UI:1,2']);
+    expect(readPlan().indexOf('## Step 3: Docs')).toBeLessThan(readPlan().indexOf('## Step 4: UI'));
+  });
+
+  it('should split a step into two', () => {
+    editor.apply(plan.id, { type: 'split', stepNumber: 2, title: 'API tests' });
+
+    expect(summarize()).toEqual(['1:Setup:', '2:API:1', '3:API tests:2', '4:UI:1,2', '5:Docs:4']);
+    expect(readPlan()).toContain('## Step 3: API tests\n\nDepends on: 2\n');
+  });
+
+  it('should keep a skipped step and dependencies on it in the plan', () => {
+    const third = db.getSteps(plan.id)[2];
+    db.updateStepStatus(third.id, 'skipped');
+
+    expect(() => editor.apply(plan.id, { type: 'move', stepNumber: 4, direction: 'up' }))
+      .toThrow('Step 3 is skipped; only steps after it can be added, moved or split');
+
+    editor.apply(plan.id, { type: 'split', stepNumber: 4, title: 'API docs' });
+    expect(summarize()).toEqual(['1:Setup:', '2:API:1', '3:UI:1,2', '4:Docs:3', '5:API docs:4']);
+    expect(db.getSteps(plan.id)[2].status).toBe('skipped');
+    expect(readPlan()).toContain('## Step 3: UI\n\nDepends on: 1, 2\n\nBuild the UI.');
+  });
+
+  it('should lock steps that have started or completed', () => {
+    const [first, second] = db.getSteps(plan.id);
+    db.updateStepStatus(first.id, 'completed');
+    db.updateStepStatus(second.id, 'in_progress');
+
+    expect(() => editor.apply(plan.id, { type: 'retitle', stepNumber: 1, title: 'Init' }))
+      .toThrow('Step 1 is completed and can no longer be edited');
+    expect(() => editor.apply(plan.id, { type: 'move', stepNumber: 3, direction: 'up' }))
+      .toThrow(PlanEditError);
+    expect(() => editor.apply(plan.id, { type: 'add', afterStepNumber: 1, title: 'Database' }))
+      .toThrow('Step 2 is in progress; only steps after it can be added, moved or split');
+
+    editor.apply(plan.id, { type: 'add', afterStepNumber: 2, title: 'Database' });
+    expect(summarize()).toEqual(['1:Setup:', '2:API:1', '3:Database:', '4:UI:1,2', '5:Docs:4']);
+  });
+
+  it('should restore the plan when an edit would make it invalid', () => {
+    writeFileSync(planFile, PLAN.replace('Depends on: 3', 'Depends on: 3\n\n## Step 4: Duplicate'), 'utf-8');
+    const before = readPlan();
+
+    expect(() => editor.apply(plan.id, { type: 'retitle', stepNumber: 1, title: 'Init' }))
+      .toThrow('Edit would leave an invalid plan');
+    expect(readPlan()).toBe(before);
+    expect(summarize()[0]).toBe('1:Setup:');
+  });
+});
@@ -0,0 +1,176 @@
+import type { DbStep, Issue, Iteration } from '../models.js';
+import {
+  PROGRESS_END_MARKER,
+  PROGRESS_START_MARKER,
+  ProgressUpdateQueue,
+  planPullRequestTitle,
+  renderPlanProgress,
+  replaceProgressSection,
+} from '../pr-progress.js';
+
+describe('pull request progress', () => {
+  const createStep = (overrides: Partial<DbStep>): DbStep => ({
+    id: 1,
+    planId: 1,
+    stepNumber: 1,
+    title: 'Setup',
+    status: 'pending',
+    dependsOn: [],
+    worktreePath: null,
+    branch: null,
+    syncedSha: null,
+    prNumber: null,
+    elapsedMs: 0,
+    createdAt: '2025-01-01T10:00:00.000Z',
+    updatedAt: '2025-01-01T10:00:00.000Z',
+    ...overrides,
+  });
+
+  const createIteration = (overrides: Partial<Iteration>): Iteration => ({
+    id: 1,
+    stepId: 1,
+    iterationNumber: 1,
+    type: 'implementation',
+    commitSha: null,
+    claudeLog: null,
+    codexLog: null,
+    buildStatus: null,
+    reviewStatus: null,
+    status: 'completed',
+    phase: 'done',
+    interruptionReason: null,
+    implementationAgent: 'claude',
+    reviewAgent: 'codex',
+    agentSessionId: null,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+    agentDurationMs: 0,
+    ciDurationMs: 0,
+    createdAt: '2025-01-01T10:00:00.000Z',
+    updatedAt: '2025-01-01T10:05:00.000Z',
+    ...overrides,
+  });
+
+  const issue: Issue = {
+    id: 1,
+    iterationId: 3,
+    type: 'codex_review',
+    description: 'Missing null check\nThe value can be undefined when the cache is cold.',
+    filePath: 'src/app.ts',
+    lineNumber: 12,
+    endLineNumber: null,
+    severity: 'error',
+    category: null,
+    confidence: null,
+    suggestedPatch: null,
+    reviewCommentId: null,
+    status: 'open',
+    createdAt: '2025-01-01T10:05:00.000Z',
+    resolvedAt: null,
+  };
+
+  const steps = [
+    createStep({ id: 1, status: 'completed' }),
+    createStep({ id: 2, stepNumber: 2, title: 'API', status: 'in_progress' }),
+    createStep({ id: 3, stepNumber: 3, title: 'Docs' }),
+  ];
+
+  it('should render a checklist with the commits, iterations and open issues of each step', () => {
+    const progress = renderPlanProgress([
+      {
+        step: steps[0],
+        iterations: [
+          createIteration({ id: 1, commitSha: 'abcdef1234567' }),
+          createIteration({ id: 2, iterationNumber: 2, type: 'review_fix', commitSha: '1234567abcdef' }),
+        ],
+        openIssues: [],
+      },
+      { step: steps[1], iterations: [createIteration({ id: 3, stepId: 2, commitSha: 'fedcba7654321' })], openIssues: [issue] },
+      { step: steps[2], iterations: [], openIssues: [] },
+    ], 2);
+
+    expect(progress).toBe([
+      PROGRESS_START_MARKER,
+      '### Progress: 1 of 3 steps done',
+      '',
+      '- [x] **Step 1: Setup** (completed, 2 iterations)',
+      '  - Commits: abcdef1, 1234567',
+      '- [ ] **Step 2: API** (in progress, 1 iteration, 1 open issue, this pull request)',
+      '  - Commits: fedcba7',
+      '  - Open issue: `src/app.ts:12` Missing null check',
+      '- [ ] **Step 3: Docs** (pending)',
+      PROGRESS_END_MARKER,
+    ].join('\n'));
+  });
+
+  it('should replace only the progress section of a description', () => {
+    const body = `Intro\n\n${PROGRESS_START_MARKER}\nold\n${PROGRESS_END_MARKER}\n\nNotes from the reviewer`;
+
+    expect(replaceProgressSection(body, `${PROGRESS_START_MARKER}\nnew\n${PROGRESS_END_MARKER}`))
+      .toBe(`Intro\n\n${PROGRESS_START_MARKER}\nnew\n${PROGRESS_END_MARKER}\n\nNotes from the reviewer`);
+  });
+
+  it('should append the progress section to a description without one', () => {
+    expect(replaceProgressSection('Written by hand\n', 'progress')).toBe('Written by hand\n\nprogress');
+    expect(replaceProgressSection('', 'progress')).toBe('progress');
+  });
+
+  it('should title the pull request after the next step to finish', () => {
+    expect(planPullRequestTitle('/project/plan.md', steps)).toBe('[Stepcat] Step 2/3: API');
+    expect(planPullRequestTitle('/project/plan.md', steps.map((step) => ({ ...step, status: 'completed' as const }))))
+      .toBe('[Stepcat] plan.md: all 3 steps done');
+  });
+
+  it('should fold updates requested while one runs into a single follow-up', async () => {
+    let release: () => void = () => undefined;
+    const update = jest.fn()
+      .mockImplementationOnce(() => new Promise<void>((resolve) => { release = resolve; }))
+      .mockResolvedValue(undefined);
+    const queue = new ProgressUpdateQueue({ update, onError: jest.fn() });
+
+    queue.schedule();
+    queue.schedule();
+    queue.schedule();
+    release();
+    await queue.flush();
+
+    expect(update).toHaveBeenCalledTimes(2);
+  });
+
+  it('should coalesce the updates requested within the debounce time', async () => {
+    jest.useFakeTimers();
+    try {
+      const update = jest.fn().mockResolvedValue(undefined);
+      const queue = new ProgressUpdateQueue({ update, onError: jest.fn(), debounceMs: 1000 });
+
+      queue.schedule();
+      queue.schedule();
+      expect(update).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+      await queue.flush();
+      expect(update).toHaveBeenCalledTimes(1);
+
+      queue.schedule();
+      await queue.flush();
+      expect(update).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should report failed updates and keep accepting new ones', async () => {
+    const onError = jest.fn();
+    const update = jest.fn().mockRejectedValueOnce(new Error('Bad credentials')).mockResolvedValue(undefined);
+    const queue = new ProgressUpdateQueue({ update, onError });
+
+    queue.schedule();
+    await queue.flush();
+    queue.schedule();
+    await queue.flush();
+
+    expect(onError).toHaveBeenCalledWith(new Error('Bad credentials'));
+    expect(update).toHaveBeenCalledTimes(2);
+  });
+});
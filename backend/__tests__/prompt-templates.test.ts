@@ -0,0 +1,94 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { PromptTemplateError, PromptTemplates } from '../prompt-templates.js';
+import { PROMPTS } from '../prompts.js';
+
+describe('PromptTemplates', () => {
+  let tempDir: string;
+  let templatesDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'stepcat-prompts-'));
+    templatesDir = join(tempDir, '.stepcat', 'prompts');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const writeTemplate = (fileName: string, content: string): void => {
+    mkdirSync(templatesDir, { recursive: true });
+    writeFileSync(join(templatesDir, fileName), content, 'utf-8');
+  };
+
+  it('should use the built-in prompts when there are no templates', () => {
+    const templates = PromptTemplates.load(tempDir);
+    const defaultPrompt = PROMPTS.implementation(1, '/plan.md');
+
+    expect(templates.hasTemplates()).toBe(false);
+    expect(templates.render('implementation', defaultPrompt, { stepNumber: 1, planFile: '/plan.md' }))
+      .toBe(defaultPrompt);
+  });
+
+  it('should replace a built-in prompt and fill its placeholders', () => {
+    writeTemplate('buildFix.md', 'Step {{stepNumber}} ({{ stepTitle }}) broke the build:\n{{buildErrors}}\n');
+
+    const templates = PromptTemplates.load(tempDir);
+    const prompt = templates.render('buildFix', PROMPTS.buildFix(2, 'error'), {
+      stepNumber: 2,
+      stepTitle: 'API',
+      buildErrors: 'TS2345 in api.ts',
+    });
+
+    expect(prompt).toBe('Step 2 (API) broke the build:\nTS2345 in api.ts');
+  });
+
+  it('should append extension templates to the prompt', () => {
+    writeTemplate('implementation.append.md', 'Step {{stepNumber}} must include tests.');
+    writeTemplate('all.append.md', 'Never add lodash.');
+
+    const templates = PromptTemplates.load(tempDir);
+    const defaultPrompt = PROMPTS.implementation(3, '/plan.md');
+
+    expect(templates.render('implementation', defaultPrompt, { stepNumber: 3, planFile: '/plan.md' }))
+      .toBe(`${defaultPrompt}\n\nStep 3 must include tests.\n\nNever add lodash.`);
+    expect(templates.render('reviewFix', 'Fix it', { issues: '[]' }))
+      .toBe('Fix it\n\nNever add lodash.');
+  });
+
+  it('should not substitute placeholders inside inserted values', () => {
+    writeTemplate('reviewFix.md', 'Issues:\n{{issues}}');
+
+    const templates = PromptTemplates.load(tempDir);
+
+    expect(templates.render('reviewFix', '', { issues: 'uses {{commitSha}}', commitSha: 'abc' }))
+      .toBe('Issues:\nuses {{commitSha}}');
+  });
+
+  it('should reject templates that miss required or use unknown placeholders', () => {
+    writeTemplate('codexReviewBuildFix.md', 'Review {{commitSha}} for {{issues}}');
+    writeTemplate('deploy.md', 'Deploy');
+
+    let error: unknown;
+    try {
+      PromptTemplates.load(tempDir);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(PromptTemplateError);
+    expect((error as PromptTemplateError).errors).toEqual([
+      expect.stringContaining('codexReviewBuildFix.md: unknown placeholder {{issues}}'),
+      'codexReviewBuildFix.md: missing required placeholder {{buildErrors}}',
+      expect.stringContaining('deploy.md: unknown prompt "deploy"'),
+    ]);
+  });
+
+  it('should not require placeholders in extension templates', () => {
+    writeTemplate('codexReviewCodeFixes.append.md', 'Be strict.');
+
+    expect(() => PromptTemplates.load(tempDir)).not.toThrow();
+  });
+});
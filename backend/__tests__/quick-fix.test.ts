@@ -0,0 +1,94 @@
+import { execFileSync } from 'child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { QuickFixError, applySuggestedPatches, combinePatches } from '../quick-fix.js';
+
+const RENAME_PATCH = [
+  '--- a/greeting.ts',
+  '+++ b/greeting.ts',
+  '@@ -1,3 +1,3 @@',
+  ' export const greet = (name: string): string => {',
+  '-  return "Hello " + name;',
+  '+  return `Hello ${name}`;',
+  ' };',
+].join('\n');
+
+describe('applySuggestedPatches', () => {
+  let tempDir: string;
+
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: tempDir, encoding: 'utf-8' }).trim();
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'stepcat-quick-fix-'));
+    git('init', '-q');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    writeFileSync(join(tempDir, 'greeting.ts'), 'export const greet = (name: string): string => {\n  return "Hello " + name;\n};\n');
+    git('add', 'greeting.ts');
+    git('commit', '-q', '-m', 'Initial commit');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should apply the patches and commit them', () => {
+    const sha = applySuggestedPatches(tempDir, [RENAME_PATCH], 'Apply review suggestions');
+
+    expect(sha).toBe(git('rev-parse', 'HEAD'));
+    expect(git('log', '-1', '--format=%s')).toBe('Apply review suggestions');
+    expect(readFileSync(join(tempDir, 'greeting.ts'), 'utf-8')).toContain('return `Hello ${name}`;');
+    expect(git('status', '--porcelain')).toBe('');
+  });
+
+  it('should leave the working tree alone when a patch does not apply', () => {
+    const newFilePatch = [
+      '--- /dev/null',
+      '+++ b/added.ts',
+      '@@ -0,0 +1 @@',
+      '+export const added = true;',
+    ].join('\n');
+    const stalePatch = RENAME_PATCH.replace('"Hello " + name', '"Hi " + name');
+    const head = git('rev-parse', 'HEAD');
+
+    expect(() => applySuggestedPatches(tempDir, [newFilePatch, stalePatch], 'Apply review suggestions'))
+      .toThrow(QuickFixError);
+    expect(git('rev-parse', 'HEAD')).toBe(head);
+    expect(git('status', '--porcelain')).toBe('');
+  });
+
+  it('should restore only the files of a patch that applies with conflicts', () => {
+    writeFileSync(join(tempDir, 'greeting.ts'), 'export const greet = (name: string): string => {\n  return `Hello ${name}`;\n};\n');
+    const conflictingPatch = `${git('diff')}\n`;
+    git('checkout', '--', 'greeting.ts');
+    writeFileSync(join(tempDir, 'greeting.ts'), 'export const greet = (name: string): string => {\n  return "Hi " + name;\n};\n');
+    git('commit', '-q', '-am', 'Change the greeting');
+    const newFilePatch = [
+      '--- /dev/null',
+      '+++ b/added.ts',
+      '@@ -0,0 +1 @@',
+      '+export const added = true;',
+    ].join('\n');
+    const head = git('rev-parse', 'HEAD');
+
+    expect(() => applySuggestedPatches(tempDir, [newFilePatch, conflictingPatch], 'Apply review suggestions'))
+      .toThrow('Suggested patches do not apply');
+    expect(git('rev-parse', 'HEAD')).toBe(head);
+    expect(git('status', '--porcelain')).toBe('');
+    expect(existsSync(join(tempDir, 'added.ts'))).toBe(false);
+    expect(readFileSync(join(tempDir, 'greeting.ts'), 'utf-8')).toContain('"Hi " + name');
+  });
+
+  it('should refuse to run on a dirty working tree', () => {
+    writeFileSync(join(tempDir, 'notes.txt'), 'work in progress\n');
+
+    expect(() => applySuggestedPatches(tempDir, [RENAME_PATCH], 'Apply review suggestions'))
+      .toThrow('has uncommitted changes');
+  });
+
+  it('should end every patch with a newline when combining them', () => {
+    expect(combinePatches(['a', 'b\n'])).toBe('a\nb\n');
+  });
+});
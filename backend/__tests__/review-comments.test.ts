@@ -0,0 +1,100 @@
+import type { DbStep, Issue } from '../models.js';
+import { buildIssueComments, formatIssueComment, formatReviewSummary } from '../review-comments.js';
+
+describe('review comments', () => {
+  const step: DbStep = {
+    id: 1,
+    planId: 1,
+    stepNumber: 2,
+    title: 'API',
+    status: 'in_progress',
+    dependsOn: [],
+    worktreePath: null,
+    branch: null,
+    syncedSha: null,
+    prNumber: null,
+    elapsedMs: 0,
+    createdAt: '2025-01-01T10:00:00.000Z',
+    updatedAt: '2025-01-01T10:00:00.000Z',
+  };
+
+  const createIssue = (overrides: Partial<Issue>): Issue => ({
+    id: 1,
+    iterationId: 1,
+    type: 'codex_review',
+    description: 'The token is logged',
+    filePath: 'src/auth.ts',
+    lineNumber: 10,
+    endLineNumber: null,
+    severity: 'error',
+    category: null,
+    confidence: null,
+    suggestedPatch: null,
+    reviewCommentId: null,
+    status: 'open',
+    createdAt: '2025-01-01T10:00:00.000Z',
+    resolvedAt: null,
+    ...overrides,
+  });
+
+  it('should comment inline only on issues that point at a line', () => {
+    const comments = buildIssueComments([
+      createIssue({ id: 1 }),
+      createIssue({ id: 2, lineNumber: 20, endLineNumber: 24 }),
+      createIssue({ id: 3, lineNumber: null }),
+      createIssue({ id: 4, filePath: 'unknown', lineNumber: 1 }),
+    ]);
+
+    expect(comments.map(({ issue, draft }) => [issue.id, draft.path, draft.line, draft.startLine])).toEqual([
+      [1, 'src/auth.ts', 10, undefined],
+      [2, 'src/auth.ts', 24, 20],
+    ]);
+  });
+
+  it('should label the comment with the severity, category and suggested patch', () => {
+    const body = formatIssueComment(createIssue({
+      category: 'security',
+      status: 'deferred',
+      severity: 'warning',
+      suggestedPatch: '--- a/src/auth.ts\n+++ b/src/auth.ts\n',
+    }));
+
+    expect(body).toBe([
+      '**warning** (security, deferred as tech debt): The token is logged',
+      '',
+      'Suggested patch:',
+      '',
+      '```diff',
+      '--- a/src/auth.ts\n+++ b/src/auth.ts',
+      '```',
+    ].join('\n'));
+  });
+
+  it('should list the issues that are not commented inline in the summary', () => {
+    const summary = formatReviewSummary({
+      step,
+      result: 'FAIL',
+      reviewers: ['codex', 'claude'],
+      issues: [
+        createIssue({ id: 1 }),
+        createIssue({ id: 2, filePath: 'README.md', lineNumber: null, severity: 'warning', description: 'Outdated usage\nSee the CLI help' }),
+      ],
+      inlineIssueIds: new Set([1]),
+    });
+
+    expect(summary).toBe([
+      '### Stepcat review of step 2: API',
+      '',
+      '**FAIL** from codex, claude',
+      '',
+      '1 of 2 issues commented inline.',
+      '',
+      '- **warning**: `README.md` Outdated usage',
+    ].join('\n'));
+  });
+
+  it('should say so when the review found nothing', () => {
+    expect(formatReviewSummary({ step, result: 'PASS', reviewers: ['codex'], issues: [], inlineIssueIds: new Set() }))
+      .toBe('### Stepcat review of step 2: API\n\n**PASS** from codex\n\nNo issues found.');
+  });
+});
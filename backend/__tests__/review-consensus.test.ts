@@ -0,0 +1,104 @@
+import type { ReviewerResult } from '../review-consensus.js';
+import { deduplicateIssues, formatConsensusLog, mergeReviewResults, usesConsensusReview } from '../review-consensus.js';
+
+describe('review consensus', () => {
+  const codexFail: ReviewerResult = {
+    agent: 'codex',
+    result: {
+      result: 'FAIL',
+      issues: [
+        { file: 'src/app.ts', line: 10, severity: 'warning', description: 'Missing null check for the user' },
+        { file: 'src/util.ts', severity: 'warning', description: 'Unused import' },
+      ],
+    },
+  };
+  const claudeFail: ReviewerResult = {
+    agent: 'claude',
+    result: {
+      result: 'FAIL',
+      issues: [
+        { file: './src/app.ts', line: 12, severity: 'error', description: 'Missing null check for the user object' },
+      ],
+    },
+  };
+  const reviewerPass = (agent: string): ReviewerResult => ({ agent, result: { result: 'PASS', issues: [] } });
+
+  it('should merge similar issues reported by several reviewers', () => {
+    expect(deduplicateIssues([codexFail, claudeFail])).toEqual([
+      {
+        file: 'src/app.ts',
+        line: 10,
+        severity: 'error',
+        description: 'Missing null check for the user object',
+        reviewers: ['codex', 'claude'],
+      },
+      { file: 'src/util.ts', severity: 'warning', description: 'Unused import', reviewers: ['codex'] },
+    ]);
+  });
+
+  it('should keep issues apart when files, lines or descriptions differ', () => {
+    const other: ReviewerResult = {
+      agent: 'claude',
+      result: {
+        result: 'FAIL',
+        issues: [
+          { file: 'src/app.ts', line: 40, severity: 'error', description: 'Missing null check for the user' },
+          { file: 'src/app.ts', line: 10, severity: 'error', description: 'The loop never terminates' },
+          { file: 'src/other.ts', line: 10, severity: 'error', description: 'Missing null check for the user' },
+        ],
+      },
+    };
+
+    expect(deduplicateIssues([codexFail, other])).toHaveLength(5);
+  });
+
+  it('should fail when any reviewer fails under the any-fail policy', () => {
+    const merged = mergeReviewResults([reviewerPass('codex'), claudeFail], { agents: ['codex', 'claude'] });
+
+    expect(merged.result).toBe('FAIL');
+    expect(merged.issues).toHaveLength(1);
+  });
+
+  it('should follow the majority of reviewers under the majority policy', () => {
+    const consensus = { agents: ['codex', 'claude', 'mycli'], policy: 'majority' as const };
+
+    expect(mergeReviewResults([codexFail, reviewerPass('claude'), reviewerPass('mycli')], consensus).result)
+      .toBe('PASS');
+    expect(mergeReviewResults([codexFail, claudeFail, reviewerPass('mycli')], consensus).result).toBe('FAIL');
+    expect(mergeReviewResults([codexFail, reviewerPass('claude')], { ...consensus, agents: ['codex', 'claude'] }).result)
+      .toBe('PASS');
+  });
+
+  it('should only block on issues at or above the threshold under the severity policy', () => {
+    const warningsOnly = mergeReviewResults([codexFail, reviewerPass('claude')], {
+      agents: ['codex', 'claude'],
+      policy: 'severity',
+    });
+    expect(warningsOnly.result).toBe('PASS');
+    expect(warningsOnly.issues).toHaveLength(2);
+
+    const withError = mergeReviewResults([codexFail, claudeFail], { agents: ['codex', 'claude'], policy: 'severity' });
+    expect(withError.result).toBe('FAIL');
+    expect(withError.issues.map((issue) => issue.file)).toEqual(['src/app.ts']);
+
+    expect(mergeReviewResults([codexFail, reviewerPass('claude')], {
+      agents: ['codex', 'claude'],
+      policy: 'severity',
+      severityThreshold: 'warning',
+    }).result).toBe('FAIL');
+  });
+
+  it('should only use the consensus review for the configured steps', () => {
+    expect(usesConsensusReview(undefined, 1)).toBe(false);
+    expect(usesConsensusReview({ agents: ['codex', 'claude'] }, 1)).toBe(true);
+    expect(usesConsensusReview({ agents: ['codex', 'claude'], steps: [2] }, 1)).toBe(false);
+    expect(usesConsensusReview({ agents: ['codex', 'claude'], steps: [2] }, 2)).toBe(true);
+  });
+
+  it('should label each reviewer log in the combined log', () => {
+    expect(formatConsensusLog([
+      { agent: 'codex', result: 'FAIL', log: 'codex output' },
+      { agent: 'claude', result: 'PASS', log: 'claude output' },
+    ])).toBe('=== Reviewer: codex (FAIL) ===\ncodex output\n\n=== Reviewer: claude (PASS) ===\nclaude output');
+  });
+});
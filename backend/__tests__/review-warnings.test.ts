@@ -0,0 +1,39 @@
+import type { ReviewResult } from '../review-parser.js';
+import { applyWarningPolicy } from '../review-warnings.js';
+
+describe('review warning policy', () => {
+  const warning = { file: 'src/app.ts', line: 4, severity: 'warning' as const, description: 'Prefer a guard clause' };
+  const error = { file: 'src/app.ts', line: 9, severity: 'error' as const, description: 'Null dereference' };
+  const warningsOnly: ReviewResult = { result: 'FAIL', issues: [warning] };
+  const mixed: ReviewResult = { result: 'FAIL', issues: [warning, error] };
+
+  it('should keep the review unchanged when warnings block', () => {
+    expect(applyWarningPolicy(warningsOnly, 'block')).toEqual({ review: warningsOnly, deferred: [] });
+  });
+
+  it('should pass warning-only reviews', () => {
+    expect(applyWarningPolicy(warningsOnly, 'pass')).toEqual({
+      review: { result: 'PASS', issues: [warning] },
+      deferred: [],
+    });
+    expect(applyWarningPolicy(mixed, 'pass')).toEqual({ review: mixed, deferred: [] });
+  });
+
+  it('should take warnings out of the review when they are deferred', () => {
+    expect(applyWarningPolicy(warningsOnly, 'defer')).toEqual({
+      review: { result: 'PASS', issues: [] },
+      deferred: [warning],
+    });
+    expect(applyWarningPolicy(mixed, 'defer')).toEqual({
+      review: { result: 'FAIL', issues: [error] },
+      deferred: [warning],
+    });
+  });
+
+  it('should keep failing a review without issues', () => {
+    const failed: ReviewResult = { result: 'FAIL', issues: [] };
+
+    expect(applyWarningPolicy(failed, 'pass').review.result).toBe('FAIL');
+    expect(applyWarningPolicy(failed, 'defer').review.result).toBe('FAIL');
+  });
+});
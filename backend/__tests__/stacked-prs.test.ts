@@ -0,0 +1,87 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import {
+  StackRebaseError,
+  checkoutStackBranch,
+  fetchBaseBranch,
+  rebaseStackBranch,
+  stackBranchName,
+} from '../stacked-prs.js';
+
+describe('stacked branches', () => {
+  let tempDir: string;
+  let originDir: string;
+  let workDir: string;
+
+  const git = (cwd: string, ...args: string[]) => execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+
+  const commitFile = (cwd: string, file: string, content: string, message: string) => {
+    writeFileSync(join(cwd, file), content);
+    git(cwd, 'add', file);
+    git(cwd, 'commit', '-q', '-m', message);
+  };
+
+  const subjects = (range: string) => git(workDir, 'log', '--format=%s', range).split('\n');
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'stepcat-stacked-prs-'));
+    originDir = join(tempDir, 'origin.git');
+    workDir = join(tempDir, 'work');
+
+    execFileSync('git', ['init', '-q', '--bare', '-b', 'main', originDir]);
+    execFileSync('git', ['clone', '-q', originDir, workDir], { stdio: 'ignore' });
+    git(workDir, 'config', 'user.name', 'Test');
+    git(workDir, 'config', 'user.email', 'test@example.com');
+    git(workDir, 'checkout', '-q', '-b', 'main');
+    commitFile(workDir, 'README.md', '# App\n', 'Initial commit');
+    git(workDir, 'push', '-q', 'origin', 'main');
+
+    checkoutStackBranch(workDir, stackBranchName(1, 1), 'HEAD');
+    commitFile(workDir, 'setup.ts', 'export const setup = true;\n', 'Step 1');
+    checkoutStackBranch(workDir, stackBranchName(1, 2), stackBranchName(1, 1));
+    commitFile(workDir, 'feature.ts', 'export const feature = true;\n', 'Step 2');
+    git(workDir, 'push', '-q', 'origin', stackBranchName(1, 1), stackBranchName(1, 2));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should name branches after the plan and step', () => {
+    expect(stackBranchName(4, 2)).toBe('stepcat/4/step-2');
+  });
+
+  it('should check out an existing branch instead of recreating it', () => {
+    checkoutStackBranch(workDir, stackBranchName(1, 1), 'main');
+
+    expect(git(workDir, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('stepcat/1/step-1');
+    expect(subjects('-1')).toEqual(['Step 1']);
+  });
+
+  it('should move the commits of a step onto the base once the step below it is squash-merged', () => {
+    git(workDir, 'checkout', '-q', 'main');
+    commitFile(workDir, 'setup.ts', 'export const setup = true;\n', 'Setup (#11)');
+    git(workDir, 'push', '-q', 'origin', 'main');
+    git(workDir, 'reset', '-q', '--hard', 'HEAD~1');
+
+    const previousHead = git(workDir, 'rev-parse', 'stepcat/1/step-2');
+    const onto = fetchBaseBranch(workDir, 'main');
+
+    expect(rebaseStackBranch(workDir, 'stepcat/1/step-2', 'stepcat/1/step-1', onto)).toBe(previousHead);
+    expect(subjects('origin/main..stepcat/1/step-2')).toEqual(['Step 2']);
+    expect(git(originDir, 'rev-parse', 'stepcat/1/step-2')).toBe(git(workDir, 'rev-parse', 'stepcat/1/step-2'));
+  });
+
+  it('should abort the rebase and keep the branch as it was when it conflicts', () => {
+    git(workDir, 'checkout', '-q', 'main');
+    commitFile(workDir, 'feature.ts', 'export const feature = false;\n', 'Conflicting change');
+    const previousHead = git(workDir, 'rev-parse', 'stepcat/1/step-2');
+
+    expect(() => rebaseStackBranch(workDir, 'stepcat/1/step-2', 'stepcat/1/step-1', 'main')).toThrow(StackRebaseError);
+    expect(git(workDir, 'rev-parse', 'stepcat/1/step-2')).toBe(previousHead);
+    expect(git(workDir, 'status', '--porcelain')).toBe('');
+  });
+});
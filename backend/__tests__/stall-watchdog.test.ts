@@ -0,0 +1,99 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import type { OrchestratorEvent } from '../events.js';
+import { OrchestratorEventEmitter } from '../events.js';
+import { StallWatchdog, snapshotWorkingTree } from '../stall-watchdog.js';
+
+// About 120ms
+const IDLE_MINUTES = 0.002;
+
+const wait = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('StallWatchdog', () => {
+  let tempDir: string;
+
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: tempDir, encoding: 'utf-8' }).trim();
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'stepcat-stall-'));
+    git('init', '-q');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    git('commit', '-q', '--allow-empty', '-m', 'Initial commit');
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report a stall once the agent has been idle long enough', async () => {
+    const eventEmitter = new OrchestratorEventEmitter();
+    const events: OrchestratorEvent[] = [];
+    eventEmitter.on('event', (event: OrchestratorEvent) => events.push(event));
+    const onStall = jest.fn();
+    const watchdog = new StallWatchdog({
+      workDir: tempDir,
+      idleMinutes: IDLE_MINUTES,
+      agent: 'claude',
+      iterationId: 4,
+      eventEmitter,
+      onStall,
+      checkIntervalMs: 20,
+    });
+
+    watchdog.start();
+    await wait(400);
+    watchdog.stop();
+
+    expect(onStall).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'agent_stalled', agent: 'claude', iterationId: 4, idleMinutes: IDLE_MINUTES }),
+    ]);
+  });
+
+  it('should treat output and file changes as activity', async () => {
+    const onStall = jest.fn();
+    const watchdog = new StallWatchdog({
+      workDir: tempDir,
+      idleMinutes: IDLE_MINUTES,
+      agent: 'claude',
+      onStall,
+      checkIntervalMs: 20,
+    });
+
+    watchdog.start();
+    for (let tick = 0; tick < 5; tick++) {
+      await wait(60);
+      if (tick % 2 === 0) {
+        watchdog.recordActivity();
+      } else {
+        writeFileSync(join(tempDir, 'notes.txt'), `tick ${tick}\n`);
+      }
+    }
+    watchdog.stop();
+
+    expect(onStall).not.toHaveBeenCalled();
+  });
+});
+
+describe('snapshotWorkingTree', () => {
+  it('should change with new commits and edited files and be empty outside a repository', () => {
+    const tempDir = mkdtempSync(join(tmpdir(), 'stepcat-snapshot-'));
+    try {
+      expect(snapshotWorkingTree(tempDir)).toBe('');
+
+      execFileSync('git', ['init', '-q'], { cwd: tempDir });
+      writeFileSync(join(tempDir, 'a.txt'), 'one\n');
+      const untracked = snapshotWorkingTree(tempDir);
+      expect(untracked).toContain('a.txt@');
+
+      writeFileSync(join(tempDir, 'b.txt'), 'two\n');
+      expect(snapshotWorkingTree(tempDir)).not.toBe(untracked);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { Database } from '../database.js';
+import type { Plan } from '../models.js';
+import { MANUAL_AGENT, StepActionError, StepActions, resolveCommit } from '../step-actions.js';
+
+describe('StepActions', () => {
+  let tempDir: string;
+  let db: Database;
+  let plan: Plan;
+  let actions: StepActions;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'stepcat-step-actions-'));
+    db = new Database(tempDir);
+    plan = db.createPlan(join(tempDir, 'plan.md'), tempDir, 'owner', 'repo');
+    db.createStep(plan.id, 1, 'Setup');
+    db.createStep(plan.id, 2, 'API', [1]);
+    actions = new StepActions(db);
+  });
+
+  afterEach(() => {
+    db.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const getStep = (stepNumber: number) => db.getSteps(plan.id).find((step) => step.stepNumber === stepNumber)!;
+
+  it('should skip a step and record it in the audit log', () => {
+    actions.skip(plan.id, 1, 'cli');
+
+    expect(getStep(1).status).toBe('skipped');
+    expect(db.getAuditLog(plan.id)).toEqual([
+      expect.objectContaining({ stepNumber: 1, action: 'skip_step', details: 'Skipped while pending', source: 'cli' }),
+    ]);
+  });
+
+  it('should retry a failed step with a fresh iteration budget', () => {
+    const step = getStep(1);
+    const first = db.createIteration(step.id, 1, 'implementation', 'claude', 'codex');
+    const second = db.createIteration(step.id, 2, 'build_fix', 'claude', 'codex');
+    db.updateIteration(first.id, { status: 'completed' });
+    db.updateIteration(second.id, { status: 'failed', interruptionReason: 'Build failed' });
+    db.updateStepStatus(step.id, 'failed');
+
+    actions.retry(plan.id, 1, 'tui');
+
+    expect(getStep(1).status).toBe('pending');
+    expect(db.getIterations(step.id).map((iteration) => [iteration.status, iteration.interruptionReason])).toEqual([
+      ['aborted', 'Superseded by a retry of the step'],
+      ['aborted', 'Build failed'],
+    ]);
+    expect(db.getAuditLog(plan.id)[0]).toMatchObject({
+      action: 'retry_step',
+      details: 'Aborted 2 previous iteration(s)',
+      source: 'tui',
+    });
+  });
+
+  it('should complete a step with a manual commit', () => {
+    const step = getStep(2);
+    db.createIteration(step.id, 1, 'implementation', 'claude', 'codex');
+    db.updateStepStatus(step.id, 'failed');
+
+    actions.complete(plan.id, 2, 'abc1234def', 'cli');
+
+    expect(getStep(2).status).toBe('completed');
+    expect(db.getIterations(step.id).at(-1)).toMatchObject({
+      iterationNumber: 2,
+      type: 'implementation',
+      implementationAgent: MANUAL_AGENT,
+      commitSha: 'abc1234def',
+      status: 'completed',
+      phase: 'done',
+    });
+    expect(db.getAuditLog(plan.id)[0]).toMatchObject({ action: 'complete_step', details: 'Accepted commit abc1234def' });
+  });
+
+  it('should reject a commit that belongs to another step', () => {
+    const first = db.createIteration(getStep(1).id, 1, 'implementation', 'claude', 'codex');
+    db.updateIteration(first.id, { commitSha: 'abc1234def', status: 'completed' });
+    db.updateStepStatus(getStep(1).id, 'completed');
+
+    expect(() => actions.complete(plan.id, 2, 'abc1234def', 'tui'))
+      .toThrow('Cannot complete step 2 with commit abc1234: it is the work of step 1');
+    expect(getStep(2).status).toBe('pending');
+    expect(db.getIterations(getStep(2).id)).toEqual([]);
+    expect(db.getAuditLog(plan.id)).toEqual([]);
+  });
+
+  it('should reject actions on steps in the wrong status', () => {
+    db.updateStepStatus(getStep(1).id, 'completed');
+
+    expect(() => actions.retry(plan.id, 2, 'cli'))
+      .toThrow('Cannot retry step 2: it is pending (expected failed)');
+    expect(() => actions.skip(plan.id, 1, 'cli')).toThrow(StepActionError);
+    expect(() => actions.complete(plan.id, 3, 'abc', 'cli')).toThrow('Step 3 not found in execution');
+    expect(db.getAuditLog(plan.id)).toEqual([]);
+  });
+
+  it('should resolve commits in the work directory', () => {
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: tempDir, encoding: 'utf-8' }).trim();
+    git('init', '-q');
+    writeFileSync(join(tempDir, 'file.txt'), 'content', 'utf-8');
+    git('add', 'file.txt');
+    git('-c', 'user.name=Test', '-c', 'user.email=test@example.com', 'commit', '-q', '-m', 'Manual fix');
+
+    expect(resolveCommit(tempDir)).toBe(git('rev-parse', 'HEAD'));
+    expect(() => resolveCommit(tempDir, 'missing-branch')).toThrow(`Commit not found in ${tempDir}: missing-branch`);
+  });
+});
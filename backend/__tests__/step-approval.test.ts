@@ -0,0 +1,33 @@
+import { formatReviewerNotes, parseApprovalFeedback } from '../step-approval.js';
+
+describe('step approval', () => {
+  it('should turn each feedback line into a review issue', () => {
+    expect(parseApprovalFeedback([
+      '- src/app.ts:12: Handle the empty list',
+      '',
+      '* README.md: Document the new flag',
+      '1. Rename the helper to something clearer',
+    ].join('\n'))).toEqual([
+      { file: 'src/app.ts', line: 12, severity: 'error', description: 'Handle the empty list' },
+      { file: 'README.md', severity: 'error', description: 'Document the new flag' },
+      { file: 'unknown', severity: 'error', description: 'Rename the helper to something clearer' },
+    ]);
+  });
+
+  it('should not mistake prose with a colon for a file', () => {
+    expect(parseApprovalFeedback('Note: the tests are missing')).toEqual([
+      { file: 'unknown', severity: 'error', description: 'Note: the tests are missing' },
+    ]);
+  });
+
+  it('should format reviewer notes so that they parse back into the same issues', () => {
+    const notes = formatReviewerNotes([
+      { file: 'src/app.ts', line: 3, severity: 'warning', description: 'Consider a guard\nclause' },
+      { file: 'src/util.ts', severity: 'warning', description: 'Unused import' },
+    ]);
+
+    expect(notes).toBe('src/app.ts:3: Consider a guard clause\nsrc/util.ts: Unused import');
+    expect(parseApprovalFeedback(notes).map((issue) => issue.description))
+      .toEqual(['Consider a guard clause', 'Unused import']);
+  });
+});
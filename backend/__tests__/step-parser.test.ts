@@ -107,6 +107,102 @@ This is a duplicate
     expect(() => parser.parseSteps()).toThrow('Duplicate step numbers');
   });
 
+  it('should parse step dependencies', () => {
+    const planContent = `# Test Plan
+
+## Step 1: Setup
+
+Setup the project
+
+## Step 2: API
+
+Depends on: 1
+
+Build the API
+
+## Step 3: UI
+
+**Depends:** 1, 2
+
+Build the UI
+`;
+    const planFile = join(tempDir, 'plan.md');
+    writeFileSync(planFile, planContent, 'utf-8');
+
+    const parser = new StepParser(planFile);
+    const steps = parser.parseSteps();
+
+    expect(steps[0].dependsOn).toEqual([]);
+    expect(steps[1].dependsOn).toEqual([1]);
+    expect(steps[2].dependsOn).toEqual([1, 2]);
+  });
+
+  it('should parse dependencies written as step references', () => {
+    const planContent = `# Test Plan
+
+## Step 1: Setup
+
+## Step 2: API
+
+## Step 3: UI
+
+**Depends on: Step 1, step 2**
+`;
+    const planFile = join(tempDir, 'plan.md');
+    writeFileSync(planFile, planContent, 'utf-8');
+
+    const parser = new StepParser(planFile);
+    expect(parser.parseSteps()[2].dependsOn).toEqual([1, 2]);
+  });
+
+  it('should throw error for dependencies that are not a list of step numbers', () => {
+    const planContent = `# Test Plan
+
+## Step 1: Setup
+
+## Step 2: API
+
+Depends on: Step 1 (v1.5 API)
+`;
+    const planFile = join(tempDir, 'plan.md');
+    writeFileSync(planFile, planContent, 'utf-8');
+
+    const parser = new StepParser(planFile);
+    expect(() => parser.parseSteps()).toThrow('Invalid dependencies for step 2: "Step 1 (v1.5 API)"');
+  });
+
+  it('should throw error for dependencies on unknown steps', () => {
+    const planContent = `# Test Plan
+
+## Step 1: Setup
+
+Depends on: 5
+`;
+    const planFile = join(tempDir, 'plan.md');
+    writeFileSync(planFile, planContent, 'utf-8');
+
+    const parser = new StepParser(planFile);
+    expect(() => parser.parseSteps()).toThrow('Step 1 depends on unknown step 5');
+  });
+
+  it('should throw error for circular dependencies', () => {
+    const planContent = `# Test Plan
+
+## Step 1: Setup
+
+Depends on: 2
+
+## Step 2: Build
+
+Depends on: 1
+`;
+    const planFile = join(tempDir, 'plan.md');
+    writeFileSync(planFile, planContent, 'utf-8');
+
+    const parser = new StepParser(planFile);
+    expect(() => parser.parseSteps()).toThrow('Circular step dependency');
+  });
+
   it('should return plan content', () => {
     const planContent = `# Test Plan
 
@@ -180,5 +180,37 @@ describe('TUIAdapter', () => {
 
       await adapter.shutdown();
     }, 10000);
+
+    it('should keep a live tail of agent output until the iteration completes', async () => {
+      const adapter = new TUIAdapter({ storage: db });
+      await adapter.initialize();
+      const timestamp = Date.now();
+
+      adapter.onEvent({ type: 'agent_output', timestamp, agent: 'claude', iterationId: 1, text: 'Reading files\n\u001b[32mdone\u001b[0m\n' });
+      adapter.onEvent({ type: 'agent_tool_call', timestamp, agent: 'claude', iterationId: 1, tool: 'Edit', summary: 'src/app.ts' });
+
+      const state = (adapter as any).state;
+      expect(state.liveTail).toEqual({
+        agent: 'claude',
+        lines: [
+          { level: 'info', message: 'Reading files', timestamp },
+          { level: 'info', message: 'done', timestamp },
+          { level: 'tool', message: 'Edit: src/app.ts', timestamp },
+        ],
+      });
+
+      adapter.onEvent({
+        type: 'iteration_complete',
+        timestamp,
+        stepId: 1,
+        iterationNumber: 1,
+        commitSha: null,
+        status: 'completed',
+        usage: { inputTokens: 0, outputTokens: 0, costUsd: 0 },
+      });
+      expect((adapter as any).state.liveTail).toBeNull();
+
+      await adapter.shutdown();
+    }, 10000);
   });
 });
@@ -1,7 +1,8 @@
 import { render } from 'ink-testing-library';
 import React from 'react';
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 
+import type { DbStep, Issue, Iteration, TimelineEntry } from '../models.js';
 import { App } from '../tui/components/App.js';
 import type { TUIState } from '../tui/types.js';
 import { initialState } from '../tui/types.js';
@@ -40,3 +41,359 @@ describe('TUI App log rendering', () => {
     }
   });
 });
+
+describe('TUI App plan editor', () => {
+  const createStep = (id: number, status: DbStep['status']): DbStep => ({
+    id,
+    planId: 1,
+    stepNumber: id,
+    title: `Step title ${id}`,
+    status,
+    dependsOn: [],
+    worktreePath: null,
+    branch: null,
+    syncedSha: null,
+    prNumber: null,
+    elapsedMs: 0,
+    createdAt: '2025-01-01T10:00:00.000Z',
+    updatedAt: '2025-01-01T10:00:00.000Z',
+  });
+
+  const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+  it('opens on the first pending step and sends edits', async () => {
+    const state: TUIState = {
+      ...initialState,
+      steps: [createStep(1, 'completed'), createStep(2, 'pending'), createStep(3, 'pending')],
+      iterations: new Map(),
+      issues: new Map(),
+    };
+    const onEditPlan = vi.fn();
+    const onStepAction = vi.fn();
+
+    const { lastFrame, stdin, rerender, unmount } = render(
+      React.createElement(App, {
+        state,
+        onStateChange: () => {},
+        onRequestStopAfterStep: () => {},
+        onEditPlan,
+        onStepAction,
+      })
+    );
+    const refresh = (): void => {
+      rerender(React.createElement(App, {
+        state,
+        onStateChange: () => {},
+        onRequestStopAfterStep: () => {},
+        onEditPlan,
+        onStepAction,
+      }));
+    };
+
+    try {
+      await flush();
+      stdin.write('\u0005');
+      await flush();
+      refresh();
+      expect(state.viewMode).toBe('plan_editor');
+      expect(state.selectedStepIndex).toBe(1);
+      expect(lastFrame()).toContain('Step 1: Step title 1 (completed, locked)');
+
+      stdin.write('a');
+      await flush();
+      stdin.write('Tests');
+      await flush();
+      stdin.write('\r');
+      await flush();
+      expect(onEditPlan).toHaveBeenCalledWith({ type: 'add', afterStepNumber: 2, title: 'Tests' });
+
+      stdin.write(']');
+      await flush();
+      expect(onEditPlan).toHaveBeenLastCalledWith({ type: 'move', stepNumber: 2, direction: 'down' });
+
+      stdin.write('x');
+      await flush();
+      expect(onStepAction).toHaveBeenLastCalledWith('skip', 2);
+
+      stdin.write('c');
+      await flush();
+      expect(onStepAction).toHaveBeenLastCalledWith('complete', 2);
+    } finally {
+      unmount();
+    }
+  });
+});
+
+describe('TUI App approval prompt', () => {
+  const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+  it('shows the diff and sends edited reviewer notes as a rejection', async () => {
+    const onDecision = vi.fn();
+    const state: TUIState = {
+      ...initialState,
+      viewMode: 'approval_prompt',
+      approvalPrompt: {
+        request: {
+          stepNumber: 2,
+          stepTitle: 'API',
+          commits: ['abcdef1234567'],
+          diff: 'diff --git a/src/api.ts b/src/api.ts\n+export const api = true;',
+          reviewerNotes: 'src/api.ts:1: Name the export',
+        },
+        scrollOffset: 0,
+        feedback: '',
+        editingFeedback: false,
+        previousViewMode: 'normal',
+        onDecision,
+      },
+      terminalWidth: 80,
+      terminalHeight: 24,
+      steps: [],
+      iterations: new Map(),
+      issues: new Map(),
+    };
+
+    const { lastFrame, stdin, rerender, unmount } = render(
+      React.createElement(App, {
+        state,
+        onStateChange: () => {},
+        onRequestStopAfterStep: () => {},
+      })
+    );
+    const refresh = (): void => {
+      rerender(React.createElement(App, {
+        state,
+        onStateChange: () => {},
+        onRequestStopAfterStep: () => {},
+      }));
+    };
+
+    try {
+      expect(lastFrame()).toContain('Approve Step 2: API');
+      expect(lastFrame()).toContain('+export const api = true;');
+      expect(lastFrame()).toContain('1 commit(s): abcdef1');
+
+      await flush();
+      stdin.write('e');
+      await flush();
+      stdin.write('\r');
+      await flush();
+      stdin.write('Add tests');
+      await flush();
+      refresh();
+      expect(lastFrame()).toContain('Add tests█');
+
+      stdin.write('\u0013');
+      await flush();
+      expect(onDecision).toHaveBeenCalledWith({
+        approved: false,
+        feedback: 'src/api.ts:1: Name the export\nAdd tests',
+      });
+    } finally {
+      unmount();
+    }
+  });
+});
+
+describe('TUI App review issues', () => {
+  const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+  it('lists review issues with their details and suggested patch in the log viewer', async () => {
+    const step: DbStep = {
+      id: 1,
+      planId: 1,
+      stepNumber: 1,
+      title: 'Setup',
+      status: 'in_progress',
+      dependsOn: [],
+      worktreePath: null,
+      branch: null,
+      syncedSha: null,
+      prNumber: null,
+      elapsedMs: 0,
+      createdAt: '2025-01-01T10:00:00.000Z',
+      updatedAt: '2025-01-01T10:00:00.000Z',
+    };
+    const iteration: Iteration = {
+      id: 5,
+      stepId: 1,
+      iterationNumber: 1,
+      type: 'implementation',
+      commitSha: 'abcdef1234567',
+      claudeLog: null,
+      codexLog: null,
+      buildStatus: 'passed',
+      reviewStatus: 'failed',
+      status: 'completed',
+      phase: 'review',
+      interruptionReason: null,
+      implementationAgent: 'claude',
+      reviewAgent: 'codex',
+      agentSessionId: null,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+      agentDurationMs: 0,
+      ciDurationMs: 0,
+      createdAt: '2025-01-01T10:00:00.000Z',
+      updatedAt: '2025-01-01T10:00:00.000Z',
+    };
+    const issue: Issue = {
+      id: 1,
+      iterationId: 5,
+      type: 'codex_review',
+      description: 'The token is logged',
+      filePath: 'src/auth.ts',
+      lineNumber: 10,
+      endLineNumber: 12,
+      severity: 'error',
+      category: 'security',
+      confidence: 0.9,
+      suggestedPatch: '--- a/src/auth.ts\n+++ b/src/auth.ts\n',
+      reviewCommentId: null,
+      status: 'open',
+      createdAt: '2025-01-01T10:00:00.000Z',
+      resolvedAt: null,
+    };
+    const state: TUIState = {
+      ...initialState,
+      terminalWidth: 100,
+      terminalHeight: 30,
+      steps: [step],
+      iterations: new Map([[1, [iteration]]]),
+      issues: new Map([[5, [issue]]]),
+    };
+
+    const { lastFrame, stdin, unmount } = render(
+      React.createElement(App, {
+        state,
+        onStateChange: () => {},
+        onRequestStopAfterStep: () => {},
+        onEditPlan: () => {},
+        onStepAction: () => {},
+      })
+    );
+
+    try {
+      expect(lastFrame()).toContain('✗ 1 open issue (security)');
+
+      await flush();
+      stdin.write('\u000c');
+      await flush();
+      expect(state.logViewerItems.map((item) => item.logType)).toEqual(['issues']);
+
+      stdin.write('\r');
+      await flush();
+      expect(state.pendingLogView).toBe([
+        '1. src/auth.ts:10-12 (error, security, 90% confidence, open)',
+        '',
+        'The token is logged',
+        '',
+        'Suggested patch:',
+        '--- a/src/auth.ts\n+++ b/src/auth.ts',
+      ].join('\n'));
+    } finally {
+      unmount();
+    }
+  });
+});
+
+describe('TUI App agent activity', () => {
+  const flush = (): Promise<void> => new Promise((resolve) => setTimeout(resolve, 0));
+
+  it('summarizes the files, commands and tests of an iteration in the log viewer', async () => {
+    const step: DbStep = {
+      id: 1,
+      planId: 1,
+      stepNumber: 1,
+      title: 'Setup',
+      status: 'in_progress',
+      dependsOn: [],
+      worktreePath: null,
+      branch: null,
+      syncedSha: null,
+      prNumber: null,
+      elapsedMs: 0,
+      createdAt: '2025-01-01T10:00:00.000Z',
+      updatedAt: '2025-01-01T10:00:00.000Z',
+    };
+    const iteration: Iteration = {
+      id: 5,
+      stepId: 1,
+      iterationNumber: 1,
+      type: 'implementation',
+      commitSha: 'abcdef1234567',
+      claudeLog: null,
+      codexLog: null,
+      buildStatus: 'pending',
+      reviewStatus: 'pending',
+      status: 'completed',
+      phase: 'implementation',
+      interruptionReason: null,
+      implementationAgent: 'claude',
+      reviewAgent: 'codex',
+      agentSessionId: null,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+      agentDurationMs: 0,
+      ciDurationMs: 0,
+      createdAt: '2025-01-01T10:00:00.000Z',
+      updatedAt: '2025-01-01T10:00:00.000Z',
+    };
+    const entry = (fields: Omit<TimelineEntry, 'id' | 'iterationId' | 'createdAt'>, id: number): TimelineEntry =>
+      ({ ...fields, id, iterationId: 5, createdAt: '2025-01-01T10:00:00.000Z' });
+    const state: TUIState = {
+      ...initialState,
+      terminalWidth: 100,
+      terminalHeight: 30,
+      steps: [step],
+      iterations: new Map([[1, [iteration]]]),
+      issues: new Map(),
+      timelines: new Map([[5, [
+        entry({ kind: 'text', tool: null, toolUseId: null, content: 'Adding the endpoint', isError: false }, 1),
+        entry({ kind: 'tool_use', tool: 'Edit', toolUseId: 'tool-1', content: 'src/api.ts', isError: false }, 2),
+        entry({ kind: 'tool_use', tool: 'Bash', toolUseId: 'tool-2', content: 'npm test', isError: false }, 3),
+        entry({ kind: 'tool_result', tool: 'Bash', toolUseId: 'tool-2', content: '1 failed\nmore', isError: true }, 4),
+      ]]]),
+    };
+
+    const { stdin, unmount } = render(
+      React.createElement(App, {
+        state,
+        onStateChange: () => {},
+        onRequestStopAfterStep: () => {},
+        onEditPlan: () => {},
+        onStepAction: () => {},
+      })
+    );
+
+    try {
+      await flush();
+      stdin.write('\u000c');
+      await flush();
+      expect(state.logViewerItems.map((item) => item.logType)).toEqual(['activity']);
+
+      stdin.write('\r');
+      await flush();
+      expect(state.pendingLogView).toBe([
+        'Files touched (1):',
+        '  src/api.ts',
+        '',
+        'Commands run (1):',
+        '  npm test',
+        '',
+        'Tests executed (1):',
+        '  ✗ npm test',
+        '',
+        'Timeline:',
+        '  Adding the endpoint',
+        '  ▸ Edit: src/api.ts',
+        '  ▸ Bash: npm test',
+        '  ✗ Bash failed: 1 failed',
+      ].join('\n'));
+    } finally {
+      unmount();
+    }
+  });
+});
@@ -0,0 +1,45 @@
+import type { Iteration } from '../models.js';
+import {
+  CODEX_PRICING,
+  addUsage,
+  estimateCost,
+  formatUsage,
+  hasUsage,
+  sumIterationUsage,
+} from '../usage.js';
+
+describe('usage', () => {
+  it('should add usages and skip missing ones', () => {
+    expect(addUsage(
+      { inputTokens: 100, outputTokens: 10, costUsd: 0.5 },
+      undefined,
+      { inputTokens: 50, outputTokens: 5, costUsd: 0.25 },
+    )).toEqual({ inputTokens: 150, outputTokens: 15, costUsd: 0.75 });
+    expect(addUsage()).toEqual({ inputTokens: 0, outputTokens: 0, costUsd: 0 });
+  });
+
+  it('should sum usage stored on iterations', () => {
+    const iterations = [
+      { inputTokens: 1200, outputTokens: 300, costUsd: 0.1 },
+      { inputTokens: 800, outputTokens: 200, costUsd: 0.2 },
+    ] as Iteration[];
+
+    const total = sumIterationUsage(iterations);
+
+    expect(total.inputTokens).toBe(2000);
+    expect(total.outputTokens).toBe(500);
+    expect(total.costUsd).toBeCloseTo(0.3);
+    expect(hasUsage(sumIterationUsage([]))).toBe(false);
+  });
+
+  it('should price cached input tokens separately', () => {
+    expect(estimateCost(CODEX_PRICING, 2_000_000, 1_000_000, 100_000)).toBeCloseTo(1.25 + 0.125 + 1);
+  });
+
+  it('should format usage compactly', () => {
+    expect(formatUsage({ inputTokens: 12_345, outputTokens: 999, costUsd: 0.4249 }))
+      .toBe('12.3k in / 999 out, $0.42');
+    expect(formatUsage({ inputTokens: 2_500_000, outputTokens: 1_000, costUsd: 3 }))
+      .toBe('2.5M in / 1.0k out, $3.00');
+  });
+});
@@ -0,0 +1,111 @@
+import type { ChildProcess, ChildProcessWithoutNullStreams, SpawnOptionsWithoutStdio } from 'child_process';
+import { spawn } from 'child_process';
+
+/** How long an agent has to exit after SIGTERM before its process group is killed. */
+export const KILL_GRACE_PERIOD_MS = 10_000;
+
+// Windows has no process groups; there the agent itself is signalled
+const USE_PROCESS_GROUPS = process.platform !== 'win32';
+
+// Groups stay here after their leader exits, until they are killed or empty
+const liveProcessGroups = new Set<number>();
+let exitHandlersInstalled = false;
+
+const isProcessGroupAlive = (group: number): boolean => {
+  try {
+    process.kill(-group, 0);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const killLiveProcessGroups = (): void => {
+  for (const group of liveProcessGroups) {
+    try {
+      process.kill(-group, 'SIGKILL');
+    } catch {
+      // Already gone
+    }
+  }
+  liveProcessGroups.clear();
+};
+
+const killOnSignal = (signal: NodeJS.Signals): void => {
+  killLiveProcessGroups();
+  // A signal listener replaces the default handler; without another listener,
+  // raise the signal again so that Stepcat still terminates
+  if (process.listenerCount(signal) === 0) {
+    process.kill(process.pid, signal);
+  }
+};
+
+const installExitHandlers = (): void => {
+  if (exitHandlersInstalled) {
+    return;
+  }
+  exitHandlersInstalled = true;
+  process.once('exit', killLiveProcessGroups);
+  process.once('SIGINT', killOnSignal);
+  process.once('SIGTERM', killOnSignal);
+};
+
+const signalAgent = (child: ChildProcess, signal: NodeJS.Signals): void => {
+  if (child.pid === undefined) {
+    return;
+  }
+  try {
+    if (USE_PROCESS_GROUPS) {
+      process.kill(-child.pid, signal);
+    } else {
+      child.kill(signal);
+    }
+  } catch {
+    // The process group is already gone
+  }
+  if (signal === 'SIGKILL') {
+    liveProcessGroups.delete(child.pid);
+  }
+};
+
+/**
+ * Spawns an agent in its own process group, so that it and every process it
+ * starts can be stopped together. Groups still running when Stepcat exits or
+ * receives SIGINT or SIGTERM are killed, including processes left behind by
+ * an agent that has exited.
+ */
+export const spawnAgentProcess = (
+  command: string,
+  args: string[],
+  options: SpawnOptionsWithoutStdio,
+): ChildProcessWithoutNullStreams => {
+  const child = spawn(command, args, { ...options, detached: USE_PROCESS_GROUPS });
+
+  const pid = child.pid;
+  if (USE_PROCESS_GROUPS && pid !== undefined) {
+    for (const group of liveProcessGroups) {
+      if (!isProcessGroupAlive(group)) {
+        liveProcessGroups.delete(group);
+      }
+    }
+    liveProcessGroups.add(pid);
+    child.once('exit', () => {
+      if (!isProcessGroupAlive(pid)) {
+        liveProcessGroups.delete(pid);
+      }
+    });
+    installExitHandlers();
+  }
+
+  return child;
+};
+
+/**
+ * Stops an agent gracefully: SIGTERM to its process group, then SIGKILL to
+ * whatever is left of the group after the grace period.
+ */
+export const terminateAgentProcess = (child: ChildProcess, gracePeriodMs = KILL_GRACE_PERIOD_MS): void => {
+  signalAgent(child, 'SIGTERM');
+  const killTimer = setTimeout(() => signalAgent(child, 'SIGKILL'), gracePeriodMs);
+  killTimer.unref();
+};
@@ -0,0 +1,135 @@
+import type {
+  AgentImplementationResult,
+  AgentName,
+  AgentReviewResult,
+  AgentRunOptions,
+  AgentRunner,
+} from './agent-runner.js';
+import type { ClaudeRunnerConfig } from './claude-runner.js';
+import { ClaudeRunner } from './claude-runner.js';
+import { CodexRunner } from './codex-runner.js';
+import type { CommandAgentDefinition } from './command-agent-runner.js';
+import { CommandAgentRunner } from './command-agent-runner.js';
+
+export const BUILT_IN_AGENTS: readonly AgentName[] = ['claude', 'codex'];
+
+export class ClaudeAgentRunner implements AgentRunner {
+  private runner: ClaudeRunner;
+
+  constructor(runner: ClaudeRunner = new ClaudeRunner()) {
+    this.runner = runner;
+  }
+
+  getName(): AgentName {
+    return 'claude';
+  }
+
+  getDisplayName(): string {
+    return 'Claude Code';
+  }
+
+  implement(options: AgentRunOptions): Promise<AgentImplementationResult> {
+    return this.runner.run({ ...options, captureOutput: true });
+  }
+
+  async review(options: AgentRunOptions): Promise<AgentReviewResult> {
+    const result = await this.runner.run({ ...options, captureOutput: true });
+
+    if (!result.output) {
+      throw new Error('Claude Code did not produce any review output');
+    }
+
+    return {
+      success: result.success,
+      output: result.output,
+      usage: result.usage,
+    };
+  }
+
+  continueSession(options: AgentRunOptions): Promise<AgentImplementationResult> {
+    return this.runner.runContinue({ ...options, captureOutput: true });
+  }
+}
+
+export class CodexAgentRunner implements AgentRunner {
+  private runner: CodexRunner;
+
+  constructor(runner: CodexRunner = new CodexRunner()) {
+    this.runner = runner;
+  }
+
+  getName(): AgentName {
+    return 'codex';
+  }
+
+  getDisplayName(): string {
+    return 'Codex';
+  }
+
+  async implement(options: AgentRunOptions): Promise<AgentImplementationResult> {
+    const result = await this.runner.run({ ...options, expectCommit: true });
+
+    return {
+      success: result.success,
+      commitSha: result.commitSha ?? null,
+      output: result.output,
+      usage: result.usage,
+      sessionId: result.sessionId,
+    };
+  }
+
+  async review(options: AgentRunOptions): Promise<AgentReviewResult> {
+    const result = await this.runner.run(options);
+
+    return {
+      success: result.success,
+      output: result.output,
+      usage: result.usage,
+    };
+  }
+}
+
+export class AgentRegistry {
+  private agents = new Map<AgentName, AgentRunner>();
+
+  register(agent: AgentRunner): void {
+    this.agents.set(agent.getName(), agent);
+  }
+
+  has(name: AgentName): boolean {
+    return this.agents.has(name);
+  }
+
+  get(name: AgentName): AgentRunner {
+    const agent = this.agents.get(name);
+    if (!agent) {
+      throw new Error(
+        `Unknown agent: ${name}. Available agents: ${this.getNames().join(', ')}`
+      );
+    }
+    return agent;
+  }
+
+  getNames(): AgentName[] {
+    return [...this.agents.keys()];
+  }
+}
+
+/**
+ * Creates a registry with the built-in Claude Code and Codex agents plus any
+ * command agents. A command agent with a built-in name replaces the built-in one.
+ */
+export const createAgentRegistry = (
+  commandAgents: CommandAgentDefinition[] = [],
+  claudeConfig: ClaudeRunnerConfig = {},
+): AgentRegistry => {
+  const registry = new AgentRegistry();
+  registry.register(new ClaudeAgentRunner(new ClaudeRunner(claudeConfig)));
+  registry.register(new CodexAgentRunner());
+
+  for (const definition of commandAgents) {
+    registry.register(new CommandAgentRunner(definition));
+  }
+
+  return registry;
+};
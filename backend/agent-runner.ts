@@ -0,0 +1,69 @@
+import type { AgentTimelineEntry } from './agent-timeline.js';
+import type { OrchestratorEventEmitter } from './events.js';
+import type { TokenUsage } from './usage.js';
+
+/**
+ * Agent identifiers are free-form so that custom agents can be registered
+ * alongside the built-in 'claude' and 'codex' agents.
+ */
+export type AgentName = string;
+
+export interface AgentRunOptions {
+  workDir: string;
+  prompt: string;
+  timeoutMinutes: number;
+  eventEmitter?: OrchestratorEventEmitter;
+  /** Session to resume, as reported by an earlier run; agents without sessions ignore it. */
+  resumeSessionId?: string;
+  /** Iteration the run belongs to, attached to the agent's output events. */
+  iterationId?: number;
+  /** Stops the agent with an AgentStalledError when it prints nothing and changes no files for this long. */
+  stallTimeoutMinutes?: number;
+}
+
+export interface AgentImplementationResult {
+  success: boolean;
+  commitSha: string | null;
+  output?: string;
+  workingTreeStatus?: string | null;
+  /** Tokens and cost reported by the agent; absent when the agent does not report usage. */
+  usage?: TokenUsage;
+  /** Session that can be resumed by a later run; absent when the agent has no sessions. */
+  sessionId?: string;
+  /** Messages, tool calls and tool results of the run; absent when the agent's output isn't structured. */
+  timeline?: AgentTimelineEntry[];
+}
+
+export interface AgentReviewResult {
+  success: boolean;
+  output: string;
+  usage?: TokenUsage;
+}
+
+export interface AgentRunner {
+  getName(): AgentName;
+
+  getDisplayName(): string;
+
+  /** Runs the agent with an implementation prompt; the agent is expected to create a commit. */
+  implement(options: AgentRunOptions): Promise<AgentImplementationResult>;
+
+  /** Runs the agent with a review prompt; the output is parsed by ReviewParser. */
+  review(options: AgentRunOptions): Promise<AgentReviewResult>;
+
+  /**
+   * Continues the agent's previous session with a follow-up prompt.
+   * Agents that implement this support interactive permission requests.
+   */
+  continueSession?(options: AgentRunOptions): Promise<AgentImplementationResult>;
+}
+
+const BUILT_IN_DISPLAY_NAMES: Record<string, string> = {
+  claude: 'Claude Code',
+  codex: 'Codex',
+  manual: 'Manual commit',
+};
+
+export const getAgentDisplayName = (agent: AgentName): string => {
+  return BUILT_IN_DISPLAY_NAMES[agent] ?? agent;
+};
@@ -0,0 +1,64 @@
+/** One thing an agent did during a run: a message, a tool call or the result of a tool call. */
+export interface AgentTimelineEntry {
+  kind: 'text' | 'tool_use' | 'tool_result';
+  /** Tool that was called, or that produced the result; null for messages. */
+  tool: string | null;
+  /** Links a tool result to its tool use; null for messages. */
+  toolUseId: string | null;
+  /** The message text, the main input of a tool use (command, file path) or the output of a tool. */
+  content: string;
+  /** Whether a tool result reports a failure. */
+  isError: boolean;
+}
+
+export interface TestRun {
+  command: string;
+  /** Null when the result of the command is unknown, e.g. the run was interrupted. */
+  passed: boolean | null;
+}
+
+export interface TimelineSummary {
+  filesTouched: string[];
+  commandsRun: string[];
+  testsExecuted: TestRun[];
+}
+
+const FILE_EDIT_TOOLS = new Set(['Edit', 'MultiEdit', 'Write', 'NotebookEdit']);
+const COMMAND_TOOLS = new Set(['Bash']);
+const TEST_COMMAND_PATTERN = /\b(test|tests|jest|vitest|pytest|mocha|rspec|phpunit|ctest)\b/;
+const GIT_COMMAND_PATTERN = /^\s*git\s/;
+
+/** Whether a shell command looks like it runs tests; git commands never do, whatever their message says. */
+export const isTestCommand = (command: string): boolean =>
+  !GIT_COMMAND_PATTERN.test(command) && TEST_COMMAND_PATTERN.test(command);
+
+/** Files edited, commands run and tests executed, in the order they first appear. */
+export const summarizeTimeline = (entries: AgentTimelineEntry[]): TimelineSummary => {
+  const results = new Map<string, AgentTimelineEntry>();
+  for (const entry of entries) {
+    if (entry.kind === 'tool_result' && entry.toolUseId) {
+      results.set(entry.toolUseId, entry);
+    }
+  }
+
+  const filesTouched = new Set<string>();
+  const commandsRun: string[] = [];
+  const testsExecuted: TestRun[] = [];
+
+  for (const entry of entries) {
+    if (entry.kind !== 'tool_use' || !entry.tool || !entry.content) {
+      continue;
+    }
+    if (FILE_EDIT_TOOLS.has(entry.tool)) {
+      filesTouched.add(entry.content);
+    } else if (COMMAND_TOOLS.has(entry.tool)) {
+      commandsRun.push(entry.content);
+      if (isTestCommand(entry.content)) {
+        const result = entry.toolUseId ? results.get(entry.toolUseId) : undefined;
+        testsExecuted.push({ command: entry.content, passed: result ? !result.isError : null });
+      }
+    }
+  }
+
+  return { filesTouched: [...filesTouched], commandsRun, testsExecuted };
+};
@@ -0,0 +1,81 @@
+import type { Iteration } from './models.js';
+
+export type BudgetMetric = 'wallClockMinutes' | 'agentMinutes' | 'ciMinutes' | 'tokens';
+
+export const BUDGET_METRICS: readonly BudgetMetric[] = ['wallClockMinutes', 'agentMinutes', 'ciMinutes', 'tokens'];
+
+export type BudgetScope = 'step' | 'execution';
+
+/** Upper limits for one scope; unset metrics are unlimited. */
+export type BudgetLimits = Partial<Record<BudgetMetric, number>>;
+
+export interface Budgets {
+  /** Limits applied to each step separately. */
+  step?: BudgetLimits;
+  /** Limits applied to the whole execution, across resumes. */
+  execution?: BudgetLimits;
+}
+
+/** What has been spent so far, in the units of the budget metrics. */
+export type BudgetSpend = Record<BudgetMetric, number>;
+
+const METRIC_LABELS: Record<BudgetMetric, string> = {
+  wallClockMinutes: 'wall-clock minutes',
+  agentMinutes: 'agent minutes',
+  ciMinutes: 'CI minutes',
+  tokens: 'tokens',
+};
+
+export class BudgetExceededError extends Error {
+  scope: BudgetScope;
+  metric: BudgetMetric;
+  limit: number;
+  spent: number;
+
+  constructor(scope: BudgetScope, metric: BudgetMetric, limit: number, spent: number, stepNumber?: number) {
+    const target = scope === 'step' && stepNumber !== undefined ? `step ${stepNumber}` : scope;
+    const spentText = metric === 'tokens' ? String(spent) : spent.toFixed(1);
+    super(
+      `Budget exceeded: ${target} used ${spentText} of ${limit} ${METRIC_LABELS[metric]}. ` +
+      `Raise budgets.${scope}.${metric} and resume to continue.`
+    );
+    this.name = 'BudgetExceededError';
+    this.scope = scope;
+    this.metric = metric;
+    this.limit = limit;
+    this.spent = spent;
+  }
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/** Measures the spend recorded on iterations plus the given wall-clock time. */
+export const measureSpend = (iterations: Iteration[], wallClockMs: number): BudgetSpend => ({
+  wallClockMinutes: wallClockMs / MS_PER_MINUTE,
+  agentMinutes: iterations.reduce((total, iteration) => total + iteration.agentDurationMs, 0) / MS_PER_MINUTE,
+  ciMinutes: iterations.reduce((total, iteration) => total + iteration.ciDurationMs, 0) / MS_PER_MINUTE,
+  tokens: iterations.reduce((total, iteration) => total + iteration.inputTokens + iteration.outputTokens, 0),
+});
+
+/**
+ * Returns the first metric whose limit has been reached. Budgets are checked
+ * before starting more work, so reaching a limit means the next agent run or
+ * build check would exceed it.
+ */
+export const findExhaustedBudget = (
+  limits: BudgetLimits | undefined,
+  spend: BudgetSpend,
+): { metric: BudgetMetric; limit: number; spent: number } | null => {
+  if (!limits) {
+    return null;
+  }
+
+  for (const metric of BUDGET_METRICS) {
+    const limit = limits[metric];
+    if (limit !== undefined && spend[metric] >= limit) {
+      return { metric, limit, spent: spend[metric] };
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,44 @@
+import type { DbStep } from './models.js';
+
+export type BuildCheckerType = 'github' | 'local';
+
+export type BuildCheckerLogLevel = 'info' | 'warn' | 'error' | 'success';
+
+export type BuildCheckerLog = (message: string, level?: BuildCheckerLogLevel) => void;
+
+export interface BuildChecker {
+  getName(): string;
+
+  /**
+   * Prepares the repository before the first build check of a step
+   * (e.g. making sure a branch and pull request exist).
+   */
+  prepare(step: DbStep, planFile: string): Promise<void>;
+
+  /**
+   * Makes the latest commit visible to the checker (e.g. pushes it to the remote).
+   */
+  publish(): Promise<void>;
+
+  waitForBuild(
+    sha: string,
+    timeoutMinutes: number,
+    attempt: number,
+    maxAttempts: number,
+  ): Promise<boolean>;
+
+  getLastTrackedSha(): string | null;
+
+  extractBuildErrors(sha: string): Promise<string>;
+}
+
+export const GENERIC_BUILD_FAILURE_MESSAGE =
+  'Build checks failed. Please review the build logs and fix the issues.';
+
+export const truncateOutput = (output: string, maxChars: number): string => {
+  if (output.length <= maxChars) {
+    return output;
+  }
+  const truncatedCount = output.length - maxChars;
+  return `... (truncated ${truncatedCount} chars)\n${output.slice(truncatedCount)}`;
+};
@@ -1,33 +1,139 @@
-import { spawn, execSync } from "child_process";
 import { existsSync } from "fs";
 import { resolve, dirname } from "path";
 import { fileURLToPath } from "url";
 
+import { spawnAgentProcess, terminateAgentProcess } from "./agent-process.js";
+import type { AgentTimelineEntry } from "./agent-timeline.js";
 import type { OrchestratorEventEmitter } from "./events.js";
+import { git } from "./git.js";
 import { getLogger } from "./logger.js";
 import { PROMPTS } from "./prompts.js";
+import { AgentStalledError, StallWatchdog } from "./stall-watchdog.js";
+import type { TokenUsage } from "./usage.js";
+import { addUsage } from "./usage.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const moduleDir = __dirname;
 
+export const DEFAULT_ALLOWED_TOOLS = ["Bash(git:*)"];
+
+export interface ClaudeRunnerConfig {
+  /** Tools allowed in addition to DEFAULT_ALLOWED_TOOLS. */
+  allowedTools?: string[];
+}
+
 export interface ClaudeRunOptions {
   workDir: string;
   prompt: string;
   timeoutMinutes?: number;
   captureOutput?: boolean;
   eventEmitter?: OrchestratorEventEmitter;
+  /** Resumes this Claude Code session instead of starting a new one. */
+  resumeSessionId?: string;
+  /** Iteration attached to the streamed output events. */
+  iterationId?: number;
+  /** Stops Claude Code when it prints nothing and changes no files for this long. */
+  stallTimeoutMinutes?: number;
+}
+
+/** The final message printed by `claude --print --output-format stream-json`. */
+interface ClaudeResultMessage {
+  type: "result";
+  result?: string;
+  session_id?: string;
+  total_cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+    cache_creation_input_tokens?: number;
+    cache_read_input_tokens?: number;
+  };
+}
+
+const isClaudeResultMessage = (value: unknown): value is ClaudeResultMessage => {
+  return typeof value === "object" && value !== null && (value as { type?: unknown }).type === "result";
+};
+
+/** An assistant message printed by `--output-format stream-json`; only the fields stepcat reads are typed. */
+interface ClaudeAssistantMessage {
+  type: "assistant";
+  message?: {
+    content?: Array<{
+      type?: string;
+      text?: string;
+      id?: string;
+      name?: string;
+      input?: Record<string, unknown>;
+    }>;
+  };
+}
+
+const isClaudeAssistantMessage = (value: unknown): value is ClaudeAssistantMessage => {
+  return typeof value === "object" && value !== null && (value as { type?: unknown }).type === "assistant";
+};
+
+/** A user message printed by `--output-format stream-json`, carrying the results of tool calls. */
+interface ClaudeUserMessage {
+  type: "user";
+  message?: {
+    content?: string | Array<{
+      type?: string;
+      tool_use_id?: string;
+      content?: string | Array<{ type?: string; text?: string }>;
+      is_error?: boolean;
+    }>;
+  };
 }
 
+const isClaudeUserMessage = (value: unknown): value is ClaudeUserMessage => {
+  return typeof value === "object" && value !== null && (value as { type?: unknown }).type === "user";
+};
+
+const MAX_TOOL_RESULT_LENGTH = 2000;
+
+const toolResultText = (content: string | Array<{ type?: string; text?: string }> | undefined): string => {
+  const text = typeof content === "string"
+    ? content
+    : (content ?? []).map((block) => block.text ?? "").join("\n");
+  const trimmed = text.trim();
+  return trimmed.length > MAX_TOOL_RESULT_LENGTH ? `${trimmed.slice(0, MAX_TOOL_RESULT_LENGTH)}…` : trimmed;
+};
+
+const TOOL_INPUT_SUMMARY_KEYS = ["command", "file_path", "notebook_path", "path", "pattern", "url", "query", "description"];
+
+/** Describes a tool call by the input that matters most, e.g. the command or the file path. */
+export const describeToolInput = (input: Record<string, unknown> | undefined): string => {
+  for (const key of TOOL_INPUT_SUMMARY_KEYS) {
+    const value = input?.[key];
+    if (typeof value === "string" && value.trim()) {
+      return value.trim().replace(/\s+/g, " ");
+    }
+  }
+  return "";
+};
+
 interface ContinueOptions {
   workDir: string;
   prompt: string;
   timeoutMinutes?: number;
   captureOutput?: boolean;
   eventEmitter?: OrchestratorEventEmitter;
+  iterationId?: number;
+  stallTimeoutMinutes?: number;
 }
 
 export class ClaudeRunner {
+  private allowedTools: string[];
+
+  constructor(config: ClaudeRunnerConfig = {}) {
+    this.allowedTools = [...new Set([...DEFAULT_ALLOWED_TOOLS, ...(config.allowedTools ?? [])])];
+  }
+
+  getAllowedTools(): string[] {
+    return [...this.allowedTools];
+  }
+
   private emitLog(message: string, eventEmitter?: OrchestratorEventEmitter): void {
     const lines = message.split('\n');
     for (const line of lines) {
@@ -50,6 +156,84 @@ export class ClaudeRunner {
     }
   }
 
+  /**
+   * Returns a sink for Claude Code's stdout that emits the assistant's text and
+   * tool calls as they are streamed, one JSON message per line.
+   */
+  private createOutputStream(options: { eventEmitter?: OrchestratorEventEmitter; iterationId?: number }): {
+    write: (text: string) => void;
+    end: () => void;
+  } {
+    const { eventEmitter, iterationId } = options;
+    let pendingLine = "";
+
+    const handleLine = (line: string): void => {
+      if (!eventEmitter || !line.trim()) {
+        return;
+      }
+      let message: unknown;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        return;
+      }
+      if (!isClaudeAssistantMessage(message)) {
+        return;
+      }
+      for (const block of message.message?.content ?? []) {
+        if (block.type === "text" && block.text?.trim()) {
+          eventEmitter.emit("event", {
+            type: "agent_output",
+            timestamp: Date.now(),
+            agent: "claude",
+            iterationId,
+            text: block.text,
+          });
+        } else if (block.type === "tool_use" && block.name) {
+          eventEmitter.emit("event", {
+            type: "agent_tool_call",
+            timestamp: Date.now(),
+            agent: "claude",
+            iterationId,
+            tool: block.name,
+            summary: describeToolInput(block.input),
+          });
+        }
+      }
+    };
+
+    return {
+      write: (text: string) => {
+        const lines = (pendingLine + text).split("\n");
+        pendingLine = lines.pop() ?? "";
+        lines.forEach(handleLine);
+      },
+      end: () => {
+        handleLine(pendingLine);
+        pendingLine = "";
+      },
+    };
+  }
+
+  private createStallWatchdog(
+    options: { workDir: string; eventEmitter?: OrchestratorEventEmitter; iterationId?: number; stallTimeoutMinutes?: number },
+    onStall: () => void,
+  ): StallWatchdog | null {
+    if (!options.stallTimeoutMinutes) {
+      return null;
+    }
+    const watchdog = new StallWatchdog({
+      workDir: options.workDir,
+      idleMinutes: options.stallTimeoutMinutes,
+      agent: "claude",
+      iterationId: options.iterationId,
+      eventEmitter: options.eventEmitter,
+      onStall,
+    });
+    watchdog.start();
+    return watchdog;
+  }
+
   private getClaudePath(): string {
     const localBin = resolve(moduleDir, "../node_modules/.bin/claude");
 
@@ -68,10 +252,7 @@ export class ClaudeRunner {
 
   private tryGetHeadCommit(workDir: string): string | null {
     try {
-      return execSync("git rev-parse HEAD", {
-        cwd: workDir,
-        encoding: "utf-8",
-      }).trim();
+      return git(workDir, ["rev-parse", "HEAD"]);
     } catch (error) {
       getLogger()?.warn("ClaudeRunner", `Could not get HEAD commit (repo may be empty or unborn): ${error instanceof Error ? error.message : String(error)}`);
       return null;
@@ -83,10 +264,7 @@ export class ClaudeRunner {
     eventEmitter?: OrchestratorEventEmitter,
   ): string | null {
     try {
-      const status = execSync("git status --short", {
-        cwd: workDir,
-        encoding: "utf-8",
-      }).trim();
+      const status = git(workDir, ["status", "--short"]);
       return status.length > 0 ? status : "";
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -103,6 +281,9 @@ export class ClaudeRunner {
   ): Promise<{
     success: boolean;
     output?: string;
+    usage?: TokenUsage;
+    sessionId?: string;
+    timeline?: AgentTimelineEntry[];
   }> {
     const claudePath = this.getClaudePath();
     const timeout = (options.timeoutMinutes ?? 5) * 60 * 1000;
@@ -117,31 +298,42 @@ export class ClaudeRunner {
       error?: Error;
       stdout?: string;
     }>((resolve) => {
-      const child = spawn(
+      const child = spawnAgentProcess(
         claudePath,
         [
           "--print",
           "--verbose",
+          "--output-format",
+          "stream-json",
           "--continue",
           "--add-dir",
           options.workDir,
           "--permission-mode",
           "acceptEdits",
           "--allowedTools",
-          "Bash(git:*)",
+          ...this.allowedTools,
         ],
         {
           cwd: options.workDir,
-          stdio: ["pipe", "pipe", "pipe"],
         },
       );
 
       let timeoutId: NodeJS.Timeout | undefined;
       let stdoutData = "";
+      const outputStream = this.createOutputStream(options);
+      const watchdog = this.createStallWatchdog(options, () => {
+        if (timeoutId) clearTimeout(timeoutId);
+        terminateAgentProcess(child);
+        resolve({
+          exitCode: null,
+          error: new AgentStalledError("Claude Code", options.stallTimeoutMinutes ?? 0),
+        });
+      });
 
       if (timeout > 0) {
         timeoutId = setTimeout(() => {
-          child.kill("SIGTERM");
+          watchdog?.stop();
+          terminateAgentProcess(child);
           resolve({
             exitCode: null,
             error: new Error("Claude Code --continue execution timed out"),
@@ -161,19 +353,9 @@ export class ClaudeRunner {
       if (child.stdout) {
         child.stdout.on("data", (chunk: Buffer) => {
           const text = chunk.toString();
-          if (captureOutput) {
-            stdoutData += text;
-          }
-          if (options.eventEmitter) {
-            const lines = text.split('\n');
-            for (const line of lines) {
-              if (line.trim()) {
-                this.emitLog(line, options.eventEmitter);
-              }
-            }
-          } else {
-            process.stdout.write(text);
-          }
+          stdoutData += text;
+          watchdog?.recordActivity();
+          outputStream.write(text);
         });
       }
 
@@ -181,6 +363,7 @@ export class ClaudeRunner {
       if (child.stderr) {
         child.stderr.on("data", (chunk: Buffer) => {
           const text = chunk.toString();
+          watchdog?.recordActivity();
           if (options.eventEmitter) {
             const lines = text.split('\n');
             for (const line of lines) {
@@ -196,27 +379,38 @@ export class ClaudeRunner {
 
       child.on("error", (error) => {
         if (timeoutId) clearTimeout(timeoutId);
+        watchdog?.stop();
         resolve({ exitCode: null, error });
       });
 
       child.on("close", (code) => {
         if (timeoutId) clearTimeout(timeoutId);
-        resolve({ exitCode: code, stdout: captureOutput ? stdoutData : undefined });
+        watchdog?.stop();
+        outputStream.end();
+        resolve({ exitCode: code, stdout: stdoutData });
       });
     });
 
+    const parsed = this.parseJsonOutput(result.stdout ?? "");
+    this.emitLog(parsed.text, options.eventEmitter);
+    const timeline = this.parseTimeline(result.stdout ?? "");
+    const output = captureOutput ? parsed.text : undefined;
+
     if (result.error) {
       this.emitLog("─".repeat(80), options.eventEmitter);
       this.emitLog("✗ Error running Claude Code --continue", options.eventEmitter);
       this.emitLog("─".repeat(80), options.eventEmitter);
-      return { success: false, output: result.stdout };
+      if (result.error instanceof AgentStalledError) {
+        throw result.error;
+      }
+      return { success: false, output, usage: parsed.usage, sessionId: parsed.sessionId, timeline };
     }
 
     if (result.exitCode !== 0) {
       this.emitLog("─".repeat(80), options.eventEmitter);
       this.emitLog(`✗ Claude Code --continue exited with status ${result.exitCode}`, options.eventEmitter);
       this.emitLog("─".repeat(80), options.eventEmitter);
-      return { success: false, output: result.stdout };
+      return { success: false, output, usage: parsed.usage, sessionId: parsed.sessionId, timeline };
     }
 
     this.emitLog("─".repeat(80), options.eventEmitter);
@@ -225,7 +419,10 @@ export class ClaudeRunner {
 
     return {
       success: true,
-      output: captureOutput ? result.stdout : undefined,
+      output,
+      usage: parsed.usage,
+      sessionId: parsed.sessionId,
+      timeline,
     };
   }
 
@@ -236,11 +433,17 @@ export class ClaudeRunner {
     commitSha: string | null;
     output?: string;
     workingTreeStatus?: string | null;
+    usage?: TokenUsage;
+    sessionId?: string;
+    timeline?: AgentTimelineEntry[];
   }> {
     const claudePath = this.getClaudePath();
 
     this.emitLog("─".repeat(80), options.eventEmitter);
     this.emitLog(`Running Claude Code in ${options.workDir}`, options.eventEmitter);
+    if (options.resumeSessionId) {
+      this.emitLog(`Resuming session: ${options.resumeSessionId}`, options.eventEmitter);
+    }
     this.emitLog(`Binary: ${claudePath}`, options.eventEmitter);
     this.emitLog(`Timeout: ${options.timeoutMinutes ?? 30} minutes`, options.eventEmitter);
     this.emitLog("─".repeat(80), options.eventEmitter);
@@ -257,30 +460,42 @@ export class ClaudeRunner {
       error?: Error;
       stdout?: string;
     }>((resolve) => {
-      const child = spawn(
+      const child = spawnAgentProcess(
         claudePath,
         [
           "--print",
           "--verbose",
+          "--output-format",
+          "stream-json",
+          ...(options.resumeSessionId ? ["--resume", options.resumeSessionId] : []),
           "--add-dir",
           options.workDir,
           "--permission-mode",
           "acceptEdits",
           "--allowedTools",
-          "Bash(git:*)",
+          ...this.allowedTools,
         ],
         {
           cwd: options.workDir,
-          stdio: ["pipe", "pipe", "pipe"],
         },
       );
 
       let timeoutId: NodeJS.Timeout | undefined;
       let stdoutData = "";
+      const outputStream = this.createOutputStream(options);
+      const watchdog = this.createStallWatchdog(options, () => {
+        if (timeoutId) clearTimeout(timeoutId);
+        terminateAgentProcess(child);
+        resolve({
+          exitCode: null,
+          error: new AgentStalledError("Claude Code", options.stallTimeoutMinutes ?? 0),
+        });
+      });
 
       if (timeout > 0) {
         timeoutId = setTimeout(() => {
-          child.kill("SIGTERM");
+          watchdog?.stop();
+          terminateAgentProcess(child);
           resolve({
             exitCode: null,
             error: new Error("Claude Code execution timed out"),
@@ -300,19 +515,9 @@ export class ClaudeRunner {
       if (child.stdout) {
         child.stdout.on("data", (chunk: Buffer) => {
           const text = chunk.toString();
-          if (captureOutput) {
-            stdoutData += text;
-          }
-          if (options.eventEmitter) {
-            const lines = text.split('\n');
-            for (const line of lines) {
-              if (line.trim()) {
-                this.emitLog(line, options.eventEmitter);
-              }
-            }
-          } else {
-            process.stdout.write(text);
-          }
+          stdoutData += text;
+          watchdog?.recordActivity();
+          outputStream.write(text);
         });
       }
 
@@ -320,6 +525,7 @@ export class ClaudeRunner {
       if (child.stderr) {
         child.stderr.on("data", (chunk: Buffer) => {
           const text = chunk.toString();
+          watchdog?.recordActivity();
           if (options.eventEmitter) {
             const lines = text.split('\n');
             for (const line of lines) {
@@ -335,15 +541,22 @@ export class ClaudeRunner {
 
       child.on("error", (error) => {
         if (timeoutId) clearTimeout(timeoutId);
+        watchdog?.stop();
         resolve({ exitCode: null, error });
       });
 
       child.on("close", (code) => {
         if (timeoutId) clearTimeout(timeoutId);
-        resolve({ exitCode: code, stdout: captureOutput ? stdoutData : undefined });
+        watchdog?.stop();
+        outputStream.end();
+        resolve({ exitCode: code, stdout: stdoutData });
       });
     });
 
+    const parsed = this.parseJsonOutput(result.stdout ?? "");
+    this.emitLog(parsed.text, options.eventEmitter);
+    const timeline = this.parseTimeline(result.stdout ?? "");
+
     if (result.error) {
       this.emitLog("─".repeat(80), options.eventEmitter);
       this.emitLog("✗ Error running Claude Code", options.eventEmitter);
@@ -358,9 +571,7 @@ export class ClaudeRunner {
       throw new Error(`Claude Code failed with exit code ${result.exitCode}`);
     }
 
-    const capturedOutput = captureOutput && result.stdout !== undefined
-      ? result.stdout
-      : undefined;
+    const capturedOutput = captureOutput ? parsed.text : undefined;
 
     const headAfter = this.tryGetHeadCommit(options.workDir);
     this.emitLog("─".repeat(80), options.eventEmitter);
@@ -395,6 +606,9 @@ export class ClaudeRunner {
         commitSha: null,
         output: capturedOutput,
         workingTreeStatus,
+        usage: parsed.usage,
+        sessionId: parsed.sessionId,
+        timeline,
       };
     }
 
@@ -423,6 +637,8 @@ export class ClaudeRunner {
             timeoutMinutes: 5,
             captureOutput: options.captureOutput,
             eventEmitter: options.eventEmitter,
+            iterationId: options.iterationId,
+            stallTimeoutMinutes: options.stallTimeoutMinutes,
           });
 
           const headAfterRetry = this.tryGetHeadCommit(options.workDir);
@@ -441,6 +657,9 @@ export class ClaudeRunner {
               success: true,
               commitSha: headAfterRetry,
               output: combinedOutput || undefined,
+              usage: addUsage(parsed.usage, continueResult.usage),
+              sessionId: continueResult.sessionId ?? parsed.sessionId,
+              timeline: [...timeline, ...(continueResult.timeline ?? [])],
             };
           }
 
@@ -461,6 +680,9 @@ export class ClaudeRunner {
             commitSha: null,
             output: combinedOutput || undefined,
             workingTreeStatus: workingTreeAfterRetry,
+            usage: addUsage(parsed.usage, continueResult.usage),
+            sessionId: continueResult.sessionId ?? parsed.sessionId,
+            timeline: [...timeline, ...(continueResult.timeline ?? [])],
           };
         } else {
           this.emitLog(
@@ -476,6 +698,9 @@ export class ClaudeRunner {
         commitSha: null,
         output: capturedOutput,
         workingTreeStatus,
+        usage: parsed.usage,
+        sessionId: parsed.sessionId,
+        timeline,
       };
     }
 
@@ -483,9 +708,19 @@ export class ClaudeRunner {
     this.emitLog(`Commit SHA: ${headAfter}`, options.eventEmitter);
     this.emitLog("─".repeat(80), options.eventEmitter);
 
-    const response: { success: boolean; commitSha: string | null; output?: string } = {
+    const response: {
+      success: boolean;
+      commitSha: string | null;
+      output?: string;
+      usage?: TokenUsage;
+      sessionId?: string;
+      timeline?: AgentTimelineEntry[];
+    } = {
       success: true,
       commitSha: headAfter,
+      usage: parsed.usage,
+      sessionId: parsed.sessionId,
+      timeline,
     };
 
     if (capturedOutput !== undefined) {
@@ -513,6 +748,9 @@ export class ClaudeRunner {
     success: boolean;
     commitSha: string | null;
     output?: string;
+    usage?: TokenUsage;
+    sessionId?: string;
+    timeline?: AgentTimelineEntry[];
   }> {
     const claudePath = this.getClaudePath();
 
@@ -531,6 +769,8 @@ export class ClaudeRunner {
       timeoutMinutes: options.timeoutMinutes,
       captureOutput: options.captureOutput,
       eventEmitter: options.eventEmitter,
+      iterationId: options.iterationId,
+      stallTimeoutMinutes: options.stallTimeoutMinutes,
     });
 
     if (!result.success) {
@@ -538,6 +778,9 @@ export class ClaudeRunner {
         success: false,
         commitSha: null,
         output: result.output,
+        usage: result.usage,
+        sessionId: result.sessionId,
+        timeline: result.timeline,
       };
     }
 
@@ -552,6 +795,9 @@ export class ClaudeRunner {
         success: true,
         commitSha: headAfter,
         output: result.output,
+        usage: result.usage,
+        sessionId: result.sessionId,
+        timeline: result.timeline,
       };
     }
 
@@ -561,6 +807,112 @@ export class ClaudeRunner {
       success: true,
       commitSha: null,
       output: result.output,
+      usage: result.usage,
+      sessionId: result.sessionId,
+      timeline: result.timeline,
     };
   }
+
+  /**
+   * Extracts the final response text, usage and session id from JSON output:
+   * one message per line with `stream-json`, or with `json` a single result
+   * message or, with --verbose, an array of all messages. Without a result
+   * message, e.g. when the agent was stopped, the text is what the agent wrote
+   * so far. Output that is not JSON is returned unchanged as text.
+   */
+  parseJsonOutput(stdout: string): { text: string; usage?: TokenUsage; sessionId?: string } {
+    const messages = this.parseMessages(stdout);
+    if (messages.length === 0) {
+      return { text: stdout };
+    }
+    const resultMessage = messages.filter(isClaudeResultMessage).pop();
+    if (!resultMessage) {
+      const texts = messages
+        .filter(isClaudeAssistantMessage)
+        .flatMap((message) => message.message?.content ?? [])
+        .flatMap((block) => (block.type === "text" && block.text?.trim() ? [block.text.trim()] : []));
+      return { text: texts.join("\n\n") };
+    }
+
+    const usage = resultMessage.usage ?? {};
+    return {
+      text: resultMessage.result ?? "",
+      sessionId: resultMessage.session_id,
+      usage: {
+        inputTokens:
+          (usage.input_tokens ?? 0)
+          + (usage.cache_creation_input_tokens ?? 0)
+          + (usage.cache_read_input_tokens ?? 0),
+        outputTokens: usage.output_tokens ?? 0,
+        costUsd: resultMessage.total_cost_usd ?? 0,
+      },
+    };
+  }
+
+  /**
+   * Turns the assistant and user messages of stream-json output into a
+   * timeline of the agent's messages, tool calls and tool results. Tool
+   * results are truncated; lines that aren't JSON are left out.
+   */
+  parseTimeline(stdout: string): AgentTimelineEntry[] {
+    const timeline: AgentTimelineEntry[] = [];
+    const toolNames = new Map<string, string>();
+
+    for (const message of this.parseMessages(stdout)) {
+      if (isClaudeAssistantMessage(message)) {
+        for (const block of message.message?.content ?? []) {
+          if (block.type === "text" && block.text?.trim()) {
+            timeline.push({ kind: "text", tool: null, toolUseId: null, content: block.text.trim(), isError: false });
+          } else if (block.type === "tool_use" && block.name) {
+            if (block.id) {
+              toolNames.set(block.id, block.name);
+            }
+            timeline.push({
+              kind: "tool_use",
+              tool: block.name,
+              toolUseId: block.id ?? null,
+              content: describeToolInput(block.input),
+              isError: false,
+            });
+          }
+        }
+      } else if (isClaudeUserMessage(message) && Array.isArray(message.message?.content)) {
+        for (const block of message.message.content) {
+          if (block.type === "tool_result") {
+            timeline.push({
+              kind: "tool_result",
+              tool: (block.tool_use_id && toolNames.get(block.tool_use_id)) ?? null,
+              toolUseId: block.tool_use_id ?? null,
+              content: toolResultText(block.content),
+              isError: block.is_error ?? false,
+            });
+          }
+        }
+      }
+    }
+
+    return timeline;
+  }
+
+  /**
+   * The messages of JSON or stream-json output. Lines that are not JSON, such
+   * as a last line cut off when the agent was stopped, are skipped.
+   */
+  private parseMessages(stdout: string): unknown[] {
+    try {
+      const parsed: unknown = JSON.parse(stdout);
+      return Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      return stdout
+        .split("\n")
+        .filter((line) => line.trim())
+        .flatMap((line): unknown[] => {
+          try {
+            return [JSON.parse(line)];
+          } catch {
+            return [];
+          }
+        });
+    }
+  }
 }
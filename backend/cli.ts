@@ -1,19 +1,44 @@
 #!/usr/bin/env node
 /* eslint-disable n/no-process-exit -- CLI entry point requires process.exit for exit codes */
 
-import { existsSync } from 'fs';
+import { existsSync, writeFileSync } from 'fs';
 import { resolve } from 'path';
 
 import { Command } from 'commander';
 
+import type { ConfigAgentDefinition, StepcatConfig } from './config.js';
+import {
+  AGENT_NAME_PATTERN,
+  getCommandAgents,
+  loadConfigFile,
+  loadEnvConfig,
+  mergeConfigs,
+  parseBudgetOption,
+  parseConsensusReviewOption,
+} from './config.js';
 import { Database } from './database.js';
 import { OrchestratorEventEmitter } from './events.js';
+import type { ReportFormat } from './execution-report.js';
+import { REPORT_FORMATS, buildExecutionReport, formatExecutionReport } from './execution-report.js';
 import { getLogger } from './logger.js';
+import type { Plan } from './models.js';
 import { Orchestrator } from './orchestrator.js';
 import { PreflightRunner } from './preflight-runner.js';
+import type { ReviewWarningPolicy } from './review-warnings.js';
+import { REVIEW_WARNING_POLICIES } from './review-warnings.js';
+import type { StepAction } from './step-actions.js';
+import { StepActions, resolveCommit } from './step-actions.js';
 import { StopController } from './stop-controller.js';
-import type { UIAdapter } from './ui/index.js';
-import { TUIAdapter } from './ui/index.js';
+import type { UIAdapter, UIMode } from './ui/index.js';
+import {
+  HeadlessUIAdapter,
+  JsonUIAdapter,
+  PermissionPolicy,
+  PlainUIAdapter,
+  TUIAdapter,
+  UI_MODES,
+} from './ui/index.js';
+import { formatUsage, hasUsage, sumIterationUsage } from './usage.js';
 
 interface CliOptions {
   file?: string;
@@ -23,35 +48,153 @@ interface CliOptions {
   buildTimeout?: number;
   agentTimeout?: number;
   maxIterations?: number;
+  parallelSteps?: number;
   exitOnComplete?: boolean;
+  ui?: string;
+  permissionAllow?: string[];
   implementationAgent?: string;
   reviewAgent?: string;
+  reviewAgents?: string;
+  reviewPolicy?: string;
+  reviewWarnings?: string;
   preflight?: boolean;
   status?: boolean;
+  json?: boolean;
+  buildChecker?: string;
+  buildCommand?: string[];
+  agent?: string[];
+  budget?: string[];
+  requireApproval?: boolean;
+  quickFixes?: boolean;
+  resumeSessions?: boolean;
+  stallTimeout?: number;
+  stallNudge?: boolean;
+  resolveConflicts?: boolean;
+  syncWithBase?: boolean;
+  stackedPrs?: boolean;
+  postReviewComments?: boolean;
+}
+
+interface ReportOptions {
+  dir?: string;
+  executionId?: number;
+  format?: string;
+  output?: string;
+}
+
+interface StepCommandOptions {
+  dir?: string;
+  executionId: number;
+  commit?: string;
 }
 
 const writeErrorLine = (line: string): void => {
   process.stderr.write(`${line}\n`);
 };
 
+const collectOption = (value: string, previous: string[] = []): string[] => [...previous, value];
+
+const openExecutionDatabase = (dir?: string): Database => {
+  const workDir = dir ? resolve(dir) : process.cwd();
+  const dbPath = resolve(workDir, '.stepcat', 'executions.db');
+
+  if (!existsSync(dbPath)) {
+    writeErrorLine(`No database found at ${dbPath}`);
+    writeErrorLine('No executions have been run in this directory.');
+    process.exit(1);
+  }
+
+  return new Database(workDir);
+};
+
+/** Returns the requested execution, or the most recent one when no ID is given. */
+const findExecution = (database: Database, executionId?: number): Plan => {
+  if (executionId) {
+    const plan = database.getPlan(executionId);
+    if (!plan) {
+      writeErrorLine(`Execution ID ${executionId} not found.`);
+      process.exit(1);
+    }
+    return plan;
+  }
+
+  const plans = database.getAllPlans();
+  if (plans.length === 0) {
+    writeErrorLine('No executions found in database.');
+    process.exit(1);
+  }
+  return plans[0];
+};
+
+const createUIAdapter = (
+  mode: UIMode,
+  storage: Database,
+  stopController: StopController,
+  permissionAllowlist: string[] = [],
+): UIAdapter => {
+  if (mode === 'tui') {
+    return new TUIAdapter({ storage, stopController });
+  }
+
+  const permissionPolicy = new PermissionPolicy(permissionAllowlist);
+  switch (mode) {
+    case 'plain':
+      return new PlainUIAdapter({ permissionPolicy });
+    case 'json':
+      return new JsonUIAdapter({ permissionPolicy });
+    case 'none':
+      return new HeadlessUIAdapter({ permissionPolicy });
+  }
+};
+
 const program = new Command();
 
 program
   .name('stepcat')
   .description('Step-by-step agent orchestration solution')
   .version('0.1.0')
+  // Keep root options such as --dir from swallowing the report subcommand's options
+  .enablePositionalOptions()
   .option('-f, --file <path>', 'Path to the implementation plan file')
   .option('-d, --dir <path>', 'Path to the work directory')
   .option('-e, --execution-id <id>', 'Resume existing execution by ID (positive integer)', parseInt)
   .option('-t, --token <token>', 'GitHub token (defaults to GITHUB_TOKEN env var)')
-  .option('--build-timeout <minutes>', 'GitHub Actions check timeout in minutes (default: 30)', parseInt)
+  .option('--build-timeout <minutes>', 'Build check timeout in minutes (default: 30)', parseInt)
+  .option('--build-checker <type>', 'How to verify builds: github (GitHub Actions) or local (default: github)')
+  .option('--build-command <command>', 'Command to run in local build mode, repeatable (default: just build, just lint, just test)', collectOption)
   .option('--agent-timeout <minutes>', 'Agent execution timeout in minutes (default: 30)', parseInt)
   .option('--max-iterations <count>', 'Maximum iterations per step (default: 3)', parseInt)
+  .option('--parallel-steps <count>', 'Maximum number of independent steps to run at once in separate git worktrees (default: 1)', parseInt)
+  .option('--ui <mode>', 'User interface: tui, plain (log lines), json (NDJSON events) or none (default: tui)')
+  .option('--permission-allow <pattern>', 'Permission that headless UIs approve automatically, repeatable; * matches any text (default: deny all)', collectOption)
   .option('--exit-on-complete', 'Exit the TUI after execution completes (default: stay open)')
-  .option('--implementation-agent <agent>', 'Agent to use for implementation (claude|codex)')
-  .option('--review-agent <agent>', 'Agent to use for code review (claude|codex)')
+  .option('--implementation-agent <agent>', 'Agent to use for implementation (claude|codex|<custom agent>)')
+  .option('--review-agent <agent>', 'Agent to use for code review (claude|codex|<custom agent>)')
+  .option('--review-agents <agents>', 'Review each commit with several agents in parallel, comma-separated, e.g. codex,claude')
+  .option('--review-policy <policy>', 'How --review-agents verdicts are merged: any-fail, majority or severity (default: any-fail)')
+  .option('--review-warnings <policy>', 'Review warnings: block (fail the review), pass (warning-only reviews pass) or defer (record them as tech debt) (default: block)')
+  .option('--quick-fixes', 'Apply patches suggested by the reviewer with git apply before running a review fix agent')
+  .option('--no-quick-fixes', 'Do not apply reviewer patches, even if the config file enables quick fixes')
+  .option('--resume-sessions', 'Resume the implementation agent session in build and review fix iterations instead of starting a fresh one')
+  .option('--no-resume-sessions', 'Start a fresh agent session in every iteration, even if the config file enables resumed sessions')
+  .option('--stall-timeout <minutes>', 'Stop an agent that prints nothing and changes no files for this many minutes (default: off)', parseInt)
+  .option('--stall-nudge', 'Ask a stalled implementation agent once to continue its session before failing the iteration')
+  .option('--no-stall-nudge', 'Fail a stalled iteration without nudging the agent, even if the config file enables nudges')
+  .option('--resolve-conflicts', 'Merge the base branch and let the implementation agent resolve merge conflicts that block the build check')
+  .option('--no-resolve-conflicts', 'Do not resolve merge conflicts, even if the config file enables it')
+  .option('--sync-with-base', 'Merge the default branch into the work branch after each completed step and re-verify the build')
+  .option('--no-sync-with-base', 'Do not merge the default branch after each step, even if the config file enables it')
+  .option('--stacked-prs', 'Give each step its own branch and pull request, stacked on the previous step')
+  .option('--no-stacked-prs', 'Use a single branch and pull request, even if the config file enables stacked pull requests')
+  .option('--post-review-comments', 'Post each review to the pull request as a GitHub review with inline comments')
+  .option('--no-post-review-comments', 'Do not post reviews to the pull request, even if the config file enables it')
+  .option('--agent <name=command>', 'Register a custom agent that reads the prompt on stdin, repeatable', collectOption)
+  .option('--budget <scope.metric=limit>', 'Stop cleanly once a step or execution budget is used up, e.g. step.agentMinutes=30, repeatable', collectOption)
+  .option('--require-approval', 'Pause after each passing review until the step is approved in the TUI')
+  .option('--no-require-approval', 'Do not pause for approval, even if the config file requires it')
   .option('--preflight', 'Run preflight check to detect missing permissions')
   .option('--status', 'Show execution status without starting TUI')
+  .option('--json', 'With --status, print the status as JSON')
   .action(async (options: CliOptions) => {
     // Handle preflight check
     if (options.preflight) {
@@ -97,36 +240,17 @@ program
 
     // Handle status command
     if (options.status) {
-      const workDir = options.dir ? resolve(options.dir) : process.cwd();
-      const dbPath = resolve(workDir, '.stepcat', 'executions.db');
-
-      if (!existsSync(dbPath)) {
-        writeErrorLine(`No database found at ${dbPath}`);
-        writeErrorLine('No executions have been run in this directory.');
-        process.exit(1);
-      }
-
-      const database = new Database(workDir);
+      const database = openExecutionDatabase(options.dir);
 
       try {
-        let plan;
-        if (options.executionId) {
-          plan = database.getPlan(options.executionId);
-          if (!plan) {
-            writeErrorLine(`Execution ID ${options.executionId} not found.`);
-            process.exit(1);
-          }
-        } else {
-          const plans = database.getAllPlans();
-          if (plans.length === 0) {
-            writeErrorLine('No executions found in database.');
-            process.exit(1);
-          }
-          plan = plans[0];
-        }
-
+        const plan = findExecution(database, options.executionId);
         const state = database.getExecutionState(plan.id);
 
+        if (options.json) {
+          process.stdout.write(formatExecutionReport(buildExecutionReport(plan, state), 'json'));
+          process.exit(0);
+        }
+
         process.stdout.write('\n');
         process.stdout.write('═'.repeat(80) + '\n');
         process.stdout.write(`EXECUTION STATUS: #${plan.id}\n`);
@@ -138,10 +262,12 @@ program
 
         const completedSteps = state.steps.filter(step => step.status === 'completed').length;
         const failedSteps = state.steps.filter(step => step.status === 'failed').length;
+        const skippedSteps = state.steps.filter(step => step.status === 'skipped').length;
         const inProgressSteps = state.steps.filter(step => step.status === 'in_progress').length;
         const pendingSteps = state.steps.filter(step => step.status === 'pending').length;
 
-        process.stdout.write(`Steps: ${completedSteps} completed, ${inProgressSteps} in progress, ${pendingSteps} pending, ${failedSteps} failed\n`);
+        process.stdout.write(`Steps: ${completedSteps} completed, ${inProgressSteps} in progress, ${pendingSteps} pending, ${failedSteps} failed, ${skippedSteps} skipped\n`);
+        process.stdout.write(`Usage: ${formatUsage(sumIterationUsage(state.iterations))}\n`);
         process.stdout.write('─'.repeat(80) + '\n');
 
         for (const step of state.steps) {
@@ -150,6 +276,7 @@ program
             'in_progress': '●',
             'pending': '○',
             'failed': '✗',
+            'skipped': '↷',
           };
 
           const stepIterations = state.iterations.filter(iteration => iteration.stepId === step.id);
@@ -157,6 +284,10 @@ program
 
           process.stdout.write(`${statusIcon[step.status]} Step ${step.stepNumber}: ${step.title}\n`);
           process.stdout.write(`  Status: ${step.status}, Iterations: ${iterationCount}\n`);
+          const stepUsage = sumIterationUsage(stepIterations);
+          if (hasUsage(stepUsage)) {
+            process.stdout.write(`  Usage: ${formatUsage(stepUsage)}\n`);
+          }
 
           if ((step.status === 'in_progress' || step.status === 'failed') && stepIterations.length > 0) {
             const currentIteration = stepIterations[stepIterations.length - 1];
@@ -203,22 +334,73 @@ program
       let workDir: string;
       const executionId: number | undefined = options.executionId;
 
-      const normalizeAgentOption = (value: string, flag: string): 'claude' | 'codex' => {
-        const normalized = value.toLowerCase();
-        if (normalized !== 'claude' && normalized !== 'codex') {
+      const normalizeAgentOption = (value: string, flag: string): string => {
+        const normalized = value.trim().toLowerCase();
+        if (!AGENT_NAME_PATTERN.test(normalized)) {
           throw new Error(
-            `Invalid ${flag} value: ${value}. Expected 'claude' or 'codex'.`
+            `Invalid ${flag} value: ${value}. Agent names may only contain letters, digits, '-' and '_'.`
           );
         }
         return normalized;
       };
 
+      let cliAgents: Record<string, ConfigAgentDefinition> | undefined;
+      for (const value of options.agent ?? []) {
+        const separatorIndex = value.indexOf('=');
+        const command = separatorIndex >= 0 ? value.slice(separatorIndex + 1).trim() : '';
+        if (separatorIndex <= 0 || !command) {
+          throw new Error(
+            `Invalid --agent value: ${value}. Expected <name>=<command>, e.g. --agent 'mycli=mycli run --stdin'`
+          );
+        }
+        cliAgents = {
+          ...cliAgents,
+          [normalizeAgentOption(value.slice(0, separatorIndex), '--agent')]: { command },
+        };
+      }
+
       const implementationAgent = options.implementationAgent
         ? normalizeAgentOption(options.implementationAgent, '--implementation-agent')
         : undefined;
       const reviewAgent = options.reviewAgent
         ? normalizeAgentOption(options.reviewAgent, '--review-agent')
         : undefined;
+      let buildChecker: 'github' | 'local' | undefined;
+      if (options.buildChecker) {
+        const normalized = options.buildChecker.toLowerCase();
+        if (normalized !== 'github' && normalized !== 'local') {
+          throw new Error(
+            `Invalid --build-checker value: ${options.buildChecker}. Expected 'github' or 'local'.`
+          );
+        }
+        buildChecker = normalized;
+      }
+      let ui: UIMode | undefined;
+      if (options.ui) {
+        const normalized = options.ui.toLowerCase();
+        if (!UI_MODES.includes(normalized as UIMode)) {
+          throw new Error(
+            `Invalid --ui value: ${options.ui}. Expected one of: ${UI_MODES.join(', ')}.`
+          );
+        }
+        ui = normalized as UIMode;
+      }
+      if (options.reviewPolicy && !options.reviewAgents) {
+        throw new Error('--review-policy can only be used together with --review-agents');
+      }
+      let reviewWarnings: ReviewWarningPolicy | undefined;
+      if (options.reviewWarnings) {
+        const normalized = options.reviewWarnings.toLowerCase();
+        if (!REVIEW_WARNING_POLICIES.includes(normalized as ReviewWarningPolicy)) {
+          throw new Error(
+            `Invalid --review-warnings value: ${options.reviewWarnings}. Expected one of: ${REVIEW_WARNING_POLICIES.join(', ')}.`
+          );
+        }
+        reviewWarnings = normalized as ReviewWarningPolicy;
+      }
+      const consensusReview = options.reviewAgents
+        ? parseConsensusReviewOption(options.reviewAgents, options.reviewPolicy)
+        : undefined;
       const rawMaxIterations: number | undefined = options.maxIterations;
       let maxIterationsPerStep: number | undefined;
       if (rawMaxIterations !== undefined) {
@@ -229,6 +411,44 @@ program
         }
         maxIterationsPerStep = rawMaxIterations;
       }
+      const rawParallelSteps: number | undefined = options.parallelSteps;
+      let parallelSteps: number | undefined;
+      if (rawParallelSteps !== undefined) {
+        if (!Number.isInteger(rawParallelSteps) || rawParallelSteps <= 0) {
+          throw new Error(
+            `Invalid --parallel-steps: expected a positive integer, got: ${options.parallelSteps}`
+          );
+        }
+        parallelSteps = rawParallelSteps;
+      }
+
+      const cliConfig: StepcatConfig = {
+        buildTimeoutMinutes: options.buildTimeout,
+        agentTimeoutMinutes: options.agentTimeout,
+        maxIterations: maxIterationsPerStep,
+        parallelSteps,
+        implementationAgent,
+        reviewAgent,
+        agents: cliAgents,
+        buildChecker,
+        buildCommands: options.buildCommand,
+        ui,
+        permissionAllowlist: options.permissionAllow,
+        requireApproval: options.requireApproval,
+        consensusReview,
+        reviewWarnings,
+        quickFixes: options.quickFixes,
+        resumeSessions: options.resumeSessions,
+        stallTimeoutMinutes: options.stallTimeout,
+        stallNudge: options.stallNudge,
+        resolveConflicts: options.resolveConflicts,
+        syncWithBase: options.syncWithBase,
+        stackedPrs: options.stackedPrs,
+        postReviewComments: options.postReviewComments,
+        budgets: options.budget
+          ? mergeConfigs(...options.budget.map((budget) => ({ budgets: parseBudgetOption(budget) }))).budgets
+          : undefined,
+      };
 
       if (executionId) {
         if (!Number.isInteger(executionId) || executionId <= 0) {
@@ -318,38 +538,68 @@ program
 
       }
 
-      if (!options.token && !process.env.GITHUB_TOKEN) {
+      // Precedence: .stepcat/config.json < STEPCAT_* environment variables < CLI flags
+      const config = mergeConfigs(loadConfigFile(workDir), loadEnvConfig(), cliConfig);
+
+      if (config.buildCommands && config.buildChecker !== 'local') {
+        throw new Error(
+          'Build commands (--build-command or "buildCommands" in the config file) ' +
+          'can only be used with the local build checker'
+        );
+      }
+
+      if (config.buildChecker !== 'local' && !options.token && !process.env.GITHUB_TOKEN) {
         throw new Error(
           'GitHub token not provided.\n' +
           'Either:\n' +
           '  1. Set GITHUB_TOKEN environment variable\n' +
-          '  2. Use --token flag'
+          '  2. Use --token flag\n' +
+          '  3. Use --build-checker local to run builds locally'
         );
       }
 
       const eventEmitter = new OrchestratorEventEmitter();
       storage = new Database(workDir);
-      uiAdapters = [];
+      const uiMode = config.ui ?? 'tui';
       const stopController = new StopController();
-      const tuiAdapter = new TUIAdapter({ storage, stopController });
-      await tuiAdapter.initialize();
-      uiAdapters.push(tuiAdapter);
+      uiAdapters = [createUIAdapter(uiMode, storage, stopController, config.permissionAllowlist)];
+      for (const adapter of uiAdapters) {
+        await adapter.initialize();
+      }
 
       const orchestrator = new Orchestrator({
         planFile,
         workDir,
         githubToken: options.token,
-        buildTimeoutMinutes: options.buildTimeout,
-        agentTimeoutMinutes: options.agentTimeout,
+        buildTimeoutMinutes: config.buildTimeoutMinutes,
+        agentTimeoutMinutes: config.agentTimeoutMinutes,
         eventEmitter,
         uiAdapters,
         silent: true,
         executionId,
         storage,
-        implementationAgent,
-        reviewAgent,
-        maxIterationsPerStep,
+        implementationAgent: config.implementationAgent,
+        reviewAgent: config.reviewAgent,
+        maxIterationsPerStep: config.maxIterations,
+        parallelSteps: config.parallelSteps,
         stopController,
+        buildChecker: config.buildChecker,
+        buildCommands: config.buildCommands,
+        agents: getCommandAgents(config),
+        allowedTools: config.allowedTools,
+        promptInstructions: config.prompts,
+        budgets: config.budgets,
+        requireApproval: config.requireApproval,
+        consensusReview: config.consensusReview,
+        reviewWarnings: config.reviewWarnings,
+        quickFixes: config.quickFixes,
+        resumeSessions: config.resumeSessions,
+        stallTimeoutMinutes: config.stallTimeoutMinutes,
+        stallNudge: config.stallNudge,
+        resolveConflicts: config.resolveConflicts,
+        syncWithBase: config.syncWithBase,
+        stackedPrs: config.stackedPrs,
+        postReviewComments: config.postReviewComments,
       });
 
       // Set up signal handlers for graceful shutdown
@@ -390,8 +640,9 @@ program
         void cleanup('Unhandled rejection').then(() => process.exit(1));
       });
 
+      let runExecutionId: number;
       try {
-        await orchestrator.run();
+        runExecutionId = await orchestrator.run();
       } catch (error) {
         eventEmitter.emit('event', {
           type: 'error',
@@ -402,16 +653,22 @@ program
       }
 
       const stoppedAfterStep = stopController.wasStopAfterStepTriggered();
+      const stopReason = stopController.getStopReason();
 
-      if (stoppedAfterStep) {
+      if (stoppedAfterStep || stopReason) {
         for (const adapter of uiAdapters) {
           await adapter.shutdown();
         }
         storage.close();
+        if (stopReason) {
+          writeErrorLine(stopReason);
+          writeErrorLine(`Resume with: stepcat --execution-id ${runExecutionId} --dir ${workDir}`);
+        }
         process.exit(0);
       }
 
-      if (!options.exitOnComplete) {
+      // Only the TUI stays open for browsing; headless runs always exit
+      if (uiMode === 'tui' && !options.exitOnComplete) {
         await new Promise(() => {});
       }
 
@@ -452,4 +709,99 @@ program
     }
   });
 
+program
+  .command('report')
+  .description('Export an execution report with steps, iterations, commits, build and review results, and issues')
+  .option('-d, --dir <path>', 'Path to the work directory (default: current directory)')
+  .option('-e, --execution-id <id>', 'Execution to report on (default: most recent)', parseInt)
+  .option('--format <format>', 'Report format: json, markdown or html (default: markdown)')
+  .option('-o, --output <path>', 'Write the report to a file instead of stdout')
+  .action((options: ReportOptions) => {
+    const format = (options.format ?? 'markdown').toLowerCase();
+    if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+      writeErrorLine(`Invalid --format value: ${options.format}. Expected one of: ${REPORT_FORMATS.join(', ')}.`);
+      process.exit(1);
+    }
+
+    const database = openExecutionDatabase(options.dir);
+    let output: string;
+    try {
+      const plan = findExecution(database, options.executionId);
+      const report = buildExecutionReport(plan, database.getExecutionState(plan.id));
+      output = formatExecutionReport(report, format as ReportFormat);
+    } finally {
+      database.close();
+    }
+
+    if (options.output) {
+      writeFileSync(resolve(options.output), output, 'utf-8');
+    } else {
+      process.stdout.write(output);
+    }
+  });
+
+const runStepAction = (action: StepAction, stepNumberArg: string, options: StepCommandOptions): void => {
+  const stepNumber = Number(stepNumberArg);
+  if (!Number.isInteger(stepNumber) || stepNumber <= 0) {
+    writeErrorLine(`Invalid step number: ${stepNumberArg}. Expected a positive integer.`);
+    process.exit(1);
+  }
+
+  const database = openExecutionDatabase(options.dir);
+  let message: string;
+  try {
+    const plan = findExecution(database, options.executionId);
+    const stepActions = new StepActions(database);
+    switch (action) {
+      case 'skip':
+        stepActions.skip(plan.id, stepNumber, 'cli');
+        message = `Step ${stepNumber} skipped.`;
+        break;
+      case 'retry':
+        stepActions.retry(plan.id, stepNumber, 'cli');
+        message = `Step ${stepNumber} reset to pending. Resume with: stepcat --execution-id ${plan.id} --dir ${plan.workDir}`;
+        break;
+      case 'complete': {
+        const commitSha = resolveCommit(plan.workDir, options.commit);
+        stepActions.complete(plan.id, stepNumber, commitSha, 'cli');
+        message = `Step ${stepNumber} completed with commit ${commitSha.substring(0, 7)}.`;
+        break;
+      }
+    }
+  } catch (error) {
+    writeErrorLine(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  } finally {
+    database.close();
+  }
+
+  process.stdout.write(`${message}\n`);
+};
+
+const stepCommand = program
+  .command('step')
+  .description('Skip, retry or complete a step of an execution; every action is recorded in the audit trail');
+
+stepCommand
+  .command('skip <step>')
+  .description('Mark a step as skipped so that steps depending on it can run')
+  .requiredOption('-e, --execution-id <id>', 'Execution the step belongs to', parseInt)
+  .option('-d, --dir <path>', 'Path to the work directory (default: current directory)')
+  .action((step: string, options: StepCommandOptions) => runStepAction('skip', step, options));
+
+stepCommand
+  .command('retry <step>')
+  .description('Reset a failed step to pending with a fresh iteration budget')
+  .requiredOption('-e, --execution-id <id>', 'Execution the step belongs to', parseInt)
+  .option('-d, --dir <path>', 'Path to the work directory (default: current directory)')
+  .action((step: string, options: StepCommandOptions) => runStepAction('retry', step, options));
+
+stepCommand
+  .command('complete <step>')
+  .description('Accept a commit made by hand as the result of a step')
+  .requiredOption('-e, --execution-id <id>', 'Execution the step belongs to', parseInt)
+  .option('-d, --dir <path>', 'Path to the work directory (default: current directory)')
+  .option('--commit <sha>', 'Commit to accept (default: HEAD of the work directory)')
+  .action((step: string, options: StepCommandOptions) => runStepAction('complete', step, options));
+
 program.parse();
@@ -1,13 +1,17 @@
-import { spawn, execSync } from "child_process";
 import { existsSync } from "fs";
 import { resolve, dirname } from "path";
 import { fileURLToPath } from "url";
 
+import { spawnAgentProcess, terminateAgentProcess } from "./agent-process.js";
 import type { OrchestratorEventEmitter } from "./events.js";
+import { git } from "./git.js";
 import type { LogLevel } from "./logger.js";
 import { getLogger } from "./logger.js";
 import { ReviewParser } from "./review-parser.js";
 import type { ReviewResult } from "./review-parser.js";
+import { AgentStalledError, StallWatchdog } from "./stall-watchdog.js";
+import type { TokenUsage } from "./usage.js";
+import { CODEX_PRICING, addUsage, estimateCost } from "./usage.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -19,10 +23,45 @@ export interface CodexRunOptions {
   timeoutMinutes?: number;
   expectCommit?: boolean;
   eventEmitter?: OrchestratorEventEmitter;
+  /** Resumes this Codex session (thread) instead of starting a new one. */
+  resumeSessionId?: string;
+  /** Iteration attached to the streamed output events. */
+  iterationId?: number;
+  /** Stops Codex when it prints nothing and changes no files for this long. */
+  stallTimeoutMinutes?: number;
 }
 
 export type CodexReviewResult = ReviewResult;
 
+/** A line printed by `codex exec --json`; only the fields stepcat reads are typed. */
+interface CodexJsonEvent {
+  type?: string;
+  thread_id?: string;
+  message?: string;
+  error?: {
+    message?: string;
+  };
+  item?: {
+    type?: string;
+    text?: string;
+    command?: string;
+  };
+  usage?: {
+    input_tokens?: number;
+    cached_input_tokens?: number;
+    output_tokens?: number;
+  };
+}
+
+const parseCodexJsonEvent = (line: string): CodexJsonEvent | null => {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    return typeof parsed === "object" && parsed !== null ? parsed as CodexJsonEvent : null;
+  } catch {
+    return null;
+  }
+};
+
 export class CodexRunner {
   private emitLog(
     message: string,
@@ -76,10 +115,7 @@ export class CodexRunner {
     eventEmitter?: OrchestratorEventEmitter,
   ): string | null {
     try {
-      return execSync("git rev-parse HEAD", {
-        cwd: workDir,
-        encoding: "utf-8",
-      }).trim();
+      return git(workDir, ["rev-parse", "HEAD"]);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.emitLog(
@@ -93,13 +129,16 @@ export class CodexRunner {
 
   async run(
     options: CodexRunOptions,
-  ): Promise<{ success: boolean; output: string; commitSha?: string | null }> {
+  ): Promise<{ success: boolean; output: string; commitSha?: string | null; usage?: TokenUsage; sessionId?: string }> {
     const codexPath = this.getCodexPath(options.eventEmitter);
 
     this.emitLog("─".repeat(80), options.eventEmitter);
     this.emitLog(`Running Codex in ${options.workDir}`, options.eventEmitter);
     this.emitLog(`Binary: ${codexPath}`, options.eventEmitter);
     this.emitLog(`Timeout: ${options.timeoutMinutes ?? 30} minutes`, options.eventEmitter);
+    if (options.resumeSessionId) {
+      this.emitLog(`Resuming session: ${options.resumeSessionId}`, options.eventEmitter);
+    }
     this.emitLog("─".repeat(80), options.eventEmitter);
 
     let headBefore: string | null = null;
@@ -117,18 +156,44 @@ export class CodexRunner {
       stderr: string;
       error?: Error;
     }>((resolve) => {
-      const child = spawn(codexPath, ["exec", "--cd", options.workDir], {
+      const args = ["exec", "--json", "--cd", options.workDir];
+      if (options.resumeSessionId) {
+        args.push("resume", options.resumeSessionId);
+      }
+      const child = spawnAgentProcess(codexPath, args, {
         cwd: options.workDir,
-        stdio: ["pipe", "pipe", "pipe"],
       });
 
       let stdoutData = "";
       let stderrData = "";
+      let pendingLine = "";
       let timeoutId: NodeJS.Timeout | undefined;
 
+      const watchdog = options.stallTimeoutMinutes
+        ? new StallWatchdog({
+          workDir: options.workDir,
+          idleMinutes: options.stallTimeoutMinutes,
+          agent: "codex",
+          iterationId: options.iterationId,
+          eventEmitter: options.eventEmitter,
+          onStall: () => {
+            if (timeoutId) clearTimeout(timeoutId);
+            terminateAgentProcess(child);
+            resolve({
+              exitCode: null,
+              stdout: stdoutData,
+              stderr: stderrData,
+              error: new AgentStalledError("Codex", options.stallTimeoutMinutes ?? 0),
+            });
+          },
+        })
+        : null;
+      watchdog?.start();
+
       if (timeout > 0) {
         timeoutId = setTimeout(() => {
-          child.kill("SIGTERM");
+          watchdog?.stop();
+          terminateAgentProcess(child);
           resolve({
             exitCode: null,
             stdout: stdoutData,
@@ -149,10 +214,12 @@ export class CodexRunner {
       child.stdout.on("data", (chunk: Buffer) => {
         const text = chunk.toString();
         stdoutData += text;
-        if (options.eventEmitter) {
-          this.emitLog(text, options.eventEmitter);
-        } else {
-          process.stdout.write(text);
+        watchdog?.recordActivity();
+        const lines = (pendingLine + text).split("\n");
+        pendingLine = lines.pop() ?? "";
+        for (const line of lines) {
+          this.emitLog(this.describeJsonLine(line), options.eventEmitter);
+          this.emitAgentEvent(line, options);
         }
       });
 
@@ -160,6 +227,7 @@ export class CodexRunner {
       child.stderr?.on("data", (chunk: Buffer) => {
         const text = chunk.toString();
         stderrData += text;
+        watchdog?.recordActivity();
         if (options.eventEmitter) {
           this.emitLog(text, options.eventEmitter, "warn");
         } else {
@@ -169,11 +237,15 @@ export class CodexRunner {
 
       child.on("error", (error) => {
         if (timeoutId) clearTimeout(timeoutId);
+        watchdog?.stop();
         resolve({ exitCode: null, stdout: stdoutData, stderr: stderrData, error });
       });
 
       child.on("close", (code) => {
         if (timeoutId) clearTimeout(timeoutId);
+        watchdog?.stop();
+        this.emitLog(this.describeJsonLine(pendingLine), options.eventEmitter);
+        this.emitAgentEvent(pendingLine, options);
         resolve({ exitCode: code, stdout: stdoutData, stderr: stderrData });
       });
     });
@@ -187,6 +259,9 @@ export class CodexRunner {
       this.emitLog("─".repeat(80), options.eventEmitter);
       this.emitLog("✗ Error running Codex", options.eventEmitter);
       this.emitLog("─".repeat(80), options.eventEmitter);
+      if (result.error instanceof AgentStalledError) {
+        throw result.error;
+      }
       const errorWithOutput = new Error(
         `${result.error.message}\n\n--- Codex output ---\n${combinedOutput || '(no output)'}`
       );
@@ -232,7 +307,109 @@ export class CodexRunner {
       this.emitLog("─".repeat(80), options.eventEmitter);
     }
 
-    return { success: true, output: result.stdout, commitSha };
+    const parsed = this.parseJsonOutput(result.stdout);
+    return { success: true, output: parsed.text, commitSha, usage: parsed.usage, sessionId: parsed.sessionId };
+  }
+
+  /**
+   * Extracts the agent's messages, the token usage and the thread id from
+   * `codex exec --json` output. Codex reports usage per turn but not cost, so
+   * the cost is estimated from CODEX_PRICING. Lines that are not JSON, such as
+   * a last line cut off when the agent was stopped, are skipped; output without
+   * any JSON is returned unchanged as text.
+   */
+  parseJsonOutput(stdout: string): { text: string; usage?: TokenUsage; sessionId?: string } {
+    const events = stdout
+      .split("\n")
+      .filter((line) => line.trim())
+      .map(parseCodexJsonEvent)
+      .filter((event) => event !== null);
+
+    if (events.length === 0) {
+      return { text: stdout };
+    }
+
+    const messages: string[] = [];
+    const turnUsages: TokenUsage[] = [];
+    let sessionId: string | undefined;
+    for (const event of events) {
+      if (event.type === "thread.started" && event.thread_id) {
+        sessionId = event.thread_id;
+      }
+      if (event.type === "item.completed" && event.item?.type === "agent_message" && event.item.text) {
+        messages.push(event.item.text);
+      }
+      if (event.type === "turn.completed" && event.usage) {
+        const inputTokens = event.usage.input_tokens ?? 0;
+        const outputTokens = event.usage.output_tokens ?? 0;
+        turnUsages.push({
+          inputTokens,
+          outputTokens,
+          costUsd: estimateCost(CODEX_PRICING, inputTokens, event.usage.cached_input_tokens ?? 0, outputTokens),
+        });
+      }
+    }
+
+    return {
+      text: messages.join("\n\n"),
+      usage: turnUsages.length > 0 ? addUsage(...turnUsages) : undefined,
+      sessionId,
+    };
+  }
+
+  /** Emits the agent's messages and commands from one line of `codex exec --json` output as they arrive. */
+  private emitAgentEvent(line: string, options: CodexRunOptions): void {
+    if (!options.eventEmitter) {
+      return;
+    }
+    const event = parseCodexJsonEvent(line);
+    if (event?.type !== "item.completed") {
+      return;
+    }
+
+    if (event.item?.type === "agent_message" && event.item.text) {
+      options.eventEmitter.emit("event", {
+        type: "agent_output",
+        timestamp: Date.now(),
+        agent: "codex",
+        iterationId: options.iterationId,
+        text: event.item.text,
+      });
+    } else if (event.item?.type === "command_execution") {
+      options.eventEmitter.emit("event", {
+        type: "agent_tool_call",
+        timestamp: Date.now(),
+        agent: "codex",
+        iterationId: options.iterationId,
+        tool: "shell",
+        summary: event.item.command ?? "",
+      });
+    }
+  }
+
+  /** Turns one line of `codex exec --json` output into a readable log line. */
+  private describeJsonLine(line: string): string {
+    if (!line.trim()) {
+      return "";
+    }
+
+    const event = parseCodexJsonEvent(line);
+    if (!event) {
+      return line;
+    }
+
+    switch (event.type) {
+      case "item.completed":
+        if (event.item?.type === "command_execution") {
+          return `$ ${event.item.command ?? ""}`;
+        }
+        return event.item?.text ?? "";
+      case "turn.failed":
+      case "error":
+        return `Codex error: ${event.message ?? event.error?.message ?? line}`;
+      default:
+        return "";
+    }
   }
 
   parseCodexOutput(rawOutput: string): CodexReviewResult {
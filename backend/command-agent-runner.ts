@@ -0,0 +1,210 @@
+
+import { spawnAgentProcess, terminateAgentProcess } from './agent-process.js';
+import type {
+  AgentImplementationResult,
+  AgentReviewResult,
+  AgentRunOptions,
+  AgentRunner,
+} from './agent-runner.js';
+import type { OrchestratorEventEmitter } from './events.js';
+import { git } from './git.js';
+import { getLogger } from './logger.js';
+import { AgentStalledError, StallWatchdog } from './stall-watchdog.js';
+
+export interface CommandAgentDefinition {
+  name: string;
+  /** Shell command that reads the prompt on stdin. */
+  command: string;
+  displayName?: string;
+}
+
+type AgentMode = 'implementation' | 'review';
+
+/**
+ * Runs an arbitrary CLI as an agent. The prompt is written to the command's
+ * stdin and STEPCAT_AGENT_MODE tells it whether it is implementing or reviewing.
+ * Implementation runs are expected to leave a new commit behind.
+ */
+export class CommandAgentRunner implements AgentRunner {
+  private definition: CommandAgentDefinition;
+
+  constructor(definition: CommandAgentDefinition) {
+    this.definition = definition;
+  }
+
+  getName(): string {
+    return this.definition.name;
+  }
+
+  getDisplayName(): string {
+    return this.definition.displayName ?? this.definition.name;
+  }
+
+  async implement(options: AgentRunOptions): Promise<AgentImplementationResult> {
+    const headBefore = this.tryGetHeadCommit(options.workDir);
+    const output = await this.runCommand(options, 'implementation');
+    const headAfter = this.tryGetHeadCommit(options.workDir);
+
+    if (headAfter && headAfter !== headBefore) {
+      this.emitLog(`✓ ${this.getDisplayName()} created commit ${headAfter}`, options.eventEmitter);
+      return { success: true, commitSha: headAfter, output };
+    }
+
+    this.emitLog(`⚠ ${this.getDisplayName()} completed without creating a commit`, options.eventEmitter);
+    return {
+      success: true,
+      commitSha: null,
+      output,
+      workingTreeStatus: this.getWorkingTreeStatus(options.workDir),
+    };
+  }
+
+  async review(options: AgentRunOptions): Promise<AgentReviewResult> {
+    const output = await this.runCommand(options, 'review');
+    return { success: true, output };
+  }
+
+  private emitLog(
+    message: string,
+    eventEmitter?: OrchestratorEventEmitter,
+    level: 'info' | 'warn' = 'info',
+  ): void {
+    for (const line of message.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      getLogger()?.log(level, 'CommandAgentRunner', line);
+
+      if (eventEmitter) {
+        eventEmitter.emit('event', {
+          type: 'log',
+          timestamp: Date.now(),
+          level,
+          message: line,
+        });
+      } else {
+        process.stdout.write(`${line}\n`);
+      }
+    }
+  }
+
+  private runCommand(options: AgentRunOptions, mode: AgentMode): Promise<string> {
+    const displayName = this.getDisplayName();
+    this.emitLog('─'.repeat(80), options.eventEmitter);
+    this.emitLog(`Running ${displayName} in ${options.workDir}`, options.eventEmitter);
+    this.emitLog(`Command: ${this.definition.command}`, options.eventEmitter);
+    this.emitLog(`Timeout: ${options.timeoutMinutes} minutes`, options.eventEmitter);
+    this.emitLog('─'.repeat(80), options.eventEmitter);
+
+    const timeout = options.timeoutMinutes * 60 * 1000;
+
+    return new Promise((resolve, reject) => {
+      const child = spawnAgentProcess('sh', ['-c', this.definition.command], {
+        cwd: options.workDir,
+        env: { ...process.env, STEPCAT_AGENT_MODE: mode },
+      });
+
+      let stdoutData = '';
+      let stderrData = '';
+      let settled = false;
+      let timeoutId: NodeJS.Timeout | undefined;
+
+      const watchdog = options.stallTimeoutMinutes
+        ? new StallWatchdog({
+          workDir: options.workDir,
+          idleMinutes: options.stallTimeoutMinutes,
+          agent: this.getName(),
+          iterationId: options.iterationId,
+          eventEmitter: options.eventEmitter,
+          onStall: () => {
+            terminateAgentProcess(child);
+            settle(new AgentStalledError(displayName, options.stallTimeoutMinutes ?? 0));
+          },
+        })
+        : null;
+
+      const settle = (error?: Error): void => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        if (timeoutId) clearTimeout(timeoutId);
+        watchdog?.stop();
+        if (error instanceof AgentStalledError) {
+          reject(error);
+        } else if (error) {
+          const combinedOutput = [
+            stdoutData,
+            stderrData ? `\n--- stderr ---\n${stderrData}` : '',
+          ].join('');
+          reject(new Error(
+            `${error.message}\n\n--- ${displayName} output ---\n${combinedOutput || '(no output)'}`
+          ));
+        } else {
+          resolve(stdoutData);
+        }
+      };
+
+      watchdog?.start();
+      if (timeout > 0) {
+        timeoutId = setTimeout(() => {
+          terminateAgentProcess(child);
+          settle(new Error(`${displayName} execution timed out`));
+        }, timeout);
+      }
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        const text = chunk.toString();
+        stdoutData += text;
+        watchdog?.recordActivity();
+        this.emitLog(text, options.eventEmitter);
+        options.eventEmitter?.emit('event', {
+          type: 'agent_output',
+          timestamp: Date.now(),
+          agent: this.getName(),
+          iterationId: options.iterationId,
+          text,
+        });
+      });
+
+      child.stderr.on('data', (chunk: Buffer) => {
+        const text = chunk.toString();
+        stderrData += text;
+        watchdog?.recordActivity();
+        this.emitLog(text, options.eventEmitter, 'warn');
+      });
+
+      child.on('error', (error) => settle(error));
+
+      child.on('close', (code) => {
+        if (code === 0) {
+          settle();
+        } else {
+          settle(new Error(`${displayName} failed with exit code ${code}`));
+        }
+      });
+
+      // The command may exit without reading its stdin
+      child.stdin.on('error', () => {});
+      child.stdin.write(options.prompt);
+      child.stdin.end();
+    });
+  }
+
+  private tryGetHeadCommit(workDir: string): string | null {
+    try {
+      return git(workDir, ['rev-parse', 'HEAD']);
+    } catch {
+      return null;
+    }
+  }
+
+  private getWorkingTreeStatus(workDir: string): string | null {
+    try {
+      return git(workDir, ['status', '--short']);
+    } catch {
+      return null;
+    }
+  }
+}
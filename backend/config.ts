@@ -0,0 +1,597 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import type { AgentName } from './agent-runner.js';
+import type { BudgetLimits, BudgetMetric, Budgets, BudgetScope } from './budgets.js';
+import { BUDGET_METRICS } from './budgets.js';
+import type { BuildCheckerType } from './build-checker.js';
+import type { CommandAgentDefinition } from './command-agent-runner.js';
+import type { PromptInstructions, PromptName } from './prompts.js';
+import { PROMPT_NAMES } from './prompts.js';
+import type { ConsensusReview, ReviewPolicy } from './review-consensus.js';
+import { REVIEW_POLICIES } from './review-consensus.js';
+import type { ReviewWarningPolicy } from './review-warnings.js';
+import { REVIEW_WARNING_POLICIES } from './review-warnings.js';
+import type { UIMode } from './ui/ui-adapter.js';
+import { UI_MODES } from './ui/ui-adapter.js';
+
+export const CONFIG_FILE_PATH = join('.stepcat', 'config.json');
+
+export const AGENT_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+export interface ConfigAgentDefinition {
+  command: string;
+  displayName?: string;
+}
+
+/**
+ * Settings that can come from `.stepcat/config.json`, STEPCAT_* environment
+ * variables or CLI flags. Later layers override earlier ones key by key.
+ */
+export interface StepcatConfig {
+  buildTimeoutMinutes?: number;
+  agentTimeoutMinutes?: number;
+  maxIterations?: number;
+  parallelSteps?: number;
+  implementationAgent?: AgentName;
+  reviewAgent?: AgentName;
+  agents?: Record<AgentName, ConfigAgentDefinition>;
+  buildChecker?: BuildCheckerType;
+  buildCommands?: string[];
+  /** Claude Code tools allowed in addition to git, e.g. "Bash(npm test:*)". */
+  allowedTools?: string[];
+  /** Extra instructions appended to the built-in prompts. */
+  prompts?: PromptInstructions;
+  ui?: UIMode;
+  /** Permissions that headless UIs approve without asking; `*` matches any text. */
+  permissionAllowlist?: string[];
+  budgets?: Budgets;
+  /** Pause after every passing review until a human approves the step in the TUI. */
+  requireApproval?: boolean;
+  /** Several review agents reviewing each commit in parallel. */
+  consensusReview?: ConsensusReview;
+  /** Whether review warnings fail the review (`block`), let it pass (`pass`) or become tech debt (`defer`). */
+  reviewWarnings?: ReviewWarningPolicy;
+  /** Apply patches suggested by the reviewer before running a review fix agent. */
+  quickFixes?: boolean;
+  /** Resume the implementation agent's session in build and review fix iterations. */
+  resumeSessions?: boolean;
+  /** Stop an agent that prints nothing and changes no files for this many minutes. */
+  stallTimeoutMinutes?: number;
+  /** Ask a stalled implementation agent once to continue before failing the iteration. */
+  stallNudge?: boolean;
+  /** Merge the base branch and let the implementation agent resolve merge conflicts found during build checks. */
+  resolveConflicts?: boolean;
+  /** Merge the default branch into the work branch after each completed step and re-verify the build. */
+  syncWithBase?: boolean;
+  /** Give each step its own branch, stacked on the previous step's branch, and its own pull request. */
+  stackedPrs?: boolean;
+  /** Post each review to the pull request as a GitHub review and resolve its threads once the issues are fixed. */
+  postReviewComments?: boolean;
+}
+
+export class ConfigError extends Error {
+  source: string;
+  errors: string[];
+
+  constructor(source: string, errors: string[]) {
+    super(`Invalid configuration in ${source}:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+    this.name = 'ConfigError';
+    this.source = source;
+    this.errors = errors;
+  }
+}
+
+const ENV_VARIABLES: Record<string, keyof StepcatConfig> = {
+  STEPCAT_BUILD_TIMEOUT: 'buildTimeoutMinutes',
+  STEPCAT_AGENT_TIMEOUT: 'agentTimeoutMinutes',
+  STEPCAT_MAX_ITERATIONS: 'maxIterations',
+  STEPCAT_PARALLEL_STEPS: 'parallelSteps',
+  STEPCAT_IMPLEMENTATION_AGENT: 'implementationAgent',
+  STEPCAT_REVIEW_AGENT: 'reviewAgent',
+  STEPCAT_BUILD_CHECKER: 'buildChecker',
+  STEPCAT_UI: 'ui',
+  STEPCAT_REQUIRE_APPROVAL: 'requireApproval',
+  STEPCAT_REVIEW_WARNINGS: 'reviewWarnings',
+  STEPCAT_QUICK_FIXES: 'quickFixes',
+  STEPCAT_RESUME_SESSIONS: 'resumeSessions',
+  STEPCAT_STALL_TIMEOUT: 'stallTimeoutMinutes',
+  STEPCAT_STALL_NUDGE: 'stallNudge',
+  STEPCAT_RESOLVE_CONFLICTS: 'resolveConflicts',
+  STEPCAT_SYNC_WITH_BASE: 'syncWithBase',
+  STEPCAT_STACKED_PRS: 'stackedPrs',
+  STEPCAT_POST_REVIEW_COMMENTS: 'postReviewComments',
+};
+
+type PositiveIntegerKey =
+  | 'buildTimeoutMinutes'
+  | 'agentTimeoutMinutes'
+  | 'maxIterations'
+  | 'parallelSteps'
+  | 'stallTimeoutMinutes';
+
+const POSITIVE_INTEGER_KEYS = new Set<string>([
+  'buildTimeoutMinutes',
+  'agentTimeoutMinutes',
+  'maxIterations',
+  'parallelSteps',
+  'stallTimeoutMinutes',
+]);
+
+type BooleanKey =
+  | 'requireApproval'
+  | 'quickFixes'
+  | 'resumeSessions'
+  | 'stallNudge'
+  | 'resolveConflicts'
+  | 'syncWithBase'
+  | 'stackedPrs'
+  | 'postReviewComments';
+
+const BOOLEAN_KEYS = new Set<string>([
+  'requireApproval',
+  'quickFixes',
+  'resumeSessions',
+  'stallNudge',
+  'resolveConflicts',
+  'syncWithBase',
+  'stackedPrs',
+  'postReviewComments',
+]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const validateStringList = (value: unknown, key: string, errors: string[]): string[] | undefined => {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isNonEmptyString)) {
+    errors.push(`"${key}" must be a non-empty array of non-empty strings`);
+    return undefined;
+  }
+  return value;
+};
+
+const validateAgentName = (value: unknown, key: string, errors: string[]): AgentName | undefined => {
+  if (typeof value !== 'string' || !AGENT_NAME_PATTERN.test(value.trim().toLowerCase())) {
+    errors.push(`"${key}" must be an agent name made of letters, digits, '-' and '_'`);
+    return undefined;
+  }
+  return value.trim().toLowerCase();
+};
+
+const validateAgents = (
+  value: unknown,
+  errors: string[],
+): Record<AgentName, ConfigAgentDefinition> | undefined => {
+  if (!isRecord(value)) {
+    errors.push('"agents" must be an object mapping agent names to commands');
+    return undefined;
+  }
+
+  const agents: Record<AgentName, ConfigAgentDefinition> = {};
+  for (const [name, definition] of Object.entries(value)) {
+    const key = `agents.${name}`;
+    const normalizedName = name.trim().toLowerCase();
+    if (!AGENT_NAME_PATTERN.test(normalizedName)) {
+      errors.push(`"${key}": agent names may only contain letters, digits, '-' and '_'`);
+      continue;
+    }
+
+    if (isNonEmptyString(definition)) {
+      agents[normalizedName] = { command: definition.trim() };
+      continue;
+    }
+
+    if (!isRecord(definition)) {
+      errors.push(`"${key}" must be a command string or an object with a "command" field`);
+      continue;
+    }
+
+    for (const field of Object.keys(definition)) {
+      if (field !== 'command' && field !== 'displayName') {
+        errors.push(`"${key}.${field}" is not a known agent setting`);
+      }
+    }
+
+    if (!isNonEmptyString(definition.command)) {
+      errors.push(`"${key}.command" must be a non-empty string`);
+      continue;
+    }
+    if (definition.displayName !== undefined && !isNonEmptyString(definition.displayName)) {
+      errors.push(`"${key}.displayName" must be a non-empty string`);
+      continue;
+    }
+
+    agents[normalizedName] = {
+      command: definition.command.trim(),
+      ...(definition.displayName !== undefined ? { displayName: definition.displayName.trim() } : {}),
+    };
+  }
+
+  return agents;
+};
+
+const BUDGET_SCOPES: readonly BudgetScope[] = ['step', 'execution'];
+
+const validateBudgets = (value: unknown, errors: string[]): Budgets | undefined => {
+  if (!isRecord(value)) {
+    errors.push('"budgets" must be an object with "step" and/or "execution" limits');
+    return undefined;
+  }
+
+  const budgets: Budgets = {};
+  for (const [scope, limits] of Object.entries(value)) {
+    if (!BUDGET_SCOPES.includes(scope as BudgetScope)) {
+      errors.push(`"budgets.${scope}" is not a known budget scope. Expected one of: ${BUDGET_SCOPES.join(', ')}`);
+      continue;
+    }
+    if (!isRecord(limits)) {
+      errors.push(`"budgets.${scope}" must be an object mapping metrics to limits`);
+      continue;
+    }
+
+    const scopeLimits: BudgetLimits = {};
+    for (const [metric, limit] of Object.entries(limits)) {
+      if (!BUDGET_METRICS.includes(metric as BudgetMetric)) {
+        errors.push(`"budgets.${scope}.${metric}" is not a known budget. Expected one of: ${BUDGET_METRICS.join(', ')}`);
+        continue;
+      }
+      if (typeof limit !== 'number' || !Number.isFinite(limit) || limit <= 0) {
+        errors.push(`"budgets.${scope}.${metric}" must be a positive number`);
+        continue;
+      }
+      scopeLimits[metric as BudgetMetric] = limit;
+    }
+    budgets[scope as BudgetScope] = scopeLimits;
+  }
+
+  return budgets;
+};
+
+const validatePrompts = (value: unknown, errors: string[]): PromptInstructions | undefined => {
+  if (!isRecord(value)) {
+    errors.push('"prompts" must be an object mapping prompt names to extra instructions');
+    return undefined;
+  }
+
+  const prompts: PromptInstructions = {};
+  for (const [name, instructions] of Object.entries(value)) {
+    if (!PROMPT_NAMES.includes(name as PromptName)) {
+      errors.push(`"prompts.${name}" is not a known prompt. Expected one of: ${PROMPT_NAMES.join(', ')}`);
+      continue;
+    }
+    if (!isNonEmptyString(instructions)) {
+      errors.push(`"prompts.${name}" must be a non-empty string`);
+      continue;
+    }
+    prompts[name as PromptName] = instructions;
+  }
+
+  return prompts;
+};
+
+const validateConsensusReview = (value: unknown, errors: string[]): ConsensusReview | undefined => {
+  if (!isRecord(value)) {
+    errors.push('"consensusReview" must be an object with "agents" and an optional "policy"');
+    return undefined;
+  }
+
+  const errorCount = errors.length;
+  const consensus: ConsensusReview = { agents: [] };
+  for (const [key, setting] of Object.entries(value)) {
+    switch (key) {
+      case 'agents':
+        if (!Array.isArray(setting) || setting.length < 2) {
+          errors.push('"consensusReview.agents" must list at least two agents');
+          break;
+        }
+        setting.forEach((agent, index) => {
+          const name = validateAgentName(agent, `consensusReview.agents[${index}]`, errors);
+          if (name !== undefined && !consensus.agents.includes(name)) {
+            consensus.agents.push(name);
+          }
+        });
+        break;
+      case 'policy':
+        if (REVIEW_POLICIES.includes(setting as ReviewPolicy)) {
+          consensus.policy = setting as ReviewPolicy;
+        } else {
+          errors.push(`"consensusReview.policy" must be one of: ${REVIEW_POLICIES.join(', ')}`);
+        }
+        break;
+      case 'severityThreshold':
+        if (setting === 'error' || setting === 'warning') {
+          consensus.severityThreshold = setting;
+        } else {
+          errors.push('"consensusReview.severityThreshold" must be "error" or "warning"');
+        }
+        break;
+      case 'steps':
+        if (Array.isArray(setting) && setting.length > 0 && setting.every(isPositiveInteger)) {
+          consensus.steps = setting;
+        } else {
+          errors.push('"consensusReview.steps" must be a non-empty array of step numbers');
+        }
+        break;
+      default:
+        errors.push(`"consensusReview.${key}" is not a known setting`);
+    }
+  }
+
+  if (!('agents' in value)) {
+    errors.push('"consensusReview.agents" must list at least two agents');
+  }
+  return errors.length === errorCount ? consensus : undefined;
+};
+
+/**
+ * Validates a parsed config object. All problems are collected and reported
+ * together, each one naming the offending key.
+ */
+export const parseConfig = (raw: unknown, source: string): StepcatConfig => {
+  if (!isRecord(raw)) {
+    throw new ConfigError(source, ['configuration must be a JSON object']);
+  }
+
+  const errors: string[] = [];
+  const config: StepcatConfig = {};
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (POSITIVE_INTEGER_KEYS.has(key)) {
+      if (isPositiveInteger(value)) {
+        config[key as PositiveIntegerKey] = value;
+      } else {
+        errors.push(`"${key}" must be a positive integer`);
+      }
+      continue;
+    }
+
+    if (BOOLEAN_KEYS.has(key)) {
+      if (typeof value === 'boolean') {
+        config[key as BooleanKey] = value;
+      } else {
+        errors.push(`"${key}" must be true or false`);
+      }
+      continue;
+    }
+
+    switch (key) {
+      case '$schema':
+        break;
+      case 'implementationAgent':
+      case 'reviewAgent': {
+        const agent = validateAgentName(value, key, errors);
+        if (agent !== undefined) {
+          config[key] = agent;
+        }
+        break;
+      }
+      case 'agents': {
+        const agents = validateAgents(value, errors);
+        if (agents !== undefined) {
+          config.agents = agents;
+        }
+        break;
+      }
+      case 'buildChecker':
+        if (value === 'github' || value === 'local') {
+          config.buildChecker = value;
+        } else {
+          errors.push('"buildChecker" must be "github" or "local"');
+        }
+        break;
+      case 'ui':
+        if (UI_MODES.includes(value as UIMode)) {
+          config.ui = value as UIMode;
+        } else {
+          errors.push(`"ui" must be one of: ${UI_MODES.join(', ')}`);
+        }
+        break;
+      case 'buildCommands':
+      case 'allowedTools':
+      case 'permissionAllowlist': {
+        const list = validateStringList(value, key, errors);
+        if (list !== undefined) {
+          config[key] = list;
+        }
+        break;
+      }
+      case 'prompts': {
+        const prompts = validatePrompts(value, errors);
+        if (prompts !== undefined) {
+          config.prompts = prompts;
+        }
+        break;
+      }
+      case 'budgets': {
+        const budgets = validateBudgets(value, errors);
+        if (budgets !== undefined) {
+          config.budgets = budgets;
+        }
+        break;
+      }
+      case 'reviewWarnings':
+        if (REVIEW_WARNING_POLICIES.includes(value as ReviewWarningPolicy)) {
+          config.reviewWarnings = value as ReviewWarningPolicy;
+        } else {
+          errors.push(`"reviewWarnings" must be one of: ${REVIEW_WARNING_POLICIES.join(', ')}`);
+        }
+        break;
+      case 'consensusReview': {
+        const consensusReview = validateConsensusReview(value, errors);
+        if (consensusReview !== undefined) {
+          config.consensusReview = consensusReview;
+        }
+        break;
+      }
+      default:
+        errors.push(`"${key}" is not a known setting`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError(source, errors);
+  }
+
+  return config;
+};
+
+/**
+ * Reads `.stepcat/config.json` from the work directory. A missing file
+ * yields an empty config.
+ */
+export const loadConfigFile = (workDir: string): StepcatConfig => {
+  const configPath = join(workDir, CONFIG_FILE_PATH);
+  if (!existsSync(configPath)) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError(configPath, [
+      `file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    ]);
+  }
+
+  return parseConfig(raw, configPath);
+};
+
+export const loadEnvConfig = (env: NodeJS.ProcessEnv = process.env): StepcatConfig => {
+  const config: StepcatConfig = {};
+  const errors: string[] = [];
+
+  for (const [variable, key] of Object.entries(ENV_VARIABLES)) {
+    const value = env[variable]?.trim();
+    if (!value) {
+      continue;
+    }
+
+    if (POSITIVE_INTEGER_KEYS.has(key)) {
+      const parsed = Number(value);
+      if (isPositiveInteger(parsed)) {
+        config[key as PositiveIntegerKey] = parsed;
+      } else {
+        errors.push(`${variable} must be a positive integer, got: ${value}`);
+      }
+    } else if (key === 'buildChecker') {
+      if (value === 'github' || value === 'local') {
+        config.buildChecker = value;
+      } else {
+        errors.push(`${variable} must be "github" or "local", got: ${value}`);
+      }
+    } else if (key === 'reviewWarnings') {
+      if (REVIEW_WARNING_POLICIES.includes(value as ReviewWarningPolicy)) {
+        config.reviewWarnings = value as ReviewWarningPolicy;
+      } else {
+        errors.push(`${variable} must be one of: ${REVIEW_WARNING_POLICIES.join(', ')}, got: ${value}`);
+      }
+    } else if (BOOLEAN_KEYS.has(key)) {
+      if (value === 'true' || value === '1') {
+        config[key as BooleanKey] = true;
+      } else if (value === 'false' || value === '0') {
+        config[key as BooleanKey] = false;
+      } else {
+        errors.push(`${variable} must be "true" or "false", got: ${value}`);
+      }
+    } else if (key === 'ui') {
+      if (UI_MODES.includes(value as UIMode)) {
+        config.ui = value as UIMode;
+      } else {
+        errors.push(`${variable} must be one of: ${UI_MODES.join(', ')}, got: ${value}`);
+      }
+    } else {
+      const agent = validateAgentName(value, variable, errors);
+      if (agent !== undefined) {
+        config[key as 'implementationAgent' | 'reviewAgent'] = agent;
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ConfigError('environment variables', errors);
+  }
+
+  return config;
+};
+
+/**
+ * Merges config layers from lowest to highest precedence. Agents and prompts
+ * are merged by name and budgets by scope and metric; every other key is
+ * replaced as a whole.
+ */
+export const mergeConfigs = (...layers: StepcatConfig[]): StepcatConfig => {
+  const merged: StepcatConfig = {};
+
+  for (const layer of layers) {
+    const { agents, prompts, budgets, ...rest } = layer;
+    for (const [key, value] of Object.entries(rest) as Array<[string, unknown]>) {
+      // Unset CLI flags come through as undefined and must not hide lower layers
+      if (value !== undefined) {
+        Object.assign(merged, { [key]: value });
+      }
+    }
+    if (agents) {
+      merged.agents = { ...merged.agents, ...agents };
+    }
+    if (prompts) {
+      merged.prompts = { ...merged.prompts, ...prompts };
+    }
+    if (budgets) {
+      merged.budgets = {
+        step: { ...merged.budgets?.step, ...budgets.step },
+        execution: { ...merged.budgets?.execution, ...budgets.execution },
+      };
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Parses a `--budget` value such as "step.agentMinutes=30" into a budgets
+ * layer that can be merged over the config file.
+ */
+export const parseBudgetOption = (option: string): Budgets => {
+  const separator = option.indexOf('=');
+  const path = separator === -1 ? option : option.slice(0, separator);
+  const rawLimit = separator === -1 ? '' : option.slice(separator + 1).trim();
+  const [scope, metric = ''] = path.trim().split('.', 2);
+  const errors: string[] = [];
+  const budgets = validateBudgets({ [scope]: { [metric]: rawLimit ? Number(rawLimit) : undefined } }, errors);
+
+  if (budgets === undefined || errors.length > 0) {
+    throw new ConfigError('--budget', [
+      ...errors,
+      `expected <scope>.<metric>=<limit>, e.g. step.agentMinutes=30, got: ${option}`,
+    ]);
+  }
+
+  return budgets;
+};
+
+export const getCommandAgents = (config: StepcatConfig): CommandAgentDefinition[] =>
+  Object.entries(config.agents ?? {}).map(([name, definition]) => ({ name, ...definition }));
+
+/**
+ * Parses `--review-agents` (a comma-separated list such as "codex,claude")
+ * and `--review-policy` into a consensus review layer.
+ */
+export const parseConsensusReviewOption = (agents: string, policy?: string): ConsensusReview => {
+  const errors: string[] = [];
+  const consensusReview = validateConsensusReview({
+    agents: agents.split(',').map((agent) => agent.trim()).filter((agent) => agent.length > 0),
+    ...(policy !== undefined ? { policy: policy.trim().toLowerCase() } : {}),
+  }, errors);
+
+  if (consensusReview === undefined) {
+    throw new ConfigError('--review-agents', errors);
+  }
+  return consensusReview;
+};
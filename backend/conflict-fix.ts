@@ -0,0 +1,113 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+import { describeGitError, git } from './git.js';
+
+export class ConflictFixError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictFixError';
+  }
+}
+
+const CONFLICT_MARKER_PATTERN = /^(<{7}|>{7})( |$)|^={7}$/m;
+
+export interface BaseMergeOptions {
+  /** Merge the local base branch instead of fetching it from origin (default: false). */
+  local?: boolean;
+}
+
+const baseRef = (baseBranch: string, options: BaseMergeOptions): string =>
+  options.local ? baseBranch : `origin/${baseBranch}`;
+
+const listUnmergedFiles = (workDir: string): string[] =>
+  git(workDir, ['diff', '--name-only', '--diff-filter=U'])
+    .split('\n')
+    .filter((file) => file.length > 0);
+
+const isMergeInProgress = (workDir: string): boolean => {
+  try {
+    git(workDir, ['rev-parse', '--verify', '--quiet', 'MERGE_HEAD']);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Fetches the base branch from origin, unless `options.local` is set, and
+ * merges it into the current branch. Returns the files that conflict; an empty
+ * list means the merge was committed cleanly. The working tree must be clean.
+ */
+export const startBaseMerge = (workDir: string, baseBranch: string, options: BaseMergeOptions = {}): string[] => {
+  if (git(workDir, ['status', '--porcelain'])) {
+    throw new ConflictFixError(`Working tree in ${workDir} has uncommitted changes`);
+  }
+
+  if (!options.local) {
+    try {
+      git(workDir, ['fetch', 'origin', baseBranch]);
+    } catch (error) {
+      throw new ConflictFixError(`Could not fetch "${baseBranch}" from origin: ${describeGitError(error)}`);
+    }
+  }
+
+  try {
+    git(workDir, ['merge', '--no-edit', baseRef(baseBranch, options)]);
+    return [];
+  } catch (error) {
+    const conflictedFiles = listUnmergedFiles(workDir);
+    if (conflictedFiles.length === 0) {
+      abortBaseMerge(workDir);
+      throw new ConflictFixError(`Could not merge "${baseBranch}": ${describeGitError(error)}`);
+    }
+    return conflictedFiles;
+  }
+};
+
+/** Files that still contain conflict markers; deleted files have none. */
+export const findConflictMarkers = (workDir: string, files: string[]): string[] =>
+  files.filter((file) => {
+    const path = join(workDir, file);
+    return existsSync(path) && CONFLICT_MARKER_PATTERN.test(readFileSync(path, 'utf-8'));
+  });
+
+/**
+ * Checks that the conflicts are resolved and commits the merge unless the
+ * agent already did. Returns the SHA of the merge commit.
+ */
+export const concludeBaseMerge = (
+  workDir: string,
+  baseBranch: string,
+  conflictedFiles: string[],
+  options: BaseMergeOptions = {},
+): string => {
+  const withMarkers = findConflictMarkers(workDir, conflictedFiles);
+  if (withMarkers.length > 0) {
+    throw new ConflictFixError(`Conflict markers remain in ${withMarkers.join(', ')}`);
+  }
+
+  if (isMergeInProgress(workDir)) {
+    git(workDir, ['add', '-A', '--', ...conflictedFiles]);
+    const unmerged = listUnmergedFiles(workDir);
+    if (unmerged.length > 0) {
+      throw new ConflictFixError(`Files are still unmerged: ${unmerged.join(', ')}`);
+    }
+    git(workDir, ['commit', '--no-edit']);
+  }
+
+  try {
+    git(workDir, ['merge-base', '--is-ancestor', baseRef(baseBranch, options), 'HEAD']);
+  } catch {
+    throw new ConflictFixError(`HEAD does not contain "${baseBranch}"; the merge was not completed`);
+  }
+
+  return git(workDir, ['rev-parse', 'HEAD']);
+};
+
+/** Abandons an unfinished merge, restoring the branch as it was before it. */
+export const abortBaseMerge = (workDir: string): void => {
+  if (isMergeInProgress(workDir)) {
+    git(workDir, ['merge', '--abort']);
+  }
+};
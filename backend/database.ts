@@ -3,9 +3,12 @@ import * as path from 'path';
 
 import BetterSqlite3 from 'better-sqlite3';
 
+import type { AgentName } from './agent-runner.js';
+import type { AgentTimelineEntry } from './agent-timeline.js';
 import { migrations } from './migrations.js';
-import type { Plan, DbStep, Iteration, Issue } from './models.js';
-import type { Storage, IterationUpdate, ExecutionState, PlanStepInput } from './storage.js';
+import type { Plan, DbStep, Iteration, Issue, AuditEntry, ReviewLog, TimelineEntry } from './models.js';
+import type { Storage, IterationUpdate, ExecutionState, IssueDetails, PlanStepInput } from './storage.js';
+import type { TokenUsage } from './usage.js';
 
 export class Database implements Storage {
   private db: BetterSqlite3.Database;
@@ -79,6 +82,7 @@ export class Database implements Storage {
       workDir,
       owner,
       repo,
+      elapsedMs: 0,
       createdAt,
     };
   }
@@ -93,18 +97,29 @@ export class Database implements Storage {
     return stmt.all() as Plan[];
   }
 
-  createStep(planId: number, stepNumber: number, title: string): DbStep {
+  addPlanElapsedTime(planId: number, durationMs: number): void {
+    const stmt = this.db.prepare('UPDATE plans SET elapsedMs = elapsedMs + ? WHERE id = ?');
+    stmt.run(Math.round(durationMs), planId);
+  }
+
+  createStep(planId: number, stepNumber: number, title: string, dependsOn: number[] = []): DbStep {
     const now = new Date().toISOString();
     const stmt = this.db.prepare(
-      'INSERT INTO steps (planId, stepNumber, title, status, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)'
+      'INSERT INTO steps (planId, stepNumber, title, status, dependsOn, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)'
     );
-    const result = stmt.run(planId, stepNumber, title, 'pending', now, now);
+    const result = stmt.run(planId, stepNumber, title, 'pending', JSON.stringify(dependsOn), now, now);
     return {
       id: result.lastInsertRowid as number,
       planId,
       stepNumber,
       title,
       status: 'pending',
+      dependsOn,
+      worktreePath: null,
+      branch: null,
+      syncedSha: null,
+      prNumber: null,
+      elapsedMs: 0,
       createdAt: now,
       updatedAt: now,
     };
@@ -112,7 +127,11 @@ export class Database implements Storage {
 
   getSteps(planId: number): DbStep[] {
     const stmt = this.db.prepare('SELECT * FROM steps WHERE planId = ? ORDER BY stepNumber');
-    return stmt.all(planId) as DbStep[];
+    const rows = stmt.all(planId) as Array<Omit<DbStep, 'dependsOn'> & { dependsOn: string }>;
+    return rows.map((row) => ({
+      ...row,
+      dependsOn: JSON.parse(row.dependsOn) as number[],
+    }));
   }
 
   updateStepStatus(stepId: number, status: DbStep['status']): void {
@@ -127,6 +146,35 @@ export class Database implements Storage {
     stmt.run(title, updatedAt, stepId);
   }
 
+  updateStepDependencies(stepId: number, dependsOn: number[]): void {
+    const updatedAt = new Date().toISOString();
+    const stmt = this.db.prepare('UPDATE steps SET dependsOn = ?, updatedAt = ? WHERE id = ?');
+    stmt.run(JSON.stringify(dependsOn), updatedAt, stepId);
+  }
+
+  updateStepWorkspace(stepId: number, worktreePath: string | null, branch: string | null): void {
+    const updatedAt = new Date().toISOString();
+    const stmt = this.db.prepare('UPDATE steps SET worktreePath = ?, branch = ?, updatedAt = ? WHERE id = ?');
+    stmt.run(worktreePath, branch, updatedAt, stepId);
+  }
+
+  updateStepSyncedSha(stepId: number, syncedSha: string): void {
+    const updatedAt = new Date().toISOString();
+    const stmt = this.db.prepare('UPDATE steps SET syncedSha = ?, updatedAt = ? WHERE id = ?');
+    stmt.run(syncedSha, updatedAt, stepId);
+  }
+
+  updateStepPullRequest(stepId: number, prNumber: number): void {
+    const updatedAt = new Date().toISOString();
+    const stmt = this.db.prepare('UPDATE steps SET prNumber = ?, updatedAt = ? WHERE id = ?');
+    stmt.run(prNumber, updatedAt, stepId);
+  }
+
+  addStepElapsedTime(stepId: number, durationMs: number): void {
+    const stmt = this.db.prepare('UPDATE steps SET elapsedMs = elapsedMs + ? WHERE id = ?');
+    stmt.run(Math.round(durationMs), stepId);
+  }
+
   replacePendingStepsFromPlan(
     planId: number,
     startStepNumber: number,
@@ -149,11 +197,11 @@ export class Database implements Storage {
         .run(planId, startStepNumber);
 
       const insertStmt = this.db.prepare(
-        'INSERT INTO steps (planId, stepNumber, title, status, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?)'
+        'INSERT INTO steps (planId, stepNumber, title, status, dependsOn, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?)'
       );
       const now = new Date().toISOString();
       for (const step of steps) {
-        insertStmt.run(planId, step.stepNumber, step.title, 'pending', now, now);
+        insertStmt.run(planId, step.stepNumber, step.title, 'pending', JSON.stringify(step.dependsOn ?? []), now, now);
       }
 
       return {
@@ -169,8 +217,8 @@ export class Database implements Storage {
     stepId: number,
     iterationNumber: number,
     type: Iteration['type'],
-    implementationAgent: 'claude' | 'codex',
-    reviewAgent: 'claude' | 'codex' | null
+    implementationAgent: AgentName,
+    reviewAgent: AgentName | null
   ): Iteration {
     const now = new Date().toISOString();
     const stmt = this.db.prepare(
@@ -192,6 +240,12 @@ export class Database implements Storage {
       interruptionReason: null,
       implementationAgent,
       reviewAgent,
+      agentSessionId: null,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+      agentDurationMs: 0,
+      ciDurationMs: 0,
       createdAt: now,
       updatedAt: now,
     };
@@ -254,6 +308,10 @@ export class Database implements Storage {
       fields.push('reviewAgent = ?');
       values.push(updates.reviewAgent);
     }
+    if (updates.agentSessionId !== undefined) {
+      fields.push('agentSessionId = ?');
+      values.push(updates.agentSessionId);
+    }
 
     fields.push('updatedAt = ?');
     values.push(updatedAt);
@@ -263,6 +321,60 @@ export class Database implements Storage {
     stmt.run(...values);
   }
 
+  addIterationUsage(iterationId: number, usage: TokenUsage): void {
+    const updatedAt = new Date().toISOString();
+    const stmt = this.db.prepare(
+      'UPDATE iterations SET inputTokens = inputTokens + ?, outputTokens = outputTokens + ?, costUsd = costUsd + ?, updatedAt = ? WHERE id = ?'
+    );
+    stmt.run(usage.inputTokens, usage.outputTokens, usage.costUsd, updatedAt, iterationId);
+  }
+
+  addIterationTime(iterationId: number, kind: 'agent' | 'ci', durationMs: number): void {
+    const column = kind === 'agent' ? 'agentDurationMs' : 'ciDurationMs';
+    const stmt = this.db.prepare(`UPDATE iterations SET ${column} = ${column} + ? WHERE id = ?`);
+    stmt.run(Math.round(durationMs), iterationId);
+  }
+
+  addReviewLog(iterationId: number, agent: AgentName, result: ReviewLog['result'], log: string): ReviewLog {
+    const createdAt = new Date().toISOString();
+    const stmt = this.db.prepare(
+      'INSERT INTO review_logs (iterationId, agent, result, log, createdAt) VALUES (?, ?, ?, ?, ?)'
+    );
+    const insertResult = stmt.run(iterationId, agent, result, log, createdAt);
+    return {
+      id: insertResult.lastInsertRowid as number,
+      iterationId,
+      agent,
+      result,
+      log,
+      createdAt,
+    };
+  }
+
+  getReviewLogs(iterationId: number): ReviewLog[] {
+    const stmt = this.db.prepare('SELECT * FROM review_logs WHERE iterationId = ? ORDER BY id');
+    return stmt.all(iterationId) as ReviewLog[];
+  }
+
+  addTimelineEntries(iterationId: number, entries: AgentTimelineEntry[]): void {
+    const createdAt = new Date().toISOString();
+    const stmt = this.db.prepare(
+      'INSERT INTO iteration_timeline (iterationId, kind, tool, toolUseId, content, isError, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    );
+    const insertAll = this.db.transaction(() => {
+      for (const entry of entries) {
+        stmt.run(iterationId, entry.kind, entry.tool, entry.toolUseId, entry.content, entry.isError ? 1 : 0, createdAt);
+      }
+    });
+    insertAll();
+  }
+
+  getTimeline(iterationId: number): TimelineEntry[] {
+    const stmt = this.db.prepare('SELECT * FROM iteration_timeline WHERE iterationId = ? ORDER BY id');
+    const rows = stmt.all(iterationId) as Array<Omit<TimelineEntry, 'isError'> & { isError: number }>;
+    return rows.map((row) => ({ ...row, isError: row.isError === 1 }));
+  }
+
   createIssue(
     iterationId: number,
     type: Issue['type'],
@@ -270,13 +382,34 @@ export class Database implements Storage {
     filePath: string | null = null,
     lineNumber: number | null = null,
     severity: Issue['severity'] = null,
-    status: Issue['status'] = 'open'
+    status: Issue['status'] = 'open',
+    details: IssueDetails = {}
   ): Issue {
     const createdAt = new Date().toISOString();
-    const stmt = this.db.prepare(
-      'INSERT INTO issues (iterationId, type, description, filePath, lineNumber, severity, status, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    const category = details.category ?? null;
+    const endLineNumber = details.endLineNumber ?? null;
+    const confidence = details.confidence ?? null;
+    const suggestedPatch = details.suggestedPatch ?? null;
+    const stmt = this.db.prepare(`
+      INSERT INTO issues (
+        iterationId, type, description, filePath, lineNumber, severity, category, endLineNumber, confidence,
+        suggestedPatch, status, createdAt
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const result = stmt.run(
+      iterationId,
+      type,
+      description,
+      filePath,
+      lineNumber,
+      severity,
+      category,
+      endLineNumber,
+      confidence,
+      suggestedPatch,
+      status,
+      createdAt,
     );
-    const result = stmt.run(iterationId, type, description, filePath, lineNumber, severity, status, createdAt);
     return {
       id: result.lastInsertRowid as number,
       iterationId,
@@ -285,6 +418,11 @@ export class Database implements Storage {
       filePath,
       lineNumber,
       severity,
+      category,
+      endLineNumber,
+      confidence,
+      suggestedPatch,
+      reviewCommentId: null,
       status,
       createdAt,
       resolvedAt: null,
@@ -312,6 +450,11 @@ export class Database implements Storage {
     stmt.run(status, resolvedAt ?? null, issueId);
   }
 
+  updateIssueReviewComment(issueId: number, reviewCommentId: number): void {
+    const stmt = this.db.prepare('UPDATE issues SET reviewCommentId = ? WHERE id = ?');
+    stmt.run(reviewCommentId, issueId);
+  }
+
   getOpenIssues(stepId: number): Issue[] {
     const stmt = this.db.prepare(`
       SELECT issues.*
@@ -352,12 +495,32 @@ export class Database implements Storage {
         )
         .all(planId) as Issue[];
 
-      return { steps, iterations, issues };
+      const auditLog = this.getAuditLog(planId);
+
+      return { steps, iterations, issues, auditLog };
     });
 
     return readState();
   }
 
+  addAuditEntry(entry: Omit<AuditEntry, 'id' | 'createdAt'>): AuditEntry {
+    const createdAt = new Date().toISOString();
+    const stmt = this.db.prepare(
+      'INSERT INTO audit_log (planId, stepNumber, action, details, source, createdAt) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    const result = stmt.run(entry.planId, entry.stepNumber, entry.action, entry.details, entry.source, createdAt);
+    return {
+      id: result.lastInsertRowid as number,
+      ...entry,
+      createdAt,
+    };
+  }
+
+  getAuditLog(planId: number): AuditEntry[] {
+    const stmt = this.db.prepare('SELECT * FROM audit_log WHERE planId = ? ORDER BY id');
+    return stmt.all(planId) as AuditEntry[];
+  }
+
   close(): void {
     this.db.close();
   }
@@ -1,6 +1,8 @@
 import { EventEmitter } from 'events';
 
+import type { AgentName } from './agent-runner.js';
 import type { Plan, DbStep, Iteration, Issue } from './models.js';
+import type { TokenUsage } from './usage.js';
 
 export interface StepCatEvent {
   type: string;
@@ -101,9 +103,9 @@ export interface IterationStartEvent extends StepCatEvent {
   iterationId: number;
   stepId: number;
   iterationNumber: number;
-  iterationType: 'implementation' | 'build_fix' | 'review_fix';
-  implementationAgent: 'claude' | 'codex';
-  reviewAgent: 'claude' | 'codex' | null;
+  iterationType: 'implementation' | 'build_fix' | 'review_fix' | 'quick_fix' | 'conflict_fix';
+  implementationAgent: AgentName;
+  reviewAgent: AgentName | null;
 }
 
 export interface IterationCompleteEvent extends StepCatEvent {
@@ -112,6 +114,8 @@ export interface IterationCompleteEvent extends StepCatEvent {
   iterationNumber: number;
   commitSha: string | null;
   status: 'completed' | 'failed';
+  /** Tokens and estimated cost accumulated by the iteration so far. */
+  usage: TokenUsage;
 }
 
 export interface IssueFoundEvent extends StepCatEvent {
@@ -134,7 +138,9 @@ export interface CodexReviewStartEvent extends StepCatEvent {
   type: 'codex_review_start';
   iterationId: number;
   promptType: 'implementation' | 'build_fix' | 'review_fix';
-  agent: 'claude' | 'codex';
+  agent: AgentName;
+  /** All agents reviewing the commit when a consensus review runs. */
+  reviewers?: AgentName[];
 }
 
 export interface CodexReviewCompleteEvent extends StepCatEvent {
@@ -142,7 +148,42 @@ export interface CodexReviewCompleteEvent extends StepCatEvent {
   iterationId: number;
   result: 'PASS' | 'FAIL';
   issueCount: number;
-  agent: 'claude' | 'codex';
+  agent: AgentName;
+  reviewers?: AgentName[];
+}
+
+export interface StepApprovalEvent extends StepCatEvent {
+  type: 'step_approval';
+  stepNumber: number;
+  status: 'waiting' | 'approved' | 'rejected';
+  iterationId: number;
+  feedback?: string;
+}
+
+/** Output of a running agent, emitted as it is produced. */
+export interface AgentOutputEvent extends StepCatEvent {
+  type: 'agent_output';
+  agent: AgentName;
+  iterationId?: number;
+  text: string;
+}
+
+/** A tool call made by a running agent, such as a shell command or a file edit. */
+export interface AgentToolCallEvent extends StepCatEvent {
+  type: 'agent_tool_call';
+  agent: AgentName;
+  iterationId?: number;
+  tool: string;
+  /** What the call works on, e.g. the command or the file path. */
+  summary: string;
+}
+
+/** A running agent printed nothing and changed no files for `idleMinutes`; it is being stopped. */
+export interface AgentStalledEvent extends StepCatEvent {
+  type: 'agent_stalled';
+  agent: AgentName;
+  iterationId?: number;
+  idleMinutes: number;
 }
 
 export interface StateSyncEvent extends StepCatEvent {
@@ -178,6 +219,10 @@ export type OrchestratorEvent =
   | IssueResolvedEvent
   | CodexReviewStartEvent
   | CodexReviewCompleteEvent
+  | StepApprovalEvent
+  | AgentOutputEvent
+  | AgentToolCallEvent
+  | AgentStalledEvent
   | StateSyncEvent
   | ExecutionStartedEvent;
 
@@ -0,0 +1,458 @@
+import type { AgentName } from './agent-runner.js';
+import type { AuditEntry, DbStep, Issue, Iteration, Plan } from './models.js';
+import type { ExecutionState } from './storage.js';
+import type { TokenUsage } from './usage.js';
+import { formatUsage, getIterationUsage, sumIterationUsage } from './usage.js';
+
+export type ReportFormat = 'json' | 'markdown' | 'html';
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ['json', 'markdown', 'html'];
+
+export interface IssueReport {
+  type: Issue['type'];
+  description: string;
+  file: string | null;
+  line: number | null;
+  endLine: number | null;
+  severity: Issue['severity'];
+  category: Issue['category'];
+  confidence: number | null;
+  patch: string | null;
+  status: Issue['status'];
+  createdAt: string;
+  resolvedAt: string | null;
+}
+
+export interface IterationReport {
+  number: number;
+  type: Iteration['type'];
+  status: Iteration['status'];
+  phase: Iteration['phase'];
+  commitSha: string | null;
+  buildStatus: Iteration['buildStatus'];
+  reviewStatus: Iteration['reviewStatus'];
+  implementationAgent: AgentName;
+  reviewAgent: AgentName | null;
+  interruptionReason: string | null;
+  startedAt: string;
+  updatedAt: string;
+  durationMs: number;
+  agentDurationMs: number;
+  ciDurationMs: number;
+  usage: TokenUsage;
+  issues: IssueReport[];
+}
+
+export interface StepReport {
+  number: number;
+  title: string;
+  status: DbStep['status'];
+  dependsOn: number[];
+  branch: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  durationMs: number;
+  openIssues: number;
+  usage: TokenUsage;
+  iterations: IterationReport[];
+}
+
+export interface TechDebtReport extends IssueReport {
+  step: number;
+}
+
+export interface AuditEntryReport {
+  step: number | null;
+  action: AuditEntry['action'];
+  details: string | null;
+  source: AuditEntry['source'];
+  createdAt: string;
+}
+
+export type ExecutionStatus = 'completed' | 'failed' | 'in_progress' | 'pending';
+
+/**
+ * A self-contained snapshot of an execution for scripts and dashboards.
+ * Agent logs are left out; they are available in the database.
+ */
+export interface ExecutionReport {
+  executionId: number;
+  planFile: string;
+  workDir: string;
+  owner: string;
+  repo: string;
+  status: ExecutionStatus;
+  createdAt: string;
+  updatedAt: string;
+  durationMs: number;
+  summary: {
+    totalSteps: number;
+    completedSteps: number;
+    inProgressSteps: number;
+    pendingSteps: number;
+    failedSteps: number;
+    skippedSteps: number;
+    iterations: number;
+    openIssues: number;
+    fixedIssues: number;
+    deferredIssues: number;
+    usage: TokenUsage;
+  };
+  steps: StepReport[];
+  /** Review warnings deferred instead of fixed, to follow up on after the execution. */
+  techDebt: TechDebtReport[];
+  auditTrail: AuditEntryReport[];
+}
+
+const elapsedMs = (from: string, to: string): number =>
+  Math.max(0, new Date(to).getTime() - new Date(from).getTime());
+
+const latest = (timestamps: string[]): string | null =>
+  timestamps.reduce<string | null>((max, timestamp) => (max === null || timestamp > max ? timestamp : max), null);
+
+const toIssueReport = (issue: Issue): IssueReport => ({
+  type: issue.type,
+  description: issue.description,
+  file: issue.filePath,
+  line: issue.lineNumber,
+  endLine: issue.endLineNumber,
+  severity: issue.severity,
+  category: issue.category,
+  confidence: issue.confidence,
+  patch: issue.suggestedPatch,
+  status: issue.status,
+  createdAt: issue.createdAt,
+  resolvedAt: issue.resolvedAt,
+});
+
+const toIterationReport = (iteration: Iteration, issues: Issue[]): IterationReport => ({
+  number: iteration.iterationNumber,
+  type: iteration.type,
+  status: iteration.status,
+  phase: iteration.phase,
+  commitSha: iteration.commitSha,
+  buildStatus: iteration.buildStatus,
+  reviewStatus: iteration.reviewStatus,
+  implementationAgent: iteration.implementationAgent,
+  reviewAgent: iteration.reviewAgent,
+  interruptionReason: iteration.interruptionReason,
+  startedAt: iteration.createdAt,
+  updatedAt: iteration.updatedAt,
+  durationMs: elapsedMs(iteration.createdAt, iteration.updatedAt),
+  agentDurationMs: iteration.agentDurationMs,
+  ciDurationMs: iteration.ciDurationMs,
+  usage: getIterationUsage(iteration),
+  issues: issues
+    .filter((issue) => issue.iterationId === iteration.id)
+    .map(toIssueReport),
+});
+
+const toStepReport = (step: DbStep, state: ExecutionState): StepReport => {
+  const stepIterations = state.iterations.filter((iteration) => iteration.stepId === step.id);
+  const iterations = stepIterations.map((iteration) => toIterationReport(iteration, state.issues));
+  const startedAt = iterations.length > 0 ? iterations[0].startedAt : null;
+  const finishedAt = step.status === 'completed' || step.status === 'failed' || step.status === 'skipped'
+    ? latest([step.updatedAt, ...iterations.map((iteration) => iteration.updatedAt)])
+    : null;
+  const lastActivity = latest(iterations.map((iteration) => iteration.updatedAt));
+
+  return {
+    number: step.stepNumber,
+    title: step.title,
+    status: step.status,
+    dependsOn: step.dependsOn,
+    branch: step.branch,
+    startedAt,
+    finishedAt,
+    durationMs: startedAt ? elapsedMs(startedAt, finishedAt ?? lastActivity ?? startedAt) : 0,
+    openIssues: iterations.reduce(
+      (count, iteration) => count + iteration.issues.filter((issue) => issue.status === 'open').length,
+      0,
+    ),
+    usage: sumIterationUsage(stepIterations),
+    iterations,
+  };
+};
+
+const getExecutionStatus = (steps: DbStep[]): ExecutionStatus => {
+  if (steps.some((step) => step.status === 'failed')) {
+    return 'failed';
+  }
+  if (steps.length > 0 && steps.every((step) => step.status === 'completed' || step.status === 'skipped')) {
+    return 'completed';
+  }
+  if (steps.some((step) => step.status !== 'pending')) {
+    return 'in_progress';
+  }
+  return 'pending';
+};
+
+export const buildExecutionReport = (plan: Plan, state: ExecutionState): ExecutionReport => {
+  const steps = state.steps.map((step) => toStepReport(step, state));
+  const updatedAt = latest([
+    plan.createdAt,
+    ...state.steps.map((step) => step.updatedAt),
+    ...state.iterations.map((iteration) => iteration.updatedAt),
+  ]) ?? plan.createdAt;
+  const countSteps = (status: DbStep['status']): number =>
+    state.steps.filter((step) => step.status === status).length;
+
+  return {
+    executionId: plan.id,
+    planFile: plan.planFilePath,
+    workDir: plan.workDir,
+    owner: plan.owner,
+    repo: plan.repo,
+    status: getExecutionStatus(state.steps),
+    createdAt: plan.createdAt,
+    updatedAt,
+    durationMs: elapsedMs(plan.createdAt, updatedAt),
+    summary: {
+      totalSteps: state.steps.length,
+      completedSteps: countSteps('completed'),
+      inProgressSteps: countSteps('in_progress'),
+      pendingSteps: countSteps('pending'),
+      failedSteps: countSteps('failed'),
+      skippedSteps: countSteps('skipped'),
+      iterations: state.iterations.length,
+      openIssues: state.issues.filter((issue) => issue.status === 'open').length,
+      fixedIssues: state.issues.filter((issue) => issue.status === 'fixed').length,
+      deferredIssues: state.issues.filter((issue) => issue.status === 'deferred').length,
+      usage: sumIterationUsage(state.iterations),
+    },
+    steps,
+    techDebt: steps.flatMap((step) => step.iterations.flatMap((iteration) => iteration.issues
+      .filter((issue) => issue.status === 'deferred')
+      .map((issue) => ({ step: step.number, ...issue })))),
+    auditTrail: state.auditLog.map((entry) => ({
+      step: entry.stepNumber,
+      action: entry.action,
+      details: entry.details,
+      source: entry.source,
+      createdAt: entry.createdAt,
+    })),
+  };
+};
+
+export const formatDuration = (durationMs: number): string => {
+  const totalSeconds = Math.round(durationMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m ${seconds}s`;
+  }
+  return `${seconds}s`;
+};
+
+const STATUS_ICONS: Record<DbStep['status'], string> = {
+  completed: '✓',
+  in_progress: '●',
+  pending: '○',
+  failed: '✗',
+  skipped: '↷',
+};
+
+const formatIssueCounts = (summary: ExecutionReport['summary']): string =>
+  `${summary.openIssues} open, ${summary.fixedIssues} fixed` +
+  `${summary.deferredIssues > 0 ? `, ${summary.deferredIssues} deferred` : ''}`;
+
+const formatAuditEntry = (entry: AuditEntryReport): string =>
+  `${entry.createdAt} ${entry.action}${entry.step !== null ? ` step ${entry.step}` : ''} (${entry.source})` +
+  `${entry.details ? `: ${entry.details}` : ''}`;
+
+const shortSha = (sha: string | null): string => (sha ? sha.substring(0, 7) : '-');
+
+const escapeMarkdownCell = (text: string): string =>
+  text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+const formatIssueLocation = (issue: IssueReport): string => {
+  if (!issue.file) {
+    return '';
+  }
+  if (issue.line === null) {
+    return issue.file;
+  }
+  return issue.endLine !== null && issue.endLine !== issue.line
+    ? `${issue.file}:${issue.line}-${issue.endLine}`
+    : `${issue.file}:${issue.line}`;
+};
+
+/** Severity and category of an issue, e.g. " (error, security)", or nothing when neither is known. */
+const formatIssueTags = (issue: IssueReport, prefix: string, suffix: string): string => {
+  const tags = [issue.severity, issue.category].filter((tag) => tag !== null);
+  return tags.length > 0 ? `${prefix}${tags.join(', ')}${suffix}` : '';
+};
+
+export const formatReportMarkdown = (report: ExecutionReport): string => {
+  const { summary } = report;
+  const lines: string[] = [
+    `# Stepcat execution #${report.executionId}`,
+    '',
+    `- **Status:** ${report.status}`,
+    `- **Plan:** \`${report.planFile}\``,
+    `- **Repository:** ${report.owner}/${report.repo}`,
+    `- **Started:** ${report.createdAt}`,
+    `- **Duration:** ${formatDuration(report.durationMs)}`,
+    `- **Steps:** ${summary.completedSteps}/${summary.totalSteps} completed, ` +
+      `${summary.inProgressSteps} in progress, ${summary.pendingSteps} pending, ${summary.failedSteps} failed, ` +
+      `${summary.skippedSteps} skipped`,
+    `- **Iterations:** ${summary.iterations}`,
+    `- **Issues:** ${formatIssueCounts(summary)}`,
+    `- **Usage:** ${formatUsage(summary.usage)}`,
+  ];
+
+  for (const step of report.steps) {
+    lines.push('', `## ${STATUS_ICONS[step.status]} Step ${step.number}: ${step.title}`, '');
+    lines.push(`Status: ${step.status}, duration: ${formatDuration(step.durationMs)}, usage: ${formatUsage(step.usage)}`);
+
+    if (step.iterations.length === 0) {
+      continue;
+    }
+
+    lines.push(
+      '',
+      '| # | Type | Status | Commit | Build | Review | Duration |',
+      '|---|------|--------|--------|-------|--------|----------|',
+    );
+    for (const iteration of step.iterations) {
+      lines.push(
+        `| ${iteration.number} | ${iteration.type} | ${iteration.status} | ${shortSha(iteration.commitSha)} ` +
+        `| ${iteration.buildStatus ?? '-'} | ${iteration.reviewStatus ?? '-'} | ${formatDuration(iteration.durationMs)} |`
+      );
+    }
+
+    const issues = step.iterations.flatMap((iteration) => iteration.issues);
+    if (issues.length > 0) {
+      lines.push('', '| Issue | Status | Location | Description |', '|-------|--------|----------|-------------|');
+      for (const issue of issues) {
+        lines.push(
+          `| ${issue.type}${formatIssueTags(issue, ' (', ')')} | ${issue.status} ` +
+          `| ${escapeMarkdownCell(formatIssueLocation(issue))} | ${escapeMarkdownCell(issue.description)} |`
+        );
+      }
+    }
+  }
+
+  if (report.techDebt.length > 0) {
+    lines.push('', '## Tech debt', '');
+    lines.push(...report.techDebt.map((issue) => {
+      const location = formatIssueLocation(issue);
+      return `- Step ${issue.step}: ${location ? `\`${location}\` ` : ''}${issue.description.replace(/\r?\n/g, ' ')}`;
+    }));
+  }
+
+  if (report.auditTrail.length > 0) {
+    lines.push('', '## Audit trail', '');
+    lines.push(...report.auditTrail.map((entry) => `- ${formatAuditEntry(entry)}`));
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const formatReportHtml = (report: ExecutionReport): string => {
+  const { summary } = report;
+  const sections = report.steps.map((step) => {
+    const iterationRows = step.iterations.map((iteration) => `
+        <tr>
+          <td>${iteration.number}</td>
+          <td>${iteration.type}</td>
+          <td>${iteration.status}</td>
+          <td><code>${shortSha(iteration.commitSha)}</code></td>
+          <td>${iteration.buildStatus ?? '-'}</td>
+          <td>${iteration.reviewStatus ?? '-'}</td>
+          <td>${formatDuration(iteration.durationMs)}</td>
+        </tr>`).join('');
+    const issueItems = step.iterations
+      .flatMap((iteration) => iteration.issues)
+      .map((issue) => `
+        <li class="${issue.status}">[${issue.type}${formatIssueTags(issue, ', ', '')}] ` +
+          `${issue.file ? `<code>${escapeHtml(formatIssueLocation(issue))}</code> ` : ''}` +
+          `${escapeHtml(issue.description)} (${issue.status})</li>`)
+      .join('');
+
+    return `
+    <section>
+      <h2>${STATUS_ICONS[step.status]} Step ${step.number}: ${escapeHtml(step.title)}</h2>
+      <p>Status: ${step.status}, duration: ${formatDuration(step.durationMs)}, usage: ${formatUsage(step.usage)}</p>${iterationRows ? `
+      <table>
+        <tr><th>#</th><th>Type</th><th>Status</th><th>Commit</th><th>Build</th><th>Review</th><th>Duration</th></tr>${iterationRows}
+      </table>` : ''}${issueItems ? `
+      <ul>${issueItems}
+      </ul>` : ''}
+    </section>`;
+  }).join('');
+  const techDebtItems = report.techDebt
+    .map((issue) => `
+        <li>Step ${issue.step}: ${issue.file ? `<code>${escapeHtml(formatIssueLocation(issue))}</code> ` : ''}` +
+          `${escapeHtml(issue.description)}</li>`)
+    .join('');
+  const techDebtSection = techDebtItems ? `
+    <section>
+      <h2>Tech debt</h2>
+      <ul>${techDebtItems}
+      </ul>
+    </section>` : '';
+  const auditItems = report.auditTrail
+    .map((entry) => `
+        <li>${escapeHtml(formatAuditEntry(entry))}</li>`)
+    .join('');
+  const auditSection = auditItems ? `
+    <section>
+      <h2>Audit trail</h2>
+      <ul>${auditItems}
+      </ul>
+    </section>` : '';
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Stepcat execution #${report.executionId}</title>
+    <style>
+      body { font-family: sans-serif; margin: 2em; }
+      table { border-collapse: collapse; }
+      th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+      li.fixed { color: #777; }
+      li.deferred { color: #a60; }
+    </style>
+  </head>
+  <body>
+    <h1>Stepcat execution #${report.executionId}</h1>
+    <ul>
+      <li>Status: ${report.status}</li>
+      <li>Plan: <code>${escapeHtml(report.planFile)}</code></li>
+      <li>Repository: ${escapeHtml(`${report.owner}/${report.repo}`)}</li>
+      <li>Started: ${report.createdAt}</li>
+      <li>Duration: ${formatDuration(report.durationMs)}</li>
+      <li>Steps: ${summary.completedSteps}/${summary.totalSteps} completed, ${summary.inProgressSteps} in progress, ${summary.pendingSteps} pending, ${summary.failedSteps} failed, ${summary.skippedSteps} skipped</li>
+      <li>Iterations: ${summary.iterations}</li>
+      <li>Issues: ${formatIssueCounts(summary)}</li>
+      <li>Usage: ${formatUsage(summary.usage)}</li>
+    </ul>${sections}${techDebtSection}${auditSection}
+  </body>
+</html>
+`;
+};
+
+export const formatExecutionReport = (report: ExecutionReport, format: ReportFormat): string => {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(report, null, 2)}\n`;
+    case 'markdown':
+      return formatReportMarkdown(report);
+    case 'html':
+      return formatReportHtml(report);
+  }
+};
@@ -0,0 +1,30 @@
+import { execFileSync } from 'child_process';
+
+/**
+ * Runs git in `workDir` and returns its output as is, for output whose leading
+ * whitespace matters. `input` is written to its stdin. Throws when git exits
+ * with an error; the error carries stderr.
+ */
+export const gitRaw = (workDir: string, args: string[], input?: string): string => {
+  const output = execFileSync('git', args, {
+    cwd: workDir,
+    encoding: 'utf-8',
+    input,
+    stdio: [input === undefined ? 'ignore' : 'pipe', 'pipe', 'pipe'],
+  });
+  // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- output can be undefined in test mocks
+  return output ?? '';
+};
+
+/** Runs git in `workDir` like `gitRaw` and returns its trimmed output. */
+export const git = (workDir: string, args: string[], input?: string): string =>
+  gitRaw(workDir, args, input).trim();
+
+/** The stderr of a failed git command, or its message if git printed nothing. */
+export const describeGitError = (error: unknown): string => {
+  const stderr = (error as { stderr?: unknown }).stderr;
+  if (typeof stderr === 'string' && stderr.trim()) {
+    return stderr.trim();
+  }
+  return error instanceof Error ? error.message : String(error);
+};
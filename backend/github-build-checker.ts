@@ -0,0 +1,303 @@
+import type { BuildChecker, BuildCheckerLog } from './build-checker.js';
+import { truncateOutput } from './build-checker.js';
+import { git } from './git.js';
+import type { GitHubChecker } from './github-checker.js';
+import type { DbStep } from './models.js';
+import { PROGRESS_END_MARKER, PROGRESS_START_MARKER } from './pr-progress.js';
+
+export interface GitHubBuildCheckerConfig {
+  githubChecker: GitHubChecker;
+  workDir: string;
+  log: BuildCheckerLog;
+  /** Branch that pull requests should target instead of the repository's default branch. */
+  baseBranch?: string;
+}
+
+type CheckRunOutput = {
+  title?: string | null;
+  summary?: string | null;
+  text?: string | null;
+};
+
+type CheckRunSummary = {
+  id: number;
+  name: string;
+  status?: string | null;
+  conclusion?: string | null;
+  output?: CheckRunOutput | null;
+  details_url?: string | null;
+};
+
+type CheckRunAnnotation = {
+  path: string;
+  start_line?: number | null;
+  end_line?: number | null;
+  annotation_level?: string | null;
+  message: string;
+  title?: string | null;
+  raw_details?: string | null;
+};
+
+const GITHUB_BUILD_FAILURE_MESSAGE =
+  'Build checks failed. Please review the GitHub Actions logs and fix the issues.';
+
+export class GitHubBuildChecker implements BuildChecker {
+  private static readonly MAX_BUILD_OUTPUT_CHARS = 8000;
+  private static readonly MAX_ANNOTATIONS = 20;
+  private static readonly MAX_ANNOTATION_CHARS = 500;
+  private githubChecker: GitHubChecker;
+  private workDir: string;
+  private log: BuildCheckerLog;
+  private baseBranch?: string;
+
+  constructor(config: GitHubBuildCheckerConfig) {
+    this.githubChecker = config.githubChecker;
+    this.workDir = config.workDir;
+    this.log = config.log;
+    this.baseBranch = config.baseBranch;
+  }
+
+  getName(): string {
+    return 'GitHub Actions';
+  }
+
+  async prepare(step: DbStep, planFile: string): Promise<void> {
+    const branch = this.githubChecker.getCurrentBranch();
+
+    if (!branch || branch === 'HEAD') {
+      throw new Error(
+        'Cannot run build checks: repository is in a detached HEAD state. ' +
+        'Please checkout a feature branch before running stepcat.'
+      );
+    }
+
+    const defaultBranch = await this.githubChecker.getDefaultBranch();
+    if (branch === defaultBranch || branch === 'main' || branch === 'master') {
+      throw new Error(
+        `Cannot run build checks: currently on the default branch "${branch}". ` +
+        'Please create and checkout a feature branch before running stepcat.'
+      );
+    }
+
+    this.log(`Working on branch: ${branch}`);
+
+    const baseBranch = this.baseBranch ?? defaultBranch;
+    if (this.baseBranch) {
+      this.ensureRemoteBranch(this.baseBranch);
+    }
+    this.ensureRemoteBranch(branch);
+
+    const existingPR = await this.getPullRequestForCurrentBranch();
+    if (existingPR) {
+      this.log(`Using existing PR #${existingPR.number} for branch "${branch}"`);
+      return;
+    }
+
+    this.log(`No PR found for branch "${branch}", creating one...`);
+
+    const planName = planFile.split('/').pop() ?? planFile;
+    const prTitle = `[Stepcat] ${step.title}`;
+    const prBody = [
+      `## Automated PR created by Stepcat`,
+      '',
+      `This PR implements changes from plan file: \`${planName}\``,
+      '',
+      PROGRESS_START_MARKER,
+      `**Current step:** Step ${step.stepNumber}: ${step.title}`,
+      PROGRESS_END_MARKER,
+      '',
+      '---',
+      '_This PR is managed by [Stepcat](https://github.com/forketyfork/stepcat). ' +
+      'Each iteration creates a separate commit for full traceability._',
+    ].join('\n');
+
+    await this.githubChecker.createPullRequest(prTitle, prBody, baseBranch);
+  }
+
+  private ensureRemoteBranch(branch: string): void {
+    if (this.githubChecker.remoteBranchExists(branch)) {
+      return;
+    }
+
+    this.log(`Branch "${branch}" not found on remote, pushing...`);
+    try {
+      git(this.workDir, ['push', '-u', 'origin', branch]);
+      this.log(`✓ Pushed branch "${branch}" to origin`, 'success');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to push branch "${branch}" to origin: ${errorMessage}`);
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await -- Async for BuildChecker interface consistency
+  async publish(): Promise<void> {
+    const branch = this.githubChecker.getCurrentBranch();
+    const hasUpstream = this.githubChecker.hasUpstreamTracking();
+
+    const pushArgs = hasUpstream || branch === null ? ['push'] : ['push', '-u', 'origin', branch];
+
+    try {
+      const output = git(this.workDir, pushArgs);
+      if (output) {
+        this.log(output);
+      }
+      this.log('✓ Pushed commit to GitHub', 'success');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log(`⚠ Failed to push commit: ${errorMessage}`, 'warn');
+      throw new Error('Failed to push commit to GitHub');
+    }
+  }
+
+  waitForBuild(
+    sha: string,
+    timeoutMinutes: number,
+    attempt: number,
+    maxAttempts: number,
+  ): Promise<boolean> {
+    return this.githubChecker.waitForChecksToPass(sha, timeoutMinutes, attempt, maxAttempts);
+  }
+
+  getLastTrackedSha(): string | null {
+    return this.githubChecker.getLastTrackedSha();
+  }
+
+  async extractBuildErrors(sha: string): Promise<string> {
+    try {
+      const response = await this.githubChecker.getOctokit().checks.listForRef({
+        owner: this.githubChecker.getOwner(),
+        repo: this.githubChecker.getRepo(),
+        ref: sha,
+      });
+      const checkRuns = response.data as { check_runs: CheckRunSummary[] };
+
+      const failedChecks = checkRuns.check_runs.filter(
+        run => run.status === 'completed' && run.conclusion !== 'success' && run.conclusion !== 'skipped'
+      );
+
+      if (failedChecks.length === 0) {
+        return GITHUB_BUILD_FAILURE_MESSAGE;
+      }
+
+      const errorMessages: string[] = [];
+      for (const check of failedChecks) {
+        let message = `Check: ${check.name}\n`;
+        message += `Conclusion: ${check.conclusion}\n`;
+        if (check.output?.title) {
+          message += `Title: ${this.singleLine(check.output.title)}\n`;
+        }
+        if (check.output?.summary) {
+          message += `Summary:\n${truncateOutput(check.output.summary, GitHubBuildChecker.MAX_BUILD_OUTPUT_CHARS)}\n`;
+        }
+        if (check.output?.text) {
+          message += `Output:\n${truncateOutput(check.output.text, GitHubBuildChecker.MAX_BUILD_OUTPUT_CHARS)}\n`;
+        }
+
+        const annotations = await this.fetchCheckRunAnnotations(check.id);
+        const formattedAnnotations = this.formatAnnotations(annotations);
+        if (formattedAnnotations) {
+          message += `Annotations:\n${formattedAnnotations}\n`;
+        }
+        if (check.details_url) {
+          message += `Details: ${check.details_url}\n`;
+        }
+        errorMessages.push(message);
+      }
+
+      return errorMessages.join('\n---\n');
+    } catch (error) {
+      this.log(
+        `Warning: Could not extract detailed build errors: ${error instanceof Error ? error.message : String(error)}`,
+        'warn'
+      );
+      return GITHUB_BUILD_FAILURE_MESSAGE;
+    }
+  }
+
+  private async getPullRequestForCurrentBranch(): Promise<{ number: number; url: string } | null> {
+    const branch = this.githubChecker.getCurrentBranch();
+    if (!branch || branch === 'HEAD') {
+      return null;
+    }
+
+    try {
+      const response = await this.githubChecker.getOctokit().pulls.list({
+        owner: this.githubChecker.getOwner(),
+        repo: this.githubChecker.getRepo(),
+        head: `${this.githubChecker.getOwner()}:${branch}`,
+        state: 'open',
+        per_page: 1,
+      });
+
+      const pr = response.data[0];
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- array index access can return undefined
+      if (!pr) {
+        return null;
+      }
+
+      return { number: pr.number, url: pr.html_url };
+    } catch {
+      return null;
+    }
+  }
+
+  private singleLine(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  private formatAnnotations(annotations: CheckRunAnnotation[]): string | null {
+    if (annotations.length === 0) {
+      return null;
+    }
+
+    const limitedAnnotations = annotations.slice(0, GitHubBuildChecker.MAX_ANNOTATIONS);
+    const lines = limitedAnnotations.map((annotation) => {
+      const lineSuffix = annotation.start_line !== null ? `:${annotation.start_line}` : '';
+      const location = `${annotation.path}${lineSuffix}`;
+      const level = annotation.annotation_level ?? 'failure';
+      const message = this.singleLine(
+        truncateOutput(annotation.message, GitHubBuildChecker.MAX_ANNOTATION_CHARS),
+      );
+      const detailParts: string[] = [];
+      if (annotation.title) {
+        detailParts.push(this.singleLine(annotation.title));
+      }
+      if (annotation.raw_details) {
+        detailParts.push(
+          this.singleLine(
+            truncateOutput(annotation.raw_details, GitHubBuildChecker.MAX_ANNOTATION_CHARS),
+          ),
+        );
+      }
+      const details = detailParts.length > 0 ? ` (${detailParts.join(' - ')})` : '';
+      return `- ${location}: ${level}: ${message}${details}`;
+    });
+
+    if (annotations.length > limitedAnnotations.length) {
+      lines.push(`... ${annotations.length - limitedAnnotations.length} more annotations omitted`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private async fetchCheckRunAnnotations(checkRunId: number): Promise<CheckRunAnnotation[]> {
+    try {
+      const response = await this.githubChecker.getOctokit().request(
+        'GET /repos/{owner}/{repo}/check-runs/{check_run_id}/annotations',
+        {
+          owner: this.githubChecker.getOwner(),
+          repo: this.githubChecker.getRepo(),
+          check_run_id: checkRunId,
+          per_page: GitHubBuildChecker.MAX_ANNOTATIONS,
+        },
+      );
+      return response.data as CheckRunAnnotation[];
+    } catch (error) {
+      this.log(
+        `Warning: Could not fetch check run annotations: ${error instanceof Error ? error.message : String(error)}`,
+        'warn',
+      );
+      return [];
+    }
+  }
+}
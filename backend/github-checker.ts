@@ -1,8 +1,7 @@
-import { execSync } from 'child_process';
-
 import { Octokit } from '@octokit/rest';
 
 import type { OrchestratorEventEmitter } from './events.js';
+import { git } from './git.js';
 import type { LogLevel } from './logger.js';
 import { getLogger } from './logger.js';
 
@@ -30,6 +29,75 @@ export class MergeConflictError extends Error {
   }
 }
 
+export interface PullRequestState {
+  number: number;
+  merged: boolean;
+  /** Branch the pull request targets. */
+  baseRef: string;
+  title: string;
+  body: string;
+}
+
+/** Inline comment of a pull request review, on the new version of a file. */
+export interface ReviewCommentDraft {
+  path: string;
+  line: number;
+  /** First line of a comment that spans several lines. */
+  startLine?: number;
+  body: string;
+}
+
+type ReviewThread = {
+  id: string;
+  isResolved: boolean;
+  comments: { nodes: Array<{ databaseId: number | null }> };
+};
+
+type ReviewThreadsResponse = {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        nodes: ReviewThread[];
+      };
+    } | null;
+  };
+};
+
+const REVIEW_THREADS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 100, after: $cursor) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          nodes {
+            id
+            isResolved
+            comments(first: 1) {
+              nodes {
+                databaseId
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const RESOLVE_REVIEW_THREAD_MUTATION = `
+  mutation($threadId: ID!) {
+    resolveReviewThread(input: { threadId: $threadId }) {
+      thread {
+        id
+      }
+    }
+  }
+`;
+
 export interface GitHubConfig {
   owner: string;
   repo: string;
@@ -230,19 +298,13 @@ export class GitHubChecker {
   }
 
   getLatestCommitSha(): string {
-    const sha = execSync('git rev-parse HEAD', {
-      cwd: this.workDir,
-      encoding: 'utf-8'
-    }).trim();
+    const sha = git(this.workDir, ['rev-parse', 'HEAD']);
     this.log(`Latest commit: ${sha}`);
     return sha;
   }
 
   ensureNoUncommittedChanges(): void {
-    const status = execSync('git status --porcelain', {
-      cwd: this.workDir,
-      encoding: 'utf-8'
-    }).trim();
+    const status = git(this.workDir, ['status', '--porcelain']);
 
     if (status) {
       throw new Error(
@@ -255,10 +317,7 @@ export class GitHubChecker {
 
   static parseRepoInfo(repoPath: string): { owner: string; repo: string } {
     try {
-      const remoteUrl = execSync('git remote get-url origin', {
-        cwd: repoPath,
-        encoding: 'utf-8'
-      }).trim();
+      const remoteUrl = git(repoPath, ['remote', 'get-url', 'origin']);
 
       const match = remoteUrl.match(/github\.com[:/]([^/]+)\/([^/.]+)/);
       if (match) {
@@ -395,10 +454,7 @@ export class GitHubChecker {
 
   private isAncestor(potentialAncestor: string, commit: string): boolean {
     try {
-      execSync(`git merge-base --is-ancestor ${potentialAncestor} ${commit}`, {
-        cwd: this.workDir,
-        stdio: 'ignore',
-      });
+      git(this.workDir, ['merge-base', '--is-ancestor', potentialAncestor, commit]);
       return true;
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -412,10 +468,7 @@ export class GitHubChecker {
 
   getCurrentBranch(): string | null {
     try {
-      return execSync('git rev-parse --abbrev-ref HEAD', {
-        cwd: this.workDir,
-        encoding: 'utf-8',
-      }).trim();
+      return git(this.workDir, ['rev-parse', '--abbrev-ref', 'HEAD']);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       getLogger()?.debug('GitHubChecker', `Failed to read current branch: ${message}`);
@@ -423,13 +476,18 @@ export class GitHubChecker {
     }
   }
 
+  /** Reads the default branch of the repository from GitHub; throws when the API call fails. */
+  async fetchDefaultBranch(): Promise<string> {
+    const response = await this.octokit.repos.get({
+      owner: this.owner,
+      repo: this.repo,
+    });
+    return response.data.default_branch;
+  }
+
   async getDefaultBranch(): Promise<string> {
     try {
-      const response = await this.octokit.repos.get({
-        owner: this.owner,
-        repo: this.repo,
-      });
-      return response.data.default_branch;
+      return await this.fetchDefaultBranch();
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.log(`Failed to fetch default branch, falling back to 'main': ${message}`, 'warn');
@@ -439,10 +497,7 @@ export class GitHubChecker {
 
   remoteBranchExists(branch: string): boolean {
     try {
-      execSync(`git ls-remote --exit-code --heads origin ${branch}`, {
-        cwd: this.workDir,
-        stdio: 'ignore',
-      });
+      git(this.workDir, ['ls-remote', '--exit-code', '--heads', 'origin', branch]);
       return true;
     } catch {
       return false;
@@ -451,10 +506,7 @@ export class GitHubChecker {
 
   hasUpstreamTracking(): boolean {
     try {
-      execSync('git rev-parse --abbrev-ref @{upstream}', {
-        cwd: this.workDir,
-        stdio: 'ignore',
-      });
+      git(this.workDir, ['rev-parse', '--abbrev-ref', '@{upstream}']);
       return true;
     } catch {
       return false;
@@ -493,6 +545,145 @@ export class GitHubChecker {
     };
   }
 
+  /** Number of the open pull request for the branch, or null if there is none. */
+  async findOpenPullRequest(branch: string): Promise<number | null> {
+    const response = await this.octokit.pulls.list({
+      owner: this.owner,
+      repo: this.repo,
+      head: `${this.owner}:${branch}`,
+      state: 'open',
+      per_page: 1,
+    });
+    return response.data[0]?.number ?? null;
+  }
+
+  async getPullRequestState(prNumber: number): Promise<PullRequestState> {
+    const response = await this.octokit.pulls.get({
+      owner: this.owner,
+      repo: this.repo,
+      pull_number: prNumber,
+    });
+    return {
+      number: response.data.number,
+      merged: response.data.merged,
+      baseRef: response.data.base.ref,
+      title: response.data.title,
+      body: response.data.body ?? '',
+    };
+  }
+
+  async updatePullRequestDescription(prNumber: number, title: string, body: string): Promise<void> {
+    await this.octokit.pulls.update({
+      owner: this.owner,
+      repo: this.repo,
+      pull_number: prNumber,
+      title,
+      body,
+    });
+  }
+
+  async retargetPullRequest(prNumber: number, baseBranch: string): Promise<void> {
+    await this.octokit.pulls.update({
+      owner: this.owner,
+      repo: this.repo,
+      pull_number: prNumber,
+      base: baseBranch,
+    });
+    this.log(`Retargeted PR #${prNumber} to ${baseBranch}`);
+  }
+
+  /** Closes the pull request without merging it, leaving a comment that says why. */
+  async closePullRequest(prNumber: number, comment: string): Promise<void> {
+    await this.octokit.issues.createComment({
+      owner: this.owner,
+      repo: this.repo,
+      issue_number: prNumber,
+      body: comment,
+    });
+    await this.octokit.pulls.update({
+      owner: this.owner,
+      repo: this.repo,
+      pull_number: prNumber,
+      state: 'closed',
+    });
+    this.log(`Closed PR #${prNumber}`);
+  }
+
+  deleteRemoteBranch(branch: string): void {
+    git(this.workDir, ['push', 'origin', '--delete', branch]);
+    this.log(`Deleted branch "${branch}" from origin`);
+  }
+
+  /**
+   * Posts a review on a commit of the pull request. Returns the ID of the
+   * comment created for each draft, in order, or null where none matches.
+   */
+  async createReview(
+    prNumber: number,
+    commitSha: string,
+    body: string,
+    comments: ReviewCommentDraft[],
+  ): Promise<Array<number | null>> {
+    const review = await this.octokit.pulls.createReview({
+      owner: this.owner,
+      repo: this.repo,
+      pull_number: prNumber,
+      commit_id: commitSha,
+      event: 'COMMENT',
+      body,
+      comments: comments.map((comment) => ({
+        path: comment.path,
+        line: comment.line,
+        side: 'RIGHT',
+        ...(comment.startLine !== undefined ? { start_line: comment.startLine, start_side: 'RIGHT' } : {}),
+        body: comment.body,
+      })),
+    });
+
+    if (comments.length === 0) {
+      return [];
+    }
+
+    const unmatched = await this.octokit.paginate(this.octokit.pulls.listCommentsForReview, {
+      owner: this.owner,
+      repo: this.repo,
+      pull_number: prNumber,
+      review_id: review.data.id,
+      per_page: 100,
+    });
+    return comments.map((comment) => {
+      const index = unmatched.findIndex((candidate) => candidate.path === comment.path && candidate.body === comment.body);
+      return index === -1 ? null : unmatched.splice(index, 1)[0].id;
+    });
+  }
+
+  /** Resolves the review threads started by the given comments. Returns how many were resolved. */
+  async resolveReviewThreads(prNumber: number, commentIds: number[]): Promise<number> {
+    const threads: ReviewThread[] = [];
+    let cursor: string | null = null;
+    do {
+      const response: ReviewThreadsResponse = await this.octokit.graphql<ReviewThreadsResponse>(REVIEW_THREADS_QUERY, {
+        owner: this.owner,
+        repo: this.repo,
+        number: prNumber,
+        cursor,
+      });
+      const page = response.repository.pullRequest?.reviewThreads;
+      threads.push(...(page?.nodes ?? []));
+      cursor = page?.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (cursor !== null);
+
+    const toResolve = threads.filter((thread) => {
+      const firstCommentId = thread.comments.nodes[0]?.databaseId ?? null;
+      return !thread.isResolved && firstCommentId !== null && commentIds.includes(firstCommentId);
+    });
+
+    for (const thread of toResolve) {
+      await this.octokit.graphql(RESOLVE_REVIEW_THREAD_MUTATION, { threadId: thread.id });
+    }
+    return toResolve.length;
+  }
+
   private async getPullRequestDetails(): Promise<PullRequestDetails | null> {
     const branch = this.getCurrentBranch();
     if (!branch || branch === 'HEAD') {
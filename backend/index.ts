@@ -1,9 +1,51 @@
 export { Orchestrator, OrchestratorConfig } from './orchestrator.js';
 export { StepParser, Step } from './step-parser.js';
-export { ClaudeRunner, ClaudeRunOptions } from './claude-runner.js';
+export { ClaudeRunner, ClaudeRunOptions, ClaudeRunnerConfig } from './claude-runner.js';
 export { CodexRunner, CodexRunOptions } from './codex-runner.js';
+export { AgentRunner, AgentName, AgentRunOptions, getAgentDisplayName } from './agent-runner.js';
+export { AgentRegistry, ClaudeAgentRunner, CodexAgentRunner, createAgentRegistry } from './agent-registry.js';
+export { CommandAgentRunner, CommandAgentDefinition } from './command-agent-runner.js';
 export { GitHubChecker, GitHubConfig } from './github-checker.js';
-export { PROMPTS } from './prompts.js';
+export { BuildChecker, BuildCheckerType } from './build-checker.js';
+export { GitHubBuildChecker, GitHubBuildCheckerConfig } from './github-build-checker.js';
+export { LocalBuildChecker, LocalBuildCheckerConfig } from './local-build-checker.js';
+export { PROMPTS, PromptName, PromptInstructions } from './prompts.js';
+export { PromptTemplates, PromptTemplateError, PromptValues } from './prompt-templates.js';
+export {
+  StepcatConfig,
+  ConfigError,
+  loadConfigFile,
+  loadEnvConfig,
+  mergeConfigs,
+  parseConfig,
+} from './config.js';
+export { PlanEditor, PlanEdit, PlanEditError } from './plan-editor.js';
+export { StepActions, StepAction, StepActionError } from './step-actions.js';
+export {
+  StepApprovalRequest,
+  StepApprovalDecision,
+  parseApprovalFeedback,
+} from './step-approval.js';
+export {
+  ConsensusReview,
+  ReviewPolicy,
+  mergeReviewResults,
+} from './review-consensus.js';
+export { ReviewWarningPolicy, applyWarningPolicy } from './review-warnings.js';
+export { QuickFixError, applySuggestedPatches } from './quick-fix.js';
+export { ConflictFixError, concludeBaseMerge, startBaseMerge } from './conflict-fix.js';
+export { renderPlanProgress, replaceProgressSection } from './pr-progress.js';
+export { buildIssueComments, formatReviewSummary } from './review-comments.js';
+export { StackRebaseError, rebaseStackBranch } from './stacked-prs.js';
+export { AgentTimelineEntry, TimelineSummary, summarizeTimeline } from './agent-timeline.js';
 export { Database } from './database.js';
-export { Storage, IterationUpdate } from './storage.js';
-export { Plan, DbStep, Iteration, Issue } from './models.js';
+export {
+  ExecutionReport,
+  ReportFormat,
+  buildExecutionReport,
+  formatExecutionReport,
+} from './execution-report.js';
+export { Budgets, BudgetLimits, BudgetMetric, BudgetExceededError } from './budgets.js';
+export { TokenUsage, sumIterationUsage, formatUsage } from './usage.js';
+export { Storage, IterationUpdate, IssueDetails } from './storage.js';
+export { Plan, DbStep, Iteration, Issue, ReviewLog, TimelineEntry, AuditEntry } from './models.js';
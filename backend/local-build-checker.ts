@@ -0,0 +1,164 @@
+import { spawnAgentProcess, terminateAgentProcess } from './agent-process.js';
+import type { BuildChecker, BuildCheckerLog } from './build-checker.js';
+import { GENERIC_BUILD_FAILURE_MESSAGE, truncateOutput } from './build-checker.js';
+
+export const DEFAULT_LOCAL_BUILD_COMMANDS = ['just build', 'just lint', 'just test'];
+
+export interface LocalBuildCheckerConfig {
+  workDir: string;
+  commands?: string[];
+  log: BuildCheckerLog;
+}
+
+interface CommandResult {
+  command: string;
+  exitCode: number | null;
+  output: string;
+  error?: string;
+}
+
+export class LocalBuildChecker implements BuildChecker {
+  private static readonly MAX_BUILD_OUTPUT_CHARS = 8000;
+  private workDir: string;
+  private commands: string[];
+  private log: BuildCheckerLog;
+  private lastTrackedSha: string | null = null;
+  private failuresBySha = new Map<string, CommandResult>();
+
+  constructor(config: LocalBuildCheckerConfig) {
+    this.workDir = config.workDir;
+    this.commands = config.commands && config.commands.length > 0
+      ? config.commands
+      : DEFAULT_LOCAL_BUILD_COMMANDS;
+    this.log = config.log;
+  }
+
+  getName(): string {
+    return 'local build';
+  }
+
+  getCommands(): string[] {
+    return [...this.commands];
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await -- Async for BuildChecker interface consistency
+  async prepare(): Promise<void> {
+    this.log(`Local build commands: ${this.commands.join(', ')}`);
+  }
+
+  async publish(): Promise<void> {
+    // Local builds run against the working tree, nothing to publish
+  }
+
+  async waitForBuild(
+    sha: string,
+    timeoutMinutes: number,
+    attempt: number,
+    maxAttempts: number,
+  ): Promise<boolean> {
+    this.lastTrackedSha = sha;
+    this.failuresBySha.delete(sha);
+
+    this.log(`Running local build for commit ${sha} (attempt ${attempt}/${maxAttempts})`);
+
+    const deadline = Date.now() + timeoutMinutes * 60 * 1000;
+
+    for (const command of this.commands) {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        const result: CommandResult = {
+          command,
+          exitCode: null,
+          output: '',
+          error: `Local build timed out after ${timeoutMinutes} minutes`,
+        };
+        this.failuresBySha.set(sha, result);
+        this.log(`✗ ${result.error}`, 'error');
+        return false;
+      }
+
+      this.log(`$ ${command}`);
+      const result = await this.runCommand(command, remainingMs);
+
+      if (result.error !== undefined || result.exitCode !== 0) {
+        this.failuresBySha.set(sha, result);
+        const reason = result.error ?? `exit code ${result.exitCode}`;
+        this.log(`✗ "${command}" failed (${reason})`, 'error');
+        return false;
+      }
+
+      this.log(`✓ "${command}" passed`, 'success');
+    }
+
+    return true;
+  }
+
+  getLastTrackedSha(): string | null {
+    return this.lastTrackedSha;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await -- Async for BuildChecker interface consistency
+  async extractBuildErrors(sha: string): Promise<string> {
+    const failure = this.failuresBySha.get(sha);
+    if (!failure) {
+      return GENERIC_BUILD_FAILURE_MESSAGE;
+    }
+
+    let message = `Command: ${failure.command}\n`;
+    if (failure.error !== undefined) {
+      message += `Error: ${failure.error}\n`;
+    } else {
+      message += `Exit code: ${failure.exitCode}\n`;
+    }
+    if (failure.output.trim()) {
+      message += `Output:\n${truncateOutput(failure.output.trim(), LocalBuildChecker.MAX_BUILD_OUTPUT_CHARS)}\n`;
+    }
+
+    return message;
+  }
+
+  private runCommand(command: string, timeoutMs: number): Promise<CommandResult> {
+    return new Promise((resolve) => {
+      // In its own process group, so a timeout stops whatever the command started as well
+      const child = spawnAgentProcess('sh', ['-c', command], { cwd: this.workDir });
+      child.stdin.end();
+
+      let output = '';
+      let settled = false;
+      const finish = (result: CommandResult): void => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timeoutId);
+        resolve(result);
+      };
+
+      const timeoutId = setTimeout(() => {
+        terminateAgentProcess(child);
+        finish({
+          command,
+          exitCode: null,
+          output,
+          error: `Command timed out after ${Math.round(timeoutMs / 1000)}s`,
+        });
+      }, timeoutMs);
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        output += chunk.toString();
+      });
+
+      child.stderr.on('data', (chunk: Buffer) => {
+        output += chunk.toString();
+      });
+
+      child.on('error', (error) => {
+        finish({ command, exitCode: null, output, error: error.message });
+      });
+
+      child.on('close', (code) => {
+        finish({ command, exitCode: code, output });
+      });
+    });
+  }
+}
@@ -6,6 +6,62 @@ export interface Migration {
   up: (db: BetterSqlite3.Database) => void;
 }
 
+/**
+ * Changes the values a `CHECK(column IN (...))` constraint allows. SQLite
+ * can't alter a constraint, so the table is rebuilt from its current
+ * definition with the new list, keeping its rows and indexes.
+ */
+const replaceCheckValues = (db: BetterSqlite3.Database, table: string, column: string, values: string[]): void => {
+  const tableRow = db
+    .prepare(`SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`)
+    .get(table) as { sql: string } | undefined;
+  const checkStart = tableRow?.sql.indexOf(`CHECK(${column} IN (`) ?? -1;
+  if (!tableRow || checkStart === -1) {
+    throw new Error(`Table ${table} has no CHECK constraint on ${column}`);
+  }
+  const checkEnd = tableRow.sql.indexOf('))', checkStart) + 2;
+
+  const createTable = (
+    tableRow.sql.slice(0, checkStart) +
+    `CHECK(${column} IN (${values.map((value) => `'${value}'`).join(', ')}))` +
+    tableRow.sql.slice(checkEnd)
+  ).replace(/^CREATE TABLE\s+"?\w+"?/, `CREATE TABLE ${table}_new`);
+  const createIndexes = (db
+    .prepare(`SELECT sql FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL`)
+    .all(table) as Array<{ sql: string }>).map(({ sql }) => `${sql};`);
+  const columns = (db.pragma(`table_info(${table})`) as Array<{ name: string }>).map(({ name }) => name).join(', ');
+
+  const pragmaOptions = { simple: true } as const;
+  const foreignKeysEnabled = db.pragma('foreign_keys', pragmaOptions) === 1;
+
+  db.pragma('foreign_keys = OFF');
+
+  try {
+    db.exec(`
+      BEGIN;
+
+      ${createTable};
+
+      INSERT INTO ${table}_new (${columns}) SELECT ${columns} FROM ${table};
+
+      DROP TABLE ${table};
+
+      ALTER TABLE ${table}_new RENAME TO ${table};
+
+      ${createIndexes.join('\n')}
+
+      COMMIT;
+    `);
+  } catch (error) {
+    db.exec('ROLLBACK;');
+    throw error;
+  } finally {
+    if (foreignKeysEnabled) {
+      db.pragma('foreign_keys = ON');
+    }
+  }
+};
+
 export const migrations: Migration[] = [
   {
     id: 1,
@@ -444,4 +500,384 @@ export const migrations: Migration[] = [
       }
     },
   },
+  {
+    id: 7,
+    name: 'allow_custom_agent_names',
+    up: (db) => {
+      const pragmaOptions = { simple: true } as const;
+      const foreignKeysEnabled = db.pragma('foreign_keys', pragmaOptions) === 1;
+
+      db.pragma('foreign_keys = OFF');
+
+      try {
+        db.exec(`
+          BEGIN;
+
+          CREATE TABLE iterations_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            stepId INTEGER NOT NULL,
+            iterationNumber INTEGER NOT NULL,
+            type TEXT NOT NULL CHECK(type IN ('implementation', 'build_fix', 'review_fix')),
+            commitSha TEXT,
+            claudeLog TEXT,
+            codexLog TEXT,
+            buildStatus TEXT CHECK(buildStatus IN ('pending', 'in_progress', 'passed', 'failed', 'merge_conflict')),
+            reviewStatus TEXT CHECK(reviewStatus IN ('pending', 'in_progress', 'passed', 'failed')),
+            status TEXT NOT NULL CHECK(status IN ('in_progress', 'completed', 'failed', 'aborted')),
+            phase TEXT CHECK(phase IN ('implementation', 'pushing', 'build_check', 'review', 'done')),
+            interruptionReason TEXT,
+            implementationAgent TEXT NOT NULL CHECK(length(implementationAgent) > 0),
+            reviewAgent TEXT CHECK(reviewAgent IS NULL OR length(reviewAgent) > 0),
+            createdAt TEXT NOT NULL,
+            updatedAt TEXT NOT NULL,
+            FOREIGN KEY (stepId) REFERENCES steps(id) ON DELETE CASCADE
+          );
+
+          INSERT INTO iterations_new (
+            id,
+            stepId,
+            iterationNumber,
+            type,
+            commitSha,
+            claudeLog,
+            codexLog,
+            buildStatus,
+            reviewStatus,
+            status,
+            phase,
+            interruptionReason,
+            implementationAgent,
+            reviewAgent,
+            createdAt,
+            updatedAt
+          )
+          SELECT
+            id,
+            stepId,
+            iterationNumber,
+            type,
+            commitSha,
+            claudeLog,
+            codexLog,
+            buildStatus,
+            reviewStatus,
+            status,
+            phase,
+            interruptionReason,
+            implementationAgent,
+            reviewAgent,
+            createdAt,
+            updatedAt
+          FROM iterations;
+
+          DROP TABLE iterations;
+
+          ALTER TABLE iterations_new RENAME TO iterations;
+
+          CREATE INDEX IF NOT EXISTS idx_iterations_stepId ON iterations(stepId);
+
+          COMMIT;
+        `);
+      } catch (error) {
+        db.exec('ROLLBACK;');
+        throw error;
+      } finally {
+        if (foreignKeysEnabled) {
+          db.pragma('foreign_keys = ON');
+        }
+      }
+    },
+  },
+  {
+    id: 8,
+    name: 'add_step_dependencies_and_workspace',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE steps ADD COLUMN dependsOn TEXT NOT NULL DEFAULT '[]';
+        ALTER TABLE steps ADD COLUMN worktreePath TEXT;
+        ALTER TABLE steps ADD COLUMN branch TEXT;
+      `);
+    },
+  },
+  {
+    id: 9,
+    name: 'add_iteration_usage',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE iterations ADD COLUMN inputTokens INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE iterations ADD COLUMN outputTokens INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE iterations ADD COLUMN costUsd REAL NOT NULL DEFAULT 0;
+      `);
+    },
+  },
+  {
+    id: 10,
+    name: 'add_budget_measurements',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE plans ADD COLUMN elapsedMs INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE steps ADD COLUMN elapsedMs INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE iterations ADD COLUMN agentDurationMs INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE iterations ADD COLUMN ciDurationMs INTEGER NOT NULL DEFAULT 0;
+      `);
+    },
+  },
+  {
+    id: 11,
+    name: 'add_skipped_step_status_and_audit_log',
+    up: (db) => {
+      const pragmaOptions = { simple: true } as const;
+      const foreignKeysEnabled = db.pragma('foreign_keys', pragmaOptions) === 1;
+
+      db.pragma('foreign_keys = OFF');
+
+      try {
+        db.exec(`
+          BEGIN;
+
+          CREATE TABLE steps_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            planId INTEGER NOT NULL,
+            stepNumber INTEGER NOT NULL,
+            title TEXT NOT NULL,
+            status TEXT NOT NULL CHECK(status IN ('pending', 'in_progress', 'completed', 'failed', 'skipped')),
+            createdAt TEXT NOT NULL,
+            updatedAt TEXT NOT NULL,
+            dependsOn TEXT NOT NULL DEFAULT '[]',
+            worktreePath TEXT,
+            branch TEXT,
+            elapsedMs INTEGER NOT NULL DEFAULT 0,
+            FOREIGN KEY (planId) REFERENCES plans(id) ON DELETE CASCADE
+          );
+
+          INSERT INTO steps_new (
+            id,
+            planId,
+            stepNumber,
+            title,
+            status,
+            createdAt,
+            updatedAt,
+            dependsOn,
+            worktreePath,
+            branch,
+            elapsedMs
+          )
+          SELECT
+            id,
+            planId,
+            stepNumber,
+            title,
+            status,
+            createdAt,
+            updatedAt,
+            dependsOn,
+            worktreePath,
+            branch,
+            elapsedMs
+          FROM steps;
+
+          DROP TABLE steps;
+
+          ALTER TABLE steps_new RENAME TO steps;
+
+          CREATE INDEX IF NOT EXISTS idx_steps_planId ON steps(planId);
+
+          CREATE TABLE audit_log (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            planId INTEGER NOT NULL,
+            stepNumber INTEGER,
+            action TEXT NOT NULL CHECK(action IN ('skip_step', 'retry_step', 'complete_step')),
+            details TEXT,
+            source TEXT NOT NULL CHECK(source IN ('cli', 'tui')),
+            createdAt TEXT NOT NULL,
+            FOREIGN KEY (planId) REFERENCES plans(id) ON DELETE CASCADE
+          );
+
+          CREATE INDEX IF NOT EXISTS idx_audit_log_planId ON audit_log(planId);
+
+          COMMIT;
+        `);
+      } catch (error) {
+        db.exec('ROLLBACK;');
+        throw error;
+      } finally {
+        if (foreignKeysEnabled) {
+          db.pragma('foreign_keys = ON');
+        }
+      }
+    },
+  },
+  {
+    id: 12,
+    name: 'add_review_logs',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE review_logs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          iterationId INTEGER NOT NULL,
+          agent TEXT NOT NULL,
+          result TEXT NOT NULL CHECK(result IN ('PASS', 'FAIL')),
+          log TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          FOREIGN KEY (iterationId) REFERENCES iterations(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_review_logs_iterationId ON review_logs(iterationId);
+      `);
+    },
+  },
+  {
+    id: 13,
+    name: 'add_deferred_issue_status',
+    up: (db) => {
+      const pragmaOptions = { simple: true } as const;
+      const foreignKeysEnabled = db.pragma('foreign_keys', pragmaOptions) === 1;
+
+      db.pragma('foreign_keys = OFF');
+
+      try {
+        db.exec(`
+          BEGIN;
+
+          CREATE TABLE issues_new (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            iterationId INTEGER NOT NULL,
+            type TEXT NOT NULL CHECK(type IN ('ci_failure', 'codex_review', 'merge_conflict', 'permission_request')),
+            description TEXT NOT NULL,
+            filePath TEXT,
+            lineNumber INTEGER,
+            severity TEXT CHECK(severity IN ('error', 'warning')),
+            status TEXT NOT NULL CHECK(status IN ('open', 'fixed', 'deferred')),
+            createdAt TEXT NOT NULL,
+            resolvedAt TEXT,
+            FOREIGN KEY (iterationId) REFERENCES iterations(id) ON DELETE CASCADE
+          );
+
+          INSERT INTO issues_new (
+            id,
+            iterationId,
+            type,
+            description,
+            filePath,
+            lineNumber,
+            severity,
+            status,
+            createdAt,
+            resolvedAt
+          )
+          SELECT
+            id,
+            iterationId,
+            type,
+            description,
+            filePath,
+            lineNumber,
+            severity,
+            status,
+            createdAt,
+            resolvedAt
+          FROM issues;
+
+          DROP TABLE issues;
+
+          ALTER TABLE issues_new RENAME TO issues;
+
+          CREATE INDEX IF NOT EXISTS idx_issues_iterationId ON issues(iterationId);
+
+          COMMIT;
+        `);
+      } catch (error) {
+        db.exec('ROLLBACK;');
+        throw error;
+      } finally {
+        if (foreignKeysEnabled) {
+          db.pragma('foreign_keys = ON');
+        }
+      }
+    },
+  },
+  {
+    id: 14,
+    name: 'add_issue_review_details',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE issues ADD COLUMN category TEXT CHECK(category IN ('security', 'correctness', 'style', 'tests'));
+        ALTER TABLE issues ADD COLUMN endLineNumber INTEGER;
+        ALTER TABLE issues ADD COLUMN confidence REAL;
+        ALTER TABLE issues ADD COLUMN suggestedPatch TEXT;
+      `);
+    },
+  },
+  {
+    id: 15,
+    name: 'add_quick_fix_iteration_type',
+    up: (db) => {
+      replaceCheckValues(db, 'iterations', 'type', ['implementation', 'build_fix', 'review_fix', 'quick_fix']);
+    },
+  },
+  {
+    id: 16,
+    name: 'add_iteration_agent_session',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE iterations ADD COLUMN agentSessionId TEXT;
+      `);
+    },
+  },
+  {
+    id: 17,
+    name: 'add_iteration_timeline',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE iteration_timeline (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          iterationId INTEGER NOT NULL,
+          kind TEXT NOT NULL CHECK(kind IN ('text', 'tool_use', 'tool_result')),
+          tool TEXT,
+          toolUseId TEXT,
+          content TEXT NOT NULL,
+          isError INTEGER NOT NULL DEFAULT 0,
+          createdAt TEXT NOT NULL,
+          FOREIGN KEY (iterationId) REFERENCES iterations(id) ON DELETE CASCADE
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_iteration_timeline_iterationId ON iteration_timeline(iterationId);
+      `);
+    },
+  },
+  {
+    id: 18,
+    name: 'add_conflict_fix_iteration_type',
+    up: (db) => {
+      replaceCheckValues(db, 'iterations', 'type', ['implementation', 'build_fix', 'review_fix', 'quick_fix', 'conflict_fix']);
+    },
+  },
+  {
+    id: 19,
+    name: 'add_step_synced_sha',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE steps ADD COLUMN syncedSha TEXT;
+      `);
+    },
+  },
+  {
+    id: 20,
+    name: 'add_step_pull_request',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE steps ADD COLUMN prNumber INTEGER;
+      `);
+    },
+  },
+  {
+    id: 21,
+    name: 'add_issue_review_comment',
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE issues ADD COLUMN reviewCommentId INTEGER;
+      `);
+    },
+  },
 ];
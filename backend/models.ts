@@ -1,9 +1,15 @@
+import type { AgentName } from './agent-runner.js';
+import type { AgentTimelineEntry } from './agent-timeline.js';
+import type { ReviewIssueCategory } from './review-parser.js';
+
 export interface Plan {
   id: number;
   planFilePath: string;
   workDir: string;
   owner: string;
   repo: string;
+  /** Wall-clock time spent running this execution, summed across resumes. */
+  elapsedMs: number;
   createdAt: string;
 }
 
@@ -12,7 +18,16 @@ export interface DbStep {
   planId: number;
   stepNumber: number;
   title: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'skipped';
+  dependsOn: number[];
+  worktreePath: string | null;
+  branch: string | null;
+  /** HEAD after the base branch was last merged into the work branch following this step. */
+  syncedSha: string | null;
+  /** Pull request of the step's own branch when steps are stacked as separate pull requests. */
+  prNumber: number | null;
+  /** Wall-clock time spent running this step, summed across resumes. */
+  elapsedMs: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -21,7 +36,7 @@ export interface Iteration {
   id: number;
   stepId: number;
   iterationNumber: number;
-  type: 'implementation' | 'build_fix' | 'review_fix';
+  type: 'implementation' | 'build_fix' | 'review_fix' | 'quick_fix' | 'conflict_fix';
   commitSha: string | null;
   claudeLog: string | null;
   codexLog: string | null;
@@ -30,8 +45,15 @@ export interface Iteration {
   status: 'in_progress' | 'completed' | 'failed' | 'aborted';
   phase: 'implementation' | 'pushing' | 'build_check' | 'review' | 'done' | null;
   interruptionReason: string | null;
-  implementationAgent: 'claude' | 'codex';
-  reviewAgent: 'claude' | 'codex' | null;
+  implementationAgent: AgentName;
+  reviewAgent: AgentName | null;
+  /** Session of the implementation agent, resumed by later fix iterations of the step. */
+  agentSessionId: string | null;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  agentDurationMs: number;
+  ciDurationMs: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -44,7 +66,44 @@ export interface Issue {
   filePath: string | null;
   lineNumber: number | null;
   severity: 'error' | 'warning' | null;
-  status: 'open' | 'fixed';
+  category: ReviewIssueCategory | null;
+  endLineNumber: number | null;
+  /** Reviewer confidence from 0 to 1. */
+  confidence: number | null;
+  /** Unified diff suggested by the reviewer. */
+  suggestedPatch: string | null;
+  /** GitHub review comment that posted the issue on the pull request. */
+  reviewCommentId: number | null;
+  /** Deferred issues are review warnings left as tech debt instead of being fixed. */
+  status: 'open' | 'fixed' | 'deferred';
   createdAt: string;
   resolvedAt: string | null;
 }
+
+/** Output of one review agent for an iteration; consensus reviews store one per reviewer. */
+export interface ReviewLog {
+  id: number;
+  iterationId: number;
+  agent: AgentName;
+  result: 'PASS' | 'FAIL';
+  log: string;
+  createdAt: string;
+}
+
+/** A message, tool call or tool result of the implementation agent, in the order of the iteration's runs. */
+export interface TimelineEntry extends AgentTimelineEntry {
+  id: number;
+  iterationId: number;
+  createdAt: string;
+}
+
+/** A manual intervention in an execution, such as skipping or retrying a step. */
+export interface AuditEntry {
+  id: number;
+  planId: number;
+  stepNumber: number | null;
+  action: 'skip_step' | 'retry_step' | 'complete_step';
+  details: string | null;
+  source: 'cli' | 'tui';
+  createdAt: string;
+}
@@ -1,24 +1,62 @@
-import { execSync } from "child_process";
-import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
-import { dirname, resolve } from "path";
-
+import { appendFileSync, copyFileSync, existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { basename, dirname, isAbsolute, relative, resolve } from "path";
+
+import type { AgentRegistry } from "./agent-registry.js";
+import { createAgentRegistry } from "./agent-registry.js";
+import type { AgentName, AgentRunOptions } from "./agent-runner.js";
+import { getAgentDisplayName } from "./agent-runner.js";
+import type { AgentTimelineEntry } from "./agent-timeline.js";
+import type { Budgets } from "./budgets.js";
+import { BudgetExceededError, findExhaustedBudget, measureSpend } from "./budgets.js";
+import type { BuildChecker, BuildCheckerType } from "./build-checker.js";
+import { GENERIC_BUILD_FAILURE_MESSAGE } from "./build-checker.js";
 import { ClaudeRunner } from "./claude-runner.js";
-import { CodexRunner } from "./codex-runner.js";
+import type { CommandAgentDefinition } from "./command-agent-runner.js";
+import type { BaseMergeOptions } from "./conflict-fix.js";
+import { abortBaseMerge, concludeBaseMerge, startBaseMerge } from "./conflict-fix.js";
 import { Database } from "./database.js";
 import { OrchestratorEventEmitter } from "./events.js";
 import type { OrchestratorEvent } from "./events.js";
+import { describeGitError, git } from "./git.js";
+import { GitHubBuildChecker } from "./github-build-checker.js";
 import { GitHubChecker, MergeConflictError } from "./github-checker.js";
+import { LocalBuildChecker } from "./local-build-checker.js";
 import type { LogLevel } from "./logger.js";
 import { Logger, getLogger } from "./logger.js";
 import type { Plan, DbStep, Iteration, Issue } from "./models.js";
 import type { PermissionRequest } from "./permission-requests.js";
 import { PermissionRequestParser, mergePermissionAllows } from "./permission-requests.js";
-import { PERMISSION_REQUEST_INSTRUCTIONS, PROMPTS } from "./prompts.js";
+import type { StepProgress } from "./pr-progress.js";
+import {
+  ProgressUpdateQueue,
+  planPullRequestTitle,
+  renderPlanProgress,
+  replaceProgressSection,
+  stepPullRequestTitle,
+} from "./pr-progress.js";
+import type { PromptValues } from "./prompt-templates.js";
+import { PROMPT_TEMPLATES_DIR, PromptTemplates } from "./prompt-templates.js";
+import type { PromptInstructions, PromptName } from "./prompts.js";
+import { PERMISSION_REQUEST_INSTRUCTIONS, PROMPTS, appendPromptInstructions } from "./prompts.js";
+import { QUICK_FIX_AGENT, applySuggestedPatches } from "./quick-fix.js";
+import type { IssueComment } from "./review-comments.js";
+import { buildIssueComments, formatReviewSummary } from "./review-comments.js";
+import type { ConsensusReview } from "./review-consensus.js";
+import { formatConsensusLog, mergeReviewResults, usesConsensusReview } from "./review-consensus.js";
+import type { ReviewResult } from "./review-parser.js";
 import { ReviewParser } from "./review-parser.js";
+import type { ReviewWarningPolicy } from "./review-warnings.js";
+import { applyWarningPolicy } from "./review-warnings.js";
+import { checkoutStackBranch, fetchBaseBranch, rebaseStackBranch, stackBranchName } from "./stacked-prs.js";
+import { AgentStalledError } from "./stall-watchdog.js";
+import type { ReviewIssue, StepApprovalDecision } from "./step-approval.js";
+import { formatReviewerNotes, parseApprovalFeedback } from "./step-approval.js";
 import { StepParser } from "./step-parser.js";
 import type { StopController } from "./stop-controller.js";
-import type { Storage } from "./storage.js";
+import type { IssueDetails, Storage } from "./storage.js";
 import type { UIAdapter } from "./ui/ui-adapter.js";
+import type { TokenUsage } from "./usage.js";
+import { getIterationUsage } from "./usage.js";
 
 export interface OrchestratorConfig {
   planFile: string;
@@ -33,77 +71,111 @@ export interface OrchestratorConfig {
   maxIterationsPerStep?: number;
   databasePath?: string;
   storage?: Storage;
-  implementationAgent?: 'claude' | 'codex';
-  reviewAgent?: 'claude' | 'codex';
+  implementationAgent?: AgentName;
+  reviewAgent?: AgentName;
+  agents?: CommandAgentDefinition[];
+  agentRegistry?: AgentRegistry;
   stopController?: StopController;
+  buildChecker?: BuildCheckerType;
+  buildCommands?: string[];
+  /** Maximum number of independent steps to run at once, each in its own git worktree (default: 1). */
+  parallelSteps?: number;
+  /** Claude Code tools allowed in addition to git commands. */
+  allowedTools?: string[];
+  /** Extra instructions appended to the built-in prompts. */
+  promptInstructions?: PromptInstructions;
+  /** Prompt templates; loaded from `.stepcat/prompts/` in the work directory by default. */
+  promptTemplates?: PromptTemplates;
+  /** Step and execution limits; the execution stops cleanly when one is used up. */
+  budgets?: Budgets;
+  /** Pause after a passing review until a human approves the step's diff (needs the TUI). */
+  requireApproval?: boolean;
+  /** Review agents that review the same commit in parallel, and how their verdicts are merged. */
+  consensusReview?: ConsensusReview;
+  /** Whether review warnings fail the review, pass it or are deferred as tech debt (default: block). */
+  reviewWarnings?: ReviewWarningPolicy;
+  /** Apply the reviewer's suggested patches with `git apply` before running a review fix agent (default: false). */
+  quickFixes?: boolean;
+  /** Resume the implementation agent's session in fix iterations instead of starting a fresh one (default: false). */
+  resumeSessions?: boolean;
+  /** Stop an agent that prints nothing and changes no files for this many minutes (default: no stall detection). */
+  stallTimeoutMinutes?: number;
+  /** Ask a stalled implementation agent once to continue its session before failing the iteration (default: false). */
+  stallNudge?: boolean;
+  /** Merge the base branch and let the implementation agent resolve merge conflicts that block the build check (default: false). */
+  resolveConflicts?: boolean;
+  /** Merge the default branch into the work branch after each completed step and re-verify the build (default: false). */
+  syncWithBase?: boolean;
+  /** Give each step its own branch, stacked on the previous step's branch, and its own pull request (default: false). */
+  stackedPrs?: boolean;
+  /** Post each review to the pull request as a GitHub review and resolve its threads once the issues are fixed (default: false). */
+  postReviewComments?: boolean;
 }
 
+/** How long progress events are collected before the pull request description is updated. */
+const PULL_REQUEST_PROGRESS_DEBOUNCE_MS = 5_000;
+
+/** Events after which the pull request description is brought up to date. */
+const PULL_REQUEST_PROGRESS_EVENTS = new Set<OrchestratorEvent["type"]>([
+  "step_start",
+  "step_complete",
+  "iteration_start",
+  "iteration_complete",
+]);
+
 type AgentRunResult = {
   success: boolean;
   commitSha: string | null;
   output?: string;
   workingTreeStatus?: string | null;
+  usage?: TokenUsage;
+  sessionId?: string;
+  timeline?: AgentTimelineEntry[];
+};
+
+type ReviewRunResult = {
+  success: boolean;
+  output: string;
+  usage?: TokenUsage;
 };
 
 type ImplementationAgentStrategy =
   | {
       supportsPermissionRequests: false;
-      run: (prompt: string) => Promise<AgentRunResult>;
+      run: (prompt: string, resumeSessionId?: string) => Promise<AgentRunResult>;
     }
   | {
       supportsPermissionRequests: true;
-      run: (prompt: string) => Promise<AgentRunResult>;
+      run: (prompt: string, resumeSessionId?: string) => Promise<AgentRunResult>;
       runContinue: (prompt: string) => Promise<AgentRunResult>;
     };
 
 type ReviewAgentStrategy =
   | {
       supportsPermissionRequests: false;
-      run: (prompt: string) => Promise<{ success: boolean; output: string }>;
+      run: (prompt: string) => Promise<ReviewRunResult>;
     }
   | {
       supportsPermissionRequests: true;
-      run: (prompt: string) => Promise<{ success: boolean; output: string }>;
-      runContinue: (prompt: string) => Promise<{ success: boolean; output?: string }>;
+      run: (prompt: string) => Promise<ReviewRunResult>;
+      runContinue: (prompt: string) => Promise<{ success: boolean; output?: string; usage?: TokenUsage }>;
     };
 
 type PermissionHandlingResult = "applied" | "declined" | "noop";
 
-type CheckRunOutput = {
-  title?: string | null;
-  summary?: string | null;
-  text?: string | null;
-};
-
-type CheckRunSummary = {
-  id: number;
-  name: string;
-  status?: string | null;
-  conclusion?: string | null;
-  output?: CheckRunOutput | null;
-  details_url?: string | null;
-};
-
-type CheckRunAnnotation = {
-  path: string;
-  start_line?: number | null;
-  end_line?: number | null;
-  annotation_level?: string | null;
-  message: string;
-  title?: string | null;
-  raw_details?: string | null;
+type StepContext = {
+  workDir: string;
+  branch: string | null;
+  githubChecker: GitHubChecker;
+  buildChecker: BuildChecker;
 };
 
-
 export class Orchestrator {
   private static readonly MAX_PERMISSION_REQUEST_ATTEMPTS = 3;
-  private static readonly MAX_BUILD_OUTPUT_CHARS = 8000;
-  private static readonly MAX_ANNOTATIONS = 20;
-  private static readonly MAX_ANNOTATION_CHARS = 500;
   private parser: StepParser;
   private claudeRunner: ClaudeRunner;
-  private codexRunner: CodexRunner;
   private githubChecker: GitHubChecker;
+  private buildChecker: BuildChecker;
   private storage: Storage;
   private storageOwned: boolean;
   private workDir: string;
@@ -117,9 +189,38 @@ export class Orchestrator {
   private maxIterationsPerStep: number;
   private plan?: Plan;
   private planContent: string;
-  private implementationAgent: 'claude' | 'codex';
-  private reviewAgent: 'claude' | 'codex';
+  private implementationAgent: AgentName;
+  private reviewAgent: AgentName;
+  private agentRegistry: AgentRegistry;
   private stopController?: StopController;
+  private buildCheckerType: BuildCheckerType;
+  private buildCommands?: string[];
+  private githubToken?: string;
+  private parallelSteps: number;
+  private promptInstructions: PromptInstructions;
+  private promptTemplates: PromptTemplates;
+  private budgets: Budgets;
+  private requireApproval: boolean;
+  private consensusReview?: ConsensusReview;
+  private reviewWarnings: ReviewWarningPolicy;
+  private quickFixes: boolean;
+  private resumeSessions: boolean;
+  private stallTimeoutMinutes?: number;
+  private stallNudge: boolean;
+  private resolveConflicts: boolean;
+  private syncWithBase: boolean;
+  private stackedPrs: boolean;
+  private postReviewComments: boolean;
+  /** Steps whose stacked pull request has been merged, as of the last restack. */
+  private mergedStackSteps = new Set<number>();
+  /** Pull request of the work branch, once found; stacked pull requests are stored with their steps. */
+  private pullRequestNumber: number | null = null;
+  private pullRequestProgress: ProgressUpdateQueue;
+  /** Title and progress section last written to each pull request, by pull request number. */
+  private renderedProgress = new Map<number, string>();
+  private approvalQueue: Promise<unknown> = Promise.resolve();
+  private executionClockCheckpoint: number | null = null;
+  private stepClockCheckpoints = new Map<number, number>();
 
   constructor(config: OrchestratorConfig) {
     this.workDir = config.workDir;
@@ -129,23 +230,69 @@ export class Orchestrator {
     this.parser = new StepParser(config.planFile);
     this.planFile = config.planFile;
     this.planContent = this.parser.getContent();
-    this.claudeRunner = new ClaudeRunner();
-    this.codexRunner = new CodexRunner();
+    this.claudeRunner = new ClaudeRunner({ allowedTools: config.allowedTools });
     this.buildTimeoutMinutes = config.buildTimeoutMinutes ?? 30;
     this.agentTimeoutMinutes = config.agentTimeoutMinutes ?? 30;
     this.eventEmitter = config.eventEmitter ?? new OrchestratorEventEmitter();
     this.uiAdapters = config.uiAdapters ?? [];
+    this.pullRequestProgress = new ProgressUpdateQueue({
+      update: () => this.syncPullRequestProgress(),
+      onError: (error) =>
+        this.log(`Could not update the pull request description: ${error instanceof Error ? error.message : String(error)}`, "warn"),
+      debounceMs: PULL_REQUEST_PROGRESS_DEBOUNCE_MS,
+    });
     this.silent = config.silent ?? false;
     this.executionId = config.executionId;
     this.maxIterationsPerStep = config.maxIterationsPerStep ?? 3;
     this.implementationAgent = config.implementationAgent ?? 'claude';
     this.reviewAgent = config.reviewAgent ?? 'codex';
+    this.agentRegistry = config.agentRegistry ?? createAgentRegistry(config.agents, {
+      allowedTools: config.allowedTools,
+    });
+    // Fail fast on unknown agents instead of after the first step has started
+    this.agentRegistry.get(this.implementationAgent);
+    this.agentRegistry.get(this.reviewAgent);
     this.stopController = config.stopController;
+    this.promptInstructions = config.promptInstructions ?? {};
+    this.promptTemplates = config.promptTemplates ?? PromptTemplates.load(config.workDir);
+    this.budgets = config.budgets ?? {};
+    this.requireApproval = config.requireApproval ?? false;
+    if (this.requireApproval && !this.uiAdapters.some((adapter) => typeof adapter.requestStepApproval === "function")) {
+      throw new Error("Step approval requires a UI that can ask for it; use the TUI (--ui tui).");
+    }
+    this.consensusReview = config.consensusReview;
+    this.reviewWarnings = config.reviewWarnings ?? 'block';
+    this.quickFixes = config.quickFixes ?? false;
+    this.resumeSessions = config.resumeSessions ?? false;
+    this.stallTimeoutMinutes = config.stallTimeoutMinutes;
+    this.stallNudge = config.stallNudge ?? false;
+    this.resolveConflicts = config.resolveConflicts ?? false;
+    this.syncWithBase = config.syncWithBase ?? false;
+    this.consensusReview?.agents.forEach((agent) => this.agentRegistry.get(agent));
 
     this.storage = config.storage ?? new Database(config.workDir, config.databasePath);
     this.storageOwned = !config.storage;
 
-    const repoInfo = GitHubChecker.parseRepoInfo(config.workDir);
+    const buildCheckerType = config.buildChecker ?? 'github';
+    const repoInfo = buildCheckerType === 'local'
+      ? this.resolveLocalRepoInfo(config.workDir)
+      : GitHubChecker.parseRepoInfo(config.workDir);
+
+    this.buildCheckerType = buildCheckerType;
+    this.buildCommands = config.buildCommands;
+    this.githubToken = config.githubToken;
+    this.parallelSteps = Math.max(1, config.parallelSteps ?? 1);
+    this.stackedPrs = config.stackedPrs ?? false;
+    if (this.stackedPrs && (buildCheckerType === 'local' || this.parallelSteps > 1)) {
+      throw new Error("Stacked pull requests need GitHub build checks and can't be combined with parallel steps.");
+    }
+    this.postReviewComments = config.postReviewComments ?? false;
+    if (this.postReviewComments && buildCheckerType === 'local') {
+      throw new Error("Review comments are posted to the pull request and need GitHub build checks.");
+    }
+    if (this.syncWithBase && (buildCheckerType === 'local' || this.parallelSteps > 1)) {
+      throw new Error("Base sync merges the default branch from GitHub and can't be combined with local build checks or parallel steps.");
+    }
 
     this.githubChecker = new GitHubChecker({
       owner: repoInfo.owner,
@@ -154,6 +301,40 @@ export class Orchestrator {
       workDir: config.workDir,
       eventEmitter: this.eventEmitter,
     });
+    this.buildChecker = this.createBuildChecker(this.githubChecker, config.workDir);
+  }
+
+  private createBuildChecker(
+    githubChecker: GitHubChecker,
+    workDir: string,
+    baseBranch?: string,
+  ): BuildChecker {
+    const buildCheckerLog = (message: string, level?: "info" | "warn" | "error" | "success") =>
+      this.log(message, level);
+
+    if (this.buildCheckerType === 'local') {
+      return new LocalBuildChecker({
+        workDir,
+        commands: this.buildCommands,
+        log: buildCheckerLog,
+      });
+    }
+
+    return new GitHubBuildChecker({
+      githubChecker,
+      workDir,
+      log: buildCheckerLog,
+      baseBranch,
+    });
+  }
+
+  private resolveLocalRepoInfo(workDir: string): { owner: string; repo: string } {
+    // Local builds don't need a GitHub remote; fall back to the directory name
+    try {
+      return GitHubChecker.parseRepoInfo(workDir);
+    } catch {
+      return { owner: 'local', repo: basename(resolve(workDir)) };
+    }
   }
 
   getEventEmitter(): OrchestratorEventEmitter {
@@ -165,6 +346,9 @@ export class Orchestrator {
     for (const adapter of this.uiAdapters) {
       adapter.onEvent(event);
     }
+    if (PULL_REQUEST_PROGRESS_EVENTS.has(event.type)) {
+      this.pullRequestProgress.schedule();
+    }
   }
 
   private log(
@@ -297,7 +481,12 @@ export class Orchestrator {
 
     this.log(message, "warn", stepNumber);
 
-    if (!process.stdin.isTTY) {
+    const adapter = this.uiAdapters.find(
+      (candidate) => typeof candidate.requestPermissionApproval === "function",
+    );
+    const interactive = adapter?.isInteractive?.() ?? true;
+
+    if (interactive && !process.stdin.isTTY) {
       this.log(
         "Cannot prompt for permission approval without a TTY. " +
           "Run in an interactive terminal to approve permissions.",
@@ -307,17 +496,87 @@ export class Orchestrator {
       throw new Error("Permission approval requires a TTY.");
     }
 
-    const adapter = this.uiAdapters.find(
-      (candidate) => typeof candidate.requestPermissionApproval === "function",
-    );
-
     if (!adapter?.requestPermissionApproval) {
-      throw new Error("Permission approval requires the TUI.");
+      throw new Error("Permission approval requires the TUI or a headless UI with a permission policy.");
     }
 
     return adapter.requestPermissionApproval({ permissions, reason }, stepNumber);
   }
 
+  private getStepDiff(stepId: number, workDir: string): { commits: string[]; diff: string } {
+    const commits = this.storage.getIterations(stepId)
+      .filter((iteration) => iteration.commitSha !== null && iteration.status !== 'aborted')
+      .map((iteration) => iteration.commitSha as string);
+    const first = commits.at(0);
+    const last = commits.at(-1);
+    if (!first || !last) {
+      return { commits, diff: '' };
+    }
+
+    try {
+      return { commits, diff: git(workDir, ['diff', `${first}^`, last]) };
+    } catch {
+      // The first commit of the step may be the root commit, which has no parent
+      try {
+        return { commits, diff: git(workDir, ['show', '--format=', ...commits]) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { commits, diff: `Could not read the diff of the step: ${message}` };
+      }
+    }
+  }
+
+  /**
+   * Shows the step's diff to a human once the automated review has passed.
+   * Approvals are asked one at a time, so parallel steps queue up.
+   */
+  private async requestStepApproval(
+    step: DbStep,
+    iteration: Iteration,
+    reviewIssues: ReviewIssue[],
+    workDir: string,
+  ): Promise<StepApprovalDecision> {
+    const adapter = this.uiAdapters.find(
+      (candidate) => typeof candidate.requestStepApproval === "function",
+    );
+    if (!adapter?.requestStepApproval) {
+      throw new Error("Step approval requires the TUI.");
+    }
+    const requestApproval = adapter.requestStepApproval.bind(adapter);
+
+    const decision = this.approvalQueue.then(() => {
+      const { commits, diff } = this.getStepDiff(step.id, workDir);
+      this.log(`Waiting for approval of Step ${step.stepNumber}`, "info", step.stepNumber);
+      this.emitEvent({
+        type: "step_approval",
+        timestamp: Date.now(),
+        stepNumber: step.stepNumber,
+        status: "waiting",
+        iterationId: iteration.id,
+      });
+      return requestApproval({
+        stepNumber: step.stepNumber,
+        stepTitle: step.title,
+        commits,
+        diff,
+        reviewerNotes: formatReviewerNotes(reviewIssues),
+      });
+    });
+    this.approvalQueue = decision.catch(() => undefined);
+    const result = await decision;
+
+    this.emitEvent({
+      type: "step_approval",
+      timestamp: Date.now(),
+      stepNumber: step.stepNumber,
+      status: result.approved ? "approved" : "rejected",
+      iterationId: iteration.id,
+      feedback: result.approved ? undefined : result.feedback,
+    });
+
+    return result;
+  }
+
   private loadSettingsLocal(settingsPath: string): Record<string, unknown> {
     if (!existsSync(settingsPath)) {
       return {};
@@ -352,8 +611,9 @@ export class Orchestrator {
   private applyPermissionUpdate(
     permissionsToAdd: string[],
     stepNumber: number,
+    workDir: string,
   ): { settingsPath: string; added: string[] } {
-    const settingsPath = resolve(this.workDir, ".claude", "settings.local.json");
+    const settingsPath = resolve(workDir, ".claude", "settings.local.json");
     const currentSettings = this.loadSettingsLocal(settingsPath);
     const merged = mergePermissionAllows(currentSettings, permissionsToAdd);
 
@@ -380,6 +640,7 @@ export class Orchestrator {
     iteration: Iteration,
     stepNumber: number,
     request: PermissionRequest,
+    workDir: string,
   ): Promise<PermissionHandlingResult> {
     const description = this.formatPermissionRequestDescription(request);
     const issue = this.storage.createIssue(
@@ -412,7 +673,7 @@ export class Orchestrator {
       return "declined";
     }
 
-    const applied = this.applyPermissionUpdate(request.permissions, stepNumber);
+    const applied = this.applyPermissionUpdate(request.permissions, stepNumber, workDir);
     if (applied.added.length > 0) {
       this.storage.updateIssueStatus(issue.id, "fixed", new Date().toISOString());
       this.emitEvent({
@@ -436,6 +697,16 @@ export class Orchestrator {
     ].join("\n");
   }
 
+  private buildStallNudgePrompt(stepNumber: number): string {
+    return [
+      `You stopped making progress on Step ${stepNumber}: no output and no file changes for a while.`,
+      "If a command is hanging, do not run it again; work around it.",
+      "Please continue the previous task from where you left off and create a commit when you are done.",
+      "Do NOT use git commit --amend - create a NEW commit.",
+      "Do NOT push to remote - the orchestrator will handle pushing.",
+    ].join("\n");
+  }
+
   private buildReviewContinuePrompt(stepNumber: number): string {
     return [
       `Permissions were updated while reviewing Step ${stepNumber}.`,
@@ -445,104 +716,99 @@ export class Orchestrator {
     ].join("\n");
   }
 
-  private getImplementationStrategy(): ImplementationAgentStrategy {
-    if (this.implementationAgent === 'claude') {
+  /**
+   * The plan file as seen from `workDir`. Agents in a worktree get the copy in
+   * the worktree, unless the plan lies outside the repository or is untracked.
+   */
+  private getPlanFilePath(workDir: string): string {
+    const planPath = relative(this.workDir, resolve(this.workDir, this.planFile));
+    if (workDir === this.workDir || planPath.startsWith("..") || isAbsolute(planPath)) {
+      return this.planFile;
+    }
+    const worktreePlanFile = resolve(workDir, planPath);
+    return existsSync(worktreePlanFile) ? worktreePlanFile : this.planFile;
+  }
+
+  private buildPrompt(
+    name: PromptName,
+    defaultPrompt: string,
+    step: DbStep,
+    workDir: string,
+    values: PromptValues = {},
+  ): string {
+    const prompt = this.promptTemplates.render(name, defaultPrompt, {
+      stepNumber: step.stepNumber,
+      stepTitle: step.title,
+      planFile: this.getPlanFilePath(workDir),
+      ...values,
+    });
+    return appendPromptInstructions(prompt, this.promptInstructions[name]);
+  }
+
+  private getAgentRunOptions(
+    prompt: string,
+    workDir: string,
+    run: Pick<AgentRunOptions, 'iterationId' | 'resumeSessionId'> = {},
+  ): AgentRunOptions {
+    return {
+      workDir,
+      prompt,
+      timeoutMinutes: this.agentTimeoutMinutes,
+      stallTimeoutMinutes: this.stallTimeoutMinutes,
+      eventEmitter: this.eventEmitter,
+      ...run,
+    };
+  }
+
+  private getImplementationStrategy(workDir: string, iterationId?: number): ImplementationAgentStrategy {
+    const agent = this.agentRegistry.get(this.implementationAgent);
+
+    if (agent.continueSession) {
+      const continueSession = agent.continueSession.bind(agent);
       return {
         supportsPermissionRequests: true,
-        run: (prompt: string) => this.claudeRunner.run({
-          workDir: this.workDir,
-          prompt,
-          timeoutMinutes: this.agentTimeoutMinutes,
-          captureOutput: true,
-          eventEmitter: this.eventEmitter,
-        }),
-        runContinue: (prompt: string) => this.claudeRunner.runContinue({
-          workDir: this.workDir,
-          prompt,
-          timeoutMinutes: this.agentTimeoutMinutes,
-          captureOutput: true,
-          eventEmitter: this.eventEmitter,
-        }),
+        run: (prompt: string, resumeSessionId?: string) =>
+          agent.implement(this.getAgentRunOptions(prompt, workDir, { iterationId, resumeSessionId })),
+        runContinue: (prompt: string) => continueSession(this.getAgentRunOptions(prompt, workDir, { iterationId })),
       };
     }
 
     return {
       supportsPermissionRequests: false,
-      run: async (prompt: string) => {
-        const result = await this.codexRunner.run({
-          workDir: this.workDir,
-          prompt,
-          timeoutMinutes: this.agentTimeoutMinutes,
-          expectCommit: true,
-          eventEmitter: this.eventEmitter,
-        });
-
-        return {
-          success: result.success,
-          commitSha: result.commitSha ?? null,
-          output: result.output,
-        };
-      },
+      run: (prompt: string, resumeSessionId?: string) =>
+        agent.implement(this.getAgentRunOptions(prompt, workDir, { iterationId, resumeSessionId })),
     };
   }
 
-  private getReviewStrategy(): ReviewAgentStrategy {
-    if (this.reviewAgent === 'codex') {
-      return {
-        supportsPermissionRequests: false,
-        run: async (prompt: string) => {
-          const result = await this.codexRunner.run({
-            workDir: this.workDir,
-            prompt,
-            timeoutMinutes: this.agentTimeoutMinutes,
-            eventEmitter: this.eventEmitter,
-          });
+  private getReviewStrategy(
+    workDir: string,
+    agentName: AgentName = this.reviewAgent,
+    iterationId?: number,
+  ): ReviewAgentStrategy {
+    const agent = this.agentRegistry.get(agentName);
 
+    if (agent.continueSession) {
+      const continueSession = agent.continueSession.bind(agent);
+      return {
+        supportsPermissionRequests: true,
+        run: (prompt: string) => {
+          const promptWithPermissions = `${prompt}\n\n${PERMISSION_REQUEST_INSTRUCTIONS.trim()}`;
+          return agent.review(this.getAgentRunOptions(promptWithPermissions, workDir, { iterationId }));
+        },
+        runContinue: async (prompt: string) => {
+          const result = await continueSession(this.getAgentRunOptions(prompt, workDir, { iterationId }));
           return {
             success: result.success,
             output: result.output,
+            usage: result.usage,
           };
         },
       };
     }
 
     return {
-      supportsPermissionRequests: true,
-      run: async (prompt: string) => {
-        const promptWithPermissions = `${prompt}\n\n${PERMISSION_REQUEST_INSTRUCTIONS.trim()}`;
-        const result = await this.claudeRunner.run({
-          workDir: this.workDir,
-          prompt: promptWithPermissions,
-          timeoutMinutes: this.agentTimeoutMinutes,
-          captureOutput: true,
-          eventEmitter: this.eventEmitter,
-        });
-
-        const output = result.output;
-
-        if (!output) {
-          throw new Error('Claude Code did not produce any review output');
-        }
-
-        return {
-          success: result.success,
-          output,
-        };
-      },
-      runContinue: async (prompt: string) => {
-        const result = await this.claudeRunner.runContinue({
-          workDir: this.workDir,
-          prompt,
-          timeoutMinutes: this.agentTimeoutMinutes,
-          captureOutput: true,
-          eventEmitter: this.eventEmitter,
-        });
-
-        return {
-          success: result.success,
-          output: result.output,
-        };
-      },
+      supportsPermissionRequests: false,
+      run: (prompt: string) => agent.review(this.getAgentRunOptions(prompt, workDir, { iterationId })),
     };
   }
 
@@ -550,9 +816,10 @@ export class Orchestrator {
     iteration: Iteration,
     stepNumber: number,
     prompt: string,
+    workDir: string,
   ): Promise<AgentRunResult> {
-    const strategy = this.getImplementationStrategy();
-    const initialResult = await strategy.run(prompt);
+    const strategy = this.getImplementationStrategy(workDir, iteration.id);
+    const initialResult = await this.runImplementationAgentSession(iteration, stepNumber, strategy, prompt);
 
     if (!strategy.supportsPermissionRequests) {
       return initialResult;
@@ -573,7 +840,7 @@ export class Orchestrator {
         };
       }
 
-      const outcome = await this.handlePermissionRequest(iteration, stepNumber, request);
+      const outcome = await this.handlePermissionRequest(iteration, stepNumber, request, workDir);
       if (outcome !== "applied") {
         const failureLog = this.buildAgentLog(combinedOutput, currentResult.workingTreeStatus);
         this.storage.updateIteration(iteration.id, {
@@ -583,9 +850,17 @@ export class Orchestrator {
         throw new Error(this.buildPermissionRequestError(outcome));
       }
 
-      const continueResult = await strategy.runContinue(
-        this.buildPermissionContinuePrompt(stepNumber),
-      );
+      let continueResult: AgentRunResult;
+      try {
+        continueResult = await this.trackAgentRun(iteration, () => strategy.runContinue(
+          this.buildPermissionContinuePrompt(stepNumber),
+        ));
+      } catch (error) {
+        if (!(error instanceof AgentStalledError)) {
+          throw error;
+        }
+        continueResult = await this.recoverStalledAgent(iteration, stepNumber, strategy, error);
+      }
 
       if (!continueResult.success) {
         const failureLog = this.buildAgentLog(combinedOutput, currentResult.workingTreeStatus);
@@ -603,6 +878,7 @@ export class Orchestrator {
           : continueResult.output;
       }
 
+      this.recordAgentSession(iteration, continueResult.sessionId);
       currentResult = {
         success: continueResult.success,
         commitSha: continueResult.commitSha ?? null,
@@ -617,13 +893,111 @@ export class Orchestrator {
     );
   }
 
+  /**
+   * Runs the implementation agent, resuming the step's previous session in fix
+   * iterations when session resume is on. A session that can't be resumed is
+   * replaced by a fresh one; a stalled agent is nudged or fails the iteration.
+   */
+  private async runImplementationAgentSession(
+    iteration: Iteration,
+    stepNumber: number,
+    strategy: ImplementationAgentStrategy,
+    prompt: string,
+  ): Promise<AgentRunResult> {
+    const resumeSessionId = this.findResumableSession(iteration);
+    let result: AgentRunResult | undefined;
+
+    try {
+      if (resumeSessionId) {
+        this.log(`Resuming agent session ${resumeSessionId}`, "info", stepNumber);
+        try {
+          result = await this.trackAgentRun(iteration, () => strategy.run(prompt, resumeSessionId));
+        } catch (error) {
+          if (error instanceof AgentStalledError) {
+            throw error;
+          }
+          const message = error instanceof Error ? error.message : String(error);
+          this.log(`⚠ Could not resume agent session ${resumeSessionId}: ${message}; starting a fresh session`, "warn", stepNumber);
+        }
+      }
+
+      result ??= await this.trackAgentRun(iteration, () => strategy.run(prompt));
+    } catch (error) {
+      if (!(error instanceof AgentStalledError)) {
+        throw error;
+      }
+      result = await this.recoverStalledAgent(iteration, stepNumber, strategy, error);
+    }
+
+    this.recordAgentSession(iteration, result.sessionId);
+    return result;
+  }
+
+  /**
+   * Asks a stalled agent once to continue its session when stall nudges are
+   * on. If that is off, not supported by the agent, or the agent stalls again,
+   * the iteration fails with the stall as its interruption reason.
+   */
+  private async recoverStalledAgent(
+    iteration: Iteration,
+    stepNumber: number,
+    strategy: ImplementationAgentStrategy,
+    stall: AgentStalledError,
+  ): Promise<AgentRunResult> {
+    this.log(`⚠ ${stall.message}`, "warn", stepNumber);
+    let error = stall;
+
+    if (this.stallNudge && strategy.supportsPermissionRequests) {
+      this.log("Nudging the agent to continue its session", "info", stepNumber);
+      try {
+        return await this.trackAgentRun(iteration, () => strategy.runContinue(this.buildStallNudgePrompt(stepNumber)));
+      } catch (nudgeError) {
+        if (!(nudgeError instanceof AgentStalledError)) {
+          throw nudgeError;
+        }
+        this.log(`⚠ ${nudgeError.message} after the nudge`, "warn", stepNumber);
+        error = nudgeError;
+      }
+    }
+
+    this.storage.updateIteration(iteration.id, {
+      status: "failed",
+      interruptionReason: error.message,
+    });
+    throw error;
+  }
+
+  /** The latest session of the same implementation agent in an earlier iteration of the step. */
+  private findResumableSession(iteration: Iteration): string | undefined {
+    if (!this.resumeSessions || iteration.type === 'implementation') {
+      return undefined;
+    }
+
+    const previous = this.storage.getIterations(iteration.stepId)
+      .filter((candidate) =>
+        candidate.id !== iteration.id
+        && candidate.status !== 'aborted'
+        && candidate.implementationAgent === iteration.implementationAgent
+        && candidate.agentSessionId !== null)
+      .pop();
+    return previous?.agentSessionId ?? undefined;
+  }
+
+  private recordAgentSession(iteration: Iteration, sessionId: string | undefined): void {
+    if (sessionId) {
+      this.storage.updateIteration(iteration.id, { agentSessionId: sessionId });
+    }
+  }
+
   private async runReviewAgentWithPermissions(
     iteration: Iteration,
     stepNumber: number,
     prompt: string,
-  ): Promise<{ success: boolean; output: string }> {
-    const strategy = this.getReviewStrategy();
-    let reviewRun = await strategy.run(prompt);
+    workDir: string,
+    agent: AgentName = this.reviewAgent,
+  ): Promise<ReviewRunResult> {
+    const strategy = this.getReviewStrategy(workDir, agent, iteration.id);
+    let reviewRun = await this.trackAgentRun(iteration, () => strategy.run(prompt));
 
     if (!strategy.supportsPermissionRequests) {
       return reviewRun;
@@ -642,14 +1016,14 @@ export class Orchestrator {
         };
       }
 
-      const outcome = await this.handlePermissionRequest(iteration, stepNumber, request);
+      const outcome = await this.handlePermissionRequest(iteration, stepNumber, request, workDir);
       if (outcome !== "applied") {
         throw new Error(this.buildPermissionRequestError(outcome));
       }
 
-      const continueResult = await strategy.runContinue(
+      const continueResult = await this.trackAgentRun(iteration, () => strategy.runContinue(
         this.buildReviewContinuePrompt(stepNumber),
-      );
+      ));
 
       if (!continueResult.success) {
         throw new Error("Claude Code --continue failed while resuming the review.");
@@ -673,6 +1047,108 @@ export class Orchestrator {
     );
   }
 
+  private getIssueDetails(issue: ReviewIssue): IssueDetails {
+    return {
+      category: issue.category,
+      endLineNumber: issue.endLine,
+      confidence: issue.confidence,
+      suggestedPatch: issue.patch,
+    };
+  }
+
+  /** Runs an agent and records its usage and running time on the iteration. */
+  private async trackAgentRun<T extends { usage?: TokenUsage; timeline?: AgentTimelineEntry[] }>(
+    iteration: Iteration,
+    run: () => Promise<T>,
+  ): Promise<T> {
+    const startedAt = Date.now();
+    try {
+      const result = await run();
+      if (result.usage) {
+        this.storage.addIterationUsage(iteration.id, result.usage);
+      }
+      if (result.timeline?.length) {
+        this.storage.addTimelineEntries(iteration.id, result.timeline);
+      }
+      return result;
+    } finally {
+      this.storage.addIterationTime(iteration.id, 'agent', Date.now() - startedAt);
+    }
+  }
+
+  /** Adds the wall-clock time since the last checkpoint to the execution and, if given, the step. */
+  private recordElapsedTime(stepId?: number): void {
+    const now = Date.now();
+    if (this.plan && this.executionClockCheckpoint !== null) {
+      this.storage.addPlanElapsedTime(this.plan.id, now - this.executionClockCheckpoint);
+      this.executionClockCheckpoint = now;
+    }
+
+    const stepCheckpoint = stepId !== undefined ? this.stepClockCheckpoints.get(stepId) : undefined;
+    if (stepId !== undefined && stepCheckpoint !== undefined) {
+      this.storage.addStepElapsedTime(stepId, now - stepCheckpoint);
+      this.stepClockCheckpoints.set(stepId, now);
+    }
+  }
+
+  /**
+   * Stops the step before more work starts once a step or execution budget
+   * is used up. The latest iteration records why, and the step stays in
+   * progress so that it can be resumed with a higher limit.
+   */
+  private checkBudgets(step: DbStep): void {
+    if (!this.plan) {
+      throw new Error("Plan not initialized");
+    }
+
+    this.recordElapsedTime(step.id);
+
+    if (!this.budgets.step && !this.budgets.execution) {
+      return;
+    }
+
+    const stepIterations = this.storage.getIterations(step.id);
+    const storedStep = this.storage.getSteps(this.plan.id).find((candidate) => candidate.id === step.id);
+    let error: BudgetExceededError | null = null;
+
+    const stepBudget = findExhaustedBudget(
+      this.budgets.step,
+      measureSpend(stepIterations, storedStep?.elapsedMs ?? 0),
+    );
+    if (stepBudget) {
+      error = new BudgetExceededError('step', stepBudget.metric, stepBudget.limit, stepBudget.spent, step.stepNumber);
+    } else {
+      const executionBudget = findExhaustedBudget(
+        this.budgets.execution,
+        measureSpend(
+          this.storage.getIterationsForPlan(this.plan.id),
+          this.storage.getPlan(this.plan.id)?.elapsedMs ?? 0,
+        ),
+      );
+      if (executionBudget) {
+        error = new BudgetExceededError('execution', executionBudget.metric, executionBudget.limit, executionBudget.spent);
+      }
+    }
+
+    if (!error) {
+      return;
+    }
+
+    const latestIteration = stepIterations.at(-1);
+    if (latestIteration) {
+      this.storage.updateIteration(latestIteration.id, { interruptionReason: error.message });
+    }
+    this.log(`⚠ ${error.message}`, "warn", step.stepNumber);
+    throw error;
+  }
+
+  private getIterationUsageTotals(iteration: Iteration): TokenUsage {
+    const stored = this.storage
+      .getIterations(iteration.stepId)
+      .find((candidate) => candidate.id === iteration.id);
+    return getIterationUsage(stored ?? iteration);
+  }
+
   private logWorkingTreeStatusAfterAgent(
     workingTreeStatus: string | null | undefined,
     stepNumber: number,
@@ -706,8 +1182,10 @@ export class Orchestrator {
     );
   }
 
-  private getAgentDisplayName(agent: 'claude' | 'codex'): string {
-    return agent === 'claude' ? 'Claude Code' : 'Codex';
+  private getAgentDisplayName(agent: AgentName): string {
+    return this.agentRegistry.has(agent)
+      ? this.agentRegistry.get(agent).getDisplayName()
+      : getAgentDisplayName(agent);
   }
 
   private handleMaxIterationsExceeded(step: DbStep): never {
@@ -729,14 +1207,14 @@ export class Orchestrator {
     output?: string;
     workingTreeStatus?: string | null;
   }> {
-    const strategy = this.getImplementationStrategy();
+    const strategy = this.getImplementationStrategy(this.workDir);
     return strategy.run(prompt);
   }
 
   private async runReviewAgent(
     prompt: string,
   ): Promise<{ success: boolean; output: string }> {
-    const strategy = this.getReviewStrategy();
+    const strategy = this.getReviewStrategy(this.workDir);
     return strategy.run(prompt);
   }
 
@@ -775,10 +1253,7 @@ export class Orchestrator {
 
   private tryGetHeadCommit(): string | null {
     try {
-      return execSync("git rev-parse HEAD", {
-        cwd: this.workDir,
-        encoding: "utf-8",
-      }).trim();
+      return git(this.workDir, ['rev-parse', 'HEAD']);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.log(`Failed to read HEAD commit in workDir "${this.workDir}": ${message}`, "warn");
@@ -856,6 +1331,7 @@ export class Orchestrator {
           iterationNumber: latestIteration.iterationNumber,
           commitSha: currentHead,
           status: 'completed',
+          usage: this.getIterationUsageTotals(latestIteration),
         });
 
         // Only recover one iteration (the current step)
@@ -864,6 +1340,11 @@ export class Orchestrator {
     }
   }
 
+  /**
+   * Iterations that count toward maxIterationsPerStep. Quick fixes and conflict
+   * fixes count like any other iteration that committed, so a reviewer that
+   * keeps suggesting patches can't keep a step going forever.
+   */
   private countIterationsWithCommits(stepId: number): number {
     const iterations = this.storage.getIterations(stepId);
     return iterations.filter(iteration => iteration.commitSha !== null && iteration.status !== 'aborted').length;
@@ -889,20 +1370,47 @@ export class Orchestrator {
     return issues.filter(issue => issue.iterationId === latestIterationId);
   }
 
+  /**
+   * Open review issues whose suggested patches a quick fix applied: those of
+   * the review of the iteration before it.
+   */
+  private getQuickFixIssues(quickFix: Iteration): Issue[] {
+    const reviewed = this.storage.getIterations(quickFix.stepId).filter((iteration) =>
+      iteration.iterationNumber < quickFix.iterationNumber
+      && iteration.commitSha !== null
+      && iteration.status !== 'aborted').pop();
+    if (!reviewed) {
+      return [];
+    }
+    return this.storage.getOpenIssues(quickFix.stepId).filter((issue) =>
+      issue.iterationId === reviewed.id && issue.type === 'codex_review' && issue.suggestedPatch !== null);
+  }
+
+  /** Marks the issues a quick fix addressed as fixed once the build has verified its commit. */
+  private async resolveQuickFixIssues(step: DbStep, context: StepContext, quickFix: Iteration): Promise<void> {
+    const issues = this.getQuickFixIssues(quickFix);
+    for (const issue of issues) {
+      this.storage.updateIssueStatus(issue.id, 'fixed', new Date().toISOString());
+      this.emitEvent({
+        type: "issue_resolved",
+        timestamp: Date.now(),
+        issueId: issue.id,
+      });
+    }
+    await this.resolveReviewThreads(step, context, issues);
+  }
+
   private formatLatestBuildErrors(stepId: number): string {
     const buildIssues = this.getLatestIssuesForStep(stepId, 'ci_failure');
     if (buildIssues.length === 0) {
-      return "Build checks failed. Please review the GitHub Actions logs and fix the issues.";
+      return GENERIC_BUILD_FAILURE_MESSAGE;
     }
     return buildIssues.map(issue => issue.description).join("\n");
   }
 
   private getWorkingTreeStatus(): string | null {
     try {
-      const status = execSync("git status --short", {
-        cwd: this.workDir,
-        encoding: "utf-8",
-      }).trim();
+      const status = git(this.workDir, ['status', '--short']);
       return status.length > 0 ? status : null;
     } catch {
       return null;
@@ -965,13 +1473,14 @@ CRITICAL REQUIREMENTS:
 - Do NOT use git commit --amend - create a NEW commit
 - Do NOT push to remote - the orchestrator will handle pushing`;
 
-    const result = await this.claudeRunner.runContinue({
+    const result = await this.trackAgentRun(lastAborted, () => this.claudeRunner.runContinue({
       workDir: this.workDir,
       prompt: continuePrompt,
       timeoutMinutes: this.agentTimeoutMinutes,
+      stallTimeoutMinutes: this.stallTimeoutMinutes,
       captureOutput: true,
       eventEmitter: this.eventEmitter,
-    });
+    }));
 
     if (result.success && result.commitSha) {
       this.log(`✓ Recovered interrupted session with commit ${result.commitSha}`, "success");
@@ -983,8 +1492,8 @@ CRITICAL REQUIREMENTS:
         claudeLog: result.output ?? null,
       });
 
-      // Push the recovered commit to GitHub
-      await this.pushCommit();
+      // Publish the recovered commit to the build checker
+      await this.buildChecker.publish();
 
       this.emitEvent({
         type: "iteration_complete",
@@ -993,6 +1502,7 @@ CRITICAL REQUIREMENTS:
         iterationNumber: lastAborted.iterationNumber,
         commitSha: result.commitSha,
         status: 'completed',
+        usage: this.getIterationUsageTotals(lastAborted),
       });
     } else {
       this.log("Failed to recover interrupted session, will start fresh", "warn");
@@ -1051,7 +1561,19 @@ CRITICAL REQUIREMENTS:
       );
     }
 
-    const startStepNumber = currentStep.stepNumber + 1;
+    if (
+      currentStep.status === 'pending'
+      && currentPlanStep
+      && currentPlanStep.dependsOn.join(',') !== currentStep.dependsOn.join(',')
+    ) {
+      this.storage.updateStepDependencies(currentStep.id, currentPlanStep.dependsOn);
+    }
+
+    // With parallel execution, later steps may already have started or finished
+    const lastStartedStepNumber = steps
+      .filter((step) => step.status !== 'pending')
+      .reduce((max, step) => Math.max(max, step.stepNumber), currentStep.stepNumber);
+    const startStepNumber = lastStartedStepNumber + 1;
     const futureSteps = parsedSteps.filter((step) => step.number >= startStepNumber);
 
     const { deletedCount, createdCount } = this.storage.replacePendingStepsFromPlan(
@@ -1060,6 +1582,7 @@ CRITICAL REQUIREMENTS:
       futureSteps.map((step) => ({
         stepNumber: step.number,
         title: step.title,
+        dependsOn: step.dependsOn,
       }))
     );
 
@@ -1112,7 +1635,7 @@ CRITICAL REQUIREMENTS:
 
       const parsedSteps = this.parser.parseSteps();
       for (const step of parsedSteps) {
-        this.storage.createStep(this.plan.id, step.number, step.title);
+        this.storage.createStep(this.plan.id, step.number, step.title, step.dependsOn);
       }
       this.log(`Initialized ${parsedSteps.length} steps in database`, "info");
 
@@ -1122,328 +1645,1415 @@ CRITICAL REQUIREMENTS:
   }
 
   private getCurrentStep(): DbStep | null {
+    return this.getReadySteps()[0] ?? null;
+  }
+
+  /**
+   * Returns pending or interrupted steps whose dependencies have all completed,
+   * in step order. Throws if unfinished steps remain but none of them can run.
+   * Steps in `excludeStepIds` are still running: they are not returned, and
+   * don't count as done even once completed, since their branch is merged
+   * into the base branch only after that.
+   */
+  private getReadySteps(excludeStepIds: Set<number> = new Set()): DbStep[] {
     if (!this.plan) {
       throw new Error("Plan not initialized");
     }
 
     const steps = this.storage.getSteps(this.plan.id);
-    const currentStep = steps.find(
-      (s) => s.status === 'pending' || s.status === 'in_progress'
+    // Skipped steps count as done, so steps that depend on them can run. A
+    // completed step that still has a worktree has not been merged yet.
+    const completedStepNumbers = new Set(
+      steps
+        .filter((s) => s.status === 'skipped' || (s.status === 'completed' && s.worktreePath === null))
+        .filter((s) => !excludeStepIds.has(s.id))
+        .map((s) => s.stepNumber)
+    );
+    const unfinishedSteps = steps.filter(
+      (s) => (s.status === 'pending' || s.status === 'in_progress') && !excludeStepIds.has(s.id)
+    );
+    const readySteps = unfinishedSteps.filter(
+      (s) => s.dependsOn.every((dependency) => completedStepNumbers.has(dependency))
     );
 
-    return currentStep ?? null;
-  }
-
-  // eslint-disable-next-line @typescript-eslint/require-await -- Async for API consistency with caller expectations
-  private async pushCommit(): Promise<void> {
-    const branch = this.githubChecker.getCurrentBranch();
-    const hasUpstream = this.githubChecker.hasUpstreamTracking();
-
-    const pushCommand = hasUpstream ? "git push" : `git push -u origin ${branch}`;
-
-    try {
-      const output = execSync(pushCommand, {
-        cwd: this.workDir,
-        encoding: "utf-8",
-        stdio: ["pipe", "pipe", "pipe"],
-      });
-      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- output can be undefined in test mocks
-      if (output?.trim()) {
-        this.log(output.trim());
-      }
-      this.log("✓ Pushed commit to GitHub", "success");
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      this.log(`⚠ Failed to push commit: ${errorMessage}`, "warn");
-      throw new Error("Failed to push commit to GitHub");
+    if (readySteps.length === 0 && unfinishedSteps.length > 0 && excludeStepIds.size === 0) {
+      const blocked = unfinishedSteps
+        .map((s) => `${s.stepNumber} (waiting for ${s.dependsOn.filter((d) => !completedStepNumbers.has(d)).join(', ')})`)
+        .join('; ');
+      throw new Error(`No runnable steps: dependencies are not satisfied for steps ${blocked}`);
     }
-  }
 
-  private async ensureBranchAndPR(step: DbStep): Promise<void> {
-    const branch = this.githubChecker.getCurrentBranch();
+    return readySteps;
+  }
 
-    if (!branch || branch === 'HEAD') {
-      throw new Error(
-        'Cannot run build checks: repository is in a detached HEAD state. ' +
-        'Please checkout a feature branch before running stepcat.'
-      );
-    }
+  private getDefaultStepContext(): StepContext {
+    return {
+      workDir: this.workDir,
+      branch: null,
+      githubChecker: this.githubChecker,
+      buildChecker: this.buildChecker,
+    };
+  }
 
-    const defaultBranch = await this.githubChecker.getDefaultBranch();
-    if (branch === defaultBranch || branch === 'main' || branch === 'master') {
-      throw new Error(
-        `Cannot run build checks: currently on the default branch "${branch}". ` +
-        'Please create and checkout a feature branch before running stepcat.'
-      );
+  private shouldStopAfterStep(step: DbStep): boolean {
+    if (!this.stopController?.isStopAfterStepRequested()) {
+      return false;
     }
 
-    this.log(`Working on branch: ${branch}`);
+    this.stopController.markStopAfterStepTriggered();
+    this.log(
+      `Stop requested. Exiting after completing step ${step.stepNumber}.`,
+      "warn"
+    );
+    return true;
+  }
 
-    if (!this.githubChecker.remoteBranchExists(branch)) {
-      this.log(`Branch "${branch}" not found on remote, pushing...`);
+  private async runStepsSequentially(): Promise<boolean> {
+    let context = this.getDefaultStepContext();
+    let step = this.getCurrentStep();
+    let completedStep: DbStep | null = null;
+    while (step) {
       try {
-        execSync(`git push -u origin ${branch}`, {
-          cwd: this.workDir,
-          encoding: "utf-8",
-          stdio: ["pipe", "pipe", "pipe"],
-        });
-        this.log(`✓ Pushed branch "${branch}" to origin`, "success");
+        if (completedStep && this.syncWithBase) {
+          await this.syncWithBaseBranch(completedStep, context);
+        }
+        if (this.stackedPrs) {
+          await this.restackPullRequests();
+          context = await this.createStackedStepContext(step);
+        }
+        await this.executeStep(step, context);
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(`Failed to push branch "${branch}" to origin: ${errorMessage}`);
+        if (error instanceof BudgetExceededError) {
+          this.stopController?.markStopped(error.message);
+          return true;
+        }
+        throw error;
       }
-    }
 
-    const existingPR = await this.getPullRequestForCurrentBranch();
-    if (existingPR) {
-      this.log(`Using existing PR #${existingPR.number} for branch "${branch}"`);
-      return;
-    }
+      if (this.shouldStopAfterStep(step)) {
+        return true;
+      }
 
-    this.log(`No PR found for branch "${branch}", creating one...`);
+      completedStep = step;
+      step = this.getCurrentStep();
+    }
 
-    const planName = this.planFile.split('/').pop() ?? this.planFile;
-    const prTitle = `[Stepcat] ${step.title}`;
-    const prBody = [
-      `## Automated PR created by Stepcat`,
-      '',
-      `This PR implements changes from plan file: \`${planName}\``,
-      '',
-      `**Current step:** Step ${step.stepNumber}: ${step.title}`,
-      '',
-      '---',
-      '_This PR is managed by [Stepcat](https://github.com/forketyfork/stepcat). ' +
-      'Each iteration creates a separate commit for full traceability._',
-    ].join('\n');
+    return false;
+  }
 
-    await this.githubChecker.createPullRequest(prTitle, prBody, defaultBranch);
+  /**
+   * Merges the default branch into the work branch between steps, so drift
+   * from the base shows up before the next step rather than when GitHub
+   * refuses to run CI. A clean merge is pushed and its build verified. With
+   * `resolveConflicts`, conflicts are resolved in a conflict fix iteration of
+   * the completed step, which is then verified the same way; without it, they
+   * are recorded as an issue and leave the branch as it was. The merged work is
+   * not reviewed again, and the branch is not synced after the final step.
+   */
+  private async syncWithBaseBranch(step: DbStep, context: StepContext): Promise<void> {
+    let baseBranch: string;
+    try {
+      baseBranch = await context.githubChecker.fetchDefaultBranch();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Could not determine the default branch to sync with after step ${step.stepNumber}: ${message}`);
+    }
+    if (context.githubChecker.getCurrentBranch() === baseBranch) {
+      return;
+    }
+
+    this.log(`\nSyncing with ${baseBranch}`, "info", step.stepNumber);
+    const headBefore = git(context.workDir, ['rev-parse', 'HEAD']);
+
+    let conflictedFiles: string[];
+    try {
+      conflictedFiles = startBaseMerge(context.workDir, baseBranch);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log(`⚠ Could not sync with ${baseBranch}: ${message}`, "warn", step.stepNumber);
+      return;
+    }
+
+    if (conflictedFiles.length > 0) {
+      abortBaseMerge(context.workDir);
+      this.recordSyncIssue(
+        step,
+        'merge_conflict',
+        `Merging "${baseBranch}" after step ${step.stepNumber} conflicts in: ${conflictedFiles.join(', ')}. ` +
+          'Resolve the conflicts before CI can run for the next step.',
+      );
+      if (!this.resolveConflicts) {
+        this.log(`⚠ ${baseBranch} conflicts with the branch in ${conflictedFiles.join(', ')}; continuing without syncing`, "warn", step.stepNumber);
+        return;
+      }
+      if (this.countIterationsWithCommits(step.id) >= this.maxIterationsPerStep) {
+        this.log(`⚠ Step ${step.stepNumber} has no iterations left to resolve the conflicts with ${baseBranch}; continuing without syncing`, "warn", step.stepNumber);
+        return;
+      }
+
+      this.checkBudgets(step);
+      const iterationNumber = this.storage.getIterations(step.id)
+        .reduce((max, iteration) => Math.max(max, iteration.iterationNumber), 0) + 1;
+      // The conflict fix merges the base again and pushes the result
+      if (!(await this.runConflictFixIteration(step, context, iterationNumber, baseBranch))) {
+        this.log(`⚠ Continuing without syncing with ${baseBranch}`, "warn", step.stepNumber);
+        return;
+      }
+    } else if (git(context.workDir, ['rev-parse', 'HEAD']) === headBefore) {
+      this.storage.updateStepSyncedSha(step.id, headBefore);
+      this.log(`✓ Already up to date with ${baseBranch}`, "success", step.stepNumber);
+      return;
+    } else {
+      await context.buildChecker.publish();
+    }
+
+    const syncedSha = git(context.workDir, ['rev-parse', 'HEAD']);
+    this.log(`\nChecking ${context.buildChecker.getName()} for commit ${syncedSha}`);
+    const checksPass = await context.buildChecker.waitForBuild(
+      syncedSha,
+      this.buildTimeoutMinutes,
+      this.countIterationsWithCommits(step.id),
+      this.maxIterationsPerStep,
+    );
+    if (!checksPass) {
+      const trackedSha = context.buildChecker.getLastTrackedSha() ?? syncedSha;
+      this.recordSyncIssue(step, 'ci_failure', await context.buildChecker.extractBuildErrors(trackedSha));
+      this.log(`⚠ The build fails after merging ${baseBranch}; the next step fixes it along with its own work`, "warn", step.stepNumber);
+      return;
+    }
+
+    this.storage.updateStepSyncedSha(step.id, syncedSha);
+    this.log(`✓ Synced with ${baseBranch} at ${syncedSha}`, "success", step.stepNumber);
   }
 
-  private async getPullRequestForCurrentBranch(): Promise<{ number: number; url: string } | null> {
-    const branch = this.githubChecker.getCurrentBranch();
-    if (!branch || branch === 'HEAD') {
-      return null;
+  /**
+   * Checks out the step's own branch, stacked on the branch of the latest
+   * earlier step whose pull request is still open, and targets the step's pull
+   * request at that branch. Without one, the step is based on the default branch.
+   */
+  private async createStackedStepContext(step: DbStep): Promise<StepContext> {
+    if (!this.plan) {
+      throw new Error("Plan not initialized");
+    }
+
+    const branch = step.branch ?? stackBranchName(this.plan.id, step.stepNumber);
+    const stacked = this.storage.getSteps(this.plan.id).filter((candidate) =>
+      candidate.stepNumber < step.stepNumber && candidate.branch !== null && candidate.prNumber !== null);
+    const parentBranch = stacked.filter((candidate) => !this.mergedStackSteps.has(candidate.id)).pop()?.branch;
+
+    let baseBranch: string;
+    let startPoint: string;
+    if (parentBranch) {
+      baseBranch = parentBranch;
+      startPoint = parentBranch;
+    } else {
+      baseBranch = await this.githubChecker.getDefaultBranch();
+      // Once the steps below have been merged, build on the base as it is now
+      startPoint = stacked.length > 0 ? fetchBaseBranch(this.workDir, baseBranch) : "HEAD";
+    }
+
+    checkoutStackBranch(this.workDir, branch, startPoint);
+    if (step.branch === null) {
+      this.storage.updateStepWorkspace(step.id, null, branch);
+    }
+    this.log(`Working on stacked branch ${branch} based on ${baseBranch}`, "info", step.stepNumber);
+
+    return {
+      workDir: this.workDir,
+      branch,
+      githubChecker: this.githubChecker,
+      buildChecker: this.createBuildChecker(this.githubChecker, this.workDir, baseBranch),
+    };
+  }
+
+  /**
+   * Remembers the pull request that `prepare` found or created, so that its
+   * description can follow the plan's progress.
+   */
+  private async recordPullRequest(step: DbStep, context: StepContext): Promise<void> {
+    if (this.stackedPrs) {
+      if (step.prNumber !== null || !context.branch) {
+        return;
+      }
+      try {
+        const prNumber = await context.githubChecker.findOpenPullRequest(context.branch);
+        if (prNumber !== null) {
+          this.storage.updateStepPullRequest(step.id, prNumber);
+        }
+      } catch (error) {
+        this.log(
+          `Could not look up the pull request of ${context.branch}: ${error instanceof Error ? error.message : String(error)}`,
+          "warn",
+          step.stepNumber,
+        );
+      }
+      return;
     }
 
+    // Parallel steps get pull requests of their own worktree branches, which are merged locally
+    if (this.pullRequestNumber !== null || context.branch !== null) {
+      return;
+    }
     try {
-      const response = await this.githubChecker.getOctokit().pulls.list({
-        owner: this.githubChecker.getOwner(),
-        repo: this.githubChecker.getRepo(),
-        head: `${this.githubChecker.getOwner()}:${branch}`,
-        state: 'open',
-        per_page: 1,
-      });
+      const branch = this.githubChecker.getCurrentBranch();
+      this.pullRequestNumber = branch ? await this.githubChecker.findOpenPullRequest(branch) : null;
+    } catch (error) {
+      this.log(`Could not look up the pull request: ${error instanceof Error ? error.message : String(error)}`, "warn");
+    }
+  }
+
+  /**
+   * Rewrites the progress checklist and title of the plan's pull request, or
+   * of every open stacked pull request, from the steps in the database.
+   */
+  private async syncPullRequestProgress(): Promise<void> {
+    if (!this.plan || this.buildCheckerType !== 'github') {
+      return;
+    }
 
-      const pr = response.data[0];
-      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- array index access can return undefined
-      if (!pr) {
-        return null;
+    const steps = this.storage.getSteps(this.plan.id);
+    const targets = this.stackedPrs
+      ? steps.filter((step) => step.prNumber !== null).map((step) => ({ prNumber: step.prNumber as number, step }))
+      : this.pullRequestNumber !== null ? [{ prNumber: this.pullRequestNumber, step: null }] : [];
+    if (targets.length === 0) {
+      return;
+    }
+
+    const progress: StepProgress[] = steps.map((step) => ({
+      step,
+      iterations: this.storage.getIterations(step.id),
+      openIssues: this.storage.getOpenIssues(step.id),
+    }));
+
+    for (const { prNumber, step } of targets) {
+      const title = step ? stepPullRequestTitle(step, steps.length) : planPullRequestTitle(this.planFile, steps);
+      const section = renderPlanProgress(progress, step?.stepNumber);
+      const rendered = `${title}\n${section}`;
+      // Most events change nothing that is shown, so skip the API calls for them
+      if (this.renderedProgress.get(prNumber) === rendered) {
+        continue;
       }
 
-      return { number: pr.number, url: pr.html_url };
-    } catch {
-      return null;
+      const pullRequest = await this.githubChecker.getPullRequestState(prNumber);
+      if (!pullRequest.merged) {
+        const body = replaceProgressSection(pullRequest.body, section);
+        if (title !== pullRequest.title || body !== pullRequest.body) {
+          await this.githubChecker.updatePullRequestDescription(prNumber, title, body);
+        }
+      }
+      this.renderedProgress.set(prNumber, rendered);
     }
   }
 
-  private truncateLog(log: string, maxChars: number): string {
-    if (log.length <= maxChars) {
-      return log;
+  /**
+   * Looks for merged pull requests in the stack, then rebases the open ones
+   * above them onto their new base and retargets them, so that each open pull
+   * request only shows the changes of its own step.
+   */
+  private async restackPullRequests(): Promise<void> {
+    if (!this.plan) {
+      throw new Error("Plan not initialized");
+    }
+
+    const stacked = this.storage.getSteps(this.plan.id).filter((step) => step.branch !== null && step.prNumber !== null);
+    if (stacked.length === 0) {
+      return;
+    }
+
+    const defaultBranch = await this.githubChecker.getDefaultBranch();
+    let baseBranch = defaultBranch;
+    // Head of the base branch before it was rebased in this pass; the branch above it has to follow
+    let previousBaseHead: string | null = null;
+
+    for (const step of stacked) {
+      const branch = step.branch as string;
+      const prNumber = step.prNumber as number;
+      const pullRequest = await this.githubChecker.getPullRequestState(prNumber);
+      if (pullRequest.merged) {
+        this.mergedStackSteps.add(step.id);
+        continue;
+      }
+
+      const retarget = pullRequest.baseRef !== baseBranch;
+      const upstream = retarget ? pullRequest.baseRef : previousBaseHead;
+      if (upstream !== null) {
+        const onto = baseBranch === defaultBranch ? fetchBaseBranch(this.workDir, defaultBranch) : baseBranch;
+        this.log(`Rebasing ${branch} onto ${baseBranch}`, "info", step.stepNumber);
+        previousBaseHead = rebaseStackBranch(this.workDir, branch, upstream, onto);
+      } else {
+        previousBaseHead = null;
+      }
+
+      if (retarget) {
+        await this.githubChecker.retargetPullRequest(prNumber, baseBranch);
+      }
+      baseBranch = branch;
     }
-    const truncatedCount = log.length - maxChars;
-    return `... (truncated ${truncatedCount} chars)\n${log.slice(truncatedCount)}`;
   }
 
-  private singleLine(text: string): string {
-    return text.replace(/\s+/g, " ").trim();
+  private getPullRequestNumber(step: DbStep, context: StepContext): number | null {
+    if (this.stackedPrs) {
+      return this.storage.getSteps(step.planId).find((candidate) => candidate.id === step.id)?.prNumber ?? null;
+    }
+    // Worktree branches of parallel steps are merged locally, not through the pull request
+    return context.branch === null ? this.pullRequestNumber : null;
   }
 
-  private formatAnnotations(annotations: CheckRunAnnotation[]): string | null {
-    if (annotations.length === 0) {
-      return null;
+  /**
+   * Posts a review as a GitHub review on the reviewed commit, with inline
+   * comments on the lines the issues point at and a summary for the rest.
+   * Failing to post it is only logged.
+   */
+  private async publishReview(
+    step: DbStep,
+    context: StepContext,
+    iteration: Iteration,
+    result: ReviewResult['result'],
+    reviewers: string[],
+    issues: Issue[],
+  ): Promise<void> {
+    const prNumber = this.postReviewComments ? this.getPullRequestNumber(step, context) : null;
+    if (prNumber === null || !iteration.commitSha) {
+      return;
     }
 
-    const limitedAnnotations = annotations.slice(0, Orchestrator.MAX_ANNOTATIONS);
-    const lines = limitedAnnotations.map((annotation) => {
-      const lineSuffix = annotation.start_line !== null ? `:${annotation.start_line}` : "";
-      const location = `${annotation.path}${lineSuffix}`;
-      const level = annotation.annotation_level ?? "failure";
-      const message = this.singleLine(
-        this.truncateLog(annotation.message, Orchestrator.MAX_ANNOTATION_CHARS),
-      );
-      const detailParts: string[] = [];
-      if (annotation.title) {
-        detailParts.push(this.singleLine(annotation.title));
-      }
-      if (annotation.raw_details) {
-        detailParts.push(
-          this.singleLine(
-            this.truncateLog(annotation.raw_details, Orchestrator.MAX_ANNOTATION_CHARS),
-          ),
+    const comments = buildIssueComments(issues);
+    const summarize = (inline: IssueComment[]) => formatReviewSummary({
+      step,
+      result,
+      reviewers,
+      issues,
+      inlineIssueIds: new Set(inline.map(({ issue }) => issue.id)),
+    });
+
+    try {
+      let commentIds: Array<number | null>;
+      try {
+        commentIds = await context.githubChecker.createReview(
+          prNumber,
+          iteration.commitSha,
+          summarize(comments),
+          comments.map(({ draft }) => draft),
         );
+      } catch (error) {
+        if (comments.length === 0) {
+          throw error;
+        }
+        // GitHub rejects the whole review when a comment points at a line outside the diff
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        this.log(`Could not comment inline (${errorMessage}); posting the review as a summary`, "warn", step.stepNumber);
+        commentIds = await context.githubChecker.createReview(prNumber, iteration.commitSha, summarize([]), []);
       }
-      const details = detailParts.length > 0 ? ` (${detailParts.join(" - ")})` : "";
-      return `- ${location}: ${level}: ${message}${details}`;
-    });
 
-    if (annotations.length > limitedAnnotations.length) {
-      lines.push(`... ${annotations.length - limitedAnnotations.length} more annotations omitted`);
+      comments.forEach(({ issue }, index) => {
+        const commentId = commentIds[index] ?? null;
+        if (commentId !== null) {
+          this.storage.updateIssueReviewComment(issue.id, commentId);
+        }
+      });
+      this.log(`Posted the review to PR #${prNumber}`, "info", step.stepNumber);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log(`Could not post the review to PR #${prNumber}: ${errorMessage}`, "warn", step.stepNumber);
     }
-
-    return lines.join("\n");
   }
 
-  private async fetchCheckRunAnnotations(checkRunId: number): Promise<CheckRunAnnotation[]> {
+  /** Resolves the review threads of fixed issues that were posted as inline comments. */
+  private async resolveReviewThreads(step: DbStep, context: StepContext, fixedIssues: Issue[]): Promise<void> {
+    const commentIds = fixedIssues
+      .map((issue) => issue.reviewCommentId)
+      .filter((commentId): commentId is number => commentId !== null);
+    const prNumber = commentIds.length > 0 ? this.getPullRequestNumber(step, context) : null;
+    if (prNumber === null) {
+      return;
+    }
+
     try {
-      const response = await this.githubChecker.getOctokit().request(
-        "GET /repos/{owner}/{repo}/check-runs/{check_run_id}/annotations",
-        {
-          owner: this.githubChecker.getOwner(),
-          repo: this.githubChecker.getRepo(),
-          check_run_id: checkRunId,
-          per_page: Orchestrator.MAX_ANNOTATIONS,
-        },
-      );
-      return response.data as CheckRunAnnotation[];
+      const resolved = await context.githubChecker.resolveReviewThreads(prNumber, commentIds);
+      if (resolved > 0) {
+        this.log(`Resolved ${resolved} review thread(s) on PR #${prNumber}`, "info", step.stepNumber);
+      }
     } catch (error) {
-      this.log(
-        `Warning: Could not fetch check run annotations: ${error instanceof Error ? error.message : String(error)}`,
-        "warn",
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.log(`Could not resolve review threads on PR #${prNumber}: ${errorMessage}`, "warn", step.stepNumber);
+    }
+  }
+
+  private recordSyncIssue(step: DbStep, type: 'ci_failure' | 'merge_conflict', description: string): void {
+    const iteration = this.getLatestIterationWithCommit(step.id);
+    if (!iteration) {
+      return;
+    }
+    const issue = this.storage.createIssue(iteration.id, type, description, null, null, 'error');
+    this.emitEvent({
+      type: 'issue_found',
+      timestamp: Date.now(),
+      issueId: issue.id,
+      iterationId: iteration.id,
+      issueType: type,
+      description,
+    });
+  }
+
+  private async runStepsInParallel(): Promise<boolean> {
+    const running = new Map<number, Promise<{ step: DbStep; error?: Error }>>();
+    let stopRequested = false;
+    let failure: Error | null = null;
+
+    const baseBranch = this.githubChecker.getCurrentBranch();
+    if (!baseBranch || baseBranch === 'HEAD') {
+      throw new Error(
+        'Cannot run steps in parallel: repository is in a detached HEAD state. ' +
+        'Please checkout a branch before running stepcat.'
       );
-      return [];
     }
+
+    this.log(`Running up to ${this.parallelSteps} independent steps in parallel`);
+
+    for (;;) {
+      if (!stopRequested && failure === null) {
+        const readySteps = this.getReadySteps(new Set(running.keys()));
+        for (const step of readySteps.slice(0, this.parallelSteps - running.size)) {
+          running.set(
+            step.id,
+            this.runStepInWorktree(step, baseBranch).then(
+              () => ({ step }),
+              (error: unknown) => ({
+                step,
+                error: error instanceof Error ? error : new Error(String(error)),
+              }),
+            ),
+          );
+        }
+      }
+
+      if (running.size === 0) {
+        break;
+      }
+
+      const finished = await Promise.race(running.values());
+      running.delete(finished.step.id);
+
+      if (finished.error instanceof BudgetExceededError) {
+        // Like a stop request: let the running steps finish but start no new ones
+        this.stopController?.markStopped(finished.error.message);
+        stopRequested = true;
+        continue;
+      }
+
+      if (finished.error !== undefined) {
+        // Let the other running steps finish before surfacing the first failure
+        failure ??= finished.error;
+        continue;
+      }
+
+      if (!stopRequested && this.shouldStopAfterStep(finished.step)) {
+        stopRequested = true;
+      }
+    }
+
+    if (failure !== null) {
+      throw failure;
+    }
+
+    return stopRequested;
+  }
+
+  /** Merges the steps that a previous run completed in a worktree but stopped before merging. */
+  private async mergeCompletedWorktrees(steps: DbStep[]): Promise<void> {
+    const unmergedSteps = steps.filter((s) => s.status === 'completed' && s.worktreePath !== null);
+    if (unmergedSteps.length === 0) {
+      return;
+    }
+
+    const baseBranch = this.githubChecker.getCurrentBranch();
+    if (!baseBranch || baseBranch === 'HEAD') {
+      throw new Error(
+        'Cannot merge completed steps: repository is in a detached HEAD state. ' +
+        'Please checkout a branch before running stepcat.'
+      );
+    }
+
+    for (const step of unmergedSteps) {
+      await this.runStepInWorktree(step, baseBranch);
+    }
+  }
+
+  private async runStepInWorktree(step: DbStep, baseBranch: string): Promise<void> {
+    const context = this.createWorktreeContext(step, baseBranch);
+    if (step.status !== 'completed') {
+      await this.executeStep(step, context);
+    }
+    // After a conflict fix the step has to pass its build and review again
+    while (!(await this.mergeStepBranch(step, context, baseBranch))) {
+      await this.executeStep(step, context);
+    }
+    await this.buildChecker.publish();
+    await this.closeStepBranch(step, context, baseBranch);
   }
 
-  private async extractBuildErrors(sha: string): Promise<string> {
+  /**
+   * Closes the pull request that the build check opened for a worktree branch
+   * and deletes the branch from the remote, now that the step is merged into
+   * the base branch and pushed. Failures are only logged.
+   */
+  private async closeStepBranch(step: DbStep, context: StepContext, baseBranch: string): Promise<void> {
+    if (this.buildCheckerType !== 'github' || !context.branch) {
+      return;
+    }
+
+    const branch = context.branch;
     try {
-      const response = await this.githubChecker.getOctokit().checks.listForRef({
-        owner: this.githubChecker.getOwner(),
-        repo: this.githubChecker.getRepo(),
-        ref: sha,
-      });
-      const checkRuns = response.data as { check_runs: CheckRunSummary[] };
+      const prNumber = await this.githubChecker.findOpenPullRequest(branch);
+      if (prNumber !== null) {
+        await this.githubChecker.closePullRequest(
+          prNumber,
+          `Step ${step.stepNumber} was merged into \`${baseBranch}\` by Stepcat, so this pull request is no longer needed.`,
+        );
+      }
+      if (this.githubChecker.remoteBranchExists(branch)) {
+        this.githubChecker.deleteRemoteBranch(branch);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log(`⚠ Could not clean up the pull request and remote branch of ${branch}: ${message}`, "warn", step.stepNumber);
+    }
+  }
 
-      const failedChecks = checkRuns.check_runs.filter(
-        run => run.status === 'completed' && run.conclusion !== 'success' && run.conclusion !== 'skipped'
+  private createWorktreeContext(step: DbStep, baseBranch: string): StepContext {
+    if (!this.plan) {
+      throw new Error("Plan not initialized");
+    }
+
+    const branch = step.branch ?? stackBranchName(this.plan.id, step.stepNumber);
+    const worktreePath = step.worktreePath
+      ?? resolve(this.workDir, ".stepcat", "worktrees", `plan-${this.plan.id}-step-${step.stepNumber}`);
+
+    if (existsSync(worktreePath)) {
+      this.log(`Reusing worktree ${worktreePath} on branch ${branch}`, "info", step.stepNumber);
+    } else {
+      this.excludeWorktreesFromStatus();
+      mkdirSync(dirname(worktreePath), { recursive: true });
+      let branchExists = true;
+      try {
+        git(this.workDir, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+      } catch {
+        branchExists = false;
+      }
+
+      try {
+        git(
+          this.workDir,
+          branchExists
+            ? ['worktree', 'add', worktreePath, branch]
+            : ['worktree', 'add', '-b', branch, worktreePath, 'HEAD'],
+        );
+      } catch (error) {
+        throw new Error(`Failed to create worktree for step ${step.stepNumber}: ${describeGitError(error)}`);
+      }
+
+      // Local Claude Code permissions are usually untracked, so carry them over
+      const settingsPath = resolve(this.workDir, ".claude", "settings.local.json");
+      if (existsSync(settingsPath)) {
+        mkdirSync(resolve(worktreePath, ".claude"), { recursive: true });
+        copyFileSync(settingsPath, resolve(worktreePath, ".claude", "settings.local.json"));
+      }
+
+      this.log(`Created worktree ${worktreePath} on branch ${branch}`, "info", step.stepNumber);
+    }
+
+    this.storage.updateStepWorkspace(step.id, worktreePath, branch);
+
+    const githubChecker = new GitHubChecker({
+      owner: this.githubChecker.getOwner(),
+      repo: this.githubChecker.getRepo(),
+      token: this.githubToken,
+      workDir: worktreePath,
+      eventEmitter: this.eventEmitter,
+    });
+
+    return {
+      workDir: worktreePath,
+      branch,
+      githubChecker,
+      buildChecker: this.createBuildChecker(githubChecker, worktreePath, baseBranch),
+    };
+  }
+
+  /**
+   * Adds the worktrees directory to `.git/info/exclude`; otherwise the main
+   * checkout lists the worktrees as untracked files.
+   */
+  private excludeWorktreesFromStatus(): void {
+    const excludeFile = resolve(this.workDir, git(this.workDir, ['rev-parse', '--git-common-dir']), "info", "exclude");
+    const pattern = `/${git(this.workDir, ['rev-parse', '--show-prefix'])}.stepcat/worktrees/`;
+    const excluded = existsSync(excludeFile) ? readFileSync(excludeFile, "utf-8") : "";
+    if (excluded.split("\n").includes(pattern)) {
+      return;
+    }
+
+    mkdirSync(dirname(excludeFile), { recursive: true });
+    appendFileSync(excludeFile, `${excluded && !excluded.endsWith("\n") ? "\n" : ""}${pattern}\n`);
+  }
+
+  /**
+   * Merges the branch of a completed step into the base branch. On conflicts
+   * the merge is aborted, and with `resolveConflicts` a conflict fix iteration
+   * merges the base branch into the step branch instead; false is returned
+   * then, and the step has to be merged again once it passes.
+   */
+  private async mergeStepBranch(step: DbStep, context: StepContext, baseBranch: string): Promise<boolean> {
+    if (!context.branch) {
+      return true;
+    }
+
+    // Untracked files are fine: git refuses to merge only if it would overwrite them
+    if (git(this.workDir, ['status', '--porcelain', '--untracked-files=no'])) {
+      throw new Error(
+        `Cannot merge step ${step.stepNumber}: the working tree in ${this.workDir} has uncommitted changes. ` +
+          'Commit or stash them and rerun Stepcat to merge the step.',
       );
+    }
+
+    this.log(`Merging ${context.branch} into ${baseBranch}`, "info", step.stepNumber);
 
-      if (failedChecks.length === 0) {
-        return "Build checks failed. Please review the GitHub Actions logs and fix the issues.";
+    try {
+      git(this.workDir, ['merge', '--no-ff', context.branch, '-m', `Merge step ${step.stepNumber}: ${step.title}`]);
+    } catch (error) {
+      try {
+        git(this.workDir, ['merge', '--abort']);
+      } catch {
+        // Nothing to abort if the merge failed before starting
       }
 
-      const errorMessages: string[] = [];
-      for (const check of failedChecks) {
-        let message = `Check: ${check.name}\n`;
-        message += `Conclusion: ${check.conclusion}\n`;
-        if (check.output?.title) {
-          message += `Title: ${this.singleLine(check.output.title)}\n`;
-        }
-        if (check.output?.summary) {
-          message += `Summary:\n${this.truncateLog(check.output.summary, Orchestrator.MAX_BUILD_OUTPUT_CHARS)}\n`;
-        }
-        if (check.output?.text) {
-          message += `Output:\n${this.truncateLog(check.output.text, Orchestrator.MAX_BUILD_OUTPUT_CHARS)}\n`;
-        }
+      const mergeError = new MergeConflictError(
+        `Step ${step.stepNumber} branch "${context.branch}" could not be merged into "${baseBranch}": ` +
+          describeGitError(error),
+        { branch: context.branch, base: baseBranch },
+      );
 
-        const annotations = await this.fetchCheckRunAnnotations(check.id);
-        const formattedAnnotations = this.formatAnnotations(annotations);
-        if (formattedAnnotations) {
-          message += `Annotations:\n${formattedAnnotations}\n`;
-        }
-        if (check.details_url) {
-          message += `Details: ${check.details_url}\n`;
+      const canResolve = this.resolveConflicts && this.countIterationsWithCommits(step.id) < this.maxIterationsPerStep;
+      const latestIteration = this.getLatestIterationWithCommit(step.id);
+      if (latestIteration) {
+        const issue = this.storage.createIssue(
+          latestIteration.id,
+          'merge_conflict',
+          `Branch "${context.branch}" conflicts with "${baseBranch}". ` +
+            (canResolve
+              ? 'Resolving the conflicts in the worktree.'
+              : 'Merge it manually, then mark the step as done, or rerun with conflict resolution enabled.'),
+          null,
+          null,
+          'error',
+        );
+        this.emitEvent({
+          type: 'issue_found',
+          timestamp: Date.now(),
+          issueId: issue.id,
+          iterationId: latestIteration.id,
+          issueType: 'merge_conflict',
+          description: issue.description,
+        });
+      }
+
+      if (canResolve) {
+        this.checkBudgets(step);
+        const iterationNumber = this.storage.getIterations(step.id)
+          .reduce((max, iteration) => Math.max(max, iteration.iterationNumber), 0) + 1;
+        if (await this.runConflictFixIteration(step, context, iterationNumber, baseBranch, { local: true })) {
+          return false;
         }
-        errorMessages.push(message);
       }
 
-      return errorMessages.join('\n---\n');
+      this.storage.updateStepStatus(step.id, 'failed');
+      this.emitEvent({
+        type: 'error',
+        timestamp: Date.now(),
+        error: mergeError.message,
+        stepNumber: step.stepNumber,
+      });
+      throw mergeError;
+    }
+
+    // Without a worktree the step counts as merged, and steps that depend on it can start
+    this.storage.updateStepWorkspace(step.id, null, context.branch);
+    try {
+      git(this.workDir, ['worktree', 'remove', '--force', context.workDir]);
     } catch (error) {
-      this.log(
-        `Warning: Could not extract detailed build errors: ${error instanceof Error ? error.message : String(error)}`,
-        "warn"
-      );
-      return "Build checks failed. Please review the GitHub Actions logs and fix the issues.";
+      const message = error instanceof Error ? error.message : String(error);
+      this.log(`⚠ Could not remove worktree ${context.workDir}: ${message}`, "warn", step.stepNumber);
     }
+
+    this.log(`✓ Merged step ${step.stepNumber} into ${baseBranch}`, "success", step.stepNumber);
+    return true;
   }
 
   private determineCodexPromptType(iteration: Iteration): 'implementation' | 'build_fix' | 'review_fix' {
-    return iteration.type;
+    // A quick fix addresses review issues, so it is reviewed like a review fix
+    if (iteration.type === 'quick_fix') {
+      return 'review_fix';
+    }
+    return iteration.type === 'conflict_fix' ? 'implementation' : iteration.type;
   }
 
-  async run(): Promise<number> {
-    const startTime = Date.now();
-    await this.initializeOrResumePlan();
-    let stoppedEarly = false;
+  /**
+   * The iteration whose work a review looks at. A conflict fix only merges the
+   * base branch, so the work it was merged onto is reviewed instead.
+   */
+  private getReviewTarget(iteration: Iteration): Iteration {
+    if (iteration.type !== 'conflict_fix') {
+      return iteration;
+    }
+    const earlier = this.storage.getIterations(iteration.stepId).filter((candidate) =>
+      candidate.iterationNumber < iteration.iterationNumber
+      && candidate.commitSha !== null
+      && candidate.status !== 'aborted'
+      && candidate.type !== 'conflict_fix');
+    return earlier.length > 0 ? earlier[earlier.length - 1] : iteration;
+  }
+
+  private async runReviewFixIteration(
+    step: DbStep,
+    context: StepContext,
+    iterationNumber: number,
+    issues: ReviewIssue[],
+  ): Promise<void> {
+    const iteration = this.storage.createIteration(
+      step.id,
+      iterationNumber,
+      'review_fix',
+      this.implementationAgent,
+      this.reviewAgent
+    );
+
+    this.emitEvent({
+      type: "iteration_start",
+      timestamp: Date.now(),
+      iterationId: iteration.id,
+      stepId: step.id,
+      iterationNumber,
+      iterationType: 'review_fix',
+      implementationAgent: this.implementationAgent,
+      reviewAgent: this.reviewAgent,
+    });
+
+    this.log(`\nIteration ${iterationNumber}: Review Fix`);
+    this.log("─".repeat(80));
+
+    const reviewComments = JSON.stringify(issues, null, 2);
+    const prompt = this.buildPrompt(
+      'reviewFix',
+      PROMPTS.reviewFix(step.stepNumber, reviewComments),
+      step,
+      context.workDir,
+      { issues: reviewComments },
+    );
+    const result = await this.runImplementationAgentWithPermissions(
+      iteration,
+      step.stepNumber,
+      prompt,
+      context.workDir,
+    );
+
+    if (!result.commitSha) {
+      const failureLog = this.buildAgentLog(result.output, result.workingTreeStatus);
+      const workingTreeSummary = this.formatWorkingTreeSummary(
+        result.workingTreeStatus,
+      );
+
+      this.storage.updateIteration(iteration.id, {
+        status: 'failed',
+        claudeLog: failureLog ?? null,
+      });
+
+      this.logWorkingTreeStatusAfterAgent(
+        result.workingTreeStatus,
+        step.stepNumber,
+      );
+
+      const agentName = this.getAgentDisplayName(this.implementationAgent);
+      const errorSuffix = workingTreeSummary
+        ? ` (working tree dirty: ${workingTreeSummary})`
+        : "";
+      const errorMessage = `${agentName} completed but did not create a commit${errorSuffix}`;
+
+      this.emitEvent({
+        type: "error",
+        timestamp: Date.now(),
+        error: errorMessage,
+        stepNumber: step.stepNumber,
+      });
+      throw new Error(
+        `${agentName} completed but did not create a commit for review fix${errorSuffix}`,
+      );
+    }
+
+    this.storage.updateIteration(iteration.id, {
+      commitSha: result.commitSha,
+      claudeLog: this.buildAgentLog(result.output, result.workingTreeStatus) ?? null,
+      status: 'completed',
+      phase: 'pushing',
+    });
+
+    await context.buildChecker.publish();
+
+    this.emitEvent({
+      type: "iteration_complete",
+      timestamp: Date.now(),
+      stepId: step.id,
+      iterationNumber,
+      commitSha: result.commitSha,
+      status: 'completed',
+      usage: this.getIterationUsageTotals(iteration),
+    });
+
+    const openIssues = this.storage.getOpenIssues(step.id);
+    for (const issue of openIssues) {
+      this.storage.updateIssueStatus(issue.id, 'fixed', new Date().toISOString());
+      this.emitEvent({
+        type: "issue_resolved",
+        timestamp: Date.now(),
+        issueId: issue.id,
+      });
+    }
+    await this.resolveReviewThreads(step, context, openIssues);
+  }
+
+  /**
+   * Applies the reviewer's suggested patches as a `quick_fix` iteration. Returns
+   * false when they do not apply, so the caller can fall back to a review fix.
+   * The issues stay open until the build passes on the quick fix commit.
+   */
+  private async runQuickFixIteration(
+    step: DbStep,
+    context: StepContext,
+    iterationNumber: number,
+    issues: ReviewIssue[],
+  ): Promise<boolean> {
+    const iteration = this.storage.createIteration(
+      step.id,
+      iterationNumber,
+      'quick_fix',
+      QUICK_FIX_AGENT,
+      this.reviewAgent
+    );
+
+    this.emitEvent({
+      type: "iteration_start",
+      timestamp: Date.now(),
+      iterationId: iteration.id,
+      stepId: step.id,
+      iterationNumber,
+      iterationType: 'quick_fix',
+      implementationAgent: QUICK_FIX_AGENT,
+      reviewAgent: this.reviewAgent,
+    });
+
+    this.log(`\nIteration ${iterationNumber}: Quick Fix`);
+    this.log("─".repeat(80));
+
+    const patches = issues.flatMap((issue) => (issue.patch !== undefined ? [issue.patch] : []));
+    let commitSha: string;
+    try {
+      commitSha = applySuggestedPatches(
+        context.workDir,
+        patches,
+        `Apply review suggestions for step ${step.stepNumber}`,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.storage.updateIteration(iteration.id, {
+        status: 'failed',
+        interruptionReason: message,
+      });
+      this.emitEvent({
+        type: "iteration_complete",
+        timestamp: Date.now(),
+        stepId: step.id,
+        iterationNumber,
+        commitSha: null,
+        status: 'failed',
+        usage: this.getIterationUsageTotals(iteration),
+      });
+      this.log(`⚠ ${message}; falling back to a review fix`, "warn", step.stepNumber);
+      return false;
+    }
+
+    this.log(`✓ Applied ${patches.length} suggested patch(es) in ${commitSha}`, "success", step.stepNumber);
+    this.storage.updateIteration(iteration.id, {
+      commitSha,
+      status: 'completed',
+      phase: 'pushing',
+    });
+
+    await context.buildChecker.publish();
+
+    this.emitEvent({
+      type: "iteration_complete",
+      timestamp: Date.now(),
+      stepId: step.id,
+      iterationNumber,
+      commitSha,
+      status: 'completed',
+      usage: this.getIterationUsageTotals(iteration),
+    });
+
+    return true;
+  }
+
+  /**
+   * Merges the base branch as a `conflict_fix` iteration and lets the
+   * implementation agent resolve the conflicting files. Returns false when the
+   * merge can't be started or the conflicts remain, so the caller can stop.
+   */
+  private async runConflictFixIteration(
+    step: DbStep,
+    context: StepContext,
+    iterationNumber: number,
+    baseBranch: string,
+    mergeOptions: BaseMergeOptions = {},
+  ): Promise<boolean> {
+    const iteration = this.storage.createIteration(
+      step.id,
+      iterationNumber,
+      'conflict_fix',
+      this.implementationAgent,
+      this.reviewAgent
+    );
+
+    this.emitEvent({
+      type: "iteration_start",
+      timestamp: Date.now(),
+      iterationId: iteration.id,
+      stepId: step.id,
+      iterationNumber,
+      iterationType: 'conflict_fix',
+      implementationAgent: this.implementationAgent,
+      reviewAgent: this.reviewAgent,
+    });
+
+    this.log(`\nIteration ${iterationNumber}: Conflict Fix`);
+    this.log("─".repeat(80));
+
+    const failIteration = (message: string, claudeLog: string | null = null): false => {
+      this.storage.updateIteration(iteration.id, {
+        status: 'failed',
+        interruptionReason: message,
+        claudeLog,
+      });
+      this.emitEvent({
+        type: "iteration_complete",
+        timestamp: Date.now(),
+        stepId: step.id,
+        iterationNumber,
+        commitSha: null,
+        status: 'failed',
+        usage: this.getIterationUsageTotals(iteration),
+      });
+      this.log(`✗ Could not resolve the merge conflicts: ${message}`, "error", step.stepNumber);
+      return false;
+    };
+
+    let conflictedFiles: string[];
+    try {
+      conflictedFiles = startBaseMerge(context.workDir, baseBranch, mergeOptions);
+    } catch (error) {
+      return failIteration(error instanceof Error ? error.message : String(error));
+    }
 
+    let commitSha: string;
+    let claudeLog: string | null = null;
+    if (conflictedFiles.length === 0) {
+      commitSha = git(context.workDir, ['rev-parse', 'HEAD']);
+      this.log(`✓ Merged ${baseBranch} without conflicts`, "success", step.stepNumber);
+    } else {
+      this.log(`Conflicts with ${baseBranch} in: ${conflictedFiles.join(', ')}`, "info", step.stepNumber);
+      const files = conflictedFiles.join('\n');
+      const prompt = this.buildPrompt(
+        'conflictFix',
+        PROMPTS.conflictFix(step.stepNumber, baseBranch, files),
+        step,
+        context.workDir,
+        { baseBranch, conflictedFiles: files },
+      );
+
+      let result: AgentRunResult;
+      try {
+        result = await this.runImplementationAgentWithPermissions(
+          iteration,
+          step.stepNumber,
+          prompt,
+          context.workDir,
+        );
+      } catch (error) {
+        abortBaseMerge(context.workDir);
+        throw error;
+      }
+      claudeLog = this.buildAgentLog(result.output, result.workingTreeStatus);
+
+      try {
+        commitSha = concludeBaseMerge(context.workDir, baseBranch, conflictedFiles, mergeOptions);
+      } catch (error) {
+        abortBaseMerge(context.workDir);
+        return failIteration(error instanceof Error ? error.message : String(error), claudeLog);
+      }
+      this.log(`✓ Resolved the conflicts with ${baseBranch} in ${commitSha}`, "success", step.stepNumber);
+    }
+
+    this.storage.updateIteration(iteration.id, {
+      commitSha,
+      claudeLog,
+      status: 'completed',
+      phase: 'pushing',
+    });
+
+    await context.buildChecker.publish();
+
+    this.emitEvent({
+      type: "iteration_complete",
+      timestamp: Date.now(),
+      stepId: step.id,
+      iterationNumber,
+      commitSha,
+      status: 'completed',
+      usage: this.getIterationUsageTotals(iteration),
+    });
+
+    for (const issue of this.storage.getOpenIssues(step.id).filter((open) => open.type === 'merge_conflict')) {
+      this.storage.updateIssueStatus(issue.id, 'fixed', new Date().toISOString());
+      this.emitEvent({
+        type: "issue_resolved",
+        timestamp: Date.now(),
+        issueId: issue.id,
+      });
+    }
+
+    return true;
+  }
+
+  private async executeStep(pendingStep: DbStep, context: StepContext): Promise<void> {
+    this.stepClockCheckpoints.set(pendingStep.id, Date.now());
+    try {
+      await this.executeStepIterations(pendingStep, context);
+    } finally {
+      this.recordElapsedTime(pendingStep.id);
+      this.stepClockCheckpoints.delete(pendingStep.id);
+    }
+  }
+
+  private async executeStepIterations(pendingStep: DbStep, context: StepContext): Promise<void> {
     if (!this.plan) {
       throw new Error("Plan not initialized");
     }
 
-    const allSteps = this.storage.getSteps(this.plan.id);
-    const pendingSteps = allSteps.filter((s) => s.status === 'pending' || s.status === 'in_progress');
+    this.storage.updateStepStatus(pendingStep.id, 'in_progress');
+    const step: DbStep = { ...pendingStep, status: 'in_progress' };
+
+    // Steps may have been edited from the TUI since the plan was last read
+    this.refreshPlanFromDisk();
+
+    const freshSteps = this.storage.getSteps(this.plan.id);
+    const completedCount = freshSteps.filter(s => s.status === 'completed' || s.status === 'skipped').length;
+
+    this.emitEvent({
+      type: "step_start",
+      timestamp: Date.now(),
+      stepNumber: step.stepNumber,
+      stepTitle: step.title,
+      phase: step.status,
+      progress: {
+        current: completedCount + 1,
+        total: freshSteps.length,
+      },
+    });
 
+    this.log(`\n${"═".repeat(80)}`);
+    this.log(`STEP ${step.stepNumber}: ${step.title}`);
     this.log("═".repeat(80));
-    this.log(
-      `Found ${allSteps.length} steps (${allSteps.length - pendingSteps.length} done, ${pendingSteps.length} pending)`,
+
+    const allIterations = this.storage.getIterations(step.id);
+    const highestIterationNumber = allIterations.reduce(
+      (max, iteration) => Math.max(max, iteration.iterationNumber),
+      0
     );
-    this.log("═".repeat(80));
+    const completedIterations = allIterations.filter(i => i.status === 'completed');
+    const activeIterations = allIterations.filter(i => i.status !== 'aborted');
+    const iterationsWithWork = activeIterations.filter(i => i.commitSha !== null);
+    let iterationNumber: number;
 
-    if (pendingSteps.length === 0) {
-      this.log("\n✓ All steps are already marked as done!", "success");
+    if (completedIterations.length === 0) {
+      if (iterationsWithWork.length >= this.maxIterationsPerStep) {
+        this.handleMaxIterationsExceeded(step);
+      }
+      this.checkBudgets(step);
+
+      const nextIterationNumber = highestIterationNumber + 1;
+      const iteration = this.storage.createIteration(
+        step.id,
+        nextIterationNumber,
+        'implementation',
+        this.implementationAgent,
+        this.reviewAgent
+      );
 
       this.emitEvent({
-        type: "all_complete",
+        type: "iteration_start",
         timestamp: Date.now(),
-        totalTime: 0,
+        iterationId: iteration.id,
+        stepId: step.id,
+        iterationNumber: nextIterationNumber,
+        iterationType: 'implementation',
+        implementationAgent: this.implementationAgent,
+        reviewAgent: this.reviewAgent,
       });
 
-      return this.plan.id;
-    }
+      this.log(`\nIteration ${nextIterationNumber}: Implementation`);
+      this.log("─".repeat(80));
+
+      const prompt = this.buildPrompt(
+        'implementation',
+        PROMPTS.implementation(step.stepNumber, this.getPlanFilePath(context.workDir)),
+        step,
+        context.workDir,
+      );
+      const result = await this.runImplementationAgentWithPermissions(
+        iteration,
+        step.stepNumber,
+        prompt,
+        context.workDir,
+      );
+
+      if (!result.commitSha) {
+        const failureLog = this.buildAgentLog(result.output, result.workingTreeStatus);
+        const workingTreeSummary = this.formatWorkingTreeSummary(
+          result.workingTreeStatus,
+        );
+
+        this.storage.updateIteration(iteration.id, {
+          status: 'failed',
+          claudeLog: failureLog ?? null,
+        });
+
+        this.logWorkingTreeStatusAfterAgent(
+          result.workingTreeStatus,
+          step.stepNumber,
+        );
+
+        const agentName = this.getAgentDisplayName(this.implementationAgent);
+        const errorSuffix = workingTreeSummary
+          ? ` (working tree dirty: ${workingTreeSummary})`
+          : "";
+        const errorMessage = `${agentName} completed but did not create a commit${errorSuffix}`;
+
+        this.emitEvent({
+          type: "error",
+          timestamp: Date.now(),
+          error: errorMessage,
+          stepNumber: step.stepNumber,
+        });
+        throw new Error(
+          `${agentName} completed but did not create a commit for implementation${errorSuffix}`,
+        );
+      }
+
+      this.storage.updateIteration(iteration.id, {
+        commitSha: result.commitSha,
+        claudeLog: this.buildAgentLog(result.output, result.workingTreeStatus) ?? null,
+        status: 'completed',
+        phase: 'pushing',
+      });
+
+      await context.buildChecker.publish();
+
+      this.emitEvent({
+        type: "iteration_complete",
+        timestamp: Date.now(),
+        stepId: step.id,
+        iterationNumber: iteration.iterationNumber,
+        commitSha: result.commitSha,
+        status: 'completed',
+        usage: this.getIterationUsageTotals(iteration),
+      });
+
+      iterationNumber = iteration.iterationNumber + 1;
+    } else {
+      iterationNumber = highestIterationNumber + 1;
+    }
+
+    await context.buildChecker.prepare(step, this.planFile);
+    if (this.buildCheckerType === 'github') {
+      await this.recordPullRequest(step, context);
+      this.pullRequestProgress.schedule();
+    }
+
+    while (this.countIterationsWithCommits(step.id) <= this.maxIterationsPerStep) {
+      this.checkBudgets(step);
+      const attemptsWithCommits = this.countIterationsWithCommits(step.id);
+      const latestCommittedIteration = this.getLatestIterationWithCommit(step.id);
+      const sha = latestCommittedIteration?.commitSha ?? context.githubChecker.getLatestCommitSha();
+      const previousIterationId = latestCommittedIteration?.id;
+
+      if (previousIterationId) {
+        this.storage.updateIteration(previousIterationId, { buildStatus: 'pending', phase: 'build_check' });
+      }
+
+      this.emitEvent({
+        type: "github_check",
+        timestamp: Date.now(),
+        status: "waiting",
+        sha,
+        attempt: attemptsWithCommits,
+        maxAttempts: this.maxIterationsPerStep,
+        iterationId: previousIterationId,
+      });
+
+      this.log(`\nChecking ${context.buildChecker.getName()} for commit ${sha}`);
+
+      let checksPass: boolean;
+      let trackedSha: string;
+      const buildStartedAt = Date.now();
+      try {
+        checksPass = await context.buildChecker.waitForBuild(
+          sha,
+          this.buildTimeoutMinutes,
+          attemptsWithCommits,
+          this.maxIterationsPerStep,
+        );
+        trackedSha = context.buildChecker.getLastTrackedSha() ?? sha;
+      } catch (error) {
+        trackedSha = context.buildChecker.getLastTrackedSha() ?? sha;
+        if (error instanceof MergeConflictError) {
+          const iterationsForStep = this.storage.getIterations(step.id);
+          const latestIteration = iterationsForStep[iterationsForStep.length - 1];
+
+          // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- array index access can return undefined
+          if (latestIteration) {
+            this.storage.updateIteration(latestIteration.id, { buildStatus: 'merge_conflict' });
+
+            const descriptionLines = [
+              error.details.prNumber
+                ? `PR #${error.details.prNumber} is marked as having merge conflicts.`
+                : 'The current branch has merge conflicts with its base branch.',
+              error.details.base
+                ? `Conflicts must be resolved against "${error.details.base}".`
+                : undefined,
+              `Branch "${error.details.branch}" needs to be rebased or merged with the latest base before CI can run.`,
+              'Resolve the conflicts and rerun this step.',
+            ].filter((line): line is string => Boolean(line));
+
+            const conflictIssue = this.storage.createIssue(
+              latestIteration.id,
+              'merge_conflict',
+              descriptionLines.join('\n'),
+              null,
+              null,
+              'error',
+            );
+
+            this.emitEvent({
+              type: 'issue_found',
+              timestamp: Date.now(),
+              issueId: conflictIssue.id,
+              iterationId: latestIteration.id,
+              issueType: 'merge_conflict',
+              description: conflictIssue.description,
+            });
+          }
+
+          this.emitEvent({
+            type: 'github_check',
+            timestamp: Date.now(),
+            status: 'blocked',
+            sha: trackedSha,
+            attempt: attemptsWithCommits,
+            maxAttempts: this.maxIterationsPerStep,
+            // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- latestIteration can be undefined from array access
+            iterationId: latestIteration?.id ?? previousIterationId,
+            checkName: 'Merge conflict detected',
+          });
+
+          if (this.resolveConflicts && attemptsWithCommits < this.maxIterationsPerStep) {
+            this.checkBudgets(step);
+            const baseBranch = error.details.base ?? await context.githubChecker.getDefaultBranch();
+            if (await this.runConflictFixIteration(step, context, iterationNumber, baseBranch)) {
+              iterationNumber++;
+              continue;
+            }
+          }
 
-    let step = this.getCurrentStep();
-    while (step) {
-      this.storage.updateStepStatus(step.id, 'in_progress');
-      step = { ...step, status: 'in_progress' };
+          this.storage.updateStepStatus(step.id, 'failed');
 
-      const freshSteps = this.storage.getSteps(this.plan.id);
-      const completedCount = freshSteps.filter(s => s.status === 'completed').length;
+          this.emitEvent({
+            type: 'error',
+            timestamp: Date.now(),
+            error: error.message,
+            stepNumber: step.stepNumber,
+          });
 
-      this.emitEvent({
-        type: "step_start",
-        timestamp: Date.now(),
-        stepNumber: step.stepNumber,
-        stepTitle: step.title,
-        phase: step.status,
-        progress: {
-          current: completedCount + 1,
-          total: freshSteps.length,
-        },
-      });
+          throw error;
+        }
+
+        throw error;
+      } finally {
+        if (previousIterationId) {
+          this.storage.addIterationTime(previousIterationId, 'ci', Date.now() - buildStartedAt);
+        }
+      }
 
-      this.log(`\n${"═".repeat(80)}`);
-      this.log(`STEP ${step.stepNumber}: ${step.title}`);
-      this.log("═".repeat(80));
+      if (!checksPass) {
+        if (previousIterationId) {
+          this.storage.updateIteration(previousIterationId, { buildStatus: 'failed' });
+        }
+        const buildErrors = await context.buildChecker.extractBuildErrors(trackedSha);
+        if (!previousIterationId) {
+          throw new Error(`No committed iteration found for step ${step.stepNumber} while recording build failures.`);
+        }
+        const issue = this.storage.createIssue(previousIterationId, 'ci_failure', buildErrors);
 
-      const allIterations = this.storage.getIterations(step.id);
-      const highestIterationNumber = allIterations.reduce(
-        (max, iteration) => Math.max(max, iteration.iterationNumber),
-        0
-      );
-      const completedIterations = allIterations.filter(i => i.status === 'completed');
-      const activeIterations = allIterations.filter(i => i.status !== 'aborted');
-      const iterationsWithWork = activeIterations.filter(i => i.commitSha !== null);
-      let iterationNumber: number;
+        this.emitEvent({
+          type: "issue_found",
+          timestamp: Date.now(),
+          issueId: issue.id,
+          iterationId: previousIterationId,
+          issueType: 'ci_failure',
+          description: buildErrors,
+        });
 
-      if (completedIterations.length === 0) {
-        if (iterationsWithWork.length >= this.maxIterationsPerStep) {
+        if (attemptsWithCommits >= this.maxIterationsPerStep) {
           this.handleMaxIterationsExceeded(step);
         }
+        this.checkBudgets(step);
+
+        if (latestCommittedIteration.type === 'quick_fix') {
+          // The patches broke the build, so an agent addresses the review issues and the build errors together
+          this.log("Build failed after applying suggested patches; falling back to a review fix", "warn", step.stepNumber);
+          const reviewIssues = this.getQuickFixIssues(latestCommittedIteration)
+            .map((reviewIssue): ReviewIssue => ({
+              file: reviewIssue.filePath ?? 'unknown',
+              line: reviewIssue.lineNumber ?? undefined,
+              endLine: reviewIssue.endLineNumber ?? undefined,
+              severity: reviewIssue.severity ?? 'error',
+              category: reviewIssue.category ?? undefined,
+              confidence: reviewIssue.confidence ?? undefined,
+              description: reviewIssue.description,
+              patch: reviewIssue.suggestedPatch ?? undefined,
+            }));
+          await this.runReviewFixIteration(step, context, iterationNumber, [
+            ...reviewIssues,
+            {
+              file: 'unknown',
+              severity: 'error',
+              description: `The suggested patches for these issues were applied in ${trackedSha}, but the build then failed:\n${buildErrors}`,
+            },
+          ]);
+          iterationNumber++;
+          continue;
+        }
 
-        const nextIterationNumber = highestIterationNumber + 1;
         const iteration = this.storage.createIteration(
           step.id,
-          nextIterationNumber,
-          'implementation',
+          iterationNumber,
+          'build_fix',
           this.implementationAgent,
           this.reviewAgent
         );
@@ -1453,20 +3063,27 @@ CRITICAL REQUIREMENTS:
           timestamp: Date.now(),
           iterationId: iteration.id,
           stepId: step.id,
-          iterationNumber: nextIterationNumber,
-          iterationType: 'implementation',
+          iterationNumber,
+          iterationType: 'build_fix',
           implementationAgent: this.implementationAgent,
           reviewAgent: this.reviewAgent,
         });
 
-        this.log(`\nIteration ${nextIterationNumber}: Implementation`);
+        this.log(`\nIteration ${iterationNumber}: Build Fix`);
         this.log("─".repeat(80));
 
-        const prompt = PROMPTS.implementation(step.stepNumber, this.planFile);
+        const prompt = this.buildPrompt(
+          'buildFix',
+          PROMPTS.buildFix(step.stepNumber, buildErrors),
+          step,
+          context.workDir,
+          { buildErrors },
+        );
         const result = await this.runImplementationAgentWithPermissions(
           iteration,
           step.stepNumber,
           prompt,
+          context.workDir,
         );
 
         if (!result.commitSha) {
@@ -1498,7 +3115,7 @@ CRITICAL REQUIREMENTS:
             stepNumber: step.stepNumber,
           });
           throw new Error(
-            `${agentName} completed but did not create a commit for implementation${errorSuffix}`,
+            `${agentName} completed but did not create a commit for build fix${errorSuffix}`,
           );
         }
 
@@ -1509,487 +3126,347 @@ CRITICAL REQUIREMENTS:
           phase: 'pushing',
         });
 
-        await this.pushCommit();
+        await context.buildChecker.publish();
 
         this.emitEvent({
           type: "iteration_complete",
           timestamp: Date.now(),
           stepId: step.id,
-          iterationNumber: iteration.iterationNumber,
+          iterationNumber,
           commitSha: result.commitSha,
           status: 'completed',
+          usage: this.getIterationUsageTotals(iteration),
         });
 
-        iterationNumber = iteration.iterationNumber + 1;
-      } else {
-        iterationNumber = highestIterationNumber + 1;
+        iterationNumber++;
+        continue;
       }
 
-      await this.ensureBranchAndPR(step);
-
-      while (this.countIterationsWithCommits(step.id) <= this.maxIterationsPerStep) {
-        const attemptsWithCommits = this.countIterationsWithCommits(step.id);
-        const latestCommittedIteration = this.getLatestIterationWithCommit(step.id);
-        const sha = latestCommittedIteration?.commitSha ?? this.githubChecker.getLatestCommitSha();
-        const previousIterationId = latestCommittedIteration?.id;
-
-        if (previousIterationId) {
-          this.storage.updateIteration(previousIterationId, { buildStatus: 'pending', phase: 'build_check' });
-        }
+      if (previousIterationId) {
+        this.storage.updateIteration(previousIterationId, { buildStatus: 'passed' });
+      }
+      if (latestCommittedIteration?.type === 'quick_fix') {
+        await this.resolveQuickFixIssues(step, context, latestCommittedIteration);
+      }
 
-        this.emitEvent({
-          type: "github_check",
-          timestamp: Date.now(),
-          status: "waiting",
-          sha,
-          attempt: attemptsWithCommits,
-          maxAttempts: this.maxIterationsPerStep,
-          iterationId: previousIterationId,
-        });
+      this.emitEvent({
+        type: "github_check",
+        timestamp: Date.now(),
+        status: "success",
+        sha: trackedSha,
+        attempt: attemptsWithCommits,
+        maxAttempts: this.maxIterationsPerStep,
+        iterationId: previousIterationId,
+      });
 
-        this.log(`\nChecking GitHub Actions for commit ${sha}`);
+      this.log(`✓ All ${context.buildChecker.getName()} checks passed`, "success");
 
-        let checksPass: boolean;
-        let trackedSha: string;
-        try {
-          checksPass = await this.githubChecker.waitForChecksToPass(
-            sha,
-            this.buildTimeoutMinutes,
-            attemptsWithCommits,
-            this.maxIterationsPerStep,
-          );
-          trackedSha = this.githubChecker.getLastTrackedSha() ?? sha;
-        } catch (error) {
-          trackedSha = this.githubChecker.getLastTrackedSha() ?? sha;
-          if (error instanceof MergeConflictError) {
-            const iterationsForStep = this.storage.getIterations(step.id);
-            const latestIteration = iterationsForStep[iterationsForStep.length - 1];
-
-            // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- array index access can return undefined
-            if (latestIteration) {
-              this.storage.updateIteration(latestIteration.id, { buildStatus: 'merge_conflict' });
-
-              const descriptionLines = [
-                error.details.prNumber
-                  ? `PR #${error.details.prNumber} is marked as having merge conflicts.`
-                  : 'The current branch has merge conflicts with its base branch.',
-                error.details.base
-                  ? `Conflicts must be resolved against "${error.details.base}".`
-                  : undefined,
-                `Branch "${error.details.branch}" needs to be rebased or merged with the latest base before CI can run.`,
-                'Resolve the conflicts and rerun this step.',
-              ].filter((line): line is string => Boolean(line));
-
-              const conflictIssue = this.storage.createIssue(
-                latestIteration.id,
-                'merge_conflict',
-                descriptionLines.join('\n'),
-                null,
-                null,
-                'error',
-              );
-
-              this.emitEvent({
-                type: 'issue_found',
-                timestamp: Date.now(),
-                issueId: conflictIssue.id,
-                iterationId: latestIteration.id,
-                issueType: 'merge_conflict',
-                description: conflictIssue.description,
-              });
-            }
+      const previousIteration = this.getLatestIterationWithCommit(step.id);
+      if (!previousIteration) {
+        throw new Error(`No committed iteration found for step ${step.stepNumber} to review.`);
+      }
+      this.checkBudgets(step);
+      const reviewTarget = this.getReviewTarget(previousIteration);
+      const promptType = this.determineCodexPromptType(reviewTarget);
+
+      const commitSha = reviewTarget.commitSha ?? 'HEAD';
+      let codexPrompt: string;
+      if (promptType === 'implementation') {
+        codexPrompt = this.buildPrompt(
+          'codexReviewImplementation',
+          PROMPTS.codexReviewImplementation(step.stepNumber, step.title, this.planContent, commitSha),
+          step,
+          context.workDir,
+          { planContent: this.planContent, commitSha },
+        );
+      } else if (promptType === 'build_fix') {
+        const buildErrors = this.formatLatestBuildErrors(step.id);
+        codexPrompt = this.buildPrompt(
+          'codexReviewBuildFix',
+          PROMPTS.codexReviewBuildFix(buildErrors, commitSha),
+          step,
+          context.workDir,
+          { buildErrors, commitSha },
+        );
+      } else {
+        const openIssues = this.storage.getOpenIssues(step.id)
+          .filter(i => i.type === 'codex_review')
+          .map(i => ({
+            file: i.filePath ?? 'unknown',
+            line: i.lineNumber ?? undefined,
+            severity: i.severity ?? 'error',
+            description: i.description,
+          }));
+        codexPrompt = this.buildPrompt(
+          'codexReviewCodeFixes',
+          PROMPTS.codexReviewCodeFixes(openIssues, commitSha),
+          step,
+          context.workDir,
+          { issues: JSON.stringify(openIssues, null, 2), commitSha },
+        );
+      }
 
-            this.emitEvent({
-              type: 'github_check',
-              timestamp: Date.now(),
-              status: 'blocked',
-              sha: trackedSha,
-              attempt: attemptsWithCommits,
-              maxAttempts: this.maxIterationsPerStep,
-              // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- latestIteration can be undefined from array access
-              iterationId: latestIteration?.id ?? previousIterationId,
-              checkName: 'Merge conflict detected',
-            });
+      this.storage.updateIteration(previousIteration.id, { reviewStatus: 'in_progress', phase: 'review' });
 
-            this.storage.updateStepStatus(step.id, 'failed');
+      const consensus = usesConsensusReview(this.consensusReview, step.stepNumber) ? this.consensusReview : undefined;
+      const reviewers = consensus?.agents ?? [this.reviewAgent];
 
-            this.emitEvent({
-              type: 'error',
-              timestamp: Date.now(),
-              error: error.message,
-              stepNumber: step.stepNumber,
-            });
+      this.emitEvent({
+        type: "codex_review_start",
+        timestamp: Date.now(),
+        iterationId: previousIteration.id,
+        promptType,
+        agent: reviewers[0],
+        reviewers: consensus ? reviewers : undefined,
+      });
 
-            throw error;
-          }
+      const reviewerNames = reviewers.map((agent) => this.getAgentDisplayName(agent)).join(', ');
+      this.log(`\nRunning ${reviewerNames} code review (${promptType})...`);
 
-          throw error;
+      // A reviewer that crashes or times out leaves the verdict to the others
+      const settledRuns = await Promise.allSettled(reviewers.map(async (agent) => {
+        const run = await this.runReviewAgentWithPermissions(
+          previousIteration,
+          step.stepNumber,
+          codexPrompt,
+          context.workDir,
+          agent,
+        );
+        return { agent, output: run.output };
+      }));
+      const reviewRuns = settledRuns.flatMap((run) => (run.status === 'fulfilled' ? [run.value] : []));
+      const failedReviewers = settledRuns.flatMap((run, index) => {
+        if (run.status === 'fulfilled') {
+          return [];
         }
+        const error: unknown = run.reason;
+        return [{ agent: reviewers[index], error, message: error instanceof Error ? error.message : String(error) }];
+      });
 
-        if (!checksPass) {
-          if (previousIterationId) {
-            this.storage.updateIteration(previousIterationId, { buildStatus: 'failed' });
-          }
-          const buildErrors = await this.extractBuildErrors(trackedSha);
-          if (!previousIterationId) {
-            throw new Error(`No committed iteration found for step ${step.stepNumber} while recording build failures.`);
-          }
-          const issue = this.storage.createIssue(previousIterationId, 'ci_failure', buildErrors);
-
-          this.emitEvent({
-            type: "issue_found",
-            timestamp: Date.now(),
-            issueId: issue.id,
-            iterationId: previousIterationId,
-            issueType: 'ci_failure',
-            description: buildErrors,
-          });
-
-          if (attemptsWithCommits >= this.maxIterationsPerStep) {
-            this.handleMaxIterationsExceeded(step);
-          }
-
-          const iteration = this.storage.createIteration(
-            step.id,
-            iterationNumber,
-            'build_fix',
-            this.implementationAgent,
-            this.reviewAgent
-          );
-
-          this.emitEvent({
-            type: "iteration_start",
-            timestamp: Date.now(),
-            iterationId: iteration.id,
-            stepId: step.id,
-            iterationNumber,
-            iterationType: 'build_fix',
-            implementationAgent: this.implementationAgent,
-            reviewAgent: this.reviewAgent,
-          });
-
-          this.log(`\nIteration ${iterationNumber}: Build Fix`);
-          this.log("─".repeat(80));
-
-          const prompt = PROMPTS.buildFix(step.stepNumber, buildErrors);
-          const result = await this.runImplementationAgentWithPermissions(
-            iteration,
-            step.stepNumber,
-            prompt,
-          );
-
-          if (!result.commitSha) {
-            const failureLog = this.buildAgentLog(result.output, result.workingTreeStatus);
-            const workingTreeSummary = this.formatWorkingTreeSummary(
-              result.workingTreeStatus,
-            );
-
-            this.storage.updateIteration(iteration.id, {
-              status: 'failed',
-              claudeLog: failureLog ?? null,
-            });
-
-            this.logWorkingTreeStatusAfterAgent(
-              result.workingTreeStatus,
-              step.stepNumber,
-            );
+      if (reviewRuns.length === 0) {
+        const error = failedReviewers[0].error;
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const errorStack = error instanceof Error ? error.stack : undefined;
+        const diagnosticLog = [
+          `Review agent failed with error: ${errorMessage}`,
+          errorStack ? `\nStack trace:\n${errorStack}` : '',
+          `\nReview agent: ${reviewers.join(', ')}`,
+          `Prompt type: ${promptType}`,
+        ].join('');
 
-            const agentName = this.getAgentDisplayName(this.implementationAgent);
-            const errorSuffix = workingTreeSummary
-              ? ` (working tree dirty: ${workingTreeSummary})`
-              : "";
-            const errorMessage = `${agentName} completed but did not create a commit${errorSuffix}`;
+        this.storage.updateIteration(previousIteration.id, {
+          codexLog: diagnosticLog,
+          reviewStatus: 'failed',
+        });
 
-            this.emitEvent({
-              type: "error",
-              timestamp: Date.now(),
-              error: errorMessage,
-              stepNumber: step.stepNumber,
-            });
-            throw new Error(
-              `${agentName} completed but did not create a commit for build fix${errorSuffix}`,
-            );
-          }
+        this.emitEvent({
+          type: "error",
+          timestamp: Date.now(),
+          error: `Review agent failed: ${errorMessage}`,
+          stepNumber: step.stepNumber,
+        });
 
-          this.storage.updateIteration(iteration.id, {
-            commitSha: result.commitSha,
-            claudeLog: this.buildAgentLog(result.output, result.workingTreeStatus) ?? null,
-            status: 'completed',
-            phase: 'pushing',
-          });
+        this.log(`✗ Review agent failed: ${errorMessage}`, "error");
+        throw error;
+      }
 
-          await this.pushCommit();
+      for (const { agent, message } of failedReviewers) {
+        this.log(`⚠ Reviewer ${agent} failed: ${message}; applying the review policy to the other reviewers`, "warn", step.stepNumber);
+      }
 
-          this.emitEvent({
-            type: "iteration_complete",
-            timestamp: Date.now(),
-            stepId: step.id,
-            iterationNumber,
-            commitSha: result.commitSha,
-            status: 'completed',
-          });
+      const reviewParser = new ReviewParser();
+      const reviewerResults = reviewRuns.map(({ agent, output }) => {
+        const result = reviewParser.parseReviewOutput(output);
+        this.storage.addReviewLog(previousIteration.id, agent, result.result, output);
+        return { agent, result, output };
+      });
 
-          iterationNumber++;
-          continue;
-        }
+      const mergedResult = consensus
+        ? mergeReviewResults(reviewerResults, consensus)
+        : reviewerResults[0].result;
+      if (consensus) {
+        const verdicts = [
+          ...reviewerResults.map(({ agent, result }) => `${agent}: ${result.result}`),
+          ...failedReviewers.map(({ agent }) => `${agent}: ERROR`),
+        ].join(', ');
+        this.log(`Review verdicts (${consensus.policy ?? 'any-fail'} policy): ${verdicts}`, "info", step.stepNumber);
+      }
 
-        if (previousIterationId) {
-          this.storage.updateIteration(previousIterationId, { buildStatus: 'passed' });
-        }
+      const { review, deferred } = applyWarningPolicy(mergedResult, this.reviewWarnings);
+      let reviewResult: ReviewResult = review;
+      if (review.result !== mergedResult.result) {
+        this.log(`Review reported only warnings; passing it (${this.reviewWarnings} policy)`, "info", step.stepNumber);
+      }
+      const deferredIssues = deferred.map((warning) =>
+        this.storage.createIssue(
+          previousIteration.id,
+          'codex_review',
+          warning.description,
+          warning.file,
+          warning.line,
+          warning.severity,
+          'deferred',
+          this.getIssueDetails(warning),
+        ));
+      if (deferred.length > 0) {
+        this.log(`Deferred ${deferred.length} review warning(s) as tech debt`, "info", step.stepNumber);
+      }
 
-        this.emitEvent({
-          type: "github_check",
-          timestamp: Date.now(),
-          status: "success",
-          sha: trackedSha,
-          attempt: attemptsWithCommits,
-          maxAttempts: this.maxIterationsPerStep,
-          iterationId: previousIterationId,
-        });
+      this.storage.updateIteration(previousIteration.id, {
+        codexLog: consensus
+          ? formatConsensusLog([
+            ...reviewerResults.map(({ agent, result, output }) => ({ agent, result: result.result, log: output })),
+            ...failedReviewers.map(({ agent, message }) => ({ agent, result: 'ERROR' as const, log: message })),
+          ])
+          : reviewRuns[0].output,
+        reviewStatus: reviewResult.result === 'PASS' ? 'passed' : 'failed',
+        phase: reviewResult.result === 'PASS' ? 'done' : 'review',
+      });
 
-        this.log("✓ All GitHub Actions checks passed", "success");
+      this.emitEvent({
+        type: "codex_review_complete",
+        timestamp: Date.now(),
+        iterationId: previousIteration.id,
+        result: reviewResult.result,
+        issueCount: reviewResult.issues.length,
+        agent: reviewRuns[0].agent,
+        reviewers: consensus ? reviewRuns.map(({ agent }) => agent) : undefined,
+      });
 
-        const previousIteration = this.getLatestIterationWithCommit(step.id);
-        if (!previousIteration) {
-          throw new Error(`No committed iteration found for step ${step.stepNumber} to review.`);
-        }
-        const promptType = this.determineCodexPromptType(previousIteration);
-
-        const commitSha = previousIteration.commitSha ?? 'HEAD';
-        let codexPrompt: string;
-        if (promptType === 'implementation') {
-          codexPrompt = PROMPTS.codexReviewImplementation(step.stepNumber, step.title, this.planContent, commitSha);
-        } else if (promptType === 'build_fix') {
-          const buildErrors = this.formatLatestBuildErrors(step.id);
-          codexPrompt = PROMPTS.codexReviewBuildFix(buildErrors, commitSha);
+      if (reviewResult.result === 'PASS' && this.requireApproval) {
+        const decision = await this.requestStepApproval(
+          step,
+          previousIteration,
+          [...reviewResult.issues, ...deferred],
+          context.workDir,
+        );
+        if (!decision.approved) {
+          // A rejection is handled like a failed review, so its feedback goes through a review fix
+          this.log(`✗ Step ${step.stepNumber} was rejected`, "warn", step.stepNumber);
+          const feedbackIssues = parseApprovalFeedback(decision.feedback);
+          reviewResult = {
+            result: 'FAIL',
+            issues: feedbackIssues.length > 0
+              ? feedbackIssues
+              : [{ file: 'unknown', severity: 'error', description: 'The step was rejected without feedback.' }],
+          };
+          this.storage.updateIteration(previousIteration.id, { reviewStatus: 'failed', phase: 'review' });
         } else {
-          const openIssues = this.storage.getOpenIssues(step.id)
-            .filter(i => i.type === 'codex_review')
-            .map(i => ({
-              file: i.filePath ?? 'unknown',
-              line: i.lineNumber ?? undefined,
-              severity: i.severity ?? 'error',
-              description: i.description,
-            }));
-          codexPrompt = PROMPTS.codexReviewCodeFixes(openIssues, commitSha);
+          this.log(`✓ Step ${step.stepNumber} was approved`, "success", step.stepNumber);
         }
+      }
 
-        this.storage.updateIteration(previousIteration.id, { reviewStatus: 'in_progress', phase: 'review' });
-
-        this.emitEvent({
-          type: "codex_review_start",
-          timestamp: Date.now(),
-          iterationId: previousIteration.id,
-          promptType,
-          agent: this.reviewAgent,
-        });
-
-        this.log(`\nRunning ${this.getAgentDisplayName(this.reviewAgent)} code review (${promptType})...`);
-
-        let reviewRun: { success: boolean; output: string };
-        try {
-          reviewRun = await this.runReviewAgentWithPermissions(
-            previousIteration,
-            step.stepNumber,
-            codexPrompt,
+      if (reviewResult.result === 'FAIL' && reviewResult.issues.length > 0) {
+        const openIssues: Issue[] = [];
+        for (const issue of reviewResult.issues) {
+          const dbIssue = this.storage.createIssue(
+            previousIteration.id,
+            'codex_review',
+            issue.description,
+            issue.file,
+            issue.line,
+            issue.severity,
+            'open',
+            this.getIssueDetails(issue),
           );
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
-          const errorStack = error instanceof Error ? error.stack : undefined;
-          const diagnosticLog = [
-            `Review agent failed with error: ${errorMessage}`,
-            errorStack ? `\nStack trace:\n${errorStack}` : '',
-            `\nReview agent: ${this.reviewAgent}`,
-            `Prompt type: ${promptType}`,
-          ].join('');
-
-          this.storage.updateIteration(previousIteration.id, {
-            codexLog: diagnosticLog,
-            reviewStatus: 'failed',
-          });
+          openIssues.push(dbIssue);
 
           this.emitEvent({
-            type: "error",
+            type: "issue_found",
             timestamp: Date.now(),
-            error: `Review agent failed: ${errorMessage}`,
-            stepNumber: step.stepNumber,
+            issueId: dbIssue.id,
+            iterationId: previousIteration.id,
+            issueType: 'codex_review',
+            description: issue.description,
+            filePath: issue.file,
+            lineNumber: issue.line,
+            severity: issue.severity,
           });
+        }
+        await this.publishReview(step, context, previousIteration, 'FAIL', reviewers, [...openIssues, ...deferredIssues]);
 
-          this.log(`✗ Review agent failed: ${errorMessage}`, "error");
-          throw error;
+        if (attemptsWithCommits >= this.maxIterationsPerStep) {
+          this.handleMaxIterationsExceeded(step);
         }
+        this.checkBudgets(step);
 
-        const reviewParser = new ReviewParser();
-        const reviewResult = reviewParser.parseReviewOutput(reviewRun.output);
+        if (this.quickFixes && reviewResult.issues.every((issue) => issue.patch !== undefined)) {
+          const applied = await this.runQuickFixIteration(step, context, iterationNumber, reviewResult.issues);
+          iterationNumber++;
+          if (applied) {
+            continue;
+          }
+        }
 
-        this.storage.updateIteration(previousIteration.id, {
-          codexLog: reviewRun.output,
-          reviewStatus: reviewResult.result === 'PASS' ? 'passed' : 'failed',
-          phase: reviewResult.result === 'PASS' ? 'done' : 'review',
-        });
+        await this.runReviewFixIteration(step, context, iterationNumber, reviewResult.issues);
+        iterationNumber++;
+        continue;
+      } else {
+        this.log("✓ Code review passed with no issues", "success");
+        await this.publishReview(step, context, previousIteration, 'PASS', reviewers, deferredIssues);
+        this.storage.updateStepStatus(step.id, 'completed');
 
         this.emitEvent({
-          type: "codex_review_complete",
+          type: "step_complete",
           timestamp: Date.now(),
-          iterationId: previousIteration.id,
-          result: reviewResult.result,
-          issueCount: reviewResult.issues.length,
-          agent: this.reviewAgent,
+          stepNumber: step.stepNumber,
+          stepTitle: step.title,
         });
+        break;
+      }
+    }
 
-        if (reviewResult.result === 'FAIL' && reviewResult.issues.length > 0) {
-          for (const issue of reviewResult.issues) {
-            const dbIssue = this.storage.createIssue(
-              previousIteration.id,
-              'codex_review',
-              issue.description,
-              issue.file,
-              issue.line,
-              issue.severity,
-              'open'
-            );
-
-            this.emitEvent({
-              type: "issue_found",
-              timestamp: Date.now(),
-              issueId: dbIssue.id,
-              iterationId: previousIteration.id,
-              issueType: 'codex_review',
-              description: issue.description,
-              filePath: issue.file,
-              lineNumber: issue.line,
-              severity: issue.severity,
-            });
-          }
-
-          if (attemptsWithCommits >= this.maxIterationsPerStep) {
-            this.handleMaxIterationsExceeded(step);
-          }
-
-          const iteration = this.storage.createIteration(
-            step.id,
-            iterationNumber,
-            'review_fix',
-            this.implementationAgent,
-            this.reviewAgent
-          );
-
-          this.emitEvent({
-            type: "iteration_start",
-            timestamp: Date.now(),
-            iterationId: iteration.id,
-            stepId: step.id,
-            iterationNumber,
-            iterationType: 'review_fix',
-            implementationAgent: this.implementationAgent,
-            reviewAgent: this.reviewAgent,
-          });
-
-          this.log(`\nIteration ${iterationNumber}: Review Fix`);
-          this.log("─".repeat(80));
-
-          const prompt = PROMPTS.reviewFix(step.stepNumber, JSON.stringify(reviewResult.issues, null, 2));
-          const result = await this.runImplementationAgentWithPermissions(
-            iteration,
-            step.stepNumber,
-            prompt,
-          );
-
-          if (!result.commitSha) {
-            const failureLog = this.buildAgentLog(result.output, result.workingTreeStatus);
-            const workingTreeSummary = this.formatWorkingTreeSummary(
-              result.workingTreeStatus,
-            );
-
-            this.storage.updateIteration(iteration.id, {
-              status: 'failed',
-              claudeLog: failureLog ?? null,
-            });
-
-            this.logWorkingTreeStatusAfterAgent(
-              result.workingTreeStatus,
-              step.stepNumber,
-            );
-
-            const agentName = this.getAgentDisplayName(this.implementationAgent);
-            const errorSuffix = workingTreeSummary
-              ? ` (working tree dirty: ${workingTreeSummary})`
-              : "";
-            const errorMessage = `${agentName} completed but did not create a commit${errorSuffix}`;
-
-            this.emitEvent({
-              type: "error",
-              timestamp: Date.now(),
-              error: errorMessage,
-              stepNumber: step.stepNumber,
-            });
-            throw new Error(
-              `${agentName} completed but did not create a commit for review fix${errorSuffix}`,
-            );
-          }
+    if (this.countIterationsWithCommits(step.id) > this.maxIterationsPerStep) {
+      this.handleMaxIterationsExceeded(step);
+    }
+  }
 
-          this.storage.updateIteration(iteration.id, {
-            commitSha: result.commitSha,
-            claudeLog: this.buildAgentLog(result.output, result.workingTreeStatus) ?? null,
-            status: 'completed',
-            phase: 'pushing',
-          });
+  async run(): Promise<number> {
+    const startTime = Date.now();
+    await this.initializeOrResumePlan();
+    let stoppedEarly = false;
 
-          await this.pushCommit();
+    if (!this.plan) {
+      throw new Error("Plan not initialized");
+    }
 
-          this.emitEvent({
-            type: "iteration_complete",
-            timestamp: Date.now(),
-            stepId: step.id,
-            iterationNumber,
-            commitSha: result.commitSha,
-            status: 'completed',
-          });
+    await this.mergeCompletedWorktrees(this.storage.getSteps(this.plan.id));
 
-          const openIssues = this.storage.getOpenIssues(step.id);
-          for (const issue of openIssues) {
-            this.storage.updateIssueStatus(issue.id, 'fixed', new Date().toISOString());
-            this.emitEvent({
-              type: "issue_resolved",
-              timestamp: Date.now(),
-              issueId: issue.id,
-            });
-          }
+    const allSteps = this.storage.getSteps(this.plan.id);
+    const pendingSteps = allSteps.filter((s) => s.status === 'pending' || s.status === 'in_progress');
 
-          iterationNumber++;
-          continue;
-        } else {
-          this.log("✓ Code review passed with no issues", "success");
-          this.storage.updateStepStatus(step.id, 'completed');
+    this.log("═".repeat(80));
+    this.log(
+      `Found ${allSteps.length} steps (${allSteps.length - pendingSteps.length} done, ${pendingSteps.length} pending)`,
+    );
+    if (this.promptTemplates.hasTemplates()) {
+      this.log(`Using custom prompt templates from ${PROMPT_TEMPLATES_DIR}`);
+    }
+    this.log("═".repeat(80));
 
-          this.emitEvent({
-            type: "step_complete",
-            timestamp: Date.now(),
-            stepNumber: step.stepNumber,
-            stepTitle: step.title,
-          });
-          if (this.stopController?.isStopAfterStepRequested()) {
-            this.stopController.markStopAfterStepTriggered();
-            this.log(
-              `Stop requested. Exiting after completing step ${step.stepNumber}.`,
-              "warn"
-            );
-            stoppedEarly = true;
-          }
+    if (pendingSteps.length === 0) {
+      this.log("\n✓ All steps are already marked as done!", "success");
 
-          break;
-        }
-      }
+      this.emitEvent({
+        type: "all_complete",
+        timestamp: Date.now(),
+        totalTime: 0,
+      });
 
-      if (this.countIterationsWithCommits(step.id) > this.maxIterationsPerStep) {
-        this.handleMaxIterationsExceeded(step);
-      }
+      return this.plan.id;
+    }
 
-      if (stoppedEarly) {
-        break;
+    this.executionClockCheckpoint = Date.now();
+    try {
+      if (this.parallelSteps > 1) {
+        stoppedEarly = await this.runStepsInParallel();
+      } else {
+        stoppedEarly = await this.runStepsSequentially();
       }
-
-      step = this.getCurrentStep();
+    } finally {
+      this.recordElapsedTime();
+      this.executionClockCheckpoint = null;
+      await this.pullRequestProgress.flush();
     }
 
     if (stoppedEarly) {
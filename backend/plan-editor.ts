@@ -0,0 +1,303 @@
+import { readFileSync, writeFileSync } from 'fs';
+
+import type { DbStep } from './models.js';
+import { DEPENDS_PATTERN, STEP_HEADER_PATTERN, StepParser } from './step-parser.js';
+import type { Storage } from './storage.js';
+
+export type PlanEdit =
+  | { type: 'add'; afterStepNumber: number; title: string }
+  | { type: 'move'; stepNumber: number; direction: 'up' | 'down' }
+  | { type: 'split'; stepNumber: number; title: string }
+  | { type: 'retitle'; stepNumber: number; title: string };
+
+export class PlanEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanEditError';
+  }
+}
+
+type PlanChunk =
+  | { kind: 'text'; lines: string[] }
+  | { kind: 'step'; stepNumber: number | null; lines: string[] };
+
+const SECTION_HEADING_PATTERN = /^#{1,2}\s/;
+const STEP_NUMBER_PATTERN = /^(##\s+Step\s+)\d+/i;
+const STEP_TITLE_PATTERN = /^(##\s+Step\s+\d+:\s+)(.+)$/i;
+const PHASE_SUFFIX_PATTERN = /\s*\[(?:done|review|implementation)\]\s*$/i;
+
+export const describePlanEdit = (edit: PlanEdit): string => {
+  switch (edit.type) {
+    case 'add':
+      return `Added step ${edit.afterStepNumber + 1}: ${edit.title.trim()}`;
+    case 'move':
+      return `Moved step ${edit.stepNumber} ${edit.direction}`;
+    case 'split':
+      return `Split step ${edit.stepNumber}, added step ${edit.stepNumber + 1}: ${edit.title.trim()}`;
+    case 'retitle':
+      return `Retitled step ${edit.stepNumber}: ${edit.title.trim()}`;
+  }
+};
+
+/**
+ * Splits the plan into step sections and the text around them. A step section
+ * ends at the next level 1 or 2 heading, the same way StepParser reads it.
+ */
+const splitIntoChunks = (content: string): PlanChunk[] => {
+  const chunks: PlanChunk[] = [];
+  let current: PlanChunk = { kind: 'text', lines: [] };
+
+  for (const line of content.split('\n')) {
+    const match = line.match(STEP_HEADER_PATTERN);
+    if (match || SECTION_HEADING_PATTERN.test(line)) {
+      if (current.lines.length > 0) {
+        chunks.push(current);
+      }
+      current = match
+        ? { kind: 'step', stepNumber: parseInt(match[1], 10), lines: [line] }
+        : { kind: 'text', lines: [line] };
+      continue;
+    }
+    current.lines.push(line);
+  }
+  chunks.push(current);
+
+  return chunks;
+};
+
+const joinChunks = (chunks: PlanChunk[], trailingNewline: boolean): string => {
+  const lines = chunks.flatMap((chunk, index) => {
+    if (chunk.kind === 'text') {
+      return chunk.lines;
+    }
+    // Step sections are separated by exactly one blank line, wherever they moved
+    const body = [...chunk.lines];
+    while (body.length > 1 && body[body.length - 1].trim() === '') {
+      body.pop();
+    }
+    return index < chunks.length - 1 || trailingNewline ? [...body, ''] : body;
+  });
+  return lines.join('\n');
+};
+
+const findStepChunk = (chunks: PlanChunk[], stepNumber: number): number => {
+  const index = chunks.findIndex((chunk) => chunk.kind === 'step' && chunk.stepNumber === stepNumber);
+  if (index === -1) {
+    throw new PlanEditError(`Step ${stepNumber} not found in plan file`);
+  }
+  return index;
+};
+
+const findNeighbourStepChunk = (chunks: PlanChunk[], index: number, direction: 'up' | 'down'): number => {
+  const step = direction === 'up' ? -1 : 1;
+  for (let i = index + step; i >= 0 && i < chunks.length; i += step) {
+    if (chunks[i].kind === 'step') {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const rewriteDependencies = (chunk: PlanChunk, mapDependency: (dependency: number) => number | undefined): void => {
+  const index = chunk.lines.findIndex((line, lineIndex) => lineIndex > 0 && DEPENDS_PATTERN.test(line));
+  if (index === -1) {
+    return;
+  }
+
+  const line = chunk.lines[index];
+  const value = line.match(DEPENDS_PATTERN)?.[1] ?? '';
+  const dependencies = (value.match(/\d+/g) ?? []).map((n) => parseInt(n, 10));
+  const mapped = dependencies
+    .map(mapDependency)
+    .filter((dependency): dependency is number => dependency !== undefined);
+
+  if (mapped.join(',') === dependencies.join(',')) {
+    return;
+  }
+  if (mapped.length === 0) {
+    chunk.lines.splice(index, 1);
+    return;
+  }
+  chunk.lines[index] = `${line.slice(0, line.length - value.length)}${mapped.join(', ')}`;
+};
+
+/**
+ * Applies an edit to the plan markdown. Steps numbered `renumberFrom` and
+ * above are numbered consecutively again and dependencies on them follow.
+ */
+const editPlanContent = (content: string, edit: PlanEdit, renumberFrom: number | null): string => {
+  const chunks = splitIntoChunks(content);
+
+  switch (edit.type) {
+    case 'retitle': {
+      const chunk = chunks[findStepChunk(chunks, edit.stepNumber)];
+      const title = edit.title.trim();
+      chunk.lines[0] = chunk.lines[0].replace(STEP_TITLE_PATTERN, (_match, prefix: string, titleAndStatus: string) => {
+        const suffix = titleAndStatus.match(PHASE_SUFFIX_PATTERN)?.[0] ?? '';
+        return `${prefix}${title}${suffix}`;
+      });
+      break;
+    }
+    case 'add':
+      chunks.splice(findStepChunk(chunks, edit.afterStepNumber) + 1, 0, {
+        kind: 'step',
+        stepNumber: null,
+        lines: [`## Step ${edit.afterStepNumber + 1}: ${edit.title.trim()}`],
+      });
+      break;
+    case 'split':
+      chunks.splice(findStepChunk(chunks, edit.stepNumber) + 1, 0, {
+        kind: 'step',
+        stepNumber: null,
+        lines: [`## Step ${edit.stepNumber + 1}: ${edit.title.trim()}`, '', `Depends on: ${edit.stepNumber}`],
+      });
+      break;
+    case 'move': {
+      const index = findStepChunk(chunks, edit.stepNumber);
+      const neighbour = findNeighbourStepChunk(chunks, index, edit.direction);
+      [chunks[index], chunks[neighbour]] = [chunks[neighbour], chunks[index]];
+      break;
+    }
+  }
+
+  if (renumberFrom !== null) {
+    const renumbered = new Map<number, number>();
+    let nextNumber = renumberFrom;
+    for (const chunk of chunks) {
+      if (chunk.kind !== 'step' || (chunk.stepNumber !== null && chunk.stepNumber < renumberFrom)) {
+        continue;
+      }
+      if (chunk.stepNumber !== null) {
+        renumbered.set(chunk.stepNumber, nextNumber);
+      }
+      const stepNumber = nextNumber;
+      chunk.lines[0] = chunk.lines[0].replace(STEP_NUMBER_PATTERN, (_match, prefix: string) => `${prefix}${stepNumber}`);
+      nextNumber++;
+    }
+
+    for (const chunk of chunks) {
+      if (chunk.kind === 'step') {
+        rewriteDependencies(chunk, (dependency) => dependency < renumberFrom ? dependency : renumbered.get(dependency));
+      }
+    }
+  }
+
+  return joinChunks(chunks, content.endsWith('\n'));
+};
+
+/**
+ * Edits the pending steps of an execution while it runs. Every edit is written
+ * back to the markdown plan and then synced into storage, so the plan file
+ * stays the source of truth for steps that have not started yet.
+ */
+export class PlanEditor {
+  private storage: Storage;
+
+  constructor(storage: Storage) {
+    this.storage = storage;
+  }
+
+  /** Applies the edit and returns the updated steps of the execution. */
+  apply(planId: number, edit: PlanEdit): DbStep[] {
+    const plan = this.storage.getPlan(planId);
+    if (!plan) {
+      throw new PlanEditError(`Execution ID ${planId} not found in database`);
+    }
+
+    if ('title' in edit && edit.title.trim().length === 0) {
+      throw new PlanEditError('Step title must not be empty');
+    }
+
+    const steps = this.storage.getSteps(planId);
+    const renumberFrom = this.getRenumberFrom(steps, edit);
+
+    const original = readFileSync(plan.planFilePath, 'utf-8');
+    writeFileSync(plan.planFilePath, editPlanContent(original, edit, renumberFrom), 'utf-8');
+
+    let parsedSteps;
+    try {
+      parsedSteps = new StepParser(plan.planFilePath).parseSteps();
+    } catch (error) {
+      writeFileSync(plan.planFilePath, original, 'utf-8');
+      throw new PlanEditError(
+        `Edit would leave an invalid plan: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (edit.type === 'retitle') {
+      const step = steps.find((s) => s.stepNumber === edit.stepNumber);
+      if (step) {
+        this.storage.updateStepTitle(step.id, edit.title.trim());
+      }
+    } else if (renumberFrom !== null) {
+      this.storage.replacePendingStepsFromPlan(
+        planId,
+        renumberFrom,
+        parsedSteps
+          .filter((step) => step.number >= renumberFrom)
+          .map((step) => ({ stepNumber: step.number, title: step.title, dependsOn: step.dependsOn }))
+      );
+
+      for (const step of steps) {
+        const parsedStep = parsedSteps.find((s) => s.number === step.stepNumber);
+        if (
+          step.stepNumber < renumberFrom
+          && step.status === 'pending'
+          && parsedStep
+          && parsedStep.dependsOn.join(',') !== step.dependsOn.join(',')
+        ) {
+          this.storage.updateStepDependencies(step.id, parsedStep.dependsOn);
+        }
+      }
+    }
+
+    return this.storage.getSteps(planId);
+  }
+
+  /**
+   * Checks that the edit only touches pending steps and returns the first step
+   * number that gets renumbered, or null if no step moves.
+   */
+  private getRenumberFrom(steps: DbStep[], edit: PlanEdit): number | null {
+    const targetNumber = edit.type === 'add' ? edit.afterStepNumber : edit.stepNumber;
+    const target = steps.find((step) => step.stepNumber === targetNumber);
+    if (!target) {
+      throw new PlanEditError(`Step ${targetNumber} not found`);
+    }
+    if (edit.type !== 'add' && target.status !== 'pending') {
+      throw new PlanEditError(
+        `Step ${targetNumber} is ${target.status.replace('_', ' ')} and can no longer be edited`
+      );
+    }
+
+    let renumberFrom: number;
+    switch (edit.type) {
+      case 'retitle':
+        return null;
+      case 'add':
+      case 'split':
+        renumberFrom = targetNumber + 1;
+        break;
+      case 'move': {
+        const neighbourIndex = steps.indexOf(target) + (edit.direction === 'up' ? -1 : 1);
+        const neighbour = neighbourIndex >= 0 ? steps.at(neighbourIndex) : undefined;
+        if (!neighbour) {
+          throw new PlanEditError(
+            `Step ${targetNumber} is already the ${edit.direction === 'up' ? 'first' : 'last'} step`
+          );
+        }
+        renumberFrom = Math.min(targetNumber, neighbour.stepNumber);
+        break;
+      }
+    }
+
+    const locked = steps.find((step) => step.stepNumber >= renumberFrom && step.status !== 'pending');
+    if (locked) {
+      throw new PlanEditError(
+        `Step ${locked.stepNumber} is ${locked.status.replace('_', ' ')}; only steps after it can be added, moved or split`
+      );
+    }
+
+    return renumberFrom;
+  }
+}
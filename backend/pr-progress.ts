@@ -0,0 +1,178 @@
+import { basename } from 'path';
+
+import type { DbStep, Issue, Iteration } from './models.js';
+
+/** Marks the part of a pull request description that Stepcat rewrites; text outside it is kept. */
+export const PROGRESS_START_MARKER = '<!-- stepcat:progress -->';
+export const PROGRESS_END_MARKER = '<!-- /stepcat:progress -->';
+
+const MAX_ISSUE_LENGTH = 120;
+const SHORT_SHA_LENGTH = 7;
+
+const STATUS_LABELS: Record<DbStep['status'], string> = {
+  pending: 'pending',
+  in_progress: 'in progress',
+  completed: 'completed',
+  failed: 'failed',
+  skipped: 'skipped',
+};
+
+export interface StepProgress {
+  step: DbStep;
+  iterations: Iteration[];
+  /** Issues of the step that are still open. */
+  openIssues: Issue[];
+}
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const isDone = (step: DbStep): boolean => step.status === 'completed' || step.status === 'skipped';
+
+const describeIssue = (issue: Issue): string => {
+  const text = issue.description.trim().split('\n')[0].trim();
+  const shortened = text.length > MAX_ISSUE_LENGTH ? `${text.slice(0, MAX_ISSUE_LENGTH - 1)}…` : text;
+  if (!issue.filePath) {
+    return shortened;
+  }
+  const location = issue.lineNumber !== null ? `${issue.filePath}:${issue.lineNumber}` : issue.filePath;
+  return `\`${location}\` ${shortened}`;
+};
+
+const renderStep = ({ step, iterations, openIssues }: StepProgress, highlighted: boolean): string[] => {
+  const details = [STATUS_LABELS[step.status]];
+  if (iterations.length > 0) {
+    details.push(plural(iterations.length, 'iteration'));
+  }
+  if (openIssues.length > 0) {
+    details.push(plural(openIssues.length, 'open issue'));
+  }
+  if (highlighted) {
+    details.push('this pull request');
+  }
+
+  const lines = [`- [${step.status === 'completed' ? 'x' : ' '}] **Step ${step.stepNumber}: ${step.title}** (${details.join(', ')})`];
+  const commits = iterations
+    .map((iteration) => iteration.commitSha)
+    .filter((sha): sha is string => sha !== null)
+    .map((sha) => sha.slice(0, SHORT_SHA_LENGTH));
+  if (commits.length > 0) {
+    lines.push(`  - Commits: ${commits.join(', ')}`);
+  }
+  for (const issue of openIssues) {
+    lines.push(`  - Open issue: ${describeIssue(issue)}`);
+  }
+  return lines;
+};
+
+/**
+ * Checklist of every step with its status, commits, iteration count and open
+ * issues, wrapped in the progress markers. `highlightStepNumber` marks the
+ * step a stacked pull request belongs to.
+ */
+export const renderPlanProgress = (progress: StepProgress[], highlightStepNumber?: number): string => {
+  const done = progress.filter(({ step }) => isDone(step)).length;
+  return [
+    PROGRESS_START_MARKER,
+    `### Progress: ${done} of ${plural(progress.length, 'step')} done`,
+    '',
+    ...progress.flatMap((stepProgress) =>
+      renderStep(stepProgress, stepProgress.step.stepNumber === highlightStepNumber)),
+    PROGRESS_END_MARKER,
+  ].join('\n');
+};
+
+/** Replaces the progress section of a description, or appends one if the description has none. */
+export const replaceProgressSection = (body: string, section: string): string => {
+  const start = body.indexOf(PROGRESS_START_MARKER);
+  const end = start === -1 ? -1 : body.indexOf(PROGRESS_END_MARKER, start);
+  if (end === -1) {
+    return body.trim() ? `${body.trimEnd()}\n\n${section}` : section;
+  }
+  return body.slice(0, start) + section + body.slice(end + PROGRESS_END_MARKER.length);
+};
+
+/** Title of the pull request of a whole plan: the next step to finish, or the plan once all are done. */
+export const planPullRequestTitle = (planFile: string, steps: DbStep[]): string => {
+  const current = steps.find((step) => !isDone(step));
+  if (!current) {
+    return `[Stepcat] ${basename(planFile)}: all ${plural(steps.length, 'step')} done`;
+  }
+  return stepPullRequestTitle(current, steps.length);
+};
+
+/** Title of a pull request that belongs to one step. */
+export const stepPullRequestTitle = (step: DbStep, totalSteps: number): string =>
+  `[Stepcat] Step ${step.stepNumber}/${totalSteps}: ${step.title}`;
+
+export interface ProgressUpdateQueueOptions {
+  update: () => Promise<void>;
+  /** Called when an update fails; the failure never reaches the caller of `schedule`. */
+  onError: (error: unknown) => void;
+  /** How long to wait for more requests before updating (default: 0, update right away). */
+  debounceMs?: number;
+}
+
+/**
+ * Runs progress updates one at a time. Requests that arrive within the
+ * debounce time are coalesced into one update, and requests that arrive while
+ * an update is running are folded into a single follow-up.
+ */
+export class ProgressUpdateQueue {
+  private options: ProgressUpdateQueueOptions;
+  private running: Promise<void> | null = null;
+  private pending = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: ProgressUpdateQueueOptions) {
+    this.options = options;
+  }
+
+  schedule(): void {
+    if (this.running) {
+      this.pending = true;
+      return;
+    }
+    if (this.timer) {
+      return;
+    }
+    const debounceMs = this.options.debounceMs ?? 0;
+    if (debounceMs <= 0) {
+      this.start();
+      return;
+    }
+    this.timer = setTimeout(() => this.start(), debounceMs);
+    // A waiting update must not keep the process alive; flush() runs it right away
+    this.timer.unref();
+  }
+
+  /** Runs a waiting update right away and resolves once no update is running or waiting. */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      this.start();
+    }
+    while (this.running) {
+      await this.running;
+    }
+  }
+
+  private start(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.running = this.drain();
+  }
+
+  private async drain(): Promise<void> {
+    do {
+      this.pending = false;
+      try {
+        await this.options.update();
+      } catch (error) {
+        this.options.onError(error);
+      }
+      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- schedule() sets it while the update runs
+    } while (this.pending);
+    this.running = null;
+  }
+}
@@ -0,0 +1,206 @@
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+
+import type { PromptName } from './prompts.js';
+import { PROMPT_NAMES } from './prompts.js';
+
+export const PROMPT_TEMPLATES_DIR = join('.stepcat', 'prompts');
+
+export type PromptPlaceholder =
+  | 'stepNumber'
+  | 'stepTitle'
+  | 'planFile'
+  | 'planContent'
+  | 'buildErrors'
+  | 'commitSha'
+  | 'issues'
+  | 'baseBranch'
+  | 'conflictedFiles';
+
+export type PromptValues = Partial<Record<PromptPlaceholder, string | number>>;
+
+const COMMON_PLACEHOLDERS: PromptPlaceholder[] = ['stepNumber', 'stepTitle', 'planFile'];
+
+/**
+ * Placeholders each prompt can use, and the ones a replacement template must
+ * contain so the agent still receives the information it needs.
+ */
+export const PROMPT_PLACEHOLDERS: Record<
+  PromptName,
+  { available: PromptPlaceholder[]; required: PromptPlaceholder[] }
+> = {
+  implementation: {
+    available: COMMON_PLACEHOLDERS,
+    required: ['stepNumber', 'planFile'],
+  },
+  buildFix: {
+    available: [...COMMON_PLACEHOLDERS, 'buildErrors'],
+    required: ['buildErrors'],
+  },
+  reviewFix: {
+    available: [...COMMON_PLACEHOLDERS, 'issues'],
+    required: ['issues'],
+  },
+  conflictFix: {
+    available: [...COMMON_PLACEHOLDERS, 'baseBranch', 'conflictedFiles'],
+    required: ['conflictedFiles'],
+  },
+  codexReviewImplementation: {
+    available: [...COMMON_PLACEHOLDERS, 'planContent', 'commitSha'],
+    required: ['commitSha'],
+  },
+  codexReviewBuildFix: {
+    available: [...COMMON_PLACEHOLDERS, 'buildErrors', 'commitSha'],
+    required: ['buildErrors', 'commitSha'],
+  },
+  codexReviewCodeFixes: {
+    available: [...COMMON_PLACEHOLDERS, 'issues', 'commitSha'],
+    required: ['issues', 'commitSha'],
+  },
+};
+
+const SHARED_APPEND_TEMPLATE = 'all.append.md';
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z]+)\s*\}\}/g;
+
+export class PromptTemplateError extends Error {
+  errors: string[];
+
+  constructor(directory: string, errors: string[]) {
+    super(`Invalid prompt templates in ${directory}:\n${errors.map((error) => `  - ${error}`).join('\n')}`);
+    this.name = 'PromptTemplateError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Template files in `.stepcat/prompts/`:
+ * - `<prompt>.md` replaces the built-in prompt
+ * - `<prompt>.append.md` is appended to the prompt
+ * - `all.append.md` is appended to every prompt
+ *
+ * Templates reference values as `{{placeholder}}`.
+ */
+export class PromptTemplates {
+  private replacements: Partial<Record<PromptName, string>>;
+  private appends: Partial<Record<PromptName, string>>;
+  private sharedAppend: string | null;
+
+  constructor(
+    replacements: Partial<Record<PromptName, string>> = {},
+    appends: Partial<Record<PromptName, string>> = {},
+    sharedAppend: string | null = null,
+  ) {
+    this.replacements = replacements;
+    this.appends = appends;
+    this.sharedAppend = sharedAppend;
+  }
+
+  static load(workDir: string): PromptTemplates {
+    const directory = join(workDir, PROMPT_TEMPLATES_DIR);
+    if (!existsSync(directory)) {
+      return new PromptTemplates();
+    }
+
+    const replacements: Partial<Record<PromptName, string>> = {};
+    const appends: Partial<Record<PromptName, string>> = {};
+    let sharedAppend: string | null = null;
+    const errors: string[] = [];
+
+    for (const fileName of readdirSync(directory).sort()) {
+      if (!fileName.endsWith('.md')) {
+        continue;
+      }
+
+      const content = readFileSync(join(directory, fileName), 'utf-8');
+
+      if (fileName === SHARED_APPEND_TEMPLATE) {
+        errors.push(...PromptTemplates.validate(fileName, content, COMMON_PLACEHOLDERS, []));
+        sharedAppend = content;
+        continue;
+      }
+
+      const isAppend = fileName.endsWith('.append.md');
+      const name = fileName.slice(0, -(isAppend ? '.append.md' : '.md').length) as PromptName;
+      if (!PROMPT_NAMES.includes(name)) {
+        errors.push(
+          `${fileName}: unknown prompt "${name}". Expected one of: ${PROMPT_NAMES.join(', ')}`
+        );
+        continue;
+      }
+
+      const { available, required } = PROMPT_PLACEHOLDERS[name];
+      errors.push(...PromptTemplates.validate(fileName, content, available, isAppend ? [] : required));
+      if (isAppend) {
+        appends[name] = content;
+      } else {
+        replacements[name] = content;
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new PromptTemplateError(directory, errors);
+    }
+
+    return new PromptTemplates(replacements, appends, sharedAppend);
+  }
+
+  private static validate(
+    fileName: string,
+    content: string,
+    available: PromptPlaceholder[],
+    required: PromptPlaceholder[],
+  ): string[] {
+    const errors: string[] = [];
+    const used = new Set<string>();
+
+    for (const match of content.matchAll(PLACEHOLDER_PATTERN)) {
+      used.add(match[1]);
+    }
+
+    for (const placeholder of used) {
+      if (!available.includes(placeholder as PromptPlaceholder)) {
+        errors.push(
+          `${fileName}: unknown placeholder {{${placeholder}}}. Available: ${available.map((name) => `{{${name}}}`).join(', ')}`
+        );
+      }
+    }
+
+    for (const placeholder of required) {
+      if (!used.has(placeholder)) {
+        errors.push(`${fileName}: missing required placeholder {{${placeholder}}}`);
+      }
+    }
+
+    return errors;
+  }
+
+  hasTemplates(): boolean {
+    return Object.keys(this.replacements).length > 0
+      || Object.keys(this.appends).length > 0
+      || this.sharedAppend !== null;
+  }
+
+  /**
+   * Renders a prompt from its template, or from the built-in prompt when there
+   * is no replacement, then appends any extension templates.
+   */
+  render(name: PromptName, defaultPrompt: string, values: PromptValues): string {
+    const replacement = this.replacements[name];
+    const parts = [replacement !== undefined ? this.fill(replacement, values).trim() : defaultPrompt];
+
+    for (const extension of [this.appends[name], this.sharedAppend]) {
+      if (extension?.trim()) {
+        parts.push(this.fill(extension, values).trim());
+      }
+    }
+
+    return parts.join('\n\n');
+  }
+
+  private fill(template: string, values: PromptValues): string {
+    return template.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => {
+      const value = values[key as PromptPlaceholder];
+      return value === undefined ? placeholder : String(value);
+    });
+  }
+}
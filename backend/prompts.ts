@@ -127,7 +127,7 @@ ${PERMISSION_REQUEST_INSTRUCTIONS}`,
   buildFix: (
     stepNumber: number,
     buildErrors: string,
-  ) => `The GitHub Actions build has failed with the following errors:
+  ) => `The build has failed with the following errors:
 
 ---
 ${buildErrors}
@@ -185,6 +185,29 @@ CRITICAL REQUIREMENTS:
 - Do NOT push to remote - the orchestrator will handle pushing
 - Creating a commit is a required part of completing this task
 ${PERMISSION_REQUEST_INSTRUCTIONS}
+`,
+
+  conflictFix: (
+    stepNumber: number,
+    baseBranch: string,
+    conflictedFiles: string,
+  ) => `The branch of Step ${stepNumber} has merge conflicts with "${baseBranch}". The orchestrator has started merging "${baseBranch}" into it, and the following files conflict:
+
+---
+${conflictedFiles}
+---
+
+Please resolve the conflicts in these files, keeping both the changes of this step and the changes from "${baseBranch}" wherever possible. Remove every conflict marker (<<<<<<<, =======, >>>>>>>), then stage the files and conclude the merge:
+
+  git add <files>
+  git commit --no-edit
+
+CRITICAL REQUIREMENTS:
+- Do NOT abort the merge, rebase or reset the branch
+- Do NOT leave any conflict markers in the files
+- Do NOT ask for approval or confirmation - just conclude the merge
+- Do NOT push to remote - the orchestrator will handle pushing
+${PERMISSION_REQUEST_INSTRUCTIONS}
 `,
 
   codexReviewImplementation: (
@@ -208,8 +231,12 @@ Respond with a JSON object in the following format:
     {
       "file": "path/to/file",
       "line": 123,
+      "endLine": 130,
       "severity": "error" or "warning",
-      "description": "detailed description of the issue"
+      "category": "security" or "correctness" or "style" or "tests",
+      "confidence": 0.9,
+      "description": "detailed description of the issue",
+      "patch": "unified diff that fixes the issue"
     }
   ]
 }
@@ -223,6 +250,8 @@ If there are no issues, return:
 IMPORTANT:
 - Output ONLY valid JSON, no additional text or markdown formatting
 - The "line" field is optional and can be omitted if not applicable
+- "endLine", "category", "confidence" (from 0 to 1) and "patch" are optional
+- Only include a "patch" when you are sure of the fix; it must apply with \`git apply\` from the repository root
 - Use "error" severity for critical issues, "warning" for suggestions
 - Be specific and actionable in issue descriptions`,
 
@@ -245,8 +274,12 @@ Respond with a JSON object in the following format:
     {
       "file": "path/to/file",
       "line": 123,
+      "endLine": 130,
       "severity": "error" or "warning",
-      "description": "detailed description of the issue"
+      "category": "security" or "correctness" or "style" or "tests",
+      "confidence": 0.9,
+      "description": "detailed description of the issue",
+      "patch": "unified diff that fixes the issue"
     }
   ]
 }
@@ -260,6 +293,8 @@ If there are no issues, return:
 IMPORTANT:
 - Output ONLY valid JSON, no additional text or markdown formatting
 - The "line" field is optional and can be omitted if not applicable
+- "endLine", "category", "confidence" (from 0 to 1) and "patch" are optional
+- Only include a "patch" when you are sure of the fix; it must apply with \`git apply\` from the repository root
 - Use "error" severity for critical issues, "warning" for suggestions
 - Be specific and actionable in issue descriptions
 - Focus on whether the build errors were properly fixed`,
@@ -288,8 +323,12 @@ Respond with a JSON object in the following format:
     {
       "file": "path/to/file",
       "line": 123,
+      "endLine": 130,
       "severity": "error" or "warning",
-      "description": "detailed description of the issue"
+      "category": "security" or "correctness" or "style" or "tests",
+      "confidence": 0.9,
+      "description": "detailed description of the issue",
+      "patch": "unified diff that fixes the issue"
     }
   ]
 }
@@ -303,7 +342,31 @@ If there are no issues, return:
 IMPORTANT:
 - Output ONLY valid JSON, no additional text or markdown formatting
 - The "line" field is optional and can be omitted if not applicable
+- "endLine", "category", "confidence" (from 0 to 1) and "patch" are optional
+- Only include a "patch" when you are sure of the fix; it must apply with \`git apply\` from the repository root
 - Use "error" severity for critical issues, "warning" for suggestions
 - Be specific and actionable in issue descriptions
 - Focus on whether the previous issues were properly addressed`,
 };
+
+export type PromptName = Exclude<keyof typeof PROMPTS, 'preflight'>;
+
+export const PROMPT_NAMES: readonly PromptName[] = [
+  'implementation',
+  'buildFix',
+  'reviewFix',
+  'conflictFix',
+  'codexReviewImplementation',
+  'codexReviewBuildFix',
+  'codexReviewCodeFixes',
+];
+
+export type PromptInstructions = Partial<Record<PromptName, string>>;
+
+export const appendPromptInstructions = (prompt: string, instructions?: string): string => {
+  const trimmed = instructions?.trim();
+  if (!trimmed) {
+    return prompt;
+  }
+  return `${prompt}\n\nAdditional project instructions:\n${trimmed}`;
+};
@@ -0,0 +1,93 @@
+import { rmSync } from 'fs';
+import { join } from 'path';
+
+import { describeGitError, git } from './git.js';
+
+/** Agent name recorded on iterations that apply reviewer-suggested patches instead of running an agent. */
+export const QUICK_FIX_AGENT = 'quick-fix';
+
+export class QuickFixError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuickFixError';
+  }
+}
+
+/** Joins unified diffs into one patch, making sure each of them ends with a newline. */
+export const combinePatches = (patches: string[]): string =>
+  patches.map((patch) => (patch.endsWith('\n') ? patch : `${patch}\n`)).join('');
+
+/**
+ * Paths a patch creates, changes or deletes, read from `git apply --numstat -z`.
+ * A renamed file is listed with both its old and its new path.
+ */
+const listPatchedPaths = (workDir: string, patch: string): string[] => {
+  const fields = git(workDir, ['apply', '--numstat', '-z', '-'], patch).split('\0');
+  const paths: string[] = [];
+  for (let i = 0; i < fields.length; i++) {
+    const path = fields[i].split('\t').slice(2).join('\t');
+    if (path) {
+      paths.push(path);
+    } else if (fields[i]) {
+      paths.push(fields[++i], fields[++i]);
+    }
+  }
+  return paths;
+};
+
+/**
+ * Puts the given paths back to HEAD in the index and the working tree, and
+ * deletes those that do not exist at HEAD.
+ */
+const restorePaths = (workDir: string, paths: string[]): void => {
+  const atHead = new Set(git(workDir, ['ls-tree', '-r', '-z', '--name-only', 'HEAD', '--', ...paths]).split('\0'));
+  const tracked = paths.filter((path) => atHead.has(path));
+  const added = paths.filter((path) => !atHead.has(path));
+  if (added.length > 0) {
+    git(workDir, ['--literal-pathspecs', 'rm', '-q', '-f', '--cached', '--ignore-unmatch', '--', ...added]);
+    for (const path of added) {
+      rmSync(join(workDir, path), { force: true });
+    }
+  }
+  if (tracked.length > 0) {
+    git(workDir, ['--literal-pathspecs', 'checkout', 'HEAD', '--', ...tracked]);
+  }
+};
+
+/**
+ * Applies reviewer-suggested patches with `git apply --3way` and commits them.
+ * The working tree must be clean. Patches are checked with `git apply --check`
+ * first; if they still fail to apply, e.g. with conflicts, only the paths they
+ * touch are restored to HEAD before a QuickFixError is thrown. Returns the SHA
+ * of the new commit.
+ */
+export const applySuggestedPatches = (workDir: string, patches: string[], message: string): string => {
+  if (patches.length === 0) {
+    throw new QuickFixError('No patches to apply');
+  }
+  if (git(workDir, ['status', '--porcelain'])) {
+    throw new QuickFixError(`Working tree in ${workDir} has uncommitted changes`);
+  }
+
+  const patch = combinePatches(patches);
+  try {
+    git(workDir, ['apply', '--check', '--3way', '--whitespace=nowarn', '-'], patch);
+  } catch (error) {
+    throw new QuickFixError(`Suggested patches do not apply: ${describeGitError(error)}`);
+  }
+
+  try {
+    git(workDir, ['apply', '--3way', '--whitespace=nowarn', '-'], patch);
+  } catch (error) {
+    restorePaths(workDir, listPatchedPaths(workDir, patch));
+    throw new QuickFixError(`Suggested patches do not apply: ${describeGitError(error)}`);
+  }
+
+  if (!git(workDir, ['status', '--porcelain'])) {
+    throw new QuickFixError('Suggested patches did not change any files');
+  }
+
+  git(workDir, ['add', '-A']);
+  git(workDir, ['commit', '-m', message]);
+  return git(workDir, ['rev-parse', 'HEAD']);
+};
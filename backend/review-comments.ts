@@ -0,0 +1,85 @@
+import type { ReviewCommentDraft } from './github-checker.js';
+import type { DbStep, Issue } from './models.js';
+import type { ReviewResult } from './review-parser.js';
+
+/** A review issue together with the inline comment that posts it. */
+export interface IssueComment {
+  issue: Issue;
+  draft: ReviewCommentDraft;
+}
+
+export interface ReviewSummary {
+  step: DbStep;
+  result: ReviewResult['result'];
+  reviewers: string[];
+  /** Every issue of the review, including those commented inline. */
+  issues: Issue[];
+  /** Issues posted as inline comments; the others are listed in the summary. */
+  inlineIssueIds: Set<number>;
+}
+
+const describeLabels = (issue: Issue): string => {
+  const labels = [issue.category, issue.status === 'deferred' ? 'deferred as tech debt' : null]
+    .filter((label): label is string => label !== null);
+  return labels.length > 0 ? ` (${labels.join(', ')})` : '';
+};
+
+/** Markdown body of the inline comment of an issue, with the reviewer's patch if there is one. */
+export const formatIssueComment = (issue: Issue): string => {
+  const lines = [`**${issue.severity ?? 'error'}**${describeLabels(issue)}: ${issue.description}`];
+  if (issue.suggestedPatch) {
+    lines.push('', 'Suggested patch:', '', '```diff', issue.suggestedPatch.trimEnd(), '```');
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Inline comments for the issues that point at a line of a file. A range of
+ * lines is commented as a whole.
+ */
+export const buildIssueComments = (issues: Issue[]): IssueComment[] =>
+  issues.flatMap((issue) => {
+    if (!issue.filePath || issue.filePath === 'unknown' || issue.lineNumber === null || issue.lineNumber < 1) {
+      return [];
+    }
+    const spansLines = issue.endLineNumber !== null && issue.endLineNumber > issue.lineNumber;
+    const draft: ReviewCommentDraft = {
+      path: issue.filePath,
+      line: spansLines ? issue.endLineNumber as number : issue.lineNumber,
+      ...(spansLines ? { startLine: issue.lineNumber } : {}),
+      body: formatIssueComment(issue),
+    };
+    return [{ issue, draft }];
+  });
+
+/** Body of the review: the verdict, and the issues that could not be commented inline. */
+export const formatReviewSummary = ({ step, result, reviewers, issues, inlineIssueIds }: ReviewSummary): string => {
+  const lines = [
+    `### Stepcat review of step ${step.stepNumber}: ${step.title}`,
+    '',
+    `**${result}** from ${reviewers.join(', ')}`,
+  ];
+
+  if (issues.length === 0) {
+    lines.push('', 'No issues found.');
+    return lines.join('\n');
+  }
+
+  const inlineCount = issues.filter((issue) => inlineIssueIds.has(issue.id)).length;
+  if (inlineCount > 0) {
+    lines.push('', `${inlineCount} of ${issues.length} issue${issues.length === 1 ? '' : 's'} commented inline.`);
+  }
+
+  const remaining = issues.filter((issue) => !inlineIssueIds.has(issue.id));
+  if (remaining.length > 0) {
+    lines.push('');
+    for (const issue of remaining) {
+      const location = issue.filePath && issue.filePath !== 'unknown'
+        ? `\`${issue.lineNumber !== null ? `${issue.filePath}:${issue.lineNumber}` : issue.filePath}\` `
+        : '';
+      lines.push(`- **${issue.severity ?? 'error'}**${describeLabels(issue)}: ${location}${issue.description.split('\n')[0]}`);
+    }
+  }
+
+  return lines.join('\n');
+};
@@ -0,0 +1,137 @@
+import type { AgentName } from './agent-runner.js';
+import type { ReviewResult } from './review-parser.js';
+
+export type ReviewPolicy = 'any-fail' | 'majority' | 'severity';
+
+export const REVIEW_POLICIES: readonly ReviewPolicy[] = ['any-fail', 'majority', 'severity'];
+
+type ReviewIssue = ReviewResult['issues'][number];
+
+/**
+ * Several review agents reviewing the same commit. Their results are merged
+ * according to the policy:
+ * - `any-fail`: the review fails if any reviewer fails it
+ * - `majority`: the review fails if more than half of the reviewers fail it
+ * - `severity`: the review fails if any reviewer reports an issue at or above `severityThreshold`
+ */
+export interface ConsensusReview {
+  agents: AgentName[];
+  /** Default: `any-fail`. */
+  policy?: ReviewPolicy;
+  /** Used by the `severity` policy (default: `error`). */
+  severityThreshold?: ReviewIssue['severity'];
+  /** Steps reviewed by all agents; other steps use the single review agent. Default: every step. */
+  steps?: number[];
+}
+
+export interface ReviewerResult {
+  agent: AgentName;
+  result: ReviewResult;
+}
+
+export interface ConsensusIssue extends ReviewIssue {
+  /** Reviewers that reported the issue. */
+  reviewers: AgentName[];
+}
+
+export interface ConsensusResult extends ReviewResult {
+  issues: ConsensusIssue[];
+}
+
+const LINE_TOLERANCE = 3;
+const SIMILARITY_THRESHOLD = 0.5;
+const SEVERITY_RANK: Record<ReviewIssue['severity'], number> = { warning: 1, error: 2 };
+
+const normalizeFile = (file: string): string => file.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+
+const tokenize = (text: string): Set<string> => new Set(text.toLowerCase().match(/[a-z0-9_]+/g) ?? []);
+
+/** Jaccard similarity of the words of two descriptions. */
+const descriptionSimilarity = (a: string, b: string): number => {
+  const wordsA = tokenize(a);
+  const wordsB = tokenize(b);
+  if (wordsA.size === 0 && wordsB.size === 0) {
+    return 1;
+  }
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+};
+
+const isSameIssue = (a: ReviewIssue, b: ReviewIssue): boolean => {
+  if (normalizeFile(a.file) !== normalizeFile(b.file)) {
+    return false;
+  }
+  if (a.line !== undefined && b.line !== undefined && Math.abs(a.line - b.line) > LINE_TOLERANCE) {
+    return false;
+  }
+  return descriptionSimilarity(a.description, b.description) >= SIMILARITY_THRESHOLD;
+};
+
+/**
+ * Merges issues reported by several reviewers. Issues on the same file, on
+ * nearby lines and with similar descriptions are reported once, with the
+ * highest severity and confidence and the longest description.
+ */
+export const deduplicateIssues = (results: ReviewerResult[]): ConsensusIssue[] => {
+  const merged: ConsensusIssue[] = [];
+
+  for (const { agent, result } of results) {
+    for (const issue of result.issues) {
+      const existing = merged.find((candidate) => isSameIssue(candidate, issue));
+      if (!existing) {
+        merged.push({ ...issue, reviewers: [agent] });
+        continue;
+      }
+
+      if (!existing.reviewers.includes(agent)) {
+        existing.reviewers.push(agent);
+      }
+      if (SEVERITY_RANK[issue.severity] > SEVERITY_RANK[existing.severity]) {
+        existing.severity = issue.severity;
+      }
+      if (existing.line === undefined && issue.line !== undefined) {
+        existing.line = issue.line;
+        existing.endLine = issue.endLine;
+      }
+      existing.category ??= issue.category;
+      existing.patch ??= issue.patch;
+      if (issue.confidence !== undefined && (existing.confidence ?? 0) < issue.confidence) {
+        existing.confidence = issue.confidence;
+      }
+      if (issue.description.length > existing.description.length) {
+        existing.description = issue.description;
+      }
+    }
+  }
+
+  return merged;
+};
+
+export const mergeReviewResults = (results: ReviewerResult[], consensus: ConsensusReview): ConsensusResult => {
+  const issues = deduplicateIssues(results);
+  const failures = results.filter(({ result }) => result.result === 'FAIL').length;
+
+  switch (consensus.policy ?? 'any-fail') {
+    case 'any-fail':
+      return { result: failures > 0 ? 'FAIL' : 'PASS', issues };
+    case 'majority':
+      return { result: failures * 2 > results.length ? 'FAIL' : 'PASS', issues };
+    case 'severity': {
+      const threshold = SEVERITY_RANK[consensus.severityThreshold ?? 'error'];
+      const blocking = issues.filter((issue) => SEVERITY_RANK[issue.severity] >= threshold);
+      return blocking.length > 0 ? { result: 'FAIL', issues: blocking } : { result: 'PASS', issues };
+    }
+  }
+};
+
+/** Whether all consensus agents review the given step. */
+export const usesConsensusReview = (consensus: ConsensusReview | undefined, stepNumber: number): boolean =>
+  consensus !== undefined
+  && consensus.agents.length > 1
+  && (consensus.steps === undefined || consensus.steps.includes(stepNumber));
+
+/** Combines the reviewers' outputs into one log, each under a header with its agent and verdict. */
+export const formatConsensusLog = (
+  logs: Array<{ agent: AgentName; result: ReviewResult['result'] | 'ERROR'; log: string }>,
+): string =>
+  logs.map(({ agent, result, log }) => `=== Reviewer: ${agent} (${result}) ===\n${log}`).join('\n\n');
@@ -1,12 +1,23 @@
 import { getLogger } from "./logger.js";
 
+export type ReviewIssueCategory = 'security' | 'correctness' | 'style' | 'tests';
+
+export const REVIEW_ISSUE_CATEGORIES: readonly ReviewIssueCategory[] = ['security', 'correctness', 'style', 'tests'];
+
 export interface ReviewResult {
   result: 'PASS' | 'FAIL';
   issues: Array<{
     file: string;
     line?: number;
+    /** Last line of a multi-line issue. */
+    endLine?: number;
     severity: 'error' | 'warning';
+    category?: ReviewIssueCategory;
+    /** How sure the reviewer is that this is a real problem, from 0 to 1. */
+    confidence?: number;
     description: string;
+    /** Unified diff that fixes the issue. */
+    patch?: string;
   }>;
 }
 
@@ -77,16 +88,38 @@ export class ReviewParser {
           throw new Error(`Issue at index ${index} has invalid "severity" (must be error or warning)`);
         }
 
+        if (issueObj.category && !REVIEW_ISSUE_CATEGORIES.includes(issueObj.category as ReviewIssueCategory)) {
+          throw new Error(
+            `Issue at index ${index} has invalid "category" (must be ${REVIEW_ISSUE_CATEGORIES.join(', ')})`
+          );
+        }
+        if (
+          issueObj.confidence !== undefined
+          && (typeof issueObj.confidence !== 'number' || issueObj.confidence < 0 || issueObj.confidence > 1)
+        ) {
+          throw new Error(`Issue at index ${index} has invalid "confidence" (must be a number from 0 to 1)`);
+        }
+
         const severityValue: 'error' | 'warning' =
           issueObj.severity === 'error' || issueObj.severity === 'warning'
             ? issueObj.severity
             : 'error';
 
+        const line = typeof issueObj.line === 'number' ? issueObj.line : undefined;
+        const endLine = typeof issueObj.endLine === 'number' && (line === undefined || issueObj.endLine >= line)
+          ? issueObj.endLine
+          : undefined;
+        const patch = typeof issueObj.patch === 'string' && issueObj.patch.trim() ? issueObj.patch : undefined;
+
         return {
           file: issueObj.file,
-          line: typeof issueObj.line === 'number' ? issueObj.line : undefined,
+          line,
+          ...(endLine !== undefined ? { endLine } : {}),
           severity: severityValue,
+          ...(issueObj.category ? { category: issueObj.category as ReviewIssueCategory } : {}),
+          ...(typeof issueObj.confidence === 'number' ? { confidence: issueObj.confidence } : {}),
           description: issueObj.description,
+          ...(patch !== undefined ? { patch } : {}),
         };
       });
 
@@ -0,0 +1,38 @@
+import type { ReviewResult } from './review-parser.js';
+
+/**
+ * How review warnings are handled:
+ * - `block`: warnings fail the review like errors (default)
+ * - `pass`: a review that only reports warnings passes
+ * - `defer`: warnings never fail the review; they are recorded as tech debt for the report
+ */
+export type ReviewWarningPolicy = 'block' | 'pass' | 'defer';
+
+export const REVIEW_WARNING_POLICIES: readonly ReviewWarningPolicy[] = ['block', 'pass', 'defer'];
+
+type ReviewIssue = ReviewResult['issues'][number];
+
+export interface WarningPolicyResult {
+  review: ReviewResult;
+  /** Warnings taken out of the review, to be recorded as tech debt. */
+  deferred: ReviewIssue[];
+}
+
+export const applyWarningPolicy = (review: ReviewResult, policy: ReviewWarningPolicy): WarningPolicyResult => {
+  const errors = review.issues.filter((issue) => issue.severity === 'error');
+  const warnings = review.issues.filter((issue) => issue.severity === 'warning');
+  // A failed review without issues can't be judged by severity, so it keeps failing
+  const warningsOnly = review.result === 'FAIL' && warnings.length > 0 && errors.length === 0;
+
+  switch (policy) {
+    case 'block':
+      return { review, deferred: [] };
+    case 'pass':
+      return { review: warningsOnly ? { ...review, result: 'PASS' } : review, deferred: [] };
+    case 'defer':
+      return {
+        review: { result: warningsOnly ? 'PASS' : review.result, issues: errors },
+        deferred: warnings,
+      };
+  }
+};
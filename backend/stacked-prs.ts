@@ -0,0 +1,58 @@
+import { describeGitError, git } from './git.js';
+
+export class StackRebaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StackRebaseError';
+  }
+}
+
+/** Branch name of a step that runs on its own branch, in a worktree or a stack of pull requests. */
+export const stackBranchName = (planId: number, stepNumber: number): string =>
+  `stepcat/${planId}/step-${stepNumber}`;
+
+const branchExists = (workDir: string, branch: string): boolean => {
+  try {
+    git(workDir, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Checks out the branch of a step, creating it from `startPoint` unless it exists already. */
+export const checkoutStackBranch = (workDir: string, branch: string, startPoint: string): void => {
+  git(workDir, branchExists(workDir, branch) ? ['checkout', branch] : ['checkout', '-b', branch, startPoint]);
+};
+
+/** Fetches a branch from origin and returns the ref of its remote-tracking branch. */
+export const fetchBaseBranch = (workDir: string, branch: string): string => {
+  git(workDir, ['fetch', 'origin', branch]);
+  return `origin/${branch}`;
+};
+
+/**
+ * Moves the commits of `branch` that are not in `upstream` onto `onto` and
+ * force-pushes the branch. The rebase is aborted on conflicts. Returns the
+ * head of the branch before the rebase, so that the branches stacked on it
+ * can be moved as well.
+ */
+export const rebaseStackBranch = (workDir: string, branch: string, upstream: string, onto: string): string => {
+  const previousHead = git(workDir, ['rev-parse', branch]);
+
+  try {
+    git(workDir, ['rebase', '--onto', onto, upstream, branch]);
+  } catch (error) {
+    try {
+      git(workDir, ['rebase', '--abort']);
+    } catch {
+      // Nothing to abort if the rebase failed before starting
+    }
+    throw new StackRebaseError(
+      `Could not rebase "${branch}" onto "${onto}": ${describeGitError(error)}. Rebase it manually and rerun Stepcat.`,
+    );
+  }
+
+  git(workDir, ['push', '--force-with-lease', 'origin', branch]);
+  return previousHead;
+};
@@ -0,0 +1,119 @@
+import { statSync } from 'fs';
+import { join } from 'path';
+
+import type { AgentName } from './agent-runner.js';
+import type { OrchestratorEventEmitter } from './events.js';
+import { git, gitRaw } from './git.js';
+
+const MAX_CHECK_INTERVAL_MS = 30_000;
+
+export class AgentStalledError extends Error {
+  idleMinutes: number;
+
+  constructor(agentName: string, idleMinutes: number) {
+    super(`${agentName} stalled: no output and no file changes for ${idleMinutes} minute${idleMinutes === 1 ? '' : 's'}`);
+    this.name = 'AgentStalledError';
+    this.idleMinutes = idleMinutes;
+  }
+}
+
+export interface StallWatchdogOptions {
+  workDir: string;
+  idleMinutes: number;
+  agent: AgentName;
+  iterationId?: number;
+  eventEmitter?: OrchestratorEventEmitter;
+  /** Called once when the agent stalls, after the `agent_stalled` event is emitted. */
+  onStall: () => void;
+  /** How often the working tree is checked (default: a tenth of the idle time, at most 30 seconds). */
+  checkIntervalMs?: number;
+}
+
+/**
+ * HEAD, the changed files and their modification times. Any change means the
+ * agent is working even if it prints nothing. Empty outside a git repository.
+ */
+export const snapshotWorkingTree = (workDir: string): string => {
+  try {
+    // Working trees without commits have no HEAD yet
+    let head: string;
+    try {
+      head = git(workDir, ['rev-parse', '--verify', '--quiet', 'HEAD']);
+    } catch {
+      head = 'unborn';
+    }
+    const paths = gitRaw(workDir, ['status', '--porcelain', '-z', '--untracked-files=all'])
+      .split('\0')
+      .filter((entry) => entry.length > 3)
+      .map((entry) => entry.slice(3));
+    const files = paths.map((path) => {
+      try {
+        return `${path}@${statSync(join(workDir, path)).mtimeMs}`;
+      } catch {
+        return `${path}@deleted`;
+      }
+    });
+    return [head, ...files].join('\n');
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Watches a running agent and reports a stall when it has printed nothing
+ * and changed no files for `idleMinutes`. Runners record output as activity;
+ * the watchdog checks the working tree itself.
+ */
+export class StallWatchdog {
+  private options: StallWatchdogOptions;
+  private lastActivityAt = Date.now();
+  private lastSnapshot = '';
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(options: StallWatchdogOptions) {
+    this.options = options;
+  }
+
+  start(): void {
+    const idleMs = this.options.idleMinutes * 60 * 1000;
+    const checkIntervalMs = this.options.checkIntervalMs ?? Math.min(MAX_CHECK_INTERVAL_MS, idleMs / 10);
+    this.lastActivityAt = Date.now();
+    this.lastSnapshot = snapshotWorkingTree(this.options.workDir);
+    this.timer = setInterval(() => this.check(idleMs), checkIntervalMs);
+    this.timer.unref();
+  }
+
+  recordActivity(): void {
+    this.lastActivityAt = Date.now();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private check(idleMs: number): void {
+    const snapshot = snapshotWorkingTree(this.options.workDir);
+    if (snapshot !== this.lastSnapshot) {
+      this.lastSnapshot = snapshot;
+      this.recordActivity();
+      return;
+    }
+
+    if (Date.now() - this.lastActivityAt < idleMs) {
+      return;
+    }
+
+    this.stop();
+    this.options.eventEmitter?.emit('event', {
+      type: 'agent_stalled',
+      timestamp: Date.now(),
+      agent: this.options.agent,
+      iterationId: this.options.iterationId,
+      idleMinutes: this.options.idleMinutes,
+    });
+    this.options.onStall();
+  }
+}
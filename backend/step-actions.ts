@@ -0,0 +1,128 @@
+import { git } from './git.js';
+import type { AuditEntry, DbStep } from './models.js';
+import type { Storage } from './storage.js';
+
+export type StepAction = 'skip' | 'retry' | 'complete';
+
+export const STEP_ACTIONS: readonly StepAction[] = ['skip', 'retry', 'complete'];
+
+/** Agent name recorded on the iteration that holds a manually accepted commit. */
+export const MANUAL_AGENT = 'manual';
+
+export class StepActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StepActionError';
+  }
+}
+
+const ALLOWED_STATUSES: Record<StepAction, readonly DbStep['status'][]> = {
+  skip: ['pending', 'in_progress', 'failed'],
+  retry: ['failed'],
+  complete: ['pending', 'in_progress', 'failed'],
+};
+
+/** Resolves a commit-ish such as "HEAD" to a full SHA in the given repository. */
+export const resolveCommit = (workDir: string, ref: string = 'HEAD'): string => {
+  try {
+    return git(workDir, ['rev-parse', '--verify', `${ref}^{commit}`]);
+  } catch {
+    throw new StepActionError(`Commit not found in ${workDir}: ${ref}`);
+  }
+};
+
+/**
+ * Manual interventions on a step: skip it, retry it after a failure, or accept
+ * a commit made by hand as its result. Every action goes to the audit log.
+ */
+export class StepActions {
+  private storage: Storage;
+
+  constructor(storage: Storage) {
+    this.storage = storage;
+  }
+
+  /** Marks the step as skipped; steps that depend on it may run. */
+  skip(planId: number, stepNumber: number, source: AuditEntry['source']): DbStep {
+    const step = this.getStep(planId, stepNumber, 'skip');
+    this.storage.updateStepStatus(step.id, 'skipped');
+    this.record(planId, step, 'skip_step', `Skipped while ${step.status.replace('_', ' ')}`, source);
+    return { ...step, status: 'skipped' };
+  }
+
+  /**
+   * Resets a failed step to pending. Its iterations are marked as aborted, so
+   * the step gets a fresh iteration budget and starts with a new implementation.
+   */
+  retry(planId: number, stepNumber: number, source: AuditEntry['source']): DbStep {
+    const step = this.getStep(planId, stepNumber, 'retry');
+    const iterations = this.storage.getIterations(step.id).filter((iteration) => iteration.status !== 'aborted');
+    for (const iteration of iterations) {
+      this.storage.updateIteration(iteration.id, {
+        status: 'aborted',
+        interruptionReason: iteration.interruptionReason ?? 'Superseded by a retry of the step',
+      });
+    }
+    this.storage.updateStepStatus(step.id, 'pending');
+    this.record(planId, step, 'retry_step', `Aborted ${iterations.length} previous iteration(s)`, source);
+    return { ...step, status: 'pending' };
+  }
+
+  /**
+   * Accepts a commit made outside Stepcat as the result of the step. A commit
+   * that is already recorded on another step, such as HEAD right after that
+   * step ran, is rejected.
+   */
+  complete(planId: number, stepNumber: number, commitSha: string, source: AuditEntry['source']): DbStep {
+    const step = this.getStep(planId, stepNumber, 'complete');
+    const owner = this.storage.getSteps(planId).find((other) =>
+      other.id !== step.id
+      && this.storage.getIterations(other.id).some((iteration) =>
+        iteration.commitSha === commitSha && iteration.status !== 'aborted'));
+    if (owner) {
+      throw new StepActionError(
+        `Cannot complete step ${stepNumber} with commit ${commitSha.substring(0, 7)}: ` +
+        `it is the work of step ${owner.stepNumber}. Commit the work of step ${stepNumber} first.`
+      );
+    }
+    const iterations = this.storage.getIterations(step.id);
+    const nextIterationNumber = iterations.reduce((max, iteration) => Math.max(max, iteration.iterationNumber), 0) + 1;
+
+    const iteration = this.storage.createIteration(step.id, nextIterationNumber, 'implementation', MANUAL_AGENT, null);
+    this.storage.updateIteration(iteration.id, { commitSha, status: 'completed', phase: 'done' });
+    this.storage.updateStepStatus(step.id, 'completed');
+    this.record(planId, step, 'complete_step', `Accepted commit ${commitSha}`, source);
+    return { ...step, status: 'completed' };
+  }
+
+  private getStep(planId: number, stepNumber: number, action: StepAction): DbStep {
+    if (!this.storage.getPlan(planId)) {
+      throw new StepActionError(`Execution ID ${planId} not found in database`);
+    }
+
+    const step = this.storage.getSteps(planId).find((s) => s.stepNumber === stepNumber);
+    if (!step) {
+      throw new StepActionError(`Step ${stepNumber} not found in execution ${planId}`);
+    }
+
+    const allowed = ALLOWED_STATUSES[action];
+    if (!allowed.includes(step.status)) {
+      throw new StepActionError(
+        `Cannot ${action} step ${stepNumber}: it is ${step.status.replace('_', ' ')} ` +
+        `(expected ${allowed.map((status) => status.replace('_', ' ')).join(' or ')})`
+      );
+    }
+
+    return step;
+  }
+
+  private record(
+    planId: number,
+    step: DbStep,
+    action: AuditEntry['action'],
+    details: string,
+    source: AuditEntry['source'],
+  ): void {
+    this.storage.addAuditEntry({ planId, stepNumber: step.stepNumber, action, details, source });
+  }
+}
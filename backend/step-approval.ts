@@ -0,0 +1,53 @@
+import type { ReviewResult } from './review-parser.js';
+
+export type ReviewIssue = ReviewResult['issues'][number];
+
+/** What a human sees before a step whose review passed is accepted. */
+export interface StepApprovalRequest {
+  stepNumber: number;
+  stepTitle: string;
+  /** Commits of the step, oldest first. */
+  commits: string[];
+  diff: string;
+  /** Non-blocking comments of the automated review, one per line; a starting point for feedback. */
+  reviewerNotes: string;
+}
+
+export type StepApprovalDecision =
+  | { approved: true }
+  | { approved: false; feedback: string };
+
+const LOCATION_WITH_LINE_PATTERN = /^([^\s:]+):(\d+):\s*(.+)$/;
+const LOCATION_PATTERN = /^([^\s:]+\.[A-Za-z0-9]+):\s+(.+)$/;
+const LIST_MARKER_PATTERN = /^(?:[-*•]|\d+[.)])\s+/;
+
+const formatIssueLine = (issue: ReviewIssue): string => {
+  const location = issue.line !== undefined ? `${issue.file}:${issue.line}` : issue.file;
+  return `${location}: ${issue.description.replace(/\s*\n\s*/g, ' ')}`;
+};
+
+/** Formats review comments so that parseApprovalFeedback reads them back unchanged. */
+export const formatReviewerNotes = (issues: ReviewIssue[]): string =>
+  issues.map(formatIssueLine).join('\n');
+
+/**
+ * Turns rejection feedback into review issues, one per non-empty line. A line
+ * may start with `path:line:` or `path:` to point at a location; list markers
+ * are ignored.
+ */
+export const parseApprovalFeedback = (feedback: string): ReviewIssue[] =>
+  feedback
+    .split('\n')
+    .map((line) => line.trim().replace(LIST_MARKER_PATTERN, ''))
+    .filter((line) => line.length > 0)
+    .map((line): ReviewIssue => {
+      const withLine = line.match(LOCATION_WITH_LINE_PATTERN);
+      if (withLine) {
+        return { file: withLine[1], line: parseInt(withLine[2], 10), severity: 'error', description: withLine[3] };
+      }
+      const withFile = line.match(LOCATION_PATTERN);
+      if (withFile) {
+        return { file: withFile[1], severity: 'error', description: withFile[2] };
+      }
+      return { file: 'unknown', severity: 'error', description: line };
+    });
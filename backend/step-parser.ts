@@ -9,8 +9,12 @@ export interface Step {
   title: string;
   fullHeader: string;
   phase: StepPhase;
+  dependsOn: number[];
 }
 
+export const STEP_HEADER_PATTERN = /^##\s+Step\s+(\d+):\s+(.+)$/i;
+export const DEPENDS_PATTERN = /^\s*(?:[-*]\s+)?\**Depends(?:\s+on)?\s*:\s*\**\s*(.*)$/i;
+
 export class StepParser {
   private content: string;
   private filePath: string;
@@ -35,8 +39,11 @@ export class StepParser {
 
     getLogger()?.debug("StepParser", `Parsing steps from ${lines.length} lines`);
 
+    let currentStep: Step | null = null;
+    let dependsParsed = false;
+
     for (const line of lines) {
-      const match = line.match(/^##\s+Step\s+(\d+):\s+(.+)$/i);
+      const match = line.match(STEP_HEADER_PATTERN);
       if (match) {
         const titleAndStatus = match[2].trim();
 
@@ -56,12 +63,29 @@ export class StepParser {
             .trim();
         }
 
-        steps.push({
+        currentStep = {
           number: parseInt(match[1], 10),
           title,
           fullHeader: line.trim(),
           phase,
-        });
+          dependsOn: [],
+        };
+        dependsParsed = false;
+        steps.push(currentStep);
+        continue;
+      }
+
+      if (!currentStep) {
+        continue;
+      }
+
+      const dependsMatch = dependsParsed ? null : line.match(DEPENDS_PATTERN);
+      if (dependsMatch) {
+        currentStep.dependsOn = this.parseDependencyList(currentStep.number, dependsMatch[1]);
+        dependsParsed = true;
+      } else if (/^#{1,2}\s/.test(line)) {
+        // A new top-level section ends the current step body
+        currentStep = null;
       }
     }
 
@@ -85,6 +109,8 @@ export class StepParser {
       );
     }
 
+    this.validateDependencies(sorted);
+
     const totalSteps = sorted.length;
     const doneSteps = sorted.filter((s) => s.phase === "done").length;
     const pendingSteps = totalSteps - doneSteps;
@@ -93,6 +119,65 @@ export class StepParser {
     return sorted;
   }
 
+  /** Parses a comma- or space-separated list of step numbers, each optionally written as "Step N". */
+  private parseDependencyList(stepNumber: number, value: string): number[] {
+    // The closing bold markers of "**Depends on: 1**"
+    const words = value.replace(/\*+\s*$/, "").split(/[\s,]+/).filter((word) => word.length > 0);
+    const numbers: number[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+      const word = /^step$/i.test(words[i]) ? words.at(++i) : words[i];
+      if (word === undefined || !/^\d+$/.test(word)) {
+        throw new Error(
+          `Invalid dependencies for step ${stepNumber}: "${value.trim()}"\n` +
+            'Expected step numbers, e.g. "Depends on: 1, 2" or "Depends on: Step 1, Step 2"',
+        );
+      }
+      numbers.push(parseInt(word, 10));
+    }
+
+    return [...new Set(numbers)].sort((a, b) => a - b);
+  }
+
+  private validateDependencies(steps: Step[]): void {
+    const stepNumbers = new Set(steps.map((step) => step.number));
+
+    for (const step of steps) {
+      for (const dependency of step.dependsOn) {
+        if (dependency === step.number) {
+          throw new Error(`Step ${step.number} cannot depend on itself`);
+        }
+        if (!stepNumbers.has(dependency)) {
+          throw new Error(`Step ${step.number} depends on unknown step ${dependency}`);
+        }
+      }
+    }
+
+    const dependenciesByStep = new Map(steps.map((step) => [step.number, step.dependsOn]));
+    const visiting = new Set<number>();
+    const visited = new Set<number>();
+
+    const visit = (stepNumber: number, path: number[]): void => {
+      if (visited.has(stepNumber)) {
+        return;
+      }
+      if (visiting.has(stepNumber)) {
+        const cycle = [...path.slice(path.indexOf(stepNumber)), stepNumber];
+        throw new Error(`Circular step dependency: ${cycle.join(" -> ")}`);
+      }
+      visiting.add(stepNumber);
+      for (const dependency of dependenciesByStep.get(stepNumber) ?? []) {
+        visit(dependency, [...path, stepNumber]);
+      }
+      visiting.delete(stepNumber);
+      visited.add(stepNumber);
+    };
+
+    for (const step of steps) {
+      visit(step.number, []);
+    }
+  }
+
   getFilePath(): string {
     return this.filePath;
   }
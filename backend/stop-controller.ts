@@ -1,6 +1,7 @@
 export class StopController {
   private stopAfterStepRequested = false;
   private stopAfterStepTriggered = false;
+  private stopReason: string | null = null;
 
   requestStopAfterStep(): void {
     this.stopAfterStepRequested = true;
@@ -17,4 +18,13 @@ export class StopController {
   wasStopAfterStepTriggered(): boolean {
     return this.stopAfterStepTriggered;
   }
+
+  /** Records that the orchestrator stopped on its own, e.g. because a budget was used up. */
+  markStopped(reason: string): void {
+    this.stopReason = reason;
+  }
+
+  getStopReason(): string | null {
+    return this.stopReason;
+  }
 }
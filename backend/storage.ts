@@ -1,29 +1,55 @@
-import type { Plan, DbStep, Iteration, Issue } from './models.js';
+import type { AgentName } from './agent-runner.js';
+import type { AgentTimelineEntry } from './agent-timeline.js';
+import type { Plan, DbStep, Iteration, Issue, AuditEntry, ReviewLog, TimelineEntry } from './models.js';
+import type { TokenUsage } from './usage.js';
 
 export type IterationUpdate = Partial<
-  Omit<Iteration, 'id' | 'stepId' | 'iterationNumber' | 'type' | 'createdAt'>
+  Omit<
+    Iteration,
+    | 'id'
+    | 'stepId'
+    | 'iterationNumber'
+    | 'type'
+    | 'inputTokens'
+    | 'outputTokens'
+    | 'costUsd'
+    | 'agentDurationMs'
+    | 'ciDurationMs'
+    | 'createdAt'
+  >
 >;
 
+/** Optional review details stored with an issue. */
+export type IssueDetails = Partial<Pick<Issue, 'category' | 'endLineNumber' | 'confidence' | 'suggestedPatch'>>;
+
 export type ExecutionState = {
   steps: DbStep[];
   iterations: Iteration[];
   issues: Issue[];
+  auditLog: AuditEntry[];
 };
 
 export type PlanStepInput = {
   stepNumber: number;
   title: string;
+  dependsOn?: number[];
 };
 
 export interface Storage {
   createPlan(planFilePath: string, workDir: string, owner: string, repo: string): Plan;
   getPlan(id: number): Plan | undefined;
   getAllPlans(): Plan[];
+  addPlanElapsedTime(planId: number, durationMs: number): void;
 
-  createStep(planId: number, stepNumber: number, title: string): DbStep;
+  createStep(planId: number, stepNumber: number, title: string, dependsOn?: number[]): DbStep;
   getSteps(planId: number): DbStep[];
   updateStepStatus(stepId: number, status: DbStep['status']): void;
   updateStepTitle(stepId: number, title: string): void;
+  updateStepDependencies(stepId: number, dependsOn: number[]): void;
+  updateStepWorkspace(stepId: number, worktreePath: string | null, branch: string | null): void;
+  updateStepSyncedSha(stepId: number, syncedSha: string): void;
+  updateStepPullRequest(stepId: number, prNumber: number): void;
+  addStepElapsedTime(stepId: number, durationMs: number): void;
   replacePendingStepsFromPlan(
     planId: number,
     startStepNumber: number,
@@ -34,12 +60,21 @@ export interface Storage {
     stepId: number,
     iterationNumber: number,
     type: Iteration['type'],
-    implementationAgent: 'claude' | 'codex',
-    reviewAgent: 'claude' | 'codex' | null
+    implementationAgent: AgentName,
+    reviewAgent: AgentName | null
   ): Iteration;
   getIterations(stepId: number): Iteration[];
   getIterationsForPlan(planId: number): Iteration[];
   updateIteration(iterationId: number, updates: IterationUpdate): void;
+  /** Adds the usage of an agent run to the totals stored on the iteration. */
+  addIterationUsage(iterationId: number, usage: TokenUsage): void;
+  /** Adds time spent running agents or waiting for build checks to the iteration. */
+  addIterationTime(iterationId: number, kind: 'agent' | 'ci', durationMs: number): void;
+  addReviewLog(iterationId: number, agent: AgentName, result: ReviewLog['result'], log: string): ReviewLog;
+  getReviewLogs(iterationId: number): ReviewLog[];
+  /** Appends the timeline of an agent run to the iteration's timeline. */
+  addTimelineEntries(iterationId: number, entries: AgentTimelineEntry[]): void;
+  getTimeline(iterationId: number): TimelineEntry[];
 
   createIssue(
     iterationId: number,
@@ -49,12 +84,17 @@ export interface Storage {
     lineNumber?: number | null,
     severity?: Issue['severity'],
     status?: Issue['status'],
+    details?: IssueDetails,
   ): Issue;
   getIssues(iterationId: number): Issue[];
   getIssuesForStepByType(stepId: number, issueType: Issue['type']): Issue[];
   updateIssueStatus(issueId: number, status: Issue['status'], resolvedAt?: string): void;
+  updateIssueReviewComment(issueId: number, reviewCommentId: number): void;
   getOpenIssues(stepId: number): Issue[];
   getExecutionState(planId: number): ExecutionState;
 
+  addAuditEntry(entry: Omit<AuditEntry, 'id' | 'createdAt'>): AuditEntry;
+  getAuditLog(planId: number): AuditEntry[];
+
   close(): void;
 }
@@ -1,20 +1,31 @@
 import { Box, Text, useInput } from 'ink';
+import type { Key } from 'ink';
 import React from 'react';
 
-import type { DbStep, Iteration } from '../../models.js';
+import { getAgentDisplayName } from '../../agent-runner.js';
+import { summarizeTimeline } from '../../agent-timeline.js';
+import type { DbStep, Issue, Iteration, TimelineEntry } from '../../models.js';
+import type { PlanEdit } from '../../plan-editor.js';
+import type { StepAction } from '../../step-actions.js';
 import type { TUIState, LogViewerItem } from '../types.js';
 
+import { ApprovalView, getApprovalDiffHeight } from './ApprovalView.js';
 import { Header } from './Header.js';
 import { LogPanel } from './LogPanel.js';
 import { LogViewer } from './LogViewer.js';
+import { PlanEditorView } from './PlanEditorView.js';
 
 interface AppProps {
   state: TUIState;
   onStateChange: () => void;
   onRequestStopAfterStep: () => void;
+  onEditPlan: (edit: PlanEdit) => void;
+  onStepAction: (action: StepAction, stepNumber: number) => void;
 }
 
 const LOG_PANEL_HEIGHT = 7; // 5 lines + 2 borders
+const LIVE_TAIL_LINES = 4;
+const LIVE_TAIL_HEIGHT = LIVE_TAIL_LINES + 2;
 const HEADER_BASE_HEIGHT = 5;
 const STEP_PANEL_LABEL = 'Steps';
 const TUI_ANIMATE_HIGHLIGHTS = process.env.STEPCAT_TUI_ANIMATE !== 'false';
@@ -95,6 +106,8 @@ const getStepStatusIcon = (status: DbStep['status']): string => {
       return '✓';
     case 'failed':
       return '✗';
+    case 'skipped':
+      return '↷';
     default:
       return '·';
   }
@@ -110,6 +123,8 @@ const getStepStatusColor = (status: DbStep['status']): string => {
       return 'green';
     case 'failed':
       return 'red';
+    case 'skipped':
+      return 'yellow';
     default:
       return 'white';
   }
@@ -145,10 +160,6 @@ const getIterationStatusColor = (status: Iteration['status']): string => {
   }
 };
 
-const getAgentDisplayName = (agent: 'claude' | 'codex'): string => {
-  return agent === 'claude' ? 'Claude Code' : 'Codex';
-};
-
 const getOutcomeColor = (status: string | null | undefined): string | undefined => {
   switch (status) {
     case 'passed':
@@ -216,7 +227,71 @@ const createGradientSegments = (
   });
 };
 
-export const App: React.FC<AppProps> = ({ state, onStateChange, onRequestStopAfterStep }) => {
+const formatIssueLocation = (issue: Issue): string => {
+  const file = issue.filePath ?? 'unknown';
+  if (issue.lineNumber === null) {
+    return file;
+  }
+  return issue.endLineNumber !== null && issue.endLineNumber !== issue.lineNumber
+    ? `${file}:${issue.lineNumber}-${issue.endLineNumber}`
+    : `${file}:${issue.lineNumber}`;
+};
+
+/** Review issues with their details and suggested patches, for the pager. */
+const formatIssueDetails = (issues: Issue[]): string =>
+  issues.map((issue, index) => {
+    const tags = [
+      issue.severity,
+      issue.category,
+      issue.confidence !== null ? `${Math.round(issue.confidence * 100)}% confidence` : null,
+      issue.status,
+    ].filter((tag) => tag !== null);
+    const lines = [`${index + 1}. ${formatIssueLocation(issue)} (${tags.join(', ')})`, '', issue.description];
+    if (issue.suggestedPatch) {
+      lines.push('', 'Suggested patch:', issue.suggestedPatch.trimEnd());
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+
+const formatTimelineSection = (title: string, lines: string[]): string =>
+  [`${title} (${lines.length}):`, ...(lines.length > 0 ? lines.map(line => `  ${line}`) : ['  none'])].join('\n');
+
+const formatTimelineEntry = (entry: TimelineEntry): string | null => {
+  switch (entry.kind) {
+    case 'text':
+      return entry.content;
+    case 'tool_use':
+      return entry.content ? `▸ ${entry.tool}: ${entry.content}` : `▸ ${entry.tool}`;
+    case 'tool_result': {
+      if (!entry.isError) {
+        return null;
+      }
+      const firstLine = entry.content.split('\n')[0] ?? '';
+      return `✗ ${entry.tool ?? 'Tool'} failed${firstLine ? `: ${firstLine}` : ''}`;
+    }
+  }
+};
+
+/** Files touched, commands run and tests executed by the agent, followed by its timeline, for the pager. */
+const formatTimelineDetails = (timeline: TimelineEntry[]): string => {
+  const summary = summarizeTimeline(timeline);
+  const tests = summary.testsExecuted.map(test => {
+    const icon = test.passed === null ? '?' : test.passed ? '✓' : '✗';
+    return `${icon} ${test.command}`;
+  });
+  const entries = timeline
+    .map(formatTimelineEntry)
+    .filter((line): line is string => line !== null);
+
+  return [
+    formatTimelineSection('Files touched', summary.filesTouched),
+    formatTimelineSection('Commands run', summary.commandsRun),
+    formatTimelineSection('Tests executed', tests),
+    ['Timeline:', ...entries.map(line => `  ${line}`)].join('\n'),
+  ].join('\n\n');
+};
+
+export const App: React.FC<AppProps> = ({ state, onStateChange, onRequestStopAfterStep, onEditPlan, onStepAction }) => {
   const [gradientOffset, setGradientOffset] = React.useState(0);
 
   const buildLogViewerItems = React.useCallback((): LogViewerItem[] => {
@@ -237,6 +312,18 @@ export const App: React.FC<AppProps> = ({ state, onStateChange, onRequestStopAft
             iteration,
           });
         }
+        const timeline = state.timelines.get(iteration.id) ?? [];
+        if (timeline.length > 0) {
+          items.push({
+            id: `${iteration.id}-activity`,
+            stepNumber: step.stepNumber,
+            stepTitle: step.title,
+            iterationNumber: displayNumber,
+            logType: 'activity',
+            logContent: formatTimelineDetails(timeline),
+            iteration,
+          });
+        }
         if (iteration.codexLog) {
           items.push({
             id: `${iteration.id}-review`,
@@ -248,13 +335,130 @@ export const App: React.FC<AppProps> = ({ state, onStateChange, onRequestStopAft
             iteration,
           });
         }
+        const reviewIssues = (state.issues.get(iteration.id) ?? []).filter(issue => issue.type === 'codex_review');
+        if (reviewIssues.length > 0) {
+          items.push({
+            id: `${iteration.id}-issues`,
+            stepNumber: step.stepNumber,
+            stepTitle: step.title,
+            iterationNumber: displayNumber,
+            logType: 'issues',
+            logContent: formatIssueDetails(reviewIssues),
+            iteration,
+          });
+        }
       });
     });
 
     return items;
-  }, [state.steps, state.iterations]);
+  }, [state.steps, state.iterations, state.issues, state.timelines]);
+
+  const handlePlanEditorInput = (input: string, key: Key): void => {
+    const selectedStep = state.steps.at(state.selectedStepIndex);
+    const editorInput = state.planEditorInput;
+
+    if (editorInput) {
+      if (key.escape) {
+        state.planEditorInput = null;
+      } else if (key.return) {
+        const title = editorInput.text.trim();
+        state.planEditorInput = null;
+        if (title && selectedStep) {
+          onEditPlan(
+            editorInput.action === 'add'
+              ? { type: 'add', afterStepNumber: selectedStep.stepNumber, title }
+              : { type: editorInput.action, stepNumber: selectedStep.stepNumber, title }
+          );
+        }
+      } else if (key.backspace || key.delete) {
+        editorInput.text = editorInput.text.slice(0, -1);
+      } else if (input && !key.ctrl && !key.meta) {
+        editorInput.text += input;
+      }
+      state.stateVersion++;
+      onStateChange();
+      return;
+    }
+
+    if (key.escape) {
+      state.viewMode = 'normal';
+    } else if (key.upArrow) {
+      state.selectedStepIndex = Math.max(0, state.selectedStepIndex - 1);
+    } else if (key.downArrow) {
+      state.selectedStepIndex = Math.min(state.steps.length - 1, state.selectedStepIndex + 1);
+    } else if (!selectedStep) {
+      return;
+    } else if (input === 'a' || input === 's') {
+      state.planEditorInput = { action: input === 'a' ? 'add' : 'split', text: '' };
+    } else if (input === 'r') {
+      state.planEditorInput = { action: 'retitle', text: selectedStep.title };
+    } else if (input === 'x' || input === 't' || input === 'c') {
+      onStepAction(input === 'x' ? 'skip' : input === 't' ? 'retry' : 'complete', selectedStep.stepNumber);
+      return;
+    } else if (input === '[' || input === ']') {
+      onEditPlan({ type: 'move', stepNumber: selectedStep.stepNumber, direction: input === '[' ? 'up' : 'down' });
+      return;
+    } else {
+      return;
+    }
+    state.planEditorMessage = null;
+    state.stateVersion++;
+    onStateChange();
+  };
+
+  const handleApprovalInput = (input: string, key: Key): void => {
+    const prompt = state.approvalPrompt;
+    if (!prompt) {
+      return;
+    }
+
+    if (prompt.editingFeedback) {
+      if (key.escape) {
+        prompt.editingFeedback = false;
+      } else if ((key.ctrl || key.meta) && input.toLowerCase() === 's') {
+        if (prompt.feedback.trim()) {
+          prompt.onDecision({ approved: false, feedback: prompt.feedback.trim() });
+        }
+        return;
+      } else if (key.return) {
+        prompt.feedback += '\n';
+      } else if (key.backspace || key.delete) {
+        prompt.feedback = prompt.feedback.slice(0, -1);
+      } else if (input && !key.ctrl && !key.meta) {
+        prompt.feedback += input;
+      } else {
+        return;
+      }
+    } else {
+      const diffLineCount = prompt.request.diff.split('\n').length;
+      const pageSize = getApprovalDiffHeight(state.terminalHeight, false);
+      const lowered = input.toLowerCase();
+      if (key.upArrow || key.downArrow || key.pageUp || key.pageDown) {
+        const delta = (key.pageUp || key.pageDown ? pageSize : 1) * (key.upArrow || key.pageUp ? -1 : 1);
+        prompt.scrollOffset = Math.max(0, Math.min(Math.max(0, diffLineCount - pageSize), prompt.scrollOffset + delta));
+      } else if (lowered === 'a') {
+        prompt.onDecision({ approved: true });
+        return;
+      } else if (lowered === 'r') {
+        prompt.editingFeedback = true;
+      } else if (lowered === 'e' && prompt.request.reviewerNotes) {
+        prompt.feedback = prompt.request.reviewerNotes;
+        prompt.editingFeedback = true;
+      } else {
+        return;
+      }
+    }
+
+    state.stateVersion++;
+    onStateChange();
+  };
 
   useInput((input, key) => {
+    if (state.viewMode === 'approval_prompt' && state.approvalPrompt) {
+      handleApprovalInput(input, key);
+      return;
+    }
+
     if (state.viewMode === 'permission_prompt' && state.permissionPrompt) {
       const lowered = input.toLowerCase();
       if (lowered === 'y') {
@@ -281,7 +485,17 @@ export const App: React.FC<AppProps> = ({ state, onStateChange, onRequestStopAft
         state.viewMode = 'log_viewer';
         state.stateVersion++;
         onStateChange();
+      } else if ((key.meta || key.ctrl) && input.toLowerCase() === 'e') {
+        const firstPendingIndex = state.steps.findIndex(step => step.status === 'pending');
+        state.selectedStepIndex = Math.max(0, firstPendingIndex);
+        state.planEditorInput = null;
+        state.planEditorMessage = null;
+        state.viewMode = 'plan_editor';
+        state.stateVersion++;
+        onStateChange();
       }
+    } else if (state.viewMode === 'plan_editor') {
+      handlePlanEditorInput(input, key);
     } else if (state.viewMode === 'log_viewer') {
       if (key.escape) {
         state.viewMode = 'normal';
@@ -318,12 +532,15 @@ export const App: React.FC<AppProps> = ({ state, onStateChange, onRequestStopAft
   const errorHeight = state.error ? 3 : 0; // double border box
   const errorSpacing = state.error && showCurrentPhase ? 1 : 0;
   const completionSpacing = showCompletion && (showCurrentPhase || state.error) ? 1 : 0;
+  const liveTail = state.isComplete ? null : state.liveTail;
+  const liveTailHeight = liveTail ? LIVE_TAIL_HEIGHT : 0;
   const reservedHeight =
     headerHeight +
     errorHeight +
     errorSpacing +
     completionHeight +
     completionSpacing +
+    liveTailHeight +
     LOG_PANEL_HEIGHT;
 
   const stepsAreaHeight = Math.max(3, state.terminalHeight - reservedHeight);
@@ -444,9 +661,11 @@ export const App: React.FC<AppProps> = ({ state, onStateChange, onRequestStopAft
         const fixedIssues = issues.filter(issue => issue.status === 'fixed');
 
         if (openIssues.length > 0) {
+          const categories = [...new Set(openIssues.map(issue => issue.category).filter(category => category !== null))];
           lines.push({
             key: `iteration-${iteration.id}-open`,
-            text: `      ✗ ${openIssues.length} open issue${openIssues.length > 1 ? 's' : ''}`,
+            text: `      ✗ ${openIssues.length} open issue${openIssues.length > 1 ? 's' : ''}` +
+              (categories.length > 0 ? ` (${categories.join(', ')})` : ''),
             color: 'red',
           });
         }
@@ -646,6 +865,32 @@ export const App: React.FC<AppProps> = ({ state, onStateChange, onRequestStopAft
     );
   }
 
+  if (state.viewMode === 'plan_editor') {
+    return (
+      <PlanEditorView
+        steps={state.steps}
+        selectedIndex={state.selectedStepIndex}
+        input={state.planEditorInput}
+        message={state.planEditorMessage}
+        terminalWidth={state.terminalWidth}
+        terminalHeight={state.terminalHeight}
+      />
+    );
+  }
+
+  if (state.viewMode === 'approval_prompt' && state.approvalPrompt) {
+    return (
+      <ApprovalView
+        request={state.approvalPrompt.request}
+        scrollOffset={state.approvalPrompt.scrollOffset}
+        feedback={state.approvalPrompt.feedback}
+        editingFeedback={state.approvalPrompt.editingFeedback}
+        terminalWidth={state.terminalWidth}
+        terminalHeight={state.terminalHeight}
+      />
+    );
+  }
+
   if (state.viewMode === 'permission_prompt' && state.permissionPrompt) {
     const promptWidth = Math.max(
       PROMPT_MIN_WIDTH,
@@ -724,6 +969,15 @@ export const App: React.FC<AppProps> = ({ state, onStateChange, onRequestStopAft
         <Text>{stepsBottomLine}</Text>
       </Box>
 
+      {liveTail && (
+        <LogPanel
+          label={`Live: ${getAgentDisplayName(liveTail.agent)}`}
+          logs={liveTail.lines}
+          lineCount={LIVE_TAIL_LINES}
+          emptyMessage="Waiting for agent output"
+          terminalWidth={state.terminalWidth}
+        />
+      )}
       <LogPanel logs={state.logs} terminalWidth={state.terminalWidth} />
     </Box>
   );
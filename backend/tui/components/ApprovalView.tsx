@@ -0,0 +1,134 @@
+import { Box, Text } from 'ink';
+import React from 'react';
+
+import type { StepApprovalRequest } from '../../step-approval.js';
+
+interface ApprovalViewProps {
+  request: StepApprovalRequest;
+  scrollOffset: number;
+  feedback: string;
+  editingFeedback: boolean;
+  terminalWidth: number;
+  terminalHeight: number;
+}
+
+const FEEDBACK_MAX_LINES = 5;
+
+const truncate = (text: string, width: number): string => {
+  if (text.length <= width) {
+    return text;
+  }
+  if (width <= 0) {
+    return '';
+  }
+  return width === 1 ? '…' : `${text.slice(0, width - 1)}…`;
+};
+
+const getDiffLineColor = (line: string): string | undefined => {
+  if (line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff ')) {
+    return 'white';
+  }
+  if (line.startsWith('+')) {
+    return 'green';
+  }
+  if (line.startsWith('-')) {
+    return 'red';
+  }
+  if (line.startsWith('@@')) {
+    return 'cyan';
+  }
+  return undefined;
+};
+
+/** Number of diff lines the view shows for a terminal of the given height. */
+export const getApprovalDiffHeight = (terminalHeight: number, editingFeedback: boolean): number => {
+  const feedbackHeight = editingFeedback ? FEEDBACK_MAX_LINES + 1 : 1;
+  return Math.max(3, terminalHeight - 4 - feedbackHeight);
+};
+
+export const ApprovalView: React.FC<ApprovalViewProps> = React.memo(({
+  request,
+  scrollOffset,
+  feedback,
+  editingFeedback,
+  terminalWidth,
+  terminalHeight,
+}) => {
+  const panelWidth = Math.max(4, terminalWidth);
+  const innerWidth = Math.max(0, panelWidth - 2);
+  const diffHeight = getApprovalDiffHeight(terminalHeight, editingFeedback);
+
+  const title = `Approve Step ${request.stepNumber}: ${request.stepTitle}`;
+  const shownTitle = truncate(title, Math.max(0, innerWidth - 1));
+  const titlePad = Math.max(0, innerWidth - 1 - shownTitle.length);
+  const topLine =
+    innerWidth > 0
+      ? `┌─${shownTitle}${titlePad > 0 ? '─'.repeat(titlePad) : ''}┐`
+      : '┌┐';
+  const bottomLine =
+    innerWidth > 0
+      ? `└${'─'.repeat(innerWidth)}┘`
+      : '└┘';
+
+  const diffLines = request.diff
+    ? request.diff.replace(/\t/g, '    ').split('\n')
+    : ['(the step has no changes)'];
+  const startIndex = Math.max(0, Math.min(scrollOffset, diffLines.length - diffHeight));
+  const visibleLines = diffLines.slice(startIndex, startIndex + diffHeight);
+
+  const rows = visibleLines.map((line, idx) => {
+    const text = truncate(line, innerWidth);
+    return (
+      <Box key={`diff-${startIndex + idx}`} width={panelWidth}>
+        <Text>│</Text>
+        <Text color={getDiffLineColor(line)}>
+          {text}
+          {' '.repeat(Math.max(0, innerWidth - text.length))}
+        </Text>
+        <Text>│</Text>
+      </Box>
+    );
+  });
+
+  while (rows.length < diffHeight) {
+    rows.push(
+      <Box key={`padding-${rows.length}`} width={panelWidth}>
+        <Text>│</Text>
+        <Text>{' '.repeat(innerWidth)}</Text>
+        <Text>│</Text>
+      </Box>
+    );
+  }
+
+  const commitList = request.commits.map((sha) => sha.substring(0, 7)).join(', ');
+  const summary = `${request.commits.length} commit(s): ${commitList || '-'} | lines ${startIndex + 1}-` +
+    `${Math.min(diffLines.length, startIndex + diffHeight)} of ${diffLines.length}`;
+
+  const feedbackLines = feedback.split('\n').slice(-FEEDBACK_MAX_LINES);
+  const footer = editingFeedback
+    ? 'Enter: New line | Ctrl+S: Send rejection | Esc: Back to diff'
+    : `↑↓ PgUp PgDn: Scroll | A: Approve | R: Reject${request.reviewerNotes ? ' | E: Edit reviewer notes' : ''}`;
+
+  return (
+    <Box flexDirection="column" width={terminalWidth} height={terminalHeight}>
+      <Box flexDirection="column" width={panelWidth}>
+        <Text>{topLine}</Text>
+        {rows}
+        <Text>{bottomLine}</Text>
+        <Text dimColor> {truncate(summary, innerWidth)}</Text>
+        {editingFeedback ? (
+          <Box flexDirection="column">
+            <Text color="yellow"> Feedback, one issue per line (optionally starting with path:line:):</Text>
+            {feedbackLines.map((line, index) => (
+              <Text key={`feedback-${index}`}>
+                {' '}<Text color="cyan">{truncate(line, innerWidth - 2)}</Text>
+                {index === feedbackLines.length - 1 ? '█' : ''}
+              </Text>
+            ))}
+          </Box>
+        ) : null}
+        <Text> {truncate(footer, innerWidth)}</Text>
+      </Box>
+    </Box>
+  );
+});
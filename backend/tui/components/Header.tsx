@@ -3,6 +3,7 @@ import { basename } from 'path';
 import { Box, Text } from 'ink';
 import React from 'react';
 
+import { formatUsage, sumIterationUsage } from '../../usage.js';
 import type { TUIState } from '../types.js';
 
 
@@ -18,7 +19,7 @@ const createLine = (width: number, start: string, end: string, fill: string): st
 export const Header: React.FC<HeaderProps> = ({ state }) => {
   const sortedSteps = [...state.steps].sort((a, b) => a.stepNumber - b.stepNumber);
   const totalSteps = sortedSteps.length;
-  const completedByStatus = sortedSteps.filter(s => s.status === 'completed').length;
+  const completedByStatus = sortedSteps.filter(s => s.status === 'completed' || s.status === 'skipped').length;
   const inProgressStep = sortedSteps.find(s => s.status === 'in_progress');
   const inferredCompleted = inProgressStep ? Math.max(0, inProgressStep.stepNumber - 1) : completedByStatus;
   const completedSteps = Math.max(completedByStatus, inferredCompleted);
@@ -26,7 +27,7 @@ export const Header: React.FC<HeaderProps> = ({ state }) => {
   const planFileName = state.plan?.planFilePath ? basename(state.plan.planFilePath) : 'N/A';
   const showCurrentPhase = Boolean(state.currentPhase && !state.isComplete && !state.error);
   const currentPhaseText = showCurrentPhase && state.currentPhase ? state.currentPhase : '';
-  const hotkeyBase = 'Ctrl+L: logs  Ctrl+S: stop';
+  const hotkeyBase = 'Ctrl+L: logs  Ctrl+E: edit plan  Ctrl+S: stop';
   const stopIndicator = state.stopRequested ? 'STOPPING AFTER STEP' : '';
   const hotkeyText = stopIndicator ? `${hotkeyBase}  ${stopIndicator}` : hotkeyBase;
 
@@ -34,9 +35,11 @@ export const Header: React.FC<HeaderProps> = ({ state }) => {
   const middleLine = createLine(width, '╠', '╣', '═');
   const bottomLine = createLine(width, '╚', '╝', '═');
 
+  const usageText = formatUsage(sumIterationUsage([...state.iterations.values()].flat()));
+
   const title = 'STEPCAT - Step-by-step Agent Orchestration';
   const executionId = state.plan?.id ?? 'N/A';
-  const statsBaseContent = `Execution ID: ${executionId}  │  Steps: ${completedSteps}/${totalSteps}  │  Plan: ${planFileName}`;
+  const statsBaseContent = `Execution ID: ${executionId}  │  Steps: ${completedSteps}/${totalSteps}  │  Plan: ${planFileName}  │  Usage: ${usageText}`;
   let statsContent = showCurrentPhase
     ? `${statsBaseContent}  │  Current: ${currentPhaseText}`
     : statsBaseContent;
@@ -66,6 +69,8 @@ export const Header: React.FC<HeaderProps> = ({ state }) => {
         <Text bold color="cyan">{totalSteps}</Text>
         <Text>  │  Plan: </Text>
         <Text bold color="cyan">{planFileName}</Text>
+        <Text>  │  Usage: </Text>
+        <Text bold color="yellow">{usageText}</Text>
         {showCurrentPhase && (
           <>
             <Text>  │  Current: </Text>
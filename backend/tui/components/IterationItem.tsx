@@ -1,6 +1,7 @@
 import { Box, Text } from 'ink';
 import React from 'react';
 
+import { getAgentDisplayName } from '../../agent-runner.js';
 import type { Iteration, Issue } from '../../models.js';
 
 export const ITERATION_DISPLAY_HEIGHT = 6;
@@ -12,10 +13,6 @@ interface IterationItemProps {
 }
 
 export const IterationItem: React.FC<IterationItemProps> = ({ iteration, issues, displayNumber }) => {
-  const getAgentDisplayName = (agent: 'claude' | 'codex'): string => {
-    return agent === 'claude' ? 'Claude Code' : 'Codex';
-  };
-
   const getStatusIcon = (status: string): string => {
     switch (status) {
       case 'in_progress': return '⟳';
@@ -38,6 +35,7 @@ export const IterationItem: React.FC<IterationItemProps> = ({ iteration, issues,
 
   const openIssues = issues.filter(i => i.status === 'open');
   const fixedIssues = issues.filter(i => i.status === 'fixed');
+  const openCategories = [...new Set(openIssues.map(i => i.category).filter(category => category !== null))];
 
   return (
     <Box flexDirection="column" marginLeft={4}>
@@ -105,7 +103,10 @@ export const IterationItem: React.FC<IterationItemProps> = ({ iteration, issues,
 
       {openIssues.length > 0 && (
         <Box marginLeft={2}>
-          <Text color="red">✗ {openIssues.length} open issue{openIssues.length > 1 ? 's' : ''}</Text>
+          <Text color="red">
+            ✗ {openIssues.length} open issue{openIssues.length > 1 ? 's' : ''}
+            {openCategories.length > 0 ? ` (${openCategories.join(', ')})` : ''}
+          </Text>
         </Box>
       )}
 
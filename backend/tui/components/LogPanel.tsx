@@ -3,6 +3,7 @@ import React from 'react';
 
 const LOG_LINES_TO_DISPLAY = 5;
 const LOG_PANEL_LABEL = 'Recent logs';
+const EMPTY_MESSAGE = 'No logs yet';
 
 type LogEntry = {
   level: string;
@@ -13,7 +14,7 @@ type LogEntry = {
 type LogRow = {
   key: string;
   message: string;
-  level: 'info' | 'warn' | 'error' | 'success';
+  level: 'info' | 'warn' | 'error' | 'success' | 'tool';
   timestamp?: number;
   showPrefix: boolean;
   dim?: boolean;
@@ -22,14 +23,23 @@ type LogRow = {
 interface LogPanelProps {
   logs: LogEntry[];
   terminalWidth: number;
+  label?: string;
+  lineCount?: number;
+  emptyMessage?: string;
 }
 
-export const LogPanel: React.FC<LogPanelProps> = React.memo(({ logs, terminalWidth }) => {
+export const LogPanel: React.FC<LogPanelProps> = React.memo(({
+  logs,
+  terminalWidth,
+  label = LOG_PANEL_LABEL,
+  lineCount = LOG_LINES_TO_DISPLAY,
+  emptyMessage = EMPTY_MESSAGE,
+}) => {
   const logPanelWidth = Math.max(4, terminalWidth);
   const logInnerWidth = Math.max(0, logPanelWidth - 2);
   const logLabelCapacity = Math.max(0, logInnerWidth - 1);
 
-  let logLabel = LOG_PANEL_LABEL;
+  let logLabel = label;
   if (logLabel.length > logLabelCapacity) {
     logLabel = logLabel.slice(0, logLabelCapacity);
   }
@@ -44,7 +54,7 @@ export const LogPanel: React.FC<LogPanelProps> = React.memo(({ logs, terminalWid
       ? `└${'─'.repeat(logInnerWidth)}┘`
       : '└┘';
 
-  const recentLogs = logs.slice(-LOG_LINES_TO_DISPLAY);
+  const recentLogs = logs.slice(-lineCount);
 
   const rows: LogRow[] =
     recentLogs.length > 0
@@ -64,14 +74,14 @@ export const LogPanel: React.FC<LogPanelProps> = React.memo(({ logs, terminalWid
       : [
           {
             key: 'log-empty',
-            message: 'No logs yet',
+            message: emptyMessage,
             level: 'info',
             showPrefix: false,
             dim: true,
           },
         ];
 
-  while (rows.length < LOG_LINES_TO_DISPLAY) {
+  while (rows.length < lineCount) {
     rows.push({
       key: `log-placeholder-${rows.length}`,
       message: '',
@@ -87,7 +97,7 @@ export const LogPanel: React.FC<LogPanelProps> = React.memo(({ logs, terminalWid
     Math.min(prefixTemplate.length, logInnerWidth - 2)
   );
 
-  const logRows = rows.slice(0, LOG_LINES_TO_DISPLAY).map(row => {
+  const logRows = rows.slice(0, lineCount).map(row => {
     const hasMessage = row.message.trim().length > 0;
     const shouldShowPrefix = row.showPrefix && row.timestamp && hasMessage;
 
@@ -130,6 +140,8 @@ export const LogPanel: React.FC<LogPanelProps> = React.memo(({ logs, terminalWid
         ? 'yellow'
         : row.level === 'success'
         ? 'green'
+        : row.level === 'tool'
+        ? 'cyan'
         : 'white';
 
     return (
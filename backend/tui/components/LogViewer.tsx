@@ -1,8 +1,16 @@
 import { Box, Text } from 'ink';
 import React from 'react';
 
+import { getAgentDisplayName } from '../../agent-runner.js';
 import type { LogViewerItem } from '../types.js';
 
+const LOG_TYPE_LABELS: Record<LogViewerItem['logType'], string> = {
+  implementation: 'Implementation',
+  activity: 'Agent activity',
+  review: 'Review',
+  issues: 'Review issues',
+};
+
 interface LogViewerProps {
   items: LogViewerItem[];
   selectedIndex: number;
@@ -42,10 +50,10 @@ export const LogViewer: React.FC<LogViewerProps> = React.memo(({
     const actualIndex = startIndex + idx;
     const isSelected = actualIndex === selectedIndex;
 
-    const logTypeLabel = item.logType === 'implementation' ? 'Implementation' : 'Review';
-    const agentName = item.logType === 'implementation'
-      ? (item.iteration.implementationAgent === 'claude' ? 'Claude Code' : 'Codex')
-      : (item.iteration.reviewAgent === 'claude' ? 'Claude Code' : 'Codex');
+    const logTypeLabel = LOG_TYPE_LABELS[item.logType];
+    const agentName = item.logType === 'implementation' || item.logType === 'activity'
+      ? getAgentDisplayName(item.iteration.implementationAgent)
+      : getAgentDisplayName(item.iteration.reviewAgent ?? 'codex');
 
     const hasContent = Boolean(item.logContent);
     const statusLabel = hasContent ? '' : ' (no log)';
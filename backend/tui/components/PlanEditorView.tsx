@@ -0,0 +1,115 @@
+import { Box, Text } from 'ink';
+import React from 'react';
+
+import type { DbStep } from '../../models.js';
+import type { PlanEditorInput, PlanEditorMessage } from '../types.js';
+
+interface PlanEditorViewProps {
+  steps: DbStep[];
+  selectedIndex: number;
+  input: PlanEditorInput | null;
+  message: PlanEditorMessage | null;
+  terminalWidth: number;
+  terminalHeight: number;
+}
+
+const INPUT_LABELS: Record<PlanEditorInput['action'], string> = {
+  add: 'Title of the new step',
+  split: 'Title of the second half',
+  retitle: 'New title',
+};
+
+const truncate = (text: string, width: number): string => {
+  if (text.length <= width) {
+    return text;
+  }
+  if (width <= 0) {
+    return '';
+  }
+  return width === 1 ? '…' : `${text.slice(0, width - 1)}…`;
+};
+
+export const PlanEditorView: React.FC<PlanEditorViewProps> = React.memo(({
+  steps,
+  selectedIndex,
+  input,
+  message,
+  terminalWidth,
+  terminalHeight,
+}) => {
+  const HEADER_HEIGHT = 3;
+  const FOOTER_HEIGHT = 3;
+  const availableHeight = Math.max(3, terminalHeight - HEADER_HEIGHT - FOOTER_HEIGHT);
+
+  const panelWidth = Math.max(4, terminalWidth);
+  const innerWidth = Math.max(0, panelWidth - 2);
+
+  const title = 'Plan Editor - Only pending steps can be changed';
+  const titlePad = Math.max(0, innerWidth - 1 - title.length);
+  const topLine =
+    innerWidth > 0
+      ? `┌─${title}${titlePad > 0 ? '─'.repeat(titlePad) : ''}┐`
+      : '┌┐';
+  const bottomLine =
+    innerWidth > 0
+      ? `└${'─'.repeat(innerWidth)}┘`
+      : '└┘';
+
+  const startIndex = Math.max(0, Math.min(selectedIndex - Math.floor(availableHeight / 2), steps.length - availableHeight));
+  const endIndex = Math.min(steps.length, startIndex + availableHeight);
+  const visibleSteps = steps.slice(startIndex, endIndex);
+
+  const rows = visibleSteps.map((step, idx) => {
+    const isSelected = startIndex + idx === selectedIndex;
+    const isLocked = step.status !== 'pending';
+    const lockLabel = isLocked ? ` (${step.status.replace('_', ' ')}, locked)` : '';
+    const text = truncate(`Step ${step.stepNumber}: ${step.title}${lockLabel}`, innerWidth - 2);
+    const padding = ' '.repeat(Math.max(0, innerWidth - text.length - 2));
+
+    return (
+      <Box key={step.id} width={panelWidth}>
+        <Text>│</Text>
+        <Text color={isSelected ? 'cyan' : undefined} inverse={isSelected} dimColor={isLocked && !isSelected}>
+          {isSelected ? '▶ ' : '  '}
+          {text}
+          {padding}
+        </Text>
+        <Text>│</Text>
+      </Box>
+    );
+  });
+
+  while (rows.length < availableHeight) {
+    rows.push(
+      <Box key={`padding-${rows.length}`} width={panelWidth}>
+        <Text>│</Text>
+        <Text>{' '.repeat(innerWidth)}</Text>
+        <Text>│</Text>
+      </Box>
+    );
+  }
+
+  const footer = input
+    ? 'Enter: Save | Esc: Cancel'
+    : '↑↓: Select | A: Add after | R: Retitle | S: Split | [ ]: Move | X: Skip | T: Retry | C: Complete | Esc: Back';
+
+  return (
+    <Box flexDirection="column" width={terminalWidth} height={terminalHeight}>
+      <Box flexDirection="column" width={panelWidth}>
+        <Text>{topLine}</Text>
+        {rows}
+        <Text>{bottomLine}</Text>
+        {input ? (
+          <Text>
+            {' '}{INPUT_LABELS[input.action]}: <Text color="cyan">{input.text}</Text>█
+          </Text>
+        ) : (
+          <Text color={message?.level === 'error' ? 'red' : 'green'}>
+            {' '}{truncate(message?.text ?? '', innerWidth)}
+          </Text>
+        )}
+        <Text> {truncate(footer, innerWidth)}</Text>
+      </Box>
+    </Box>
+  );
+});
@@ -2,6 +2,7 @@ import { Box, Text } from 'ink';
 import React from 'react';
 
 import type { DbStep, Iteration, Issue } from '../../models.js';
+import { formatUsage, hasUsage, sumIterationUsage } from '../../usage.js';
 
 import { IterationItem } from './IterationItem.js';
 
@@ -18,6 +19,7 @@ export const StepItem: React.FC<StepItemProps> = ({ step, iterations, issues })
       case 'in_progress': return '◉';
       case 'completed': return '✓';
       case 'failed': return '✗';
+      case 'skipped': return '↷';
       default: return '·';
     }
   };
@@ -28,10 +30,13 @@ export const StepItem: React.FC<StepItemProps> = ({ step, iterations, issues })
       case 'in_progress': return 'cyan';
       case 'completed': return 'green';
       case 'failed': return 'red';
+      case 'skipped': return 'yellow';
       default: return 'white';
     }
   };
 
+  const usage = sumIterationUsage(iterations);
+
   return (
     <Box flexDirection="column" marginBottom={1}>
       <Box>
@@ -40,6 +45,7 @@ export const StepItem: React.FC<StepItemProps> = ({ step, iterations, issues })
         </Text>
         <Text bold> Step {step.stepNumber}: </Text>
         <Text>{step.title}</Text>
+        {hasUsage(usage) && <Text dimColor>  ({formatUsage(usage)})</Text>}
       </Box>
 
       {iterations.length > 0 && (
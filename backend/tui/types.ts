@@ -1,16 +1,39 @@
-import type { Plan, DbStep, Iteration, Issue } from '../models.js';
+import type { Plan, DbStep, Iteration, Issue, TimelineEntry } from '../models.js';
+import type { StepApprovalDecision, StepApprovalRequest } from '../step-approval.js';
 
 export type LogViewerItem = {
   id: string;
   stepNumber: number;
   stepTitle: string;
   iterationNumber: number;
-  logType: 'implementation' | 'review';
+  logType: 'implementation' | 'activity' | 'review' | 'issues';
   logContent: string | null;
   iteration: Iteration;
 };
 
-export type ViewMode = 'normal' | 'log_viewer' | 'permission_prompt';
+export type LiveTailLine = {
+  level: 'info' | 'tool';
+  message: string;
+  timestamp: number;
+};
+
+/** What the running agent is doing right now, built from its streamed output. */
+export type LiveTail = {
+  agent: string;
+  lines: LiveTailLine[];
+};
+
+export type ViewMode = 'normal' | 'log_viewer' | 'plan_editor' | 'permission_prompt' | 'approval_prompt';
+
+export type PlanEditorInput = {
+  action: 'add' | 'split' | 'retitle';
+  text: string;
+};
+
+export type PlanEditorMessage = {
+  level: 'info' | 'error';
+  text: string;
+};
 
 export type PermissionPrompt = {
   stepNumber: number;
@@ -20,23 +43,40 @@ export type PermissionPrompt = {
   onDecision: (approved: boolean) => void;
 };
 
+export type ApprovalPrompt = {
+  request: StepApprovalRequest;
+  scrollOffset: number;
+  /** Rejection feedback drafted so far; kept when switching back to the diff. */
+  feedback: string;
+  editingFeedback: boolean;
+  previousViewMode: ViewMode;
+  onDecision: (decision: StepApprovalDecision) => void;
+};
+
 export interface TUIState {
   plan: Plan | null;
   steps: DbStep[];
   iterations: Map<number, Iteration[]>;
   issues: Map<number, Issue[]>;
+  /** Timelines of the implementation agent by iteration id. */
+  timelines: Map<number, TimelineEntry[]>;
   currentPhase: string;
   isComplete: boolean;
   error: string | null;
   logs: Array<{ level: string; message: string; timestamp: number }>;
+  liveTail: LiveTail | null;
   terminalWidth: number;
   terminalHeight: number;
   stateVersion: number;
   viewMode: ViewMode;
   permissionPrompt: PermissionPrompt | null;
+  approvalPrompt: ApprovalPrompt | null;
   selectedLogIndex: number;
   logViewerItems: LogViewerItem[];
   pendingLogView: string | null;
+  selectedStepIndex: number;
+  planEditorInput: PlanEditorInput | null;
+  planEditorMessage: PlanEditorMessage | null;
   stopRequested: boolean;
 }
 
@@ -45,17 +85,23 @@ export const initialState: TUIState = {
   steps: [],
   iterations: new Map(),
   issues: new Map(),
+  timelines: new Map(),
   currentPhase: 'Initializing...',
   isComplete: false,
   error: null,
   logs: [],
+  liveTail: null,
   terminalWidth: process.stdout.columns || 80,
   terminalHeight: process.stdout.rows || 24,
   stateVersion: 0,
   viewMode: 'normal',
   permissionPrompt: null,
+  approvalPrompt: null,
   selectedLogIndex: 0,
   logViewerItems: [],
   pendingLogView: null,
+  selectedStepIndex: 0,
+  planEditorInput: null,
+  planEditorMessage: null,
   stopRequested: false
 };
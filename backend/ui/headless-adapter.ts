@@ -0,0 +1,62 @@
+import type { OrchestratorEvent } from '../events.js';
+import { getLogger } from '../logger.js';
+import type { PermissionRequest } from '../permission-requests.js';
+
+import { PermissionPolicy } from './permission-policy.js';
+import type { UIAdapter } from './ui-adapter.js';
+
+export interface HeadlessUIAdapterConfig {
+  output?: NodeJS.WritableStream;
+  permissionPolicy?: PermissionPolicy;
+}
+
+/**
+ * UI adapter for runs without a terminal UI. It prints nothing and answers
+ * permission requests with a non-interactive PermissionPolicy.
+ */
+export class HeadlessUIAdapter implements UIAdapter {
+  protected output: NodeJS.WritableStream;
+  protected permissionPolicy: PermissionPolicy;
+
+  constructor(config: HeadlessUIAdapterConfig = {}) {
+    this.output = config.output ?? process.stdout;
+    this.permissionPolicy = config.permissionPolicy ?? new PermissionPolicy();
+  }
+
+  getName(): string {
+    return 'Headless';
+  }
+
+  isInteractive(): boolean {
+    return false;
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to set up
+  }
+
+  onEvent(_event: OrchestratorEvent): void {
+    // Events are only recorded in the log file
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await -- Async for API consistency with UIAdapter interface
+  async requestPermissionApproval(
+    request: PermissionRequest,
+    stepNumber: number,
+  ): Promise<boolean> {
+    const approved = this.permissionPolicy.approves(request);
+    getLogger()?.info(
+      this.getName(),
+      `Permission request for step ${stepNumber} ${approved ? 'approved' : 'denied'} by policy: ${this.permissionPolicy.describe()}`,
+    );
+    return approved;
+  }
+
+  async shutdown(): Promise<void> {
+    // Nothing to tear down
+  }
+
+  protected writeLine(line: string): void {
+    this.output.write(`${line}\n`);
+  }
+}
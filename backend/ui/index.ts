@@ -1,2 +1,6 @@
-export { UIAdapter, UIAdapterConfig } from './ui-adapter.js';
+export { UIAdapter, UIAdapterConfig, UIMode, UI_MODES } from './ui-adapter.js';
 export { TUIAdapter } from './tui-adapter.js';
+export { HeadlessUIAdapter, HeadlessUIAdapterConfig } from './headless-adapter.js';
+export { PlainUIAdapter } from './plain-adapter.js';
+export { JsonUIAdapter } from './json-adapter.js';
+export { PermissionPolicy } from './permission-policy.js';
@@ -0,0 +1,16 @@
+import type { OrchestratorEvent } from '../events.js';
+
+import { HeadlessUIAdapter } from './headless-adapter.js';
+
+/**
+ * Writes every orchestrator event as one JSON object per line (NDJSON).
+ */
+export class JsonUIAdapter extends HeadlessUIAdapter {
+  getName(): string {
+    return 'JSON';
+  }
+
+  onEvent(event: OrchestratorEvent): void {
+    this.writeLine(JSON.stringify(event));
+  }
+}
@@ -0,0 +1,51 @@
+import type { PermissionRequest } from '../permission-requests.js';
+
+const matchesEntry = (permission: string, entry: string): boolean => {
+  const [first, ...rest] = entry.split('*');
+  if (rest.length === 0) {
+    return permission === entry;
+  }
+  if (!permission.startsWith(first)) {
+    return false;
+  }
+
+  const last = rest.pop() ?? '';
+  let position = first.length;
+  for (const segment of rest) {
+    const index = permission.indexOf(segment, position);
+    if (index === -1) {
+      return false;
+    }
+    position = index + segment.length;
+  }
+
+  return permission.length - last.length >= position && permission.endsWith(last);
+};
+
+/**
+ * Decides permission requests without asking anyone. A request is approved
+ * only when every requested permission matches an allowlist entry; `*` in an
+ * entry matches any text. An empty allowlist denies everything.
+ */
+export class PermissionPolicy {
+  private allowlist: string[];
+
+  constructor(allowlist: string[] = []) {
+    this.allowlist = allowlist;
+  }
+
+  isAllowed(permission: string): boolean {
+    return this.allowlist.some((entry) => matchesEntry(permission, entry));
+  }
+
+  approves(request: PermissionRequest): boolean {
+    return request.permissions.length > 0
+      && request.permissions.every((permission) => this.isAllowed(permission));
+  }
+
+  describe(): string {
+    return this.allowlist.length > 0
+      ? `auto-approve from allowlist (${this.allowlist.join(', ')})`
+      : 'auto-deny';
+  }
+}
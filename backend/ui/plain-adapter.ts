@@ -0,0 +1,61 @@
+import type { OrchestratorEvent } from '../events.js';
+import type { PermissionRequest } from '../permission-requests.js';
+
+import { HeadlessUIAdapter } from './headless-adapter.js';
+
+const LEVEL_PREFIXES: Record<string, string> = {
+  info: '',
+  success: '',
+  warn: 'WARN ',
+  error: 'ERROR ',
+};
+
+const formatTime = (timestamp: number): string => new Date(timestamp).toISOString().substring(11, 19);
+
+/**
+ * Prints orchestrator logs as plain timestamped lines, for CI jobs and dumb
+ * terminals.
+ */
+export class PlainUIAdapter extends HeadlessUIAdapter {
+  getName(): string {
+    return 'Plain';
+  }
+
+  onEvent(event: OrchestratorEvent): void {
+    switch (event.type) {
+      case 'log': {
+        if (!event.message.trim()) {
+          return;
+        }
+        const stepPrefix = event.stepNumber !== undefined ? `[step ${event.stepNumber}] ` : '';
+        this.writeLine(
+          `[${formatTime(event.timestamp)}] ${LEVEL_PREFIXES[event.level]}${stepPrefix}${event.message}`
+        );
+        return;
+      }
+      case 'error':
+        this.writeLine(`[${formatTime(event.timestamp)}] ERROR ${event.error}`);
+        return;
+      case 'agent_stalled':
+        this.writeLine(
+          `[${formatTime(event.timestamp)}] WARN ${event.agent} produced no output and no file changes ` +
+          `for ${event.idleMinutes} minutes; stopping it`
+        );
+        return;
+      default:
+        return;
+    }
+  }
+
+  async requestPermissionApproval(
+    request: PermissionRequest,
+    stepNumber: number,
+  ): Promise<boolean> {
+    const approved = await super.requestPermissionApproval(request, stepNumber);
+    this.writeLine(
+      `[${formatTime(Date.now())}] Permission request ${approved ? 'approved' : 'denied'} ` +
+      `(${this.permissionPolicy.describe()}): ${request.permissions.join(', ')}`
+    );
+    return approved;
+  }
+}
@@ -12,10 +12,15 @@ import type { OrchestratorEvent } from '../events.js';
 import { getLogger } from '../logger.js';
 import type { Iteration, Issue } from '../models.js';
 import type { PermissionRequest } from '../permission-requests.js';
+import { describePlanEdit, PlanEditor } from '../plan-editor.js';
+import type { PlanEdit } from '../plan-editor.js';
+import { resolveCommit, StepActions } from '../step-actions.js';
+import type { StepAction } from '../step-actions.js';
+import type { StepApprovalDecision, StepApprovalRequest } from '../step-approval.js';
 import type { StopController } from '../stop-controller.js';
 import type { Storage } from '../storage.js';
 import { initialState } from '../tui/types.js';
-import type { TUIState} from '../tui/types.js';
+import type { LiveTailLine, TUIState} from '../tui/types.js';
 
 import type { UIAdapter, UIAdapterConfig } from './ui-adapter.js';
 
@@ -33,6 +38,8 @@ type AppComponent = ReactTypes.FC<{
   state: TUIState;
   onStateChange: () => void;
   onRequestStopAfterStep: () => void;
+  onEditPlan: (edit: PlanEdit) => void;
+  onStepAction: (action: StepAction, stepNumber: number) => void;
 }>;
 type ConsoleMethodName = 'log' | 'info' | 'warn' | 'error' | 'debug';
 type ConsoleMethod = (...args: unknown[]) => void;
@@ -40,6 +47,7 @@ type ConsoleMethod = (...args: unknown[]) => void;
 const RERENDER_THROTTLE_MS = 33; // ~30fps max
 const DEFAULT_TUI_MAX_FPS = 20;
 const RENDER_LOG_INTERVAL_MS = 2000;
+const MAX_LIVE_TAIL_LINES = 50;
 const TUI_INCREMENTAL_RENDERING = process.env.STEPCAT_TUI_INCREMENTAL !== 'false';
 const TUI_RENDER_DEBUG = process.env.STEPCAT_TUI_RENDER_DEBUG === '1';
 const TUI_CAPTURE_CONSOLE = process.env.STEPCAT_TUI_CAPTURE_CONSOLE !== 'false';
@@ -70,6 +78,8 @@ export class TUIAdapter implements UIAdapter {
   private inkInstance: InkInstance | null = null;
   private storage?: Storage;
   private stopController?: StopController;
+  private planEditor?: PlanEditor;
+  private stepActions?: StepActions;
   private ink: InkModule | null = null;
   private React: ReactModule | null = null;
   private App: AppComponent | null = null;
@@ -82,6 +92,14 @@ export class TUIAdapter implements UIAdapter {
     | null = null;
   private originalConsoleMethods: Partial<Record<ConsoleMethodName, ConsoleMethod>> | null = null;
 
+  private loadTimelines(iterations: Iteration[]): void {
+    if (!this.storage) return;
+
+    for (const iteration of iterations) {
+      this.state.timelines.set(iteration.id, this.storage.getTimeline(iteration.id));
+    }
+  }
+
   private refreshIteration(iterationId: number): void {
     if (!this.storage) return;
 
@@ -98,6 +116,8 @@ export class TUIAdapter implements UIAdapter {
     this.state = { ...initialState };
     this.storage = config.storage;
     this.stopController = config.stopController;
+    this.planEditor = config.storage ? new PlanEditor(config.storage) : undefined;
+    this.stepActions = config.storage ? new StepActions(config.storage) : undefined;
   }
 
   getName(): string {
@@ -152,6 +172,8 @@ export class TUIAdapter implements UIAdapter {
         state: this.state,
         onStateChange: this.rerender.bind(this),
         onRequestStopAfterStep: this.requestStopAfterStep.bind(this),
+        onEditPlan: this.editPlan.bind(this),
+        onStepAction: this.runStepAction.bind(this),
       }),
       renderOptions
     );
@@ -168,6 +190,8 @@ export class TUIAdapter implements UIAdapter {
             this.state.steps = executionState.steps;
             this.state.iterations.clear();
             this.state.issues.clear();
+            this.state.timelines.clear();
+            this.loadTimelines(executionState.iterations);
 
             const iterationsByStep = new Map<number, Iteration[]>();
             const issuesByIteration = new Map<number, Issue[]>();
@@ -209,6 +233,8 @@ export class TUIAdapter implements UIAdapter {
 
         this.state.iterations.clear();
         this.state.issues.clear();
+        this.state.timelines.clear();
+        this.loadTimelines(event.iterations);
 
         event.steps.forEach(step => {
           const stepIterations = event.iterations.filter(i => i.stepId === step.id);
@@ -249,11 +275,13 @@ export class TUIAdapter implements UIAdapter {
         break;
 
       case 'iteration_complete':
+        this.state.liveTail = null;
         if (this.storage) {
           const step = this.state.steps.find(s => s.id === event.stepId);
           if (step) {
             const iterations = this.storage.getIterations(step.id);
             this.state.iterations.set(step.id, iterations);
+            this.loadTimelines(iterations);
           }
         }
         break;
@@ -266,7 +294,36 @@ export class TUIAdapter implements UIAdapter {
         break;
 
       case 'codex_review_start':
+        this.refreshIteration(event.iterationId);
+        break;
+
       case 'codex_review_complete':
+        this.state.liveTail = null;
+        this.refreshIteration(event.iterationId);
+        break;
+
+      case 'agent_output':
+        this.appendLiveTail(
+          event.agent,
+          stripAnsi(event.text)
+            .split(/\r?\n/)
+            .filter(line => line.trim())
+            .map(line => ({ level: 'info', message: line, timestamp: event.timestamp })),
+        );
+        break;
+
+      case 'agent_tool_call':
+        this.appendLiveTail(event.agent, [{
+          level: 'tool',
+          message: event.summary ? `${event.tool}: ${stripAnsi(event.summary)}` : event.tool,
+          timestamp: event.timestamp,
+        }]);
+        break;
+
+      case 'step_approval':
+        if (event.status === 'waiting') {
+          this.state.currentPhase = `Step ${event.stepNumber} - Waiting for approval`;
+        }
         this.refreshIteration(event.iterationId);
         break;
 
@@ -309,8 +366,17 @@ export class TUIAdapter implements UIAdapter {
         this.state.error = event.error;
         break;
 
+      case 'agent_stalled':
+        this.appendLog({
+          level: 'warn',
+          message: `${event.agent} produced no output and no file changes for ${event.idleMinutes} minutes; stopping it`,
+          timestamp: event.timestamp,
+        });
+        break;
+
       case 'all_complete':
         this.state.isComplete = true;
+        this.state.liveTail = null;
         this.state.currentPhase = '';
         break;
     }
@@ -342,6 +408,8 @@ export class TUIAdapter implements UIAdapter {
             state: this.state,
             onStateChange: this.rerender.bind(this),
             onRequestStopAfterStep: this.requestStopAfterStep.bind(this),
+            onEditPlan: this.editPlan.bind(this),
+            onStepAction: this.runStepAction.bind(this),
           }),
           this.renderOptions
         );
@@ -392,6 +460,8 @@ export class TUIAdapter implements UIAdapter {
           state: this.state,
           onStateChange: this.rerender.bind(this),
           onRequestStopAfterStep: this.requestStopAfterStep.bind(this),
+          onEditPlan: this.editPlan.bind(this),
+          onStepAction: this.runStepAction.bind(this),
         })
       );
     }
@@ -404,6 +474,14 @@ export class TUIAdapter implements UIAdapter {
     }
   }
 
+  private appendLiveTail(agent: string, lines: LiveTailLine[]): void {
+    const previous = this.state.liveTail?.lines ?? [];
+    this.state.liveTail = {
+      agent,
+      lines: [...previous, ...lines].slice(-MAX_LIVE_TAIL_LINES),
+    };
+  }
+
   private requestStopAfterStep(): void {
     if (!this.stopController || this.stopController.isStopAfterStepRequested()) {
       return;
@@ -421,6 +499,86 @@ export class TUIAdapter implements UIAdapter {
     this.rerender();
   }
 
+  private editPlan(edit: PlanEdit): void {
+    if (!this.planEditor || !this.state.plan) {
+      return;
+    }
+
+    try {
+      this.state.steps = this.planEditor.apply(this.state.plan.id, edit);
+      if (edit.type === 'move') {
+        const offset = edit.direction === 'up' ? -1 : 1;
+        this.state.selectedStepIndex = Math.max(0, this.state.selectedStepIndex + offset);
+      }
+      this.state.selectedStepIndex = Math.min(this.state.selectedStepIndex, Math.max(0, this.state.steps.length - 1));
+
+      const message = describePlanEdit(edit);
+      this.state.planEditorMessage = { level: 'info', text: message };
+      getLogger()?.info('TUI', `Plan edited: ${message}`);
+      this.appendLog({ level: 'info', message: `Plan edited: ${message}`, timestamp: Date.now() });
+    } catch (error) {
+      this.state.planEditorMessage = {
+        level: 'error',
+        text: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    this.rerender();
+  }
+
+  private runStepAction(action: StepAction, stepNumber: number): void {
+    const plan = this.state.plan;
+    if (!this.stepActions || !this.storage || !plan) {
+      return;
+    }
+
+    const step = this.state.steps.find((s) => s.stepNumber === stepNumber);
+    if (step?.status === 'in_progress') {
+      // The orchestrator owns a running step; use the CLI once it has stopped
+      this.state.planEditorMessage = {
+        level: 'error',
+        text: `Step ${stepNumber} is running and cannot be changed until it stops`,
+      };
+      this.rerender();
+      return;
+    }
+
+    try {
+      let message: string;
+      switch (action) {
+        case 'skip':
+          this.stepActions.skip(plan.id, stepNumber, 'tui');
+          message = `Skipped step ${stepNumber}`;
+          break;
+        case 'retry':
+          this.stepActions.retry(plan.id, stepNumber, 'tui');
+          message = `Reset step ${stepNumber} to pending`;
+          break;
+        case 'complete': {
+          const commitSha = resolveCommit(plan.workDir);
+          this.stepActions.complete(plan.id, stepNumber, commitSha, 'tui');
+          message = `Completed step ${stepNumber} with commit ${commitSha.substring(0, 7)}`;
+          break;
+        }
+      }
+
+      this.state.steps = this.storage.getSteps(plan.id);
+      if (step) {
+        this.state.iterations.set(step.id, this.storage.getIterations(step.id));
+      }
+      this.state.planEditorMessage = { level: 'info', text: message };
+      getLogger()?.info('TUI', `Step action: ${message}`);
+      this.appendLog({ level: 'info', message, timestamp: Date.now() });
+    } catch (error) {
+      this.state.planEditorMessage = {
+        level: 'error',
+        text: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    this.rerender();
+  }
+
   private logRenderMetrics(metrics: RenderMetrics, renderOptions: RenderOptions): void {
     if (!this.renderLogState) {
       return;
@@ -487,6 +645,29 @@ export class TUIAdapter implements UIAdapter {
     });
   }
 
+  async requestStepApproval(request: StepApprovalRequest): Promise<StepApprovalDecision> {
+    return new Promise((resolve) => {
+      const previousViewMode = this.state.viewMode;
+      this.state.approvalPrompt = {
+        request,
+        scrollOffset: 0,
+        feedback: '',
+        editingFeedback: false,
+        previousViewMode,
+        onDecision: (decision: StepApprovalDecision) => {
+          this.state.approvalPrompt = null;
+          this.state.viewMode = previousViewMode;
+          this.state.stateVersion++;
+          this.rerender();
+          resolve(decision);
+        },
+      };
+      this.state.viewMode = 'approval_prompt';
+      this.state.stateVersion++;
+      this.rerender();
+    });
+  }
+
   // eslint-disable-next-line @typescript-eslint/require-await -- Async for API consistency with UIAdapter interface
   async shutdown(): Promise<void> {
     if (this.rerenderTimer) {
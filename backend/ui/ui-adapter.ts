@@ -1,8 +1,13 @@
 import type { OrchestratorEvent } from '../events.js';
 import type { PermissionRequest } from '../permission-requests.js';
+import type { StepApprovalDecision, StepApprovalRequest } from '../step-approval.js';
 import type { StopController } from '../stop-controller.js';
 import type { Storage } from '../storage.js';
 
+export type UIMode = 'tui' | 'plain' | 'json' | 'none';
+
+export const UI_MODES: readonly UIMode[] = ['tui', 'plain', 'json', 'none'];
+
 export interface UIAdapterConfig {
   storage?: Storage;
   stopController?: StopController;
@@ -17,8 +22,14 @@ export interface UIAdapter {
 
   getName(): string;
 
+  /** Whether permission approval needs a user at a TTY (default: true). */
+  isInteractive?(): boolean;
+
   requestPermissionApproval?: (
     request: PermissionRequest,
     stepNumber: number,
   ) => Promise<boolean>;
+
+  /** Asks a human to accept a step whose automated review passed. */
+  requestStepApproval?: (request: StepApprovalRequest) => Promise<StepApprovalDecision>;
 }
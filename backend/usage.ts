@@ -0,0 +1,93 @@
+import type { Iteration } from './models.js';
+
+/** Tokens consumed by one or more agent runs and their estimated cost in USD. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+/** Prices in USD per million tokens. */
+export interface TokenPricing {
+  input: number;
+  cachedInput: number;
+  output: number;
+}
+
+/**
+ * Codex does not report cost, so it is estimated from the published list
+ * prices of its default model.
+ */
+export const CODEX_PRICING: TokenPricing = {
+  input: 1.25,
+  cachedInput: 0.125,
+  output: 10,
+};
+
+export const EMPTY_USAGE: TokenUsage = {
+  inputTokens: 0,
+  outputTokens: 0,
+  costUsd: 0,
+};
+
+export const addUsage = (...usages: Array<TokenUsage | undefined>): TokenUsage => {
+  return usages.reduce<TokenUsage>(
+    (total, usage) => usage
+      ? {
+          inputTokens: total.inputTokens + usage.inputTokens,
+          outputTokens: total.outputTokens + usage.outputTokens,
+          costUsd: total.costUsd + usage.costUsd,
+        }
+      : total,
+    EMPTY_USAGE,
+  );
+};
+
+export const getIterationUsage = (iteration: Iteration): TokenUsage => ({
+  inputTokens: iteration.inputTokens,
+  outputTokens: iteration.outputTokens,
+  costUsd: iteration.costUsd,
+});
+
+export const sumIterationUsage = (iterations: Iteration[]): TokenUsage => {
+  return addUsage(...iterations.map(getIterationUsage));
+};
+
+export const hasUsage = (usage: TokenUsage): boolean => {
+  return usage.inputTokens > 0 || usage.outputTokens > 0 || usage.costUsd > 0;
+};
+
+/**
+ * Estimates the cost of a run. `cachedInputTokens` is the part of
+ * `inputTokens` that was served from the prompt cache.
+ */
+export const estimateCost = (
+  pricing: TokenPricing,
+  inputTokens: number,
+  cachedInputTokens: number,
+  outputTokens: number,
+): number => {
+  const uncachedInputTokens = Math.max(0, inputTokens - cachedInputTokens);
+  return (
+    uncachedInputTokens * pricing.input
+    + cachedInputTokens * pricing.cachedInput
+    + outputTokens * pricing.output
+  ) / 1_000_000;
+};
+
+export const formatTokenCount = (tokens: number): string => {
+  if (tokens >= 1_000_000) {
+    return `${(tokens / 1_000_000).toFixed(1)}M`;
+  }
+  if (tokens >= 1_000) {
+    return `${(tokens / 1_000).toFixed(1)}k`;
+  }
+  return String(tokens);
+};
+
+export const formatCost = (costUsd: number): string => `$${costUsd.toFixed(2)}`;
+
+/** Formats usage as e.g. "12.3k in / 1.5k out, $0.42". */
+export const formatUsage = (usage: TokenUsage): string => {
+  return `${formatTokenCount(usage.inputTokens)} in / ${formatTokenCount(usage.outputTokens)} out, ${formatCost(usage.costUsd)}`;
+};